@@ -0,0 +1,13 @@
+CREATE TABLE `gazetteer` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`normalized_name` text NOT NULL,
+	`region` text,
+	`country` text NOT NULL,
+	`country_code` text NOT NULL,
+	`latitude` real NOT NULL,
+	`longitude` real NOT NULL,
+	`population` integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `gazetteer_normalized_name_idx` ON `gazetteer` (`normalized_name`);
\ No newline at end of file
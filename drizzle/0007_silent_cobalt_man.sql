@@ -0,0 +1,97 @@
+CREATE TABLE `transit_calendar_dates` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`service_id` text NOT NULL,
+	`date` text NOT NULL,
+	`exception_type` integer NOT NULL,
+	FOREIGN KEY (`feed_id`) REFERENCES `transit_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `transit_calendars` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`service_id` text NOT NULL,
+	`days` text NOT NULL,
+	`start_date` text NOT NULL,
+	`end_date` text NOT NULL,
+	FOREIGN KEY (`feed_id`) REFERENCES `transit_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `transit_fare_attributes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`fare_id` text NOT NULL,
+	`price` real NOT NULL,
+	`currency` text NOT NULL,
+	`transfers` integer,
+	`transfer_duration` integer,
+	FOREIGN KEY (`feed_id`) REFERENCES `transit_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `transit_fare_rules` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`fare_id` text NOT NULL,
+	`route_id` text,
+	`origin_id` text,
+	`destination_id` text,
+	FOREIGN KEY (`feed_id`) REFERENCES `transit_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `transit_feeds` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`timezone` text,
+	`imported_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `transit_feeds_name_unique` ON `transit_feeds` (`name`);--> statement-breakpoint
+CREATE TABLE `transit_routes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`route_id` text NOT NULL,
+	`short_name` text,
+	`long_name` text,
+	`route_type` integer NOT NULL,
+	FOREIGN KEY (`feed_id`) REFERENCES `transit_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `transit_routes_feed_route_idx` ON `transit_routes` (`feed_id`,`route_id`);--> statement-breakpoint
+CREATE TABLE `transit_stop_times` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`trip_id` text NOT NULL,
+	`stop_id` text NOT NULL,
+	`stop_sequence` integer NOT NULL,
+	`arrival_time` integer NOT NULL,
+	`departure_time` integer NOT NULL,
+	FOREIGN KEY (`feed_id`) REFERENCES `transit_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `transit_stop_times_feed_trip_idx` ON `transit_stop_times` (`feed_id`,`trip_id`,`stop_sequence`);--> statement-breakpoint
+CREATE INDEX `transit_stop_times_feed_departure_idx` ON `transit_stop_times` (`feed_id`,`departure_time`);--> statement-breakpoint
+CREATE TABLE `transit_stops` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`stop_id` text NOT NULL,
+	`name` text NOT NULL,
+	`latitude` real NOT NULL,
+	`longitude` real NOT NULL,
+	`zone_id` text,
+	FOREIGN KEY (`feed_id`) REFERENCES `transit_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `transit_stops_feed_stop_idx` ON `transit_stops` (`feed_id`,`stop_id`);--> statement-breakpoint
+CREATE INDEX `transit_stops_location_idx` ON `transit_stops` (`latitude`,`longitude`);--> statement-breakpoint
+CREATE TABLE `transit_trips` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`feed_id` integer NOT NULL,
+	`trip_id` text NOT NULL,
+	`route_id` text NOT NULL,
+	`service_id` text NOT NULL,
+	`headsign` text,
+	FOREIGN KEY (`feed_id`) REFERENCES `transit_feeds`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `transit_trips_feed_trip_idx` ON `transit_trips` (`feed_id`,`trip_id`);--> statement-breakpoint
+CREATE INDEX `transit_trips_feed_service_idx` ON `transit_trips` (`feed_id`,`service_id`);
\ No newline at end of file
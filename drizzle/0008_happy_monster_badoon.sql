@@ -0,0 +1,12 @@
+CREATE TABLE `airports` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`iata_code` text NOT NULL,
+	`name` text NOT NULL,
+	`city` text NOT NULL,
+	`country_code` text NOT NULL,
+	`latitude` real NOT NULL,
+	`longitude` real NOT NULL,
+	`size` text DEFAULT 'large' NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `airports_iata_code_unique` ON `airports` (`iata_code`);
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TABLE `exchange_rates` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`currency` text NOT NULL,
+	`per_usd` real NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `exchange_rates_currency_unique` ON `exchange_rates` (`currency`);--> statement-breakpoint
+CREATE TABLE `regional_prices` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`region` text NOT NULL,
+	`currency` text NOT NULL,
+	`petrol_price` real NOT NULL,
+	`diesel_price` real NOT NULL,
+	`lpg_price` real,
+	`electricity_price` real NOT NULL,
+	`toll_per_km` real DEFAULT 0 NOT NULL,
+	`parking_per_hour` real DEFAULT 0 NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `regional_prices_region_unique` ON `regional_prices` (`region`);--> statement-breakpoint
+CREATE TABLE `vehicle_profiles` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`fuel_type` text NOT NULL,
+	`consumption` real NOT NULL,
+	`is_default` integer DEFAULT false NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
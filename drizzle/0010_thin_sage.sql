@@ -0,0 +1,38 @@
+CREATE TABLE `group_cost_splits` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`group_id` integer NOT NULL,
+	`method` text NOT NULL,
+	`status` text DEFAULT 'active' NOT NULL,
+	`payer_id` text NOT NULL,
+	`currency` text NOT NULL,
+	`total_cost` real NOT NULL,
+	`cost_breakdown` text,
+	`shares` text NOT NULL,
+	`created_by` text NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`group_id`) REFERENCES `groups`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`payer_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`created_by`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `group_cost_splits_group_idx` ON `group_cost_splits` (`group_id`,`status`);--> statement-breakpoint
+CREATE TABLE `group_ledger_entries` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`group_id` integer NOT NULL,
+	`split_id` integer,
+	`type` text NOT NULL,
+	`from_user_id` text NOT NULL,
+	`to_user_id` text NOT NULL,
+	`amount` real NOT NULL,
+	`currency` text NOT NULL,
+	`note` text,
+	`created_by` text NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`group_id`) REFERENCES `groups`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`split_id`) REFERENCES `group_cost_splits`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`from_user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`to_user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`created_by`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `group_ledger_entries_group_idx` ON `group_ledger_entries` (`group_id`);
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE `speed_profiles` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`road_class` text NOT NULL,
+	`hour_of_week` integer NOT NULL,
+	`multiplier` real NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `speed_profiles_class_hour_idx` ON `speed_profiles` (`road_class`,`hour_of_week`);
\ No newline at end of file
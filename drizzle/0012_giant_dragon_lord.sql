@@ -0,0 +1,19 @@
+CREATE TABLE `cache_entries` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`namespace` text NOT NULL,
+	`key` text NOT NULL,
+	`value` text NOT NULL,
+	`hits` integer DEFAULT 0 NOT NULL,
+	`created_at` text NOT NULL,
+	`expires_at` text NOT NULL,
+	`last_hit_at` text
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `cache_entries_namespace_key_idx` ON `cache_entries` (`namespace`,`key`);--> statement-breakpoint
+CREATE INDEX `cache_entries_expires_idx` ON `cache_entries` (`expires_at`);--> statement-breakpoint
+CREATE TABLE `cache_stats` (
+	`namespace` text PRIMARY KEY NOT NULL,
+	`hits` integer DEFAULT 0 NOT NULL,
+	`misses` integer DEFAULT 0 NOT NULL,
+	`updated_at` text NOT NULL
+);
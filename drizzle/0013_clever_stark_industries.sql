@@ -0,0 +1 @@
+ALTER TABLE `trips` ADD `flexibility_minutes` integer DEFAULT 30 NOT NULL;
\ No newline at end of file
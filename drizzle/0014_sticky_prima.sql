@@ -0,0 +1 @@
+ALTER TABLE `trips` ADD `max_detour_minutes` integer DEFAULT 15 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `trip_cells` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`trip_id` integer NOT NULL,
+	`kind` text NOT NULL,
+	`cell` text NOT NULL,
+	FOREIGN KEY (`trip_id`) REFERENCES `trips`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `trip_cells_kind_cell_idx` ON `trip_cells` (`kind`,`cell`);--> statement-breakpoint
+CREATE INDEX `trip_cells_trip_idx` ON `trip_cells` (`trip_id`);
\ No newline at end of file
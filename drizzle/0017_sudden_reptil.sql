@@ -0,0 +1 @@
+ALTER TABLE `trip_matches` ADD `breakdown` text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `trips` ADD `role` text;--> statement-breakpoint
+ALTER TABLE `trips` ADD `seats_offered` integer;--> statement-breakpoint
+ALTER TABLE `trips` ADD `seats_available` integer;
\ No newline at end of file
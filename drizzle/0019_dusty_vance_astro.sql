@@ -0,0 +1,16 @@
+CREATE TABLE `match_transitions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`trip_match_id` integer NOT NULL,
+	`action` text NOT NULL,
+	`from_status` text NOT NULL,
+	`to_status` text NOT NULL,
+	`actor_user_id` text,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`trip_match_id`) REFERENCES `trip_matches`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`actor_user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `match_transitions_trip_match_id_idx` ON `match_transitions` (`trip_match_id`);--> statement-breakpoint
+ALTER TABLE `trip_matches` ADD `requested_by_trip_id` integer;--> statement-breakpoint
+ALTER TABLE `trip_matches` ADD `expires_at` text;--> statement-breakpoint
+ALTER TABLE `trip_matches` ADD `updated_at` text;
\ No newline at end of file
@@ -0,0 +1,38 @@
+CREATE TABLE `schedule_arrangements` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`schedule_id` integer NOT NULL,
+	`partner_schedule_id` integer NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`schedule_id`) REFERENCES `trip_schedules`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`partner_schedule_id`) REFERENCES `trip_schedules`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `schedule_arrangements_pair_idx` ON `schedule_arrangements` (`schedule_id`,`partner_schedule_id`);--> statement-breakpoint
+CREATE TABLE `trip_schedules` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` text NOT NULL,
+	`source` text NOT NULL,
+	`destination` text NOT NULL,
+	`source_coordinates` text NOT NULL,
+	`destination_coordinates` text NOT NULL,
+	`route_geometry` text,
+	`route_data` text,
+	`travel_time` text NOT NULL,
+	`transport_mode` text NOT NULL,
+	`optimization_mode` text NOT NULL,
+	`match_radius` integer DEFAULT 10 NOT NULL,
+	`flexibility_minutes` integer DEFAULT 30 NOT NULL,
+	`max_detour_minutes` integer DEFAULT 15 NOT NULL,
+	`role` text,
+	`seats_offered` integer,
+	`rrule` text NOT NULL,
+	`start_date` text NOT NULL,
+	`status` text DEFAULT 'active' NOT NULL,
+	`generated_through` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `trips` ADD `schedule_id` integer REFERENCES trip_schedules(id) ON DELETE set null;--> statement-breakpoint
+CREATE UNIQUE INDEX `trips_schedule_date_idx` ON `trips` (`schedule_id`,`travel_date`);
\ No newline at end of file
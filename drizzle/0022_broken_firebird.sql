@@ -0,0 +1,11 @@
+CREATE TABLE `group_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`group_id` integer NOT NULL,
+	`type` text NOT NULL,
+	`message_id` integer,
+	`payload` text NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`group_id`) REFERENCES `groups`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `group_events_group_id_idx` ON `group_events` (`group_id`,`id`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+-- Full-text index over messages.message, kept in sync by triggers --
+CREATE VIRTUAL TABLE `messages_fts` USING fts5(message, content='messages', content_rowid='id', tokenize='unicode61 remove_diacritics 2');
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_insert` AFTER INSERT ON `messages` BEGIN
+	INSERT INTO `messages_fts`(rowid, message) VALUES (new.id, new.message);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_delete` AFTER DELETE ON `messages` BEGIN
+	INSERT INTO `messages_fts`(`messages_fts`, rowid, message) VALUES ('delete', old.id, old.message);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `messages_fts_update` AFTER UPDATE OF `message` ON `messages` BEGIN
+	INSERT INTO `messages_fts`(`messages_fts`, rowid, message) VALUES ('delete', old.id, old.message);
+	INSERT INTO `messages_fts`(rowid, message) VALUES (new.id, new.message);
+END;
+--> statement-breakpoint
+INSERT INTO `messages_fts`(rowid, message) SELECT id, message FROM `messages`;
@@ -0,0 +1,34 @@
+CREATE TABLE `group_read_markers` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`group_id` integer NOT NULL,
+	`user_id` text NOT NULL,
+	`last_read_message_id` integer NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`group_id`) REFERENCES `groups`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `group_read_markers_group_user_idx` ON `group_read_markers` (`group_id`,`user_id`);--> statement-breakpoint
+CREATE TABLE `message_edits` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`message_id` integer NOT NULL,
+	`previous_message` text NOT NULL,
+	`edited_at` text NOT NULL,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `message_edits_message_id_idx` ON `message_edits` (`message_id`);--> statement-breakpoint
+CREATE TABLE `message_reactions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`message_id` integer NOT NULL,
+	`user_id` text NOT NULL,
+	`emoji` text NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `message_reactions_unique_idx` ON `message_reactions` (`message_id`,`user_id`,`emoji`);--> statement-breakpoint
+ALTER TABLE `messages` ADD `reply_to_id` integer REFERENCES messages(id) ON DELETE set null;--> statement-breakpoint
+ALTER TABLE `messages` ADD `edited_at` text;--> statement-breakpoint
+CREATE INDEX `messages_group_id_idx` ON `messages` (`group_id`,`id`);
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE `meeting_point_acceptances` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`message_id` integer NOT NULL,
+	`user_id` text NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `meeting_point_acceptances_message_user_idx` ON `meeting_point_acceptances` (`message_id`,`user_id`);--> statement-breakpoint
+CREATE TABLE `poll_votes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`message_id` integer NOT NULL,
+	`user_id` text NOT NULL,
+	`option_index` integer NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `poll_votes_message_user_idx` ON `poll_votes` (`message_id`,`user_id`);--> statement-breakpoint
+ALTER TABLE `groups` ADD `meeting_point` text;--> statement-breakpoint
+ALTER TABLE `messages` ADD `kind` text DEFAULT 'text' NOT NULL;--> statement-breakpoint
+ALTER TABLE `messages` ADD `payload` text;
\ No newline at end of file
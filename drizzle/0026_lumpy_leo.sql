@@ -0,0 +1,28 @@
+CREATE TABLE `location_points` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`share_id` integer NOT NULL,
+	`lat` real NOT NULL,
+	`lon` real NOT NULL,
+	`accuracy` real,
+	`heading` real,
+	`speed` real,
+	`recorded_at` text NOT NULL,
+	FOREIGN KEY (`share_id`) REFERENCES `location_shares`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `location_points_share_id_idx` ON `location_points` (`share_id`,`recorded_at`);--> statement-breakpoint
+CREATE TABLE `location_shares` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`group_id` integer NOT NULL,
+	`user_id` text NOT NULL,
+	`trip_id` integer NOT NULL,
+	`started_at` text NOT NULL,
+	`expires_at` text NOT NULL,
+	`ended_at` text,
+	`end_reason` text,
+	FOREIGN KEY (`group_id`) REFERENCES `groups`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`trip_id`) REFERENCES `trips`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `location_shares_group_id_idx` ON `location_shares` (`group_id`,`ended_at`);
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { cacheEntries } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { auth, isAdmin } from '@/lib/auth';
+import { CACHE_NAMESPACES, getCacheStats, purgeCache, resetCacheStats, type CacheNamespace } from '@/lib/cache';
+
+// Hit/miss counters per namespace, plus the most recent entries when
+// ?entries=true (filter with ?namespace=, cap with ?limit=, default 50)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json(
+        { error: 'Admin access required', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const namespace = searchParams.get('namespace') as CacheNamespace | null;
+
+    if (namespace && !CACHE_NAMESPACES.includes(namespace)) {
+      return NextResponse.json(
+        { error: `namespace must be one of: ${CACHE_NAMESPACES.join(', ')}`, code: 'INVALID_NAMESPACE' },
+        { status: 400 }
+      );
+    }
+
+    const stats = await getCacheStats();
+
+    if (searchParams.get('entries') !== 'true') {
+      return NextResponse.json({ stats }, { status: 200 });
+    }
+
+    const limit = Math.min(parseInt(searchParams.get('limit') ?? '50') || 50, 500);
+    const entries = await db
+      .select({
+        id: cacheEntries.id,
+        namespace: cacheEntries.namespace,
+        key: cacheEntries.key,
+        hits: cacheEntries.hits,
+        createdAt: cacheEntries.createdAt,
+        expiresAt: cacheEntries.expiresAt,
+        lastHitAt: cacheEntries.lastHitAt,
+      })
+      .from(cacheEntries)
+      .where(namespace ? eq(cacheEntries.namespace, namespace) : undefined)
+      .orderBy(desc(cacheEntries.createdAt))
+      .limit(limit);
+
+    return NextResponse.json({ stats, entries }, { status: 200 });
+  } catch (error) {
+    console.error('GET cache error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Purge entries. ?namespace= limits to one namespace, ?expired=true keeps
+// live entries, ?key= removes one entry, ?resetStats=true zeroes the counters.
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json(
+        { error: 'Admin access required', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const namespace = searchParams.get('namespace') as CacheNamespace | null;
+
+    if (namespace && !CACHE_NAMESPACES.includes(namespace)) {
+      return NextResponse.json(
+        { error: `namespace must be one of: ${CACHE_NAMESPACES.join(', ')}`, code: 'INVALID_NAMESPACE' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await purgeCache({
+      namespace: namespace ?? undefined,
+      expiredOnly: searchParams.get('expired') === 'true',
+      key: searchParams.get('key') ?? undefined,
+    });
+
+    if (searchParams.get('resetStats') === 'true') {
+      await resetCacheStats(namespace ?? undefined);
+    }
+
+    return NextResponse.json(
+      { message: `Purged ${deleted} cache entr${deleted === 1 ? 'y' : 'ies'}`, deleted },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('DELETE cache error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
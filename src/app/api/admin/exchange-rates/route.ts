@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { exchangeRates } from '@/db/schema';
+import { asc } from 'drizzle-orm';
+import { auth, isAdmin } from '@/lib/auth';
+
+// List exchange rates (readable by any signed-in user)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const rates = await db.select().from(exchangeRates).orderBy(asc(exchangeRates.currency));
+
+    return NextResponse.json(rates, { status: 200 });
+  } catch (error) {
+    console.error('GET exchange rates error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Set the rate for a currency, as units per 1 USD (admins only)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json(
+        { error: 'Admin access required', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const currency = typeof body.currency === 'string' ? body.currency.trim().toUpperCase() : '';
+
+    if (!/^[A-Z]{3}$/.test(currency) || currency === 'USD') {
+      return NextResponse.json(
+        { error: 'currency must be a 3-letter ISO code other than USD', code: 'INVALID_CURRENCY' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.perUsd !== 'number' || !(body.perUsd > 0)) {
+      return NextResponse.json(
+        { error: 'perUsd must be a positive number', code: 'INVALID_RATE' },
+        { status: 400 }
+      );
+    }
+
+    const values = {
+      currency,
+      perUsd: body.perUsd,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const saved = await db
+      .insert(exchangeRates)
+      .values(values)
+      .onConflictDoUpdate({ target: exchangeRates.currency, set: values })
+      .returning();
+
+    return NextResponse.json(saved[0], { status: 200 });
+  } catch (error) {
+    console.error('PUT exchange rates error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
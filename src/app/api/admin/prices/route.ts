@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { regionalPrices } from '@/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { auth, isAdmin } from '@/lib/auth';
+
+const REQUIRED_PRICE_FIELDS = ['petrolPrice', 'dieselPrice', 'electricityPrice'] as const;
+const OPTIONAL_PRICE_FIELDS = ['lpgPrice', 'tollPerKm', 'parkingPerHour'] as const;
+
+// List regional prices (readable by any signed-in user)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const prices = await db.select().from(regionalPrices).orderBy(asc(regionalPrices.region));
+
+    return NextResponse.json(prices, { status: 200 });
+  } catch (error) {
+    console.error('GET prices error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Create or replace the prices for a region (admins only)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json(
+        { error: 'Admin access required', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const region = typeof body.region === 'string' ? body.region.trim().toUpperCase() : '';
+    const currency = typeof body.currency === 'string' ? body.currency.trim().toUpperCase() : '';
+
+    if (!region) {
+      return NextResponse.json(
+        { error: "region is required (ISO country code or 'DEFAULT')", code: 'MISSING_REGION' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      return NextResponse.json(
+        { error: 'currency must be a 3-letter ISO code', code: 'INVALID_CURRENCY' },
+        { status: 400 }
+      );
+    }
+
+    for (const field of REQUIRED_PRICE_FIELDS) {
+      if (typeof body[field] !== 'number' || body[field] < 0) {
+        return NextResponse.json(
+          { error: `${field} is required and must be a non-negative number`, code: 'INVALID_PRICE' },
+          { status: 400 }
+        );
+      }
+    }
+
+    for (const field of OPTIONAL_PRICE_FIELDS) {
+      if (body[field] !== undefined && body[field] !== null && (typeof body[field] !== 'number' || body[field] < 0)) {
+        return NextResponse.json(
+          { error: `${field} must be a non-negative number`, code: 'INVALID_PRICE' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const values = {
+      region,
+      currency,
+      petrolPrice: body.petrolPrice,
+      dieselPrice: body.dieselPrice,
+      lpgPrice: body.lpgPrice ?? null,
+      electricityPrice: body.electricityPrice,
+      tollPerKm: body.tollPerKm ?? 0,
+      parkingPerHour: body.parkingPerHour ?? 0,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const saved = await db
+      .insert(regionalPrices)
+      .values(values)
+      .onConflictDoUpdate({ target: regionalPrices.region, set: values })
+      .returning();
+
+    return NextResponse.json(saved[0], { status: 200 });
+  } catch (error) {
+    console.error('PUT prices error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a region's prices (admins only); routes there fall back to DEFAULT
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    if (!isAdmin(session.user)) {
+      return NextResponse.json(
+        { error: 'Admin access required', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const region = request.nextUrl.searchParams.get('region')?.trim().toUpperCase();
+    if (!region) {
+      return NextResponse.json(
+        { error: 'region query parameter is required', code: 'MISSING_REGION' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await db
+      .delete(regionalPrices)
+      .where(eq(regionalPrices.region, region))
+      .returning();
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Region not found', code: 'REGION_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Regional prices deleted successfully', deletedPrices: deleted[0] },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('DELETE prices error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
@@ -1,116 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { groups, groupMembers, trips } from '@/db/schema';
-import { eq, and, inArray } from 'drizzle-orm';
+import { groupMembers } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
 import { auth } from '@/lib/auth';
-
-// Calculate optimal combined route for all group members
-async function calculateCombinedRoute(memberTrips: any[]) {
-  if (memberTrips.length === 0) return null;
-  
-  // Collect all unique waypoints
-  const waypoints: { lat: number; lon: number; type: string; userId: string; location: string }[] = [];
-  
-  for (const trip of memberTrips) {
-    // Add source point
-    if (trip.sourceCoordinates) {
-      const [lat, lon] = trip.sourceCoordinates.split(',').map(parseFloat);
-      waypoints.push({
-        lat,
-        lon,
-        type: 'pickup',
-        userId: trip.userId,
-        location: trip.source
-      });
-    }
-    
-    // Add destination point
-    if (trip.destinationCoordinates) {
-      const [lat, lon] = trip.destinationCoordinates.split(',').map(parseFloat);
-      waypoints.push({
-        lat,
-        lon,
-        type: 'dropoff',
-        userId: trip.userId,
-        location: trip.destination
-      });
-    }
-  }
-  
-  if (waypoints.length === 0) return null;
-  
-  // Sort waypoints to create efficient route
-  // Start with first pickup
-  const pickups = waypoints.filter(w => w.type === 'pickup');
-  const dropoffs = waypoints.filter(w => w.type === 'dropoff');
-  
-  if (pickups.length === 0 || dropoffs.length === 0) return null;
-  
-  // Simple optimization: pickup all passengers first, then drop off at destinations
-  const orderedWaypoints = [...pickups, ...dropoffs];
-  
-  // Build coordinate string for OSRM
-  const coordinatesString = orderedWaypoints
-    .map(wp => `${wp.lon},${wp.lat}`)
-    .join(';');
-  
-  // Get transport mode from first trip
-  const transportMode = memberTrips[0].transportMode || 'car';
-  const profile = mapToOSRMProfile(transportMode);
-  
-  try {
-    // Calculate route using OSRM
-    const osrmUrl = `https://router.project-osrm.org/route/v1/${profile}/${coordinatesString}?overview=full&geometries=geojson&steps=true`;
-    
-    const response = await fetch(osrmUrl, {
-      headers: {
-        'User-Agent': 'TravelCompanionApp/1.0',
-      },
-    });
-    
-    if (!response.ok) {
-      console.error('OSRM API error:', response.statusText);
-      return null;
-    }
-    
-    const data = await response.json();
-    
-    if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) {
-      console.error('OSRM error:', data.code);
-      return null;
-    }
-    
-    const route = data.routes[0];
-    
-    // Convert GeoJSON coordinates from [lon, lat] to [lat, lon]
-    const coordinates: [number, number][] = route.geometry.coordinates.map(
-      (coord: [number, number]) => [coord[1], coord[0]]
-    );
-    
-    return {
-      coordinates,
-      distance: route.distance,
-      duration: route.duration,
-      waypoints: orderedWaypoints,
-      transportMode
-    };
-  } catch (error) {
-    console.error('Combined route calculation error:', error);
-    return null;
-  }
-}
-
-function mapToOSRMProfile(mode: string): string {
-  const modeMap: Record<string, string> = {
-    car: 'car',
-    cycling: 'bike',
-    walking: 'foot',
-    bus: 'car',
-    train: 'car',
-    flight: 'car',
-  };
-  return modeMap[mode] || 'car';
-}
+import { calculateCombinedRoute, getGroupMeetingPoint, getGroupMemberTrips } from '@/lib/groups';
 
 export async function GET(request: NextRequest) {
   try {
@@ -158,24 +51,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get all members of the group
-    const members = await db
-      .select()
-      .from(groupMembers)
-      .where(eq(groupMembers.groupId, groupId));
-
-    const memberUserIds = members.map(m => m.userId);
-
-    // Get all trips from group members
-    const memberTrips = await db
-      .select()
-      .from(trips)
-      .where(
-        and(
-          inArray(trips.userId, memberUserIds),
-          eq(trips.status, 'active')
-        )
-      );
+    // The active trips riding together in this group
+    const memberTrips = await getGroupMemberTrips(groupId);
 
     if (memberTrips.length === 0) {
       return NextResponse.json(
@@ -185,7 +62,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Calculate combined route
-    const combinedRoute = await calculateCombinedRoute(memberTrips);
+    const combinedRoute = await calculateCombinedRoute(memberTrips, await getGroupMeetingPoint(groupId));
 
     if (!combinedRoute) {
       return NextResponse.json(
@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { groupMembers } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { calculateCombinedRoute, getGroupMeetingPoint, getGroupMemberTrips } from '@/lib/groups';
+import {
+  DEFAULT_VEHICLE,
+  createCostContext,
+  estimateTripCost,
+  getPreferredCurrency,
+  getVehicleProfile,
+  resolveRegion,
+} from '@/lib/costs';
+import {
+  SPLIT_METHODS,
+  computeBalances,
+  getActiveSplit,
+  getLedgerEntries,
+  recordCostSplit,
+  splitRouteCost,
+  type SplitMethod,
+} from '@/lib/ledger';
+
+// Group ID from /api/groups/[id]/costs
+function parseGroupId(request: NextRequest): number | null {
+  const groupIdParam = request.nextUrl.pathname.split('/')[3];
+  if (!groupIdParam || isNaN(parseInt(groupIdParam))) return null;
+  return parseInt(groupIdParam);
+}
+
+// Current split, outstanding balances and the ledger entries behind them
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const groupId = parseGroupId(request);
+    if (groupId === null) {
+      return NextResponse.json(
+        { error: 'Valid group ID is required', code: 'INVALID_GROUP_ID' },
+        { status: 400 }
+      );
+    }
+
+    const members = await db.select().from(groupMembers).where(eq(groupMembers.groupId, groupId));
+    if (!members.some(m => m.userId === session.user.id)) {
+      return NextResponse.json(
+        { error: 'You are not a member of this group', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const split = await getActiveSplit(groupId);
+    const entries = await getLedgerEntries(groupId, split?.id ?? null);
+
+    return NextResponse.json({
+      split,
+      balances: split ? await computeBalances(entries, split.currency) : [],
+      entries,
+    }, { status: 200 });
+  } catch (error) {
+    console.error('GET group costs error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Price the group's combined route and split the fuel and toll cost (group admins only).
+// Body: { method: 'equal' | 'distance' | 'custom', customShares?: { [userId]: weight },
+//         payerId?: string, currency?: string }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const groupId = parseGroupId(request);
+    if (groupId === null) {
+      return NextResponse.json(
+        { error: 'Valid group ID is required', code: 'INVALID_GROUP_ID' },
+        { status: 400 }
+      );
+    }
+
+    const members = await db.select().from(groupMembers).where(eq(groupMembers.groupId, groupId));
+    const membership = members.find(m => m.userId === userId);
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'You are not a member of this group', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    if (membership.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin access required', code: 'ADMIN_ACCESS_REQUIRED' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const method: SplitMethod = body.method ?? 'distance';
+    const payerId: string = body.payerId ?? userId;
+    const memberIds = members.map(m => m.userId);
+
+    if (!SPLIT_METHODS.includes(method)) {
+      return NextResponse.json(
+        { error: `method must be one of: ${SPLIT_METHODS.join(', ')}`, code: 'INVALID_METHOD' },
+        { status: 400 }
+      );
+    }
+
+    if (!memberIds.includes(payerId)) {
+      return NextResponse.json(
+        { error: 'payerId must be a member of this group', code: 'INVALID_PAYER' },
+        { status: 400 }
+      );
+    }
+
+    let customShares: Record<string, number> | undefined;
+    if (method === 'custom') {
+      customShares = body.customShares;
+      const entries = customShares && typeof customShares === 'object' ? Object.entries(customShares) : [];
+      const invalid = entries.some(([memberId, weight]) =>
+        !memberIds.includes(memberId) || typeof weight !== 'number' || weight < 0
+      );
+      if (entries.length === 0 || invalid || entries.every(([, weight]) => weight === 0)) {
+        return NextResponse.json(
+          {
+            error: 'customShares must map group member IDs to non-negative weights, at least one positive',
+            code: 'INVALID_CUSTOM_SHARES',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const memberTrips = await getGroupMemberTrips(groupId);
+    const combinedRoute = await calculateCombinedRoute(memberTrips, await getGroupMeetingPoint(groupId));
+    if (!combinedRoute) {
+      return NextResponse.json(
+        { error: 'Failed to calculate combined route', code: 'CALCULATION_FAILED' },
+        { status: 422 }
+      );
+    }
+
+    // The payer's vehicle drives the combined route
+    const vehicle = await getVehicleProfile(payerId) ?? DEFAULT_VEHICLE;
+    const start = combinedRoute.waypoints[0];
+    const costContext = await createCostContext(
+      await resolveRegion([start.lat, start.lon]),
+      vehicle,
+      body.currency || await getPreferredCurrency(payerId)
+    );
+    const costBreakdown = await estimateTripCost(costContext, {
+      distance: combinedRoute.distance,
+      duration: combinedRoute.duration,
+      mode: combinedRoute.transportMode,
+      instructions: combinedRoute.legs.flatMap(leg => leg.instructions),
+    });
+
+    // Only running costs are shared; parking and fares are personal
+    const totalCost = Math.round(costBreakdown.items
+      .filter(item => item.type === 'fuel' || item.type === 'electricity' || item.type === 'toll')
+      .reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+
+    const shares = splitRouteCost(combinedRoute, totalCost, method, memberIds, payerId, customShares);
+
+    const split = await recordCostSplit({
+      groupId,
+      method,
+      payerId,
+      currency: costBreakdown.currency,
+      totalCost,
+      costBreakdown,
+      shares,
+      createdBy: userId,
+    });
+    const entries = await getLedgerEntries(groupId, split.id);
+
+    return NextResponse.json({
+      split,
+      balances: await computeBalances(entries, split.currency),
+      entries,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('POST group costs error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { groupMembers } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { computeBalances, getActiveSplit, getLedgerEntries, recordSettlement } from '@/lib/ledger';
+
+// Mark a debt as settled. Either side of the debt or a group admin may record it.
+// Body: { fromUserId, toUserId, amount?, note? } — amount defaults to the full outstanding balance
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+    const groupIdParam = request.nextUrl.pathname.split('/')[3];
+    if (!groupIdParam || isNaN(parseInt(groupIdParam))) {
+      return NextResponse.json(
+        { error: 'Valid group ID is required', code: 'INVALID_GROUP_ID' },
+        { status: 400 }
+      );
+    }
+    const groupId = parseInt(groupIdParam);
+
+    const members = await db.select().from(groupMembers).where(eq(groupMembers.groupId, groupId));
+    const membership = members.find(m => m.userId === userId);
+    if (!membership) {
+      return NextResponse.json(
+        { error: 'You are not a member of this group', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const { fromUserId, toUserId, amount, note } = await request.json();
+
+    if (membership.role !== 'admin' && userId !== fromUserId && userId !== toUserId) {
+      return NextResponse.json(
+        { error: 'Only the members involved or a group admin can settle this debt', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const split = await getActiveSplit(groupId);
+    if (!split) {
+      return NextResponse.json(
+        { error: 'No cost split has been calculated for this group', code: 'NO_SPLIT' },
+        { status: 404 }
+      );
+    }
+
+    const balances = await computeBalances(await getLedgerEntries(groupId, split.id), split.currency);
+    const balance = balances.find(b => b.fromUserId === fromUserId && b.toUserId === toUserId);
+    if (!balance) {
+      return NextResponse.json(
+        { error: 'No outstanding balance between these members', code: 'NO_BALANCE' },
+        { status: 404 }
+      );
+    }
+
+    if (amount !== undefined && (typeof amount !== 'number' || !(amount > 0) || amount > balance.amount)) {
+      return NextResponse.json(
+        { error: `amount must be a positive number no greater than ${balance.amount}`, code: 'INVALID_AMOUNT' },
+        { status: 400 }
+      );
+    }
+
+    const entry = await recordSettlement({
+      groupId,
+      fromUserId,
+      toUserId,
+      amount: amount ?? balance.amount,
+      currency: split.currency,
+      note: typeof note === 'string' ? note.trim() : null,
+      createdBy: userId,
+    });
+
+    const entries = await getLedgerEntries(groupId, split.id);
+
+    return NextResponse.json({
+      settlement: entry,
+      balances: await computeBalances(entries, split.currency),
+    }, { status: 201 });
+  } catch (error) {
+    console.error('POST settle error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
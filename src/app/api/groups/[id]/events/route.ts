@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { groups, groupMembers } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { isGroupMember } from '@/lib/groups';
+import {
+  CATCH_UP_BATCH_SIZE,
+  connectPresence,
+  groupEventsSince,
+  latestGroupEventId,
+  onlineMembers,
+  subscribeToGroup,
+  type GroupSignal,
+} from '@/lib/realtime';
+
+// Streams stay open, so the route is never prerendered
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+const RECHECK_INTERVAL_MS = 5000;
+
+// Server-sent events for a group chat. Sends `ready` with the cursor and who
+// is online, then message.created / message.updated / message.deleted events
+// (each with an id to resume from via ?since= or Last-Event-ID), plus typing,
+// presence, read and live location signals. Without a cursor the stream
+// starts at the current state. Membership is rechecked periodically and the
+// stream closes once the user has left or been removed from the group.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    // Extract group ID from URL path
+    const pathParts = request.nextUrl.pathname.split('/');
+    const groupIdParam = pathParts[3];
+
+    if (!groupIdParam || isNaN(parseInt(groupIdParam))) {
+      return NextResponse.json(
+        { error: 'Valid group ID is required', code: 'INVALID_GROUP_ID' },
+        { status: 400 }
+      );
+    }
+
+    const groupIdInt = parseInt(groupIdParam);
+
+    const sinceParam = request.nextUrl.searchParams.get('since') ?? request.headers.get('last-event-id');
+    const since = sinceParam !== null && sinceParam !== '' ? parseInt(sinceParam) : null;
+    if (since !== null && (isNaN(since) || since < 0)) {
+      return NextResponse.json(
+        { error: 'since must be a non-negative event id', code: 'INVALID_CURSOR' },
+        { status: 400 }
+      );
+    }
+
+    // Check if group exists
+    const group = await db
+      .select()
+      .from(groups)
+      .where(eq(groups.id, groupIdInt))
+      .limit(1);
+
+    if (group.length === 0) {
+      return NextResponse.json(
+        { error: 'Group not found', code: 'GROUP_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    // Check if user is a member of the group
+    const membership = await db
+      .select()
+      .from(groupMembers)
+      .where(
+        and(
+          eq(groupMembers.groupId, groupIdInt),
+          eq(groupMembers.userId, session.user.id)
+        )
+      )
+      .limit(1);
+
+    if (membership.length === 0) {
+      return NextResponse.json(
+        { error: 'Access denied: You are not a member of this group', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    let cursor = since ?? await latestGroupEventId(groupIdInt);
+    const userId = session.user.id;
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+
+        const write = (chunk: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            cleanup();
+          }
+        };
+        const send = (event: string, data: unknown, id?: number) => {
+          write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        // Deliver stored events past the cursor, one flush at a time
+        let flushing = Promise.resolve();
+        const flush = () => {
+          flushing = flushing.then(async () => {
+            while (!closed) {
+              const events = await groupEventsSince(groupIdInt, cursor);
+              for (const event of events) {
+                send(event.type, event.payload, event.id);
+                cursor = event.id;
+              }
+              if (events.length < CATCH_UP_BATCH_SIZE) break;
+            }
+          }).catch(error => console.error('Group event stream error:', error));
+        };
+
+        const unsubscribe = subscribeToGroup(groupIdInt, {
+          onEvents: flush,
+          onSignal: (signal: GroupSignal) => {
+            // Members don't need their own typing echoed back
+            if (signal.type === 'typing' && signal.userId === userId) return;
+            send(signal.type, signal);
+          },
+        });
+        const disconnect = connectPresence(groupIdInt, userId);
+        const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+        const recheck = setInterval(() => {
+          isGroupMember(groupIdInt, userId)
+            .then(member => (member ? flush() : cleanup()))
+            .catch(error => console.error('Group event stream error:', error));
+        }, RECHECK_INTERVAL_MS);
+
+        cleanup = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          clearInterval(recheck);
+          unsubscribe();
+          disconnect();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+        request.signal.addEventListener('abort', cleanup);
+
+        send('ready', { cursor, online: onlineMembers(groupIdInt) });
+        flush();
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('GET group events error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { isGroupMember } from '@/lib/groups';
+import {
+  LOCATION_ERROR_STATUS,
+  activeLocationShares,
+  recordPosition,
+  startLocationShare,
+  stopLocationShare,
+} from '@/lib/liveLocation';
+import { sendLocation, sendLocationStopped } from '@/lib/realtime';
+
+// Parse the group ID and check the signed-in user is a member
+async function memberGroupId(request: NextRequest, userId: string): Promise<number | NextResponse> {
+  const groupId = parseInt(request.nextUrl.pathname.split('/')[3]);
+  if (isNaN(groupId)) {
+    return NextResponse.json(
+      { error: 'Valid group ID is required', code: 'INVALID_GROUP_ID' },
+      { status: 400 }
+    );
+  }
+
+  if (!await isGroupMember(groupId, userId)) {
+    return NextResponse.json(
+      { error: 'Access denied: You are not a member of this group', code: 'FORBIDDEN' },
+      { status: 403 }
+    );
+  }
+  return groupId;
+}
+
+// Members currently sharing their location, with their recent trail
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const groupId = await memberGroupId(request, session.user.id);
+    if (groupId instanceof NextResponse) return groupId;
+
+    return NextResponse.json(await activeLocationShares(groupId), { status: 200 });
+  } catch (error) {
+    console.error('GET live locations error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Start sharing: { durationMinutes? } (default 60, at most 240)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const groupId = await memberGroupId(request, session.user.id);
+    if (groupId instanceof NextResponse) return groupId;
+
+    const body = (await request.json().catch(() => null)) ?? {};
+    const result = await startLocationShare(groupId, session.user.id, body.durationMinutes);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: LOCATION_ERROR_STATUS[result.code] }
+      );
+    }
+
+    return NextResponse.json(result.share, { status: 201 });
+  } catch (error) {
+    console.error('POST live location error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Post the current position: { coordinates: [lat, lon], accuracy?, heading?, speed? }.
+// 410 once sharing has ended (stopped, expired or the trip is over).
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const groupId = await memberGroupId(request, session.user.id);
+    if (groupId instanceof NextResponse) return groupId;
+
+    const body = (await request.json().catch(() => null)) ?? {};
+    const result = await recordPosition(groupId, session.user.id, body);
+    if (!result.ok) {
+      // Sharing just ended on this position; tell the other members
+      if (result.code === 'SHARE_EXPIRED' || result.code === 'TRIP_ENDED') {
+        sendLocationStopped(groupId, session.user.id, result.code === 'TRIP_ENDED' ? 'trip_ended' : 'expired');
+      }
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: LOCATION_ERROR_STATUS[result.code] }
+      );
+    }
+
+    const update = { position: result.position, expiresAt: result.share.expiresAt, etas: result.etas };
+    sendLocation(groupId, { id: session.user.id, name: session.user.name }, update);
+
+    return NextResponse.json(update, { status: 200 });
+  } catch (error) {
+    console.error('PUT live location error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Stop sharing
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const groupId = await memberGroupId(request, session.user.id);
+    if (groupId instanceof NextResponse) return groupId;
+
+    const share = await stopLocationShare(groupId, session.user.id, 'stopped');
+    if (!share) {
+      return NextResponse.json(
+        { error: 'Location sharing is not active', code: 'SHARE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    sendLocationStopped(groupId, session.user.id, 'stopped');
+
+    return NextResponse.json({ message: 'Location sharing stopped' }, { status: 200 });
+  } catch (error) {
+    console.error('DELETE live location error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
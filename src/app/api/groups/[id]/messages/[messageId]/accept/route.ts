@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { messages } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { isGroupMember } from '@/lib/groups';
+import { CONTENT_ERROR_STATUS, acceptMeetingPoint } from '@/lib/chatContent';
+import { getGroupMessage } from '@/lib/messages';
+import { publishGroupEvent } from '@/lib/realtime';
+
+// Accept a proposed meeting point. With a majority of the members behind it
+// it becomes the group's meeting point (pushed as a group.updated event).
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    // Extract group ID and message ID from URL path
+    const pathParts = request.nextUrl.pathname.split('/');
+    const groupId = parseInt(pathParts[3]);
+    const messageId = parseInt(pathParts[5]);
+
+    if (isNaN(groupId) || isNaN(messageId)) {
+      return NextResponse.json(
+        { error: 'Valid group ID and message ID are required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!await isGroupMember(groupId, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Access denied: You are not a member of this group', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.id, messageId), eq(messages.groupId, groupId)))
+      .limit(1);
+
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found', code: 'MESSAGE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const result = await acceptMeetingPoint(message, session.user.id);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: CONTENT_ERROR_STATUS[result.code] }
+      );
+    }
+
+    const updated = await getGroupMessage(messageId);
+    await publishGroupEvent(groupId, 'message.updated', messageId, updated);
+    if (result.promoted) {
+      await publishGroupEvent(groupId, 'group.updated', messageId, { meetingPoint: result.promoted });
+    }
+
+    return NextResponse.json({ message: updated, meetingPoint: result.promoted }, { status: 200 });
+  } catch (error) {
+    console.error('POST meeting point acceptance error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { messages, messageEdits } from '@/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { isGroupMember } from '@/lib/groups';
+
+// Edit history of a message, oldest version first. Each entry is the text
+// as it was until editedAt.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    // Extract group ID and message ID from URL path
+    const pathParts = request.nextUrl.pathname.split('/');
+    const groupId = parseInt(pathParts[3]);
+    const messageId = parseInt(pathParts[5]);
+
+    if (isNaN(groupId) || isNaN(messageId)) {
+      return NextResponse.json(
+        { error: 'Valid group ID and message ID are required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!await isGroupMember(groupId, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Access denied: You are not a member of this group', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.id, messageId))
+      .limit(1);
+
+    if (!message || message.groupId !== groupId) {
+      return NextResponse.json(
+        { error: 'Message not found', code: 'MESSAGE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const edits = await db
+      .select({ message: messageEdits.previousMessage, editedAt: messageEdits.editedAt })
+      .from(messageEdits)
+      .where(eq(messageEdits.messageId, messageId))
+      .orderBy(asc(messageEdits.id));
+
+    return NextResponse.json(
+      { id: message.id, message: message.message, editedAt: message.editedAt, edits },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('GET message edits error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { messages, messageReactions } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { isGroupMember } from '@/lib/groups';
+import { getGroupMessage, isReactionEmoji } from '@/lib/messages';
+import { publishGroupEvent } from '@/lib/realtime';
+
+type ReactionTarget =
+  | { ok: true; groupId: number; messageId: number; userId: string }
+  | { ok: false; response: NextResponse };
+
+// The signed-in member and the message they're reacting to
+async function resolveTarget(request: NextRequest): Promise<ReactionTarget> {
+  const session = await auth.api.getSession({ headers: request.headers });
+  if (!session?.user) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  // Extract group ID and message ID from URL path
+  const pathParts = request.nextUrl.pathname.split('/');
+  const groupId = parseInt(pathParts[3]);
+  const messageId = parseInt(pathParts[5]);
+
+  if (isNaN(groupId) || isNaN(messageId)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Valid group ID and message ID are required', code: 'INVALID_ID' },
+        { status: 400 }
+      ),
+    };
+  }
+
+  if (!await isGroupMember(groupId, session.user.id)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Access denied: You are not a member of this group', code: 'FORBIDDEN' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const [message] = await db
+    .select({ id: messages.id })
+    .from(messages)
+    .where(and(eq(messages.id, messageId), eq(messages.groupId, groupId)))
+    .limit(1);
+
+  if (!message) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Message not found', code: 'MESSAGE_NOT_FOUND' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { ok: true, groupId, messageId, userId: session.user.id };
+}
+
+// React to a message with { emoji }. Reacting twice with the same emoji is a no-op.
+export async function POST(request: NextRequest) {
+  try {
+    const target = await resolveTarget(request);
+    if (!target.ok) return target.response;
+
+    const { emoji } = await request.json();
+    if (!isReactionEmoji(emoji)) {
+      return NextResponse.json(
+        { error: 'emoji must be a single emoji', code: 'INVALID_EMOJI' },
+        { status: 400 }
+      );
+    }
+
+    const inserted = await db
+      .insert(messageReactions)
+      .values({
+        messageId: target.messageId,
+        userId: target.userId,
+        emoji,
+        createdAt: new Date().toISOString(),
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    const message = await getGroupMessage(target.messageId);
+    if (inserted.length > 0) {
+      await publishGroupEvent(target.groupId, 'message.updated', target.messageId, message);
+    }
+
+    return NextResponse.json(message, { status: inserted.length > 0 ? 201 : 200 });
+  } catch (error) {
+    console.error('POST reaction error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove the user's reaction: ?emoji=
+export async function DELETE(request: NextRequest) {
+  try {
+    const target = await resolveTarget(request);
+    if (!target.ok) return target.response;
+
+    const emoji = request.nextUrl.searchParams.get('emoji');
+    if (!isReactionEmoji(emoji)) {
+      return NextResponse.json(
+        { error: 'emoji must be a single emoji', code: 'INVALID_EMOJI' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await db
+      .delete(messageReactions)
+      .where(and(
+        eq(messageReactions.messageId, target.messageId),
+        eq(messageReactions.userId, target.userId),
+        eq(messageReactions.emoji, emoji)
+      ))
+      .returning();
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Reaction not found', code: 'REACTION_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const message = await getGroupMessage(target.messageId);
+    await publishGroupEvent(target.groupId, 'message.updated', target.messageId, message);
+
+    return NextResponse.json(message, { status: 200 });
+  } catch (error) {
+    console.error('DELETE reaction error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
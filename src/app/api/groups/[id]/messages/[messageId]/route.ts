@@ -1,8 +1,109 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { messages } from '@/db/schema';
+import { messages, messageEdits } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { auth } from '@/lib/auth';
+import { publishGroupEvent } from '@/lib/realtime';
+import { getGroupMessage } from '@/lib/messages';
+
+// Edit a text message. Only the sender can edit; the replaced text is kept
+// in message_edits (see the /edits route).
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    // Extract group ID and message ID from URL path
+    const pathParts = request.nextUrl.pathname.split('/');
+    const groupIdParam = pathParts[3];
+    const messageIdParam = pathParts[5];
+
+    if (!groupIdParam || isNaN(parseInt(groupIdParam))) {
+      return NextResponse.json(
+        { error: 'Valid group ID is required', code: 'INVALID_GROUP_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!messageIdParam || isNaN(parseInt(messageIdParam))) {
+      return NextResponse.json(
+        { error: 'Valid message ID is required', code: 'INVALID_MESSAGE_ID' },
+        { status: 400 }
+      );
+    }
+
+    const groupId = parseInt(groupIdParam);
+    const messageId = parseInt(messageIdParam);
+
+    const { message: text } = await request.json();
+
+    if (!text || typeof text !== 'string' || text.trim() === '') {
+      return NextResponse.json(
+        { error: 'Message is required and cannot be empty', code: 'INVALID_MESSAGE' },
+        { status: 400 }
+      );
+    }
+
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.id, messageId))
+      .limit(1);
+
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found', code: 'MESSAGE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (message.groupId !== groupId) {
+      return NextResponse.json(
+        { error: 'Message does not belong to this group', code: 'MESSAGE_NOT_IN_GROUP' },
+        { status: 400 }
+      );
+    }
+
+    if (message.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Only the sender can edit this message', code: 'NOT_MESSAGE_SENDER' },
+        { status: 403 }
+      );
+    }
+
+    // The text of structured messages is generated from their payload
+    if (message.kind !== 'text') {
+      return NextResponse.json(
+        { error: 'Only text messages can be edited', code: 'NOT_EDITABLE' },
+        { status: 409 }
+      );
+    }
+
+    if (text.trim() !== message.message) {
+      const editedAt = new Date().toISOString();
+      await db.insert(messageEdits).values({ messageId, previousMessage: message.message, editedAt });
+      await db
+        .update(messages)
+        .set({ message: text.trim(), editedAt })
+        .where(eq(messages.id, messageId));
+
+      await publishGroupEvent(groupId, 'message.updated', messageId, await getGroupMessage(messageId));
+    }
+
+    return NextResponse.json(await getGroupMessage(messageId), { status: 200 });
+  } catch (error) {
+    console.error('PATCH message error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
 
 export async function DELETE(request: NextRequest) {
   try {
@@ -91,6 +192,8 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    await publishGroupEvent(groupId, 'message.deleted', messageId, { id: messageId });
+
     // Return success response
     return NextResponse.json(
       {
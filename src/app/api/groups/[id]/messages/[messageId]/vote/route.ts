@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { messages } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { isGroupMember } from '@/lib/groups';
+import { CONTENT_ERROR_STATUS, votePoll } from '@/lib/chatContent';
+import { getGroupMessage } from '@/lib/messages';
+import { publishGroupEvent } from '@/lib/realtime';
+
+// Vote on a poll with { option } (an index into its options). Voting again
+// changes the vote until the poll closes.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    // Extract group ID and message ID from URL path
+    const pathParts = request.nextUrl.pathname.split('/');
+    const groupId = parseInt(pathParts[3]);
+    const messageId = parseInt(pathParts[5]);
+
+    if (isNaN(groupId) || isNaN(messageId)) {
+      return NextResponse.json(
+        { error: 'Valid group ID and message ID are required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!await isGroupMember(groupId, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Access denied: You are not a member of this group', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.id, messageId), eq(messages.groupId, groupId)))
+      .limit(1);
+
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found', code: 'MESSAGE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const { option } = await request.json();
+    const result = await votePoll(message, session.user.id, option);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: CONTENT_ERROR_STATUS[result.code] }
+      );
+    }
+
+    const updated = await getGroupMessage(messageId);
+    await publishGroupEvent(groupId, 'message.updated', messageId, updated);
+
+    return NextResponse.json(updated, { status: 200 });
+  } catch (error) {
+    console.error('POST poll vote error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
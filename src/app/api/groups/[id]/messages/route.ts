@@ -1,10 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { messages, groups, groupMembers, user } from '@/db/schema';
-import { eq, and, asc, ne } from 'drizzle-orm';
+import { eq, and, ne } from 'drizzle-orm';
 import { auth } from '@/lib/auth';
 import { sendBulkWhatsApp } from '@/lib/twilio';
+import { publishGroupEvent, sendReadReceipt } from '@/lib/realtime';
+import { DEFAULT_MESSAGE_PAGE_SIZE, MAX_MESSAGE_PAGE_SIZE, getGroupMessage, listGroupMessages, markGroupRead } from '@/lib/messages';
+import {
+  CONTENT_ERROR_STATUS,
+  acceptMeetingPoint,
+  parseMessageContent,
+  schedulePollClose,
+  type PollPayload,
+} from '@/lib/chatContent';
 
+// Parse an optional message id cursor; NaN when present but invalid
+function parseCursor(value: string | null): number | null {
+  if (value === null) return null;
+  const id = parseInt(value);
+  return isNaN(id) || id < 0 ? NaN : id;
+}
+
+// A page of the group's messages, oldest first: the newest page by default,
+// ?before=<messageId> for older ones, ?after=<messageId> for newer ones,
+// with ?limit= (default 50, max 100)
 export async function GET(request: NextRequest) {
   try {
     const session = await auth.api.getSession({ headers: request.headers });
@@ -28,6 +47,32 @@ export async function GET(request: NextRequest) {
 
     const groupIdInt = parseInt(groupIdParam);
 
+    const searchParams = request.nextUrl.searchParams;
+    const before = parseCursor(searchParams.get('before'));
+    const after = parseCursor(searchParams.get('after'));
+    const limit = searchParams.has('limit') ? parseInt(searchParams.get('limit')!) : DEFAULT_MESSAGE_PAGE_SIZE;
+
+    if (Number.isNaN(before) || Number.isNaN(after)) {
+      return NextResponse.json(
+        { error: 'before and after must be message IDs', code: 'INVALID_CURSOR' },
+        { status: 400 }
+      );
+    }
+
+    if (before !== null && after !== null) {
+      return NextResponse.json(
+        { error: 'Use either before or after, not both', code: 'INVALID_CURSOR' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_MESSAGE_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `limit must be a number between 1 and ${MAX_MESSAGE_PAGE_SIZE}`, code: 'INVALID_LIMIT' },
+        { status: 400 }
+      );
+    }
+
     // Check if group exists
     const group = await db
       .select()
@@ -61,26 +106,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get all messages for the group with sender details
-    const groupMessages = await db
-      .select({
-        id: messages.id,
-        groupId: messages.groupId,
-        userId: messages.userId,
-        message: messages.message,
-        createdAt: messages.createdAt,
-        sender: {
-          name: user.name,
-          email: user.email,
-          image: user.image,
-        },
-      })
-      .from(messages)
-      .leftJoin(user, eq(messages.userId, user.id))
-      .where(eq(messages.groupId, groupIdInt))
-      .orderBy(asc(messages.createdAt));
+    const page = await listGroupMessages(groupIdInt, { before, after, limit });
 
-    return NextResponse.json(groupMessages, { status: 200 });
+    return NextResponse.json(page, { status: 200 });
   } catch (error) {
     console.error('GET messages error:', error);
     return NextResponse.json(
@@ -126,12 +154,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { message } = body;
+    const { message, kind = 'text', payload, replyToId } = body;
 
-    // Validate message field
-    if (!message || typeof message !== 'string' || message.trim() === '') {
+    // Structured messages carry a payload instead of text; their text is a
+    // generated summary
+    let content: { kind: string; payload: unknown; text: string };
+    if (kind === 'text') {
+      if (!message || typeof message !== 'string' || message.trim() === '') {
+        return NextResponse.json(
+          { error: 'Message is required and cannot be empty', code: 'INVALID_MESSAGE' },
+          { status: 400 }
+        );
+      }
+      content = { kind, payload: null, text: message.trim() };
+    } else {
+      const parsed = parseMessageContent(kind, payload);
+      if (!parsed.ok) {
+        return NextResponse.json(
+          { error: parsed.error, code: parsed.code },
+          { status: CONTENT_ERROR_STATUS[parsed.code] }
+        );
+      }
+      content = { kind: parsed.kind, payload: parsed.payload, text: parsed.summary };
+    }
+
+    if (replyToId !== undefined && replyToId !== null && !Number.isInteger(replyToId)) {
       return NextResponse.json(
-        { error: 'Message is required and cannot be empty', code: 'INVALID_MESSAGE' },
+        { error: 'replyToId must be a message ID', code: 'INVALID_REPLY_TO' },
         { status: 400 }
       );
     }
@@ -169,35 +218,60 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Replies stay within the group
+    if (replyToId != null) {
+      const [parent] = await db
+        .select({ id: messages.id })
+        .from(messages)
+        .where(and(eq(messages.id, replyToId), eq(messages.groupId, groupIdInt)))
+        .limit(1);
+
+      if (!parent) {
+        return NextResponse.json(
+          { error: 'The message being replied to was not found in this group', code: 'INVALID_REPLY_TO' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Insert new message
     const newMessage = await db
       .insert(messages)
       .values({
         groupId: groupIdInt,
         userId: session.user.id,
-        message: message.trim(),
+        message: content.text,
+        kind: content.kind,
+        payload: content.payload,
+        replyToId: replyToId ?? null,
         createdAt: new Date().toISOString(),
       })
       .returning();
 
-    // Get sender details
-    const sender = await db
-      .select({
-        name: user.name,
-        email: user.email,
-        image: user.image,
-      })
-      .from(user)
-      .where(eq(user.id, session.user.id))
-      .limit(1);
+    // Proposing a meeting point counts as accepting it
+    let promoted = null;
+    if (content.kind === 'meeting_point') {
+      const acceptance = await acceptMeetingPoint(newMessage[0], session.user.id);
+      if (acceptance.ok) promoted = acceptance.promoted;
+    } else if (content.kind === 'poll') {
+      await schedulePollClose(newMessage[0].id, content.payload as PollPayload);
+    }
+
+    // With sender details, reply preview and (no) reactions
+    const messageWithSender = await getGroupMessage(newMessage[0].id);
+
+    // Push to members with the chat open
+    await publishGroupEvent(groupIdInt, 'message.created', newMessage[0].id, messageWithSender);
+    if (promoted) {
+      await publishGroupEvent(groupIdInt, 'group.updated', newMessage[0].id, { meetingPoint: promoted });
+    }
 
-    const messageWithSender = {
-      ...newMessage[0],
-      sender: sender[0],
-    };
+    // Sending a message means the sender has read up to it
+    await markGroupRead(groupIdInt, session.user.id, newMessage[0].id);
+    sendReadReceipt(groupIdInt, session.user.id, newMessage[0].id);
 
     // Send WhatsApp notifications to other group members (async, don't wait)
-    sendGroupMessageNotifications(groupIdInt, session.user.id, sender[0]?.name || 'Someone', message.trim(), group[0].name)
+    sendGroupMessageNotifications(groupIdInt, session.user.id, messageWithSender?.sender?.name || 'Someone', content.text, group[0].name)
       .catch(err => console.error('Failed to send group message notifications:', err));
 
     return NextResponse.json(messageWithSender, { status: 201 });
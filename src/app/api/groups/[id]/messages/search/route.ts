@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { groups, groupMembers } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { MAX_MESSAGE_PAGE_SIZE, searchGroupMessages, toFtsQuery } from '@/lib/messages';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+
+// Full-text search in a group's messages: ?q=<words>&limit=20&before=<messageId>.
+// Newest matches first; each result has a snippet split into parts with
+// match: true on the highlighted words.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    // Extract group ID from URL path
+    const pathParts = request.nextUrl.pathname.split('/');
+    const groupIdParam = pathParts[3];
+
+    if (!groupIdParam || isNaN(parseInt(groupIdParam))) {
+      return NextResponse.json(
+        { error: 'Valid group ID is required', code: 'INVALID_GROUP_ID' },
+        { status: 400 }
+      );
+    }
+
+    const groupIdInt = parseInt(groupIdParam);
+
+    const searchParams = request.nextUrl.searchParams;
+    const q = searchParams.get('q') ?? '';
+    const ftsQuery = toFtsQuery(q);
+    const limit = searchParams.has('limit') ? parseInt(searchParams.get('limit')!) : DEFAULT_SEARCH_LIMIT;
+    const before = searchParams.has('before') ? parseInt(searchParams.get('before')!) : null;
+
+    if (!ftsQuery || q.length > 200) {
+      return NextResponse.json(
+        { error: 'q must contain at least one word and be at most 200 characters', code: 'INVALID_QUERY' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_MESSAGE_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `limit must be a number between 1 and ${MAX_MESSAGE_PAGE_SIZE}`, code: 'INVALID_LIMIT' },
+        { status: 400 }
+      );
+    }
+
+    if (before !== null && (isNaN(before) || before < 0)) {
+      return NextResponse.json(
+        { error: 'before must be a message ID', code: 'INVALID_CURSOR' },
+        { status: 400 }
+      );
+    }
+
+    // Check if group exists
+    const group = await db
+      .select()
+      .from(groups)
+      .where(eq(groups.id, groupIdInt))
+      .limit(1);
+
+    if (group.length === 0) {
+      return NextResponse.json(
+        { error: 'Group not found', code: 'GROUP_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    // Check if user is a member of the group
+    const membership = await db
+      .select()
+      .from(groupMembers)
+      .where(
+        and(
+          eq(groupMembers.groupId, groupIdInt),
+          eq(groupMembers.userId, session.user.id)
+        )
+      )
+      .limit(1);
+
+    if (membership.length === 0) {
+      return NextResponse.json(
+        { error: 'Access denied: You are not a member of this group', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const page = await searchGroupMessages(groupIdInt, ftsQuery, { before, limit });
+
+    return NextResponse.json(page, { status: 200 });
+  } catch (error) {
+    console.error('GET message search error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
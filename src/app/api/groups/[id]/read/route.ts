@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { groupReadMarkers, messages, user } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { isGroupMember } from '@/lib/groups';
+import { markGroupRead } from '@/lib/messages';
+import { sendReadReceipt } from '@/lib/realtime';
+
+// Parse the group ID and check the signed-in user is a member
+async function memberGroupId(request: NextRequest, userId: string): Promise<number | NextResponse> {
+  const groupId = parseInt(request.nextUrl.pathname.split('/')[3]);
+  if (isNaN(groupId)) {
+    return NextResponse.json(
+      { error: 'Valid group ID is required', code: 'INVALID_GROUP_ID' },
+      { status: 400 }
+    );
+  }
+
+  if (!await isGroupMember(groupId, userId)) {
+    return NextResponse.json(
+      { error: 'Access denied: You are not a member of this group', code: 'FORBIDDEN' },
+      { status: 403 }
+    );
+  }
+  return groupId;
+}
+
+// Read receipts: how far each member has read the chat
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const groupId = await memberGroupId(request, session.user.id);
+    if (groupId instanceof NextResponse) return groupId;
+
+    const markers = await db
+      .select({
+        userId: groupReadMarkers.userId,
+        lastReadMessageId: groupReadMarkers.lastReadMessageId,
+        updatedAt: groupReadMarkers.updatedAt,
+        name: user.name,
+      })
+      .from(groupReadMarkers)
+      .leftJoin(user, eq(groupReadMarkers.userId, user.id))
+      .where(eq(groupReadMarkers.groupId, groupId));
+
+    return NextResponse.json(markers, { status: 200 });
+  } catch (error) {
+    console.error('GET read markers error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Mark the chat read up to { messageId }. Markers only move forward.
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const groupId = await memberGroupId(request, session.user.id);
+    if (groupId instanceof NextResponse) return groupId;
+
+    const { messageId } = await request.json();
+    if (!Number.isInteger(messageId)) {
+      return NextResponse.json(
+        { error: 'messageId must be a message ID', code: 'INVALID_MESSAGE_ID' },
+        { status: 400 }
+      );
+    }
+
+    const [message] = await db
+      .select({ id: messages.id })
+      .from(messages)
+      .where(and(eq(messages.id, messageId), eq(messages.groupId, groupId)))
+      .limit(1);
+
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found', code: 'MESSAGE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const marker = await markGroupRead(groupId, session.user.id, messageId);
+    sendReadReceipt(groupId, session.user.id, marker.lastReadMessageId);
+
+    return NextResponse.json(marker, { status: 200 });
+  } catch (error) {
+    console.error('PUT read marker error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
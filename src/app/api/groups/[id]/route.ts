@@ -108,6 +108,7 @@ export async function GET(request: NextRequest) {
       tripId: group.tripId,
       createdBy: group.createdBy,
       status: group.status,
+      meetingPoint: group.meetingPoint,
       createdAt: group.createdAt,
       updatedAt: group.updatedAt,
       members,
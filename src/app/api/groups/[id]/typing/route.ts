@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { groupMembers } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { sendTyping } from '@/lib/realtime';
+
+// Tell connected members that the user is typing. Clients send this at most
+// every few seconds while the user types and drop the indicator when it stops.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    // Extract group ID from URL path
+    const pathParts = request.nextUrl.pathname.split('/');
+    const groupIdParam = pathParts[3];
+
+    if (!groupIdParam || isNaN(parseInt(groupIdParam))) {
+      return NextResponse.json(
+        { error: 'Valid group ID is required', code: 'INVALID_GROUP_ID' },
+        { status: 400 }
+      );
+    }
+
+    const groupIdInt = parseInt(groupIdParam);
+
+    // Check if user is a member of the group
+    const membership = await db
+      .select()
+      .from(groupMembers)
+      .where(
+        and(
+          eq(groupMembers.groupId, groupIdInt),
+          eq(groupMembers.userId, session.user.id)
+        )
+      )
+      .limit(1);
+
+    if (membership.length === 0) {
+      return NextResponse.json(
+        { error: 'Access denied: You are not a member of this group', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    sendTyping(groupIdInt, { id: session.user.id, name: session.user.name });
+
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (error) {
+    console.error('POST typing error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { groups, groupMembers, user } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { auth } from '@/lib/auth';
+import { unreadCounts } from '@/lib/messages';
 
 export async function POST(request: NextRequest) {
   try {
@@ -119,6 +120,8 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    const unread = await unreadCounts(session.user.id, groupIds);
+
     // Enrich each group with member information
     const enrichedGroups = await Promise.all(
       allGroups.map(async (group) => {
@@ -156,6 +159,7 @@ export async function GET(request: NextRequest) {
           ...group,
           memberCount: members.length,
           members: formattedMembers,
+          unreadCount: unread.get(group.id) ?? 0,
         };
       })
     );
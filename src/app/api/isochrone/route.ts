@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoutingEngine, type TransportMode } from '@/lib/routing';
+import {
+  ISOCHRONE_MODES,
+  MAX_ISOCHRONE_BANDS,
+  MAX_ISOCHRONE_MINUTES,
+  computeIsochrones,
+  toIsochroneCollection,
+} from '@/lib/isochrone';
+
+// Areas reachable from a point within each time band, as a GeoJSON FeatureCollection.
+// Query: lat, lng, mode (default car), minutes (comma-separated, default 10,20,30).
+// Each band suggests a matchRadius for trips starting there.
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const lat = parseFloat(searchParams.get('lat') ?? '');
+    const lng = parseFloat(searchParams.get('lng') ?? '');
+    const mode = (searchParams.get('mode') || 'car') as TransportMode;
+    const minutesParam = searchParams.get('minutes') || '10,20,30';
+
+    if (isNaN(lat) || isNaN(lng) || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+      return NextResponse.json(
+        { error: 'lat and lng must be valid coordinates', code: 'INVALID_COORDINATES' },
+        { status: 400 }
+      );
+    }
+
+    if (!ISOCHRONE_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `mode must be one of: ${ISOCHRONE_MODES.join(', ')}`, code: 'INVALID_MODE' },
+        { status: 400 }
+      );
+    }
+
+    const minutes = [...new Set(minutesParam.split(',').map(value => Number(value.trim())))]
+      .sort((a, b) => a - b);
+    if (
+      minutes.length === 0 ||
+      minutes.length > MAX_ISOCHRONE_BANDS ||
+      minutes.some(value => !Number.isInteger(value) || value < 1 || value > MAX_ISOCHRONE_MINUTES)
+    ) {
+      return NextResponse.json(
+        {
+          error: `minutes must be up to ${MAX_ISOCHRONE_BANDS} whole numbers between 1 and ${MAX_ISOCHRONE_MINUTES}`,
+          code: 'INVALID_MINUTES',
+        },
+        { status: 400 }
+      );
+    }
+
+    const bands = await computeIsochrones([lat, lng], mode, minutes);
+    if (bands.length === 0) {
+      return NextResponse.json(
+        { error: 'Could not calculate reachable area from this point', code: 'ISOCHRONE_FAILED' },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({
+      ...toIsochroneCollection([lat, lng], mode, bands),
+      origin: { lat, lng },
+      engine: getRoutingEngine().name,
+    }, { status: 200 });
+  } catch (error) {
+    console.error('GET isochrone error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
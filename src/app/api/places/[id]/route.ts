@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { savedPlaces } from '@/db/schema';
+import { eq, and, ne } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { toLatLon } from '@/lib/geo';
+import { geocode } from '@/lib/geocoding';
+
+async function findOwnPlace(request: NextRequest, userId: string) {
+  const placeId = parseInt(request.nextUrl.pathname.split('/').slice(-1)[0]);
+  if (isNaN(placeId)) return null;
+
+  const [place] = await db
+    .select()
+    .from(savedPlaces)
+    .where(and(eq(savedPlaces.id, placeId), eq(savedPlaces.userId, userId)))
+    .limit(1);
+  return place ?? null;
+}
+
+// Rename or move a saved place. A new address without coordinates is geocoded.
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const place = await findOwnPlace(request, session.user.id);
+    if (!place) {
+      return NextResponse.json(
+        { error: 'Place not found', code: 'PLACE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const { label, address, coordinates } = await request.json();
+    const updateData: Record<string, any> = {
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (label !== undefined) {
+      if (typeof label !== 'string' || label.trim() === '' || label.trim().length > 50) {
+        return NextResponse.json(
+          { error: 'label must be a non-empty string of at most 50 characters', code: 'INVALID_LABEL' },
+          { status: 400 }
+        );
+      }
+
+      const [clash] = await db
+        .select({ id: savedPlaces.id })
+        .from(savedPlaces)
+        .where(and(
+          eq(savedPlaces.userId, session.user.id),
+          eq(savedPlaces.label, label.trim()),
+          ne(savedPlaces.id, place.id)
+        ))
+        .limit(1);
+
+      if (clash) {
+        return NextResponse.json(
+          { error: `You already have a place called "${label.trim()}"`, code: 'DUPLICATE_LABEL' },
+          { status: 409 }
+        );
+      }
+      updateData.label = label.trim();
+    }
+
+    if (coordinates !== undefined) {
+      const point = toLatLon(coordinates);
+      if (!point) {
+        return NextResponse.json(
+          { error: 'coordinates must be [lat, lon]', code: 'INVALID_COORDINATES' },
+          { status: 400 }
+        );
+      }
+      updateData.latitude = point[0];
+      updateData.longitude = point[1];
+    }
+
+    if (address !== undefined) {
+      if (typeof address !== 'string' || address.trim() === '') {
+        return NextResponse.json(
+          { error: 'address must be a non-empty string', code: 'INVALID_ADDRESS' },
+          { status: 400 }
+        );
+      }
+      updateData.address = address.trim();
+
+      if (coordinates === undefined && address.trim() !== place.address) {
+        const point = await geocode(address.trim());
+        if (!point) {
+          return NextResponse.json(
+            { error: 'Unable to geocode address. Please provide a more specific address', code: 'GEOCODING_FAILED' },
+            { status: 400 }
+          );
+        }
+        updateData.latitude = point[0];
+        updateData.longitude = point[1];
+      }
+    }
+
+    const [updated] = await db
+      .update(savedPlaces)
+      .set(updateData)
+      .where(eq(savedPlaces.id, place.id))
+      .returning();
+
+    return NextResponse.json(updated, { status: 200 });
+  } catch (error) {
+    console.error('PUT place error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a saved place
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const place = await findOwnPlace(request, session.user.id);
+    if (!place) {
+      return NextResponse.json(
+        { error: 'Place not found', code: 'PLACE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    await db.delete(savedPlaces).where(eq(savedPlaces.id, place.id));
+
+    return NextResponse.json({ message: 'Place deleted', id: place.id }, { status: 200 });
+  } catch (error) {
+    console.error('DELETE place error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
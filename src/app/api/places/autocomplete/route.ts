@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { autocompletePlaces } from '@/lib/places';
+
+const MAX_LIMIT = 20;
+
+// Suggestions for a source or destination input: ?q=<typed text>&limit=8.
+// Saved places and recent trip endpoints rank above geocoder results.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const query = searchParams.get('q') ?? '';
+    const limit = searchParams.has('limit') ? parseInt(searchParams.get('limit')!) : 8;
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be a number between 1 and ${MAX_LIMIT}`, code: 'INVALID_LIMIT' },
+        { status: 400 }
+      );
+    }
+
+    if (query.length > 200) {
+      return NextResponse.json(
+        { error: 'q must be at most 200 characters', code: 'INVALID_QUERY' },
+        { status: 400 }
+      );
+    }
+
+    const suggestions = await autocompletePlaces(session.user.id, query, limit);
+
+    return NextResponse.json(suggestions, { status: 200 });
+  } catch (error) {
+    console.error('GET autocomplete error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
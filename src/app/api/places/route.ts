@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { savedPlaces } from '@/db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { toLatLon } from '@/lib/geo';
+import { geocode } from '@/lib/geocoding';
+
+// List the user's saved places by label
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const places = await db
+      .select()
+      .from(savedPlaces)
+      .where(eq(savedPlaces.userId, session.user.id))
+      .orderBy(asc(savedPlaces.label));
+
+    return NextResponse.json(places, { status: 200 });
+  } catch (error) {
+    console.error('GET places error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Save a place under a label. Coordinates are geocoded from the address unless
+// sent as coordinates: [lat, lon].
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    if ('userId' in body || 'user_id' in body) {
+      return NextResponse.json(
+        { error: 'User ID cannot be provided in request body', code: 'USER_ID_NOT_ALLOWED' },
+        { status: 400 }
+      );
+    }
+
+    const { label, address, coordinates } = body;
+
+    if (!label || typeof label !== 'string' || label.trim() === '' || label.trim().length > 50) {
+      return NextResponse.json(
+        { error: 'label is required and must be at most 50 characters', code: 'INVALID_LABEL' },
+        { status: 400 }
+      );
+    }
+
+    if (!address || typeof address !== 'string' || address.trim() === '') {
+      return NextResponse.json(
+        { error: 'address is required', code: 'INVALID_ADDRESS' },
+        { status: 400 }
+      );
+    }
+
+    let point = coordinates !== undefined ? toLatLon(coordinates) : null;
+    if (coordinates !== undefined && !point) {
+      return NextResponse.json(
+        { error: 'coordinates must be [lat, lon]', code: 'INVALID_COORDINATES' },
+        { status: 400 }
+      );
+    }
+
+    if (!point) {
+      point = await geocode(address.trim());
+      if (!point) {
+        return NextResponse.json(
+          { error: 'Unable to geocode address. Please provide a more specific address', code: 'GEOCODING_FAILED' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const [existing] = await db
+      .select({ id: savedPlaces.id })
+      .from(savedPlaces)
+      .where(and(eq(savedPlaces.userId, session.user.id), eq(savedPlaces.label, label.trim())))
+      .limit(1);
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `You already have a place called "${label.trim()}"`, code: 'DUPLICATE_LABEL' },
+        { status: 409 }
+      );
+    }
+
+    const timestamp = new Date().toISOString();
+    const [place] = await db
+      .insert(savedPlaces)
+      .values({
+        userId: session.user.id,
+        label: label.trim(),
+        address: address.trim(),
+        latitude: point[0],
+        longitude: point[1],
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      })
+      .returning();
+
+    return NextResponse.json(place, { status: 201 });
+  } catch (error) {
+    console.error('POST places error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,41 @@
 import { NextRequest, NextResponse } from "next/server";
+import { geocode } from "@/lib/geocoding";
+import { calculateDistance } from "@/lib/geo";
+import {
+  getRoutingEngine,
+  optimizeWaypointOrder,
+  type EngineRoute,
+  type RouteInstruction,
+  type TransportMode,
+} from "@/lib/routing";
+import {
+  formatClockTime,
+  hasTransitData,
+  parseClockTime,
+  planTransitJourney,
+  type TransitFare,
+  type TransitLeg,
+} from "@/lib/transit";
+import { planFlightItinerary, type ItinerarySegment } from "@/lib/flights";
+import {
+  combineCosts,
+  createCostContext,
+  estimateTripCost,
+  getPreferredCurrency,
+  getVehicleProfile,
+  resolveRegion,
+  type CostBreakdown,
+  type CostContext,
+} from "@/lib/costs";
+import { auth } from "@/lib/auth";
+import {
+  normalizeMoment,
+  timeRouteForArrival,
+  timeRouteFromDeparture,
+  type TimedRoute,
+  type TravelMoment,
+} from "@/lib/traffic";
 
-type TransportMode = "car" | "cycling" | "walking" | "bus" | "train" | "flight";
 type OptimizationMode = "cheapest" | "fastest";
 
 interface RouteRequest {
@@ -8,6 +43,29 @@ interface RouteRequest {
   destination: string;
   transportMode: TransportMode;
   optimizationMode: OptimizationMode;
+  // Let the server reorder boardingPoints[1..] to shorten the trip
+  optimizeStopOrder?: boolean;
+  // Departure (YYYY-MM-DD and HH:MM); defaults to now
+  travelDate?: string;
+  travelTime?: string;
+  // Latest arrival (HH:MM on travelDate); when set, travelTime is ignored and
+  // each route gets a recommended departure time instead
+  arriveBy?: string;
+  // Cost model inputs: one of the user's vehicles (default vehicle otherwise),
+  // a currency code, a region code overriding the one found from the start
+  // point, and hours parked at the destination
+  vehicleId?: number;
+  currency?: string;
+  region?: string;
+  parkingHours?: number;
+}
+
+interface RouteLegData {
+  from: string;
+  to: string;
+  distance: number;
+  duration: number;
+  instructions: RouteInstruction[];
 }
 
 interface RouteData {
@@ -15,6 +73,7 @@ interface RouteData {
   distance: number;
   duration: number;
   cost: number;
+  costBreakdown?: CostBreakdown;
   mode: TransportMode;
   optimizationType: "fastest" | "cheapest" | "balanced";
   fuelEfficiency?: number;
@@ -26,295 +85,272 @@ interface RouteData {
     name: string;
     type: string;
   }>;
+  legs?: RouteLegData[];
+  // Bus/train journeys planned from GTFS feeds
+  transitLegs?: TransitLeg[];
+  fare?: TransitFare | null;
+  // Departure and arrival in local time, with congestion for road routes
+  departureDate?: string;
+  departureTime?: string;
+  arrivalTime?: string;
+  // Flight itineraries: ground and flight segments plus airport details
+  segments?: ItinerarySegment[];
+  flight?: FlightInfo[];
 }
 
-// Map transport modes to OSRM profiles
-function mapToOSRMProfile(mode: TransportMode): string {
-  const profileMap: Record<TransportMode, string> = {
-    car: 'car',
-    cycling: 'bike',
-    walking: 'foot',
-    bus: 'car', // Fallback to car for bus
-    train: 'car', // Fallback to car for train
-    flight: 'car', // Fallback to car for flight
-  };
-  return profileMap[mode] || 'car';
-}
-
-// Geocoding function using Nominatim (OpenStreetMap)
-async function geocode(location: string): Promise<[number, number] | null> {
-  try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(location)}&limit=1`,
-      {
-        headers: {
-          'User-Agent': 'TravelCompanionApp/1.0',
-        },
-      }
-    );
-
-    const data = await response.json();
-    
-    if (data && data.length > 0) {
-      const { lat, lon } = data[0];
-      return [parseFloat(lon), parseFloat(lat)];
-    }
-    return null;
-  } catch (error) {
-    console.error("Geocoding error:", error);
-    return null;
-  }
-}
-
-// Calculate multiple alternative routes using OSRM
-async function calculateAlternativeRoutes(
-  start: [number, number],
-  end: [number, number],
-  mode: TransportMode
-): Promise<Array<{ coordinates: [number, number][]; distance: number; duration: number; instructions?: any[] }>> {
-  try {
-    const profile = mapToOSRMProfile(mode);
-    const coords = `${start[0]},${start[1]};${end[0]},${end[1]}`;
-    
-    // Request multiple alternatives from OSRM
-    const response = await fetch(
-      `https://router.project-osrm.org/route/v1/${profile}/${coords}?overview=full&geometries=geojson&steps=true&alternatives=true&number_of_alternatives=3`,
-      {
-        headers: {
-          'User-Agent': 'TravelCompanionApp/1.0',
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('OSRM API error:', response.status, error);
-      return [];
-    }
-
-    const data = await response.json();
-    
-    if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) {
-      console.error('No routes found in OSRM response:', data.code);
-      return [];
-    }
-
-    // Process all alternative routes
-    const routes = data.routes.map((route: any) => {
-      // Extract coordinates from GeoJSON geometry (already in [lon, lat] format)
-      const coordinates: [number, number][] = route.geometry.coordinates.map(
-        (coord: number[]) => [coord[1], coord[0]] // Convert [lon, lat] to [lat, lon] for Leaflet
-      );
-      
-      // Extract turn-by-turn instructions from legs
-      const instructions: any[] = [];
-      if (route.legs && route.legs[0]?.steps) {
-        route.legs[0].steps.forEach((step: any) => {
-          if (step.maneuver) {
-            const instruction = formatManeuver(step.maneuver, step.name);
-            instructions.push({
-              distance: step.distance,
-              duration: step.duration,
-              instruction: instruction,
-              name: step.name || 'Unnamed road',
-              type: step.maneuver.type,
-            });
-          }
-        });
-      }
-
-      return {
-        coordinates: coordinates,
-        distance: route.distance, // in meters
-        duration: route.duration, // in seconds
-        instructions: instructions,
-      };
-    });
-
-    return routes;
-  } catch (error) {
-    console.error("Route calculation error:", error);
-    return [];
-  }
-}
-
-// Format OSRM maneuver into human-readable instruction
-function formatManeuver(maneuver: any, roadName: string): string {
-  const name = roadName || 'the road';
-  
-  switch (maneuver.type) {
-    case 'depart':
-      return `Head ${getDirection(maneuver.bearing_after)} on ${name}`;
-    case 'arrive':
-      return `Arrive at your destination`;
-    case 'turn':
-      if (maneuver.modifier === 'left') return `Turn left onto ${name}`;
-      if (maneuver.modifier === 'right') return `Turn right onto ${name}`;
-      if (maneuver.modifier === 'sharp left') return `Sharp left onto ${name}`;
-      if (maneuver.modifier === 'sharp right') return `Sharp right onto ${name}`;
-      if (maneuver.modifier === 'slight left') return `Slight left onto ${name}`;
-      if (maneuver.modifier === 'slight right') return `Slight right onto ${name}`;
-      return `Turn onto ${name}`;
-    case 'continue':
-      return `Continue on ${name}`;
-    case 'merge':
-      return `Merge onto ${name}`;
-    case 'on ramp':
-      return `Take the ramp onto ${name}`;
-    case 'off ramp':
-      return `Take the exit onto ${name}`;
-    case 'fork':
-      if (maneuver.modifier === 'left') return `Keep left at the fork onto ${name}`;
-      if (maneuver.modifier === 'right') return `Keep right at the fork onto ${name}`;
-      return `Continue at the fork onto ${name}`;
-    case 'roundabout':
-    case 'rotary':
-      const exit = maneuver.exit || 1;
-      return `At the roundabout, take exit ${exit} onto ${name}`;
-    case 'end of road':
-      if (maneuver.modifier === 'left') return `At the end of the road, turn left onto ${name}`;
-      if (maneuver.modifier === 'right') return `At the end of the road, turn right onto ${name}`;
-      return `At the end of the road, continue onto ${name}`;
-    default:
-      return `Continue on ${name}`;
-  }
-}
-
-// Get cardinal direction from bearing
-function getDirection(bearing: number): string {
-  const directions = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
-  const index = Math.round(bearing / 45) % 8;
-  return directions[index];
-}
-
-// Estimate fuel cost based on distance, mode, and route characteristics
-function estimateFuelCost(
-  distanceKm: number, 
-  mode: TransportMode, 
-  routeType: "highway" | "mixed" | "urban" = "mixed"
-): number {
-  // Fuel efficiency varies by route type (L/100km for car)
-  const fuelEfficiencyRates: Record<TransportMode, Record<string, number>> = {
-    car: {
-      highway: 6.5,    // Best fuel economy on highways
-      mixed: 8.0,      // Average mixed driving
-      urban: 10.0,     // Worst in city traffic
-    },
-    cycling: { highway: 0, mixed: 0, urban: 0 },
-    walking: { highway: 0, mixed: 0, urban: 0 },
-    bus: {
-      highway: 2.0,    // Per person fuel cost
-      mixed: 2.5,
-      urban: 3.0,
-    },
-    train: {
-      highway: 1.5,
-      mixed: 1.8,
-      urban: 2.0,
-    },
-    flight: {
-      highway: 15.0,
-      mixed: 15.0,
-      urban: 15.0,
-    },
-  };
-  
-  const fuelPricePerLiter = 1.5; // USD per liter
-  const efficiency = fuelEfficiencyRates[mode]?.[routeType] || 0;
-  const fuelUsed = (distanceKm * efficiency) / 100;
-  
-  return fuelUsed * fuelPricePerLiter;
-}
-
-// Estimate traffic factor based on route characteristics
-function estimateTrafficFactor(
-  distance: number, 
-  duration: number, 
-  mode: TransportMode
-): number {
-  // Calculate average speed
-  const avgSpeed = (distance / 1000) / (duration / 3600); // km/h
-  
-  // Expected speeds for different modes
-  const expectedSpeeds: Record<TransportMode, number> = {
-    car: 80,      // km/h
-    cycling: 20,
-    walking: 5,
-    bus: 60,
-    train: 100,
-    flight: 500,
-  };
-  
-  const expected = expectedSpeeds[mode] || 60;
-  
-  // Traffic factor: 1.0 = no traffic, higher = more traffic/slower
-  const trafficFactor = Math.max(1.0, expected / avgSpeed);
-  
-  return Math.min(trafficFactor, 3.0); // Cap at 3x
+interface FlightInfo {
+  departureAirport: { iataCode: string; name: string; coordinates: [number, number] };
+  arrivalAirport: { iataCode: string; name: string; coordinates: [number, number] };
+  distance: number; // great-circle, in meters
+  blockTime: number; // in seconds
+  co2Kg: number;
 }
 
 // Calculate route score for optimization
 function calculateRouteScore(
   distance: number,
   duration: number,
-  mode: TransportMode,
+  cost: number,
   optimizationType: "fastest" | "cheapest"
-): { cost: number; score: number; fuelEfficiency: number; trafficFactor: number } {
+): { score: number; fuelEfficiency: number } {
   const distanceKm = distance / 1000;
-  const durationHours = duration / 3600;
-  const avgSpeed = distanceKm / durationHours;
   
-  // Determine route type based on speed
-  let routeType: "highway" | "mixed" | "urban" = "mixed";
-  if (mode === "car") {
-    if (avgSpeed > 70) routeType = "highway";
-    else if (avgSpeed < 40) routeType = "urban";
-  }
-  
-  const fuelCost = estimateFuelCost(distanceKm, mode, routeType);
-  const trafficFactor = estimateTrafficFactor(distance, duration, mode);
-  
-  // Calculate fuel efficiency (inverse of fuel cost per km)
-  const fuelEfficiency = fuelCost > 0 ? (100 / (fuelCost / distanceKm)) : 100;
+  // Calculate fuel efficiency (inverse of cost per km)
+  const fuelEfficiency = cost > 0 ? (100 / (cost / distanceKm)) : 100;
   
   let score: number;
   
   if (optimizationType === "cheapest") {
-    // For cheapest: prioritize low fuel cost
+    // For cheapest: prioritize low trip cost
     // Score = cost (lower is better)
-    score = fuelCost;
+    score = cost;
   } else {
-    // For fastest: prioritize short duration and low traffic
-    // Score = duration * traffic_factor (lower is better)
-    score = duration * trafficFactor;
+    // For fastest: prioritize short duration at the time of travel
+    // Score = congested duration (lower is better)
+    score = duration;
   }
   
   return {
-    cost: fuelCost,
     score: score,
     fuelEfficiency: fuelEfficiency,
-    trafficFactor: trafficFactor,
   };
 }
 
-// Helper function for Haversine formula
-function toRad(degrees: number): number {
-  return degrees * (Math.PI / 180);
+// Local date and seconds after midnight for a travel date/time, defaulting to now
+function resolveTravelMoment(travelDate?: string, travelTime?: string): TravelMoment {
+  const now = new Date();
+  const date = travelDate || `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+  const seconds = (travelTime ? parseClockTime(travelTime) : null) ?? now.getHours() * 3600 + now.getMinutes() * 60;
+  return { date, seconds };
+}
+
+// Plan a bus/train journey through the ordered stops, each leg departing when the previous one arrives
+async function calculateTransitRoute(
+  stops: string[],
+  coords: [number, number][],
+  mode: "bus" | "train",
+  costContext: CostContext,
+  departure: TravelMoment
+): Promise<RouteData | null> {
+  const { date, seconds: start } = departure;
+
+  const legs: RouteLegData[] = [];
+  const transitLegs: TransitLeg[] = [];
+  const coordinates: [number, number][] = [];
+  let departureSeconds = start;
+  let fareAmount = 0;
+  let fareCurrency: string | null = null;
+  let fareKnown = true;
+
+  for (let i = 1; i < coords.length; i++) {
+    const journey = await planTransitJourney(coords[i - 1], coords[i], { date, departureSeconds, mode });
+    if (!journey) return null;
+
+    legs.push({
+      from: stops[i - 1],
+      to: stops[i],
+      distance: journey.distance,
+      duration: journey.duration,
+      instructions: journey.legs.map(leg => ({
+        distance: leg.distance,
+        duration: leg.duration,
+        instruction: `${leg.departureTime} ${leg.instruction}`,
+        name: leg.routeName || leg.to.name,
+        type: leg.type,
+      })),
+    });
+    transitLegs.push(...journey.legs);
+    coordinates.push(...(coordinates.length > 0 ? journey.coordinates.slice(1) : journey.coordinates));
+
+    if (journey.fare) {
+      fareAmount += journey.fare.amount;
+      fareCurrency = fareCurrency || journey.fare.currency;
+    } else if (journey.legs.some(leg => leg.type === "ride")) {
+      fareKnown = false;
+    }
+
+    departureSeconds = journey.arrivalSeconds;
+  }
+
+  const fare = fareKnown && fareCurrency ? { amount: Math.round(fareAmount * 100) / 100, currency: fareCurrency } : null;
+  const distance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+  const costBreakdown = await estimateTripCost(costContext, {
+    distance,
+    duration: departureSeconds - start,
+    mode,
+    fare,
+  });
+
+  return {
+    coordinates,
+    distance,
+    duration: departureSeconds - start,
+    cost: costBreakdown.total,
+    costBreakdown,
+    mode,
+    optimizationType: "fastest",
+    instructions: legs.flatMap(leg => leg.instructions),
+    legs,
+    transitLegs,
+    fare,
+    departureDate: date,
+    departureTime: formatClockTime(start),
+    arrivalTime: formatClockTime(departureSeconds),
+  };
+}
+
+// Transit runs on timetables, so "arrive by" searches backward for the latest
+// departure whose journey still arrives in time
+const ARRIVE_BY_STEP_SECONDS = 30 * 60;
+const ARRIVE_BY_MAX_SEARCH_SECONDS = 4 * 3600;
+
+async function calculateTransitRouteArrivingBy(
+  stops: string[],
+  coords: [number, number][],
+  mode: "bus" | "train",
+  costContext: CostContext,
+  arriveBy: TravelMoment
+): Promise<RouteData | null> {
+  for (
+    let offset = ARRIVE_BY_STEP_SECONDS;
+    offset <= ARRIVE_BY_MAX_SEARCH_SECONDS;
+    offset += ARRIVE_BY_STEP_SECONDS
+  ) {
+    const departure = normalizeMoment({ date: arriveBy.date, seconds: arriveBy.seconds - offset });
+    const route = await calculateTransitRoute(stops, coords, mode, costContext, departure);
+    if (!route) continue;
+
+    // Arrival relative to the arrive-by date
+    const dayShift = departure.date === arriveBy.date ? 0 : -86400;
+    if (departure.seconds + dayShift + route.duration <= arriveBy.seconds) {
+      return route;
+    }
+  }
+  return null;
+}
+
+// Fly between each consecutive pair of stops, driving to and from the airports
+async function calculateFlightRoute(
+  stops: string[],
+  coords: [number, number][],
+  costContext: CostContext
+): Promise<RouteData | null> {
+  const legs: RouteLegData[] = [];
+  const segments: ItinerarySegment[] = [];
+  const flight: FlightInfo[] = [];
+  const coordinates: [number, number][] = [];
+  const costs: CostBreakdown[] = [];
+
+  for (let i = 1; i < coords.length; i++) {
+    const itinerary = await planFlightItinerary(coords[i - 1], coords[i], stops[i - 1], stops[i]);
+    if (!itinerary) return null;
+
+    legs.push({
+      from: stops[i - 1],
+      to: stops[i],
+      distance: itinerary.distance,
+      duration: itinerary.duration,
+      instructions: itinerary.segments.flatMap(segment => segment.instructions),
+    });
+    segments.push(...itinerary.segments);
+    coordinates.push(...itinerary.coordinates);
+    flight.push({
+      departureAirport: {
+        iataCode: itinerary.departureAirport.iataCode,
+        name: itinerary.departureAirport.name,
+        coordinates: itinerary.departureAirport.coordinates,
+      },
+      arrivalAirport: {
+        iataCode: itinerary.arrivalAirport.iataCode,
+        name: itinerary.arrivalAirport.name,
+        coordinates: itinerary.arrivalAirport.coordinates,
+      },
+      distance: itinerary.flightDistance,
+      blockTime: itinerary.blockTime,
+      co2Kg: itinerary.co2Kg,
+    });
+
+    // Ground legs are driven in the user's vehicle, the flight is a per-passenger share
+    for (const segment of itinerary.segments) {
+      costs.push(await estimateTripCost(costContext, {
+        distance: segment.distance,
+        duration: segment.duration,
+        mode: segment.type === "flight" ? "flight" : "car",
+        instructions: segment.type === "ground" ? segment.instructions : undefined,
+      }));
+    }
+  }
+
+  const costBreakdown = combineCosts(costs);
+
+  return {
+    coordinates,
+    distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    duration: legs.reduce((sum, leg) => sum + leg.duration, 0),
+    cost: costBreakdown.total,
+    costBreakdown,
+    mode: "flight",
+    optimizationType: "fastest",
+    instructions: legs.flatMap(leg => leg.instructions),
+    legs,
+    segments,
+    flight,
+  };
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body: RouteRequest = await request.json();
-    const { boardingPoints, destination, transportMode, optimizationMode } = body;
+    const {
+      boardingPoints,
+      destination,
+      transportMode,
+      optimizationMode,
+      optimizeStopOrder,
+      travelDate,
+      travelTime,
+      arriveBy,
+      vehicleId,
+      currency,
+      region,
+      parkingHours,
+    } = body;
 
     // Validate input
-    if (!boardingPoints || boardingPoints.length === 0) {
+    if (!Array.isArray(boardingPoints) || boardingPoints.length === 0) {
       return NextResponse.json(
         { error: "At least one boarding point is required" },
         { status: 400 }
       );
     }
 
+    if (boardingPoints.some(point => typeof point !== "string" || point.trim() === "")) {
+      return NextResponse.json(
+        { error: "Boarding points must be non-empty strings" },
+        { status: 400 }
+      );
+    }
+
     if (!destination) {
       return NextResponse.json(
         { error: "Destination is required" },
@@ -322,76 +358,205 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log("Geocoding locations:", { source: boardingPoints[0], destination });
+    const arriveBySeconds = arriveBy ? parseClockTime(arriveBy) : null;
+    if (arriveBy && arriveBySeconds === null) {
+      return NextResponse.json(
+        { error: "arriveBy must be a time in HH:MM format", code: "INVALID_ARRIVE_BY" },
+        { status: 400 }
+      );
+    }
+
+    if (parkingHours !== undefined && (typeof parkingHours !== "number" || !(parkingHours >= 0))) {
+      return NextResponse.json(
+        { error: "parkingHours must be a non-negative number", code: "INVALID_PARKING_HOURS" },
+        { status: 400 }
+      );
+    }
+
+    // Vehicles and preferred currency come from the signed-in user, if any
+    const session = await auth.api.getSession({ headers: request.headers });
+    const userId = session?.user?.id ?? null;
+    const vehicle = await getVehicleProfile(userId, vehicleId);
+
+    if (!vehicle) {
+      return NextResponse.json(
+        { error: "Vehicle not found", code: "VEHICLE_NOT_FOUND" },
+        { status: 404 }
+      );
+    }
+
+    // Every boarding point is a stop, followed by the destination
+    const stops = [...boardingPoints, destination].map(stop => stop.trim());
+
+    console.log("Geocoding locations:", stops);
 
     // Geocode all locations
-    const startCoords = await geocode(boardingPoints[0]);
-    const destCoords = await geocode(destination);
+    const stopCoords: [number, number][] = [];
+    const unresolved: string[] = [];
+    for (const stop of stops) {
+      const coords = await geocode(stop);
+      if (coords) {
+        stopCoords.push(coords);
+      } else {
+        unresolved.push(stop);
+      }
+    }
 
-    if (!startCoords || !destCoords) {
+    if (unresolved.length > 0) {
       return NextResponse.json(
-        { error: "Unable to find one or more locations. Please use more specific addresses (e.g., 'New York, NY, USA')" },
+        {
+          error: `Unable to find ${unresolved.map(stop => `"${stop}"`).join(", ")}. Please use more specific addresses (e.g., 'New York, NY, USA')`,
+          unresolved,
+        },
         { status: 400 }
       );
     }
 
-    console.log("Geocoded coordinates:", { start: startCoords, dest: destCoords });
+    // Keep the first boarding point and the destination fixed; optionally reorder the stops between
+    const order = optimizeStopOrder
+      ? optimizeWaypointOrder(stopCoords)
+      : stopCoords.map((_, index) => index);
+    const orderedStops = order.map(index => stops[index]);
+    const orderedCoords = order.map(index => stopCoords[index]);
+
+    console.log("Geocoded coordinates:", orderedCoords);
+
+    const stopsResponse = orderedStops.map((location, index) => ({
+      location,
+      coordinates: orderedCoords[index],
+    }));
+
+    // Prices come from the region of the first stop unless one is given
+    const costContext = await createCostContext(
+      region || await resolveRegion(orderedCoords[0]),
+      vehicle,
+      currency || (userId ? await getPreferredCurrency(userId) : null)
+    );
+
+    // Either leave at the requested time, or arrive by the requested time
+    const departure = resolveTravelMoment(travelDate, travelTime);
+    const arrival: TravelMoment | null = arriveBySeconds !== null
+      ? { date: departure.date, seconds: arriveBySeconds }
+      : null;
+
+    // Bus and train use the GTFS journey planner once feeds have been imported
+    if (transportMode === "bus" || transportMode === "train") {
+      if (await hasTransitData()) {
+        const transitRoute = arrival
+          ? await calculateTransitRouteArrivingBy(orderedStops, orderedCoords, transportMode, costContext, arrival)
+          : await calculateTransitRoute(orderedStops, orderedCoords, transportMode, costContext, departure);
+
+        if (!transitRoute) {
+          return NextResponse.json(
+            { error: `No ${transportMode} journey found for the requested date and time`, code: "NO_TRANSIT_JOURNEY" },
+            { status: 404 }
+          );
+        }
+
+        return NextResponse.json({ routes: [transitRoute], stops: stopsResponse });
+      }
+
+      console.log(`No GTFS feeds imported, using road routing for ${transportMode}`);
+    }
 
-    // Calculate multiple alternative routes
-    const alternativeRoutes = await calculateAlternativeRoutes(startCoords, destCoords, transportMode);
+    // Flights resolve each stop to its nearest airport and fly the great circle between them
+    if (transportMode === "flight") {
+      const flightRoute = await calculateFlightRoute(orderedStops, orderedCoords, costContext);
+
+      if (!flightRoute) {
+        return NextResponse.json(
+          { error: "No flight possible between these locations: they share the nearest airport or have no airport nearby", code: "FLIGHT_NOT_POSSIBLE" },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({ routes: [flightRoute], stops: stopsResponse });
+    }
+
+    // Calculate multiple alternative routes with the configured routing engine
+    const routingEngine = getRoutingEngine();
+    const alternativeRoutes: EngineRoute[] = await routingEngine.route(orderedCoords, transportMode, { alternatives: 3 });
 
     if (alternativeRoutes.length === 0) {
-      // If OSRM fails, create a simple direct route with estimated data
-      console.log("OSRM failed, creating fallback direct route");
-      
-      // Calculate straight-line distance using Haversine formula
-      const R = 6371; // Earth's radius in km
-      const dLat = toRad(destCoords[1] - startCoords[1]);
-      const dLon = toRad(destCoords[0] - startCoords[0]);
-      const lat1 = toRad(startCoords[1]);
-      const lat2 = toRad(destCoords[1]);
-
-      const a =
-        Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      const straightDistance = R * c * 1000; // in meters
+      // If the routing engine fails, create a simple direct route with estimated data
+      console.log(`Routing engine "${routingEngine.name}" failed, creating fallback direct route`);
+
+      // One straight leg per consecutive pair of stops
+      const fallbackLegs = orderedCoords.slice(1).map((end, index) => {
+        // Straight-line distance plus 30% for actual road distance
+        const distance = calculateDistance(orderedCoords[index], end) * 1000 * 1.3;
+        const duration = distance / 1000 / 60 * 3600; // Rough estimate: 60 km/h average
+        return {
+          distance,
+          duration,
+          instructions: [
+            {
+              distance,
+              duration,
+              instruction: `Head towards ${orderedStops[index + 1]}`,
+              name: 'Direct route',
+              type: 'depart',
+            }
+          ]
+        };
+      });
 
       // Create fallback direct route
-      const fallbackRoute = {
-        coordinates: [startCoords, destCoords],
-        distance: straightDistance * 1.3, // Add 30% for actual road distance
-        duration: (straightDistance * 1.3) / 1000 / 60 * 60, // Rough estimate: 60 km/h average
-        instructions: [
-          {
-            distance: straightDistance * 1.3,
-            duration: (straightDistance * 1.3) / 1000 / 60 * 60,
-            instruction: `Head towards ${destination}`,
-            name: 'Direct route',
-            type: 'depart',
-          }
-        ]
-      };
-
-      alternativeRoutes.push(fallbackRoute);
+      alternativeRoutes.push({
+        coordinates: orderedCoords,
+        distance: fallbackLegs.reduce((sum, leg) => sum + leg.distance, 0),
+        duration: fallbackLegs.reduce((sum, leg) => sum + leg.duration, 0),
+        instructions: fallbackLegs.flatMap(leg => leg.instructions),
+        legs: fallbackLegs,
+      });
     }
 
+    // Label each engine leg with the stops it connects
+    const labelLegs = (route: EngineRoute): RouteLegData[] =>
+      route.legs.map((leg, index) => ({
+        from: orderedStops[index],
+        to: orderedStops[index + 1],
+        distance: leg.distance,
+        duration: leg.duration,
+        instructions: leg.instructions,
+      }));
+
+    // Departure and arrival times for a congestion-timed route
+    const describeTiming = (timing: TimedRoute) => ({
+      departureDate: timing.departure.date,
+      departureTime: formatClockTime(timing.departure.seconds),
+      arrivalTime: formatClockTime(timing.arrival.seconds),
+    });
+
     // Process alternatives with cost and traffic analysis
     const routes: RouteData[] = [];
     
     // Analyze all routes
-    const analyzedRoutes = alternativeRoutes.map(route => {
+    const analyzedRoutes = await Promise.all(alternativeRoutes.map(async route => {
+      // Duration depends on the congestion expected at the time of travel
+      const timing = arrival
+        ? await timeRouteForArrival(route, transportMode, arrival)
+        : await timeRouteFromDeparture(route, transportMode, departure);
+
+      const costBreakdown = await estimateTripCost(costContext, {
+        distance: route.distance,
+        duration: timing.duration,
+        mode: transportMode,
+        instructions: route.instructions,
+        parkingHours,
+      });
+
       const cheapestAnalysis = calculateRouteScore(
         route.distance,
-        route.duration,
-        transportMode,
+        timing.duration,
+        costBreakdown.total,
         "cheapest"
       );
       
       const fastestAnalysis = calculateRouteScore(
         route.distance,
-        route.duration,
-        transportMode,
+        timing.duration,
+        costBreakdown.total,
         "fastest"
       );
       
@@ -399,13 +564,14 @@ export async function POST(request: NextRequest) {
         route,
         cheapestScore: cheapestAnalysis.score,
         fastestScore: fastestAnalysis.score,
-        cost: cheapestAnalysis.cost,
+        cost: costBreakdown.total,
+        costBreakdown,
         fuelEfficiency: cheapestAnalysis.fuelEfficiency,
-        trafficFactor: cheapestAnalysis.trafficFactor,
+        timing,
       };
-    });
+    }));
     
-    // Sort by cost (cheapest fuel cost)
+    // Sort by cost (cheapest trip cost)
     const sortedByCost = [...analyzedRoutes].sort((a, b) => a.cheapestScore - b.cheapestScore);
     
     // Sort by time with traffic consideration
@@ -417,13 +583,16 @@ export async function POST(request: NextRequest) {
       routes.push({
         coordinates: analyzed.route.coordinates,
         distance: analyzed.route.distance,
-        duration: analyzed.route.duration,
+        duration: analyzed.timing.duration,
         cost: analyzed.cost,
+        costBreakdown: analyzed.costBreakdown,
         mode: transportMode,
         optimizationType: "cheapest",
         fuelEfficiency: analyzed.fuelEfficiency,
-        trafficFactor: analyzed.trafficFactor,
+        trafficFactor: analyzed.timing.trafficFactor,
         instructions: analyzed.route.instructions,
+        legs: labelLegs(analyzed.route),
+        ...describeTiming(analyzed.timing),
       });
     }
     
@@ -433,13 +602,16 @@ export async function POST(request: NextRequest) {
       routes.push({
         coordinates: analyzed.route.coordinates,
         distance: analyzed.route.distance,
-        duration: analyzed.route.duration,
+        duration: analyzed.timing.duration,
         cost: analyzed.cost,
+        costBreakdown: analyzed.costBreakdown,
         mode: transportMode,
         optimizationType: "fastest",
         fuelEfficiency: analyzed.fuelEfficiency,
-        trafficFactor: analyzed.trafficFactor,
+        trafficFactor: analyzed.timing.trafficFactor,
         instructions: analyzed.route.instructions,
+        legs: labelLegs(analyzed.route),
+        ...describeTiming(analyzed.timing),
       });
     }
     
@@ -457,13 +629,16 @@ export async function POST(request: NextRequest) {
         routes.push({
           coordinates: balanced.route.coordinates,
           distance: balanced.route.distance,
-          duration: balanced.route.duration,
+          duration: balanced.timing.duration,
           cost: balanced.cost,
+          costBreakdown: balanced.costBreakdown,
           mode: transportMode,
           optimizationType: "balanced",
           fuelEfficiency: balanced.fuelEfficiency,
-          trafficFactor: balanced.trafficFactor,
+          trafficFactor: balanced.timing.trafficFactor,
           instructions: balanced.route.instructions,
+          legs: labelLegs(balanced.route),
+          ...describeTiming(balanced.timing),
         });
       }
     }
@@ -471,17 +646,14 @@ export async function POST(request: NextRequest) {
     // Sort routes based on user's optimization preference
     let sortedRoutes = routes;
     if (optimizationMode === "fastest") {
-      sortedRoutes = routes.sort((a, b) => {
-        const aScore = a.duration * (a.trafficFactor || 1);
-        const bScore = b.duration * (b.trafficFactor || 1);
-        return aScore - bScore;
-      });
+      // Durations already include the expected congestion
+      sortedRoutes = routes.sort((a, b) => a.duration - b.duration);
     } else if (optimizationMode === "cheapest") {
       sortedRoutes = routes.sort((a, b) => a.cost - b.cost);
     }
 
     console.log(`Returning ${sortedRoutes.length} route(s) optimized for ${optimizationMode}`);
-    return NextResponse.json({ routes: sortedRoutes });
+    return NextResponse.json({ routes: sortedRoutes, stops: stopsResponse });
   } catch (error) {
     console.error("API error:", error);
     return NextResponse.json(
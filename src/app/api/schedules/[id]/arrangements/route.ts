@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { trips, tripMatches, tripSchedules } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { optIntoArrangement, optOutOfArrangement } from '@/lib/schedules';
+
+async function findOwnSchedule(request: NextRequest, userId: string) {
+  const scheduleId = parseInt(request.nextUrl.pathname.split('/')[3]);
+  if (isNaN(scheduleId)) return null;
+
+  const [schedule] = await db
+    .select()
+    .from(tripSchedules)
+    .where(and(eq(tripSchedules.id, scheduleId), eq(tripSchedules.userId, userId)))
+    .limit(1);
+  return schedule ?? null;
+}
+
+// Opt into a standing arrangement with the partner of an accepted match
+// between two recurring trips. It holds once the partner opts in too.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const schedule = await findOwnSchedule(request, session.user.id);
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Schedule not found', code: 'SCHEDULE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const { matchId } = await request.json();
+    if (!matchId || isNaN(parseInt(matchId))) {
+      return NextResponse.json(
+        { error: 'Valid match ID is required', code: 'INVALID_MATCH_ID' },
+        { status: 400 }
+      );
+    }
+
+    const [match] = await db
+      .select({ status: tripMatches.status, tripScheduleId: trips.scheduleId, matchedTripId: tripMatches.matchedTripId })
+      .from(tripMatches)
+      .innerJoin(trips, eq(tripMatches.tripId, trips.id))
+      .where(eq(tripMatches.id, parseInt(matchId)))
+      .limit(1);
+
+    if (!match || match.tripScheduleId !== schedule.id) {
+      return NextResponse.json(
+        { error: 'Trip match not found for this schedule', code: 'MATCH_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (match.status !== 'accepted') {
+      return NextResponse.json(
+        { error: 'Only accepted matches can become standing arrangements', code: 'MATCH_NOT_ACCEPTED' },
+        { status: 409 }
+      );
+    }
+
+    const [matchedTrip] = await db
+      .select({ scheduleId: trips.scheduleId })
+      .from(trips)
+      .where(eq(trips.id, match.matchedTripId))
+      .limit(1);
+
+    if (!matchedTrip?.scheduleId) {
+      return NextResponse.json(
+        { error: 'The other trip is not recurring', code: 'PARTNER_NOT_RECURRING' },
+        { status: 409 }
+      );
+    }
+
+    const standing = await optIntoArrangement(schedule.id, matchedTrip.scheduleId);
+
+    return NextResponse.json({ partnerScheduleId: matchedTrip.scheduleId, standing }, { status: 200 });
+  } catch (error) {
+    console.error('POST arrangement error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Opt out of a standing arrangement: ?partnerScheduleId=
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const schedule = await findOwnSchedule(request, session.user.id);
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Schedule not found', code: 'SCHEDULE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const partnerScheduleId = parseInt(request.nextUrl.searchParams.get('partnerScheduleId') || '');
+    if (isNaN(partnerScheduleId)) {
+      return NextResponse.json(
+        { error: 'Valid partnerScheduleId is required', code: 'INVALID_PARTNER_SCHEDULE_ID' },
+        { status: 400 }
+      );
+    }
+
+    await optOutOfArrangement(schedule.id, partnerScheduleId);
+
+    return NextResponse.json({ message: 'Standing arrangement ended' }, { status: 200 });
+  } catch (error) {
+    console.error('DELETE arrangement error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { trips, tripMatches, tripSchedules } from '@/db/schema';
+import { eq, and, gte, inArray } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { enqueueTripMatching } from '@/lib/jobs';
+
+// End a schedule. Its upcoming trips are cancelled unless someone has already
+// agreed to travel on them; those are left for the user to withdraw.
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const id = request.nextUrl.pathname.split('/').slice(-1)[0];
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json(
+        { error: 'Valid schedule ID is required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+    const scheduleId = parseInt(id);
+
+    const [schedule] = await db
+      .select()
+      .from(tripSchedules)
+      .where(and(eq(tripSchedules.id, scheduleId), eq(tripSchedules.userId, session.user.id)))
+      .limit(1);
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Schedule not found', code: 'SCHEDULE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const timestamp = new Date().toISOString();
+    await db
+      .update(tripSchedules)
+      .set({ status: 'ended', updatedAt: timestamp })
+      .where(eq(tripSchedules.id, scheduleId));
+
+    const upcoming = await db
+      .select({ id: trips.id })
+      .from(trips)
+      .where(and(
+        eq(trips.scheduleId, scheduleId),
+        eq(trips.status, 'active'),
+        gte(trips.travelDate, timestamp.slice(0, 10))
+      ));
+
+    const accepted = upcoming.length === 0 ? [] : await db
+      .select({ tripId: tripMatches.tripId })
+      .from(tripMatches)
+      .where(and(inArray(tripMatches.tripId, upcoming.map(trip => trip.id)), eq(tripMatches.status, 'accepted')));
+    const keep = new Set(accepted.map(match => match.tripId));
+
+    const cancelled = upcoming.filter(trip => !keep.has(trip.id)).map(trip => trip.id);
+    if (cancelled.length > 0) {
+      await db
+        .update(trips)
+        .set({ status: 'cancelled', updatedAt: timestamp })
+        .where(inArray(trips.id, cancelled));
+
+      // Cancelled trips lose their pending matches
+      for (const tripId of cancelled) {
+        await enqueueTripMatching(tripId);
+      }
+    }
+
+    return NextResponse.json(
+      { message: 'Schedule ended', cancelledTripIds: cancelled, keptTripIds: [...keep] },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('DELETE schedule error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
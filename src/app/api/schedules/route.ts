@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { tripSchedules } from '@/db/schema';
+import { eq, desc } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { departureWindow } from '@/lib/matching';
+import { describeRecurrence, parseRRule } from '@/lib/recurrence';
+import { generateScheduleTrips } from '@/lib/schedules';
+import { locateTrip, parseEndpointCoordinates, parseTripOptions } from '@/lib/trips';
+
+// List the user's recurring trip schedules, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const schedules = await db
+      .select()
+      .from(tripSchedules)
+      .where(eq(tripSchedules.userId, session.user.id))
+      .orderBy(desc(tripSchedules.createdAt));
+
+    return NextResponse.json(
+      schedules.map(schedule => {
+        const recurrence = parseRRule(schedule.rrule);
+        return { ...schedule, description: recurrence ? describeRecurrence(recurrence) : schedule.rrule };
+      }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('GET schedules error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a recurring trip, e.g. a weekday commute with
+// rrule "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR". The endpoints are located once
+// (or taken from sourceCoordinates / destinationCoordinates) and the first
+// weeks of trips are generated right away.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    if ('userId' in body || 'user_id' in body) {
+      return NextResponse.json(
+        { error: 'User ID cannot be provided in request body', code: 'USER_ID_NOT_ALLOWED' },
+        { status: 400 }
+      );
+    }
+
+    const { source, destination, startDate, travelTime, transportMode, optimizationMode, routeData, rrule } = body;
+
+    if (!source || !destination || !startDate || !travelTime || !transportMode || !optimizationMode || !rrule) {
+      return NextResponse.json(
+        {
+          error: 'Missing required fields: source, destination, startDate, travelTime, transportMode, optimizationMode, rrule',
+          code: 'MISSING_REQUIRED_FIELDS',
+        },
+        { status: 400 }
+      );
+    }
+
+    const recurrence = typeof rrule === 'string' ? parseRRule(rrule) : null;
+    if (!recurrence) {
+      return NextResponse.json(
+        {
+          error: 'rrule must use FREQ=DAILY or FREQ=WEEKLY with optional INTERVAL, BYDAY and UNTIL (YYYYMMDD)',
+          code: 'INVALID_RRULE',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!departureWindow(startDate.trim(), travelTime.trim(), 0)) {
+      return NextResponse.json(
+        { error: 'startDate must be YYYY-MM-DD and travelTime HH:MM', code: 'INVALID_DATE_TIME' },
+        { status: 400 }
+      );
+    }
+
+    if (recurrence.until && recurrence.until < startDate.trim()) {
+      return NextResponse.json(
+        { error: 'UNTIL must not be before startDate', code: 'INVALID_RRULE' },
+        { status: 400 }
+      );
+    }
+
+    const parsedOptions = parseTripOptions(body, transportMode.trim());
+    if (!parsedOptions.ok) {
+      return NextResponse.json(
+        { error: parsedOptions.error, code: parsedOptions.code },
+        { status: 400 }
+      );
+    }
+
+    const endpoints = parseEndpointCoordinates(body);
+    if (!endpoints.ok) {
+      return NextResponse.json(
+        { error: endpoints.error, code: endpoints.code },
+        { status: 400 }
+      );
+    }
+
+    const location = await locateTrip(source.trim(), destination.trim(), transportMode.trim(), endpoints);
+    if (!location) {
+      return NextResponse.json(
+        {
+          error: 'Unable to geocode source or destination. Please provide more specific location names',
+          code: 'GEOCODING_FAILED',
+        },
+        { status: 400 }
+      );
+    }
+
+    const timestamp = new Date().toISOString();
+    const [schedule] = await db
+      .insert(tripSchedules)
+      .values({
+        userId: session.user.id,
+        source: source.trim(),
+        destination: destination.trim(),
+        sourceCoordinates: `${location.sourceCoords[0]},${location.sourceCoords[1]}`,
+        destinationCoordinates: `${location.destCoords[0]},${location.destCoords[1]}`,
+        routeGeometry: location.routeGeometry,
+        routeData: routeData || null,
+        travelTime: travelTime.trim(),
+        transportMode: transportMode.trim(),
+        optimizationMode: optimizationMode.trim(),
+        ...parsedOptions.options,
+        rrule: rrule.trim(),
+        startDate: startDate.trim(),
+        status: 'active',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      })
+      .returning();
+
+    const generatedTrips = await generateScheduleTrips(schedule);
+
+    return NextResponse.json(
+      { ...schedule, description: describeRecurrence(recurrence), trips: generatedTrips },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('POST schedules error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
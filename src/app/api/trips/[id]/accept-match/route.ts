@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { trips, tripMatches, groups, groupMembers } from '@/db/schema';
-import { eq, and, or } from 'drizzle-orm';
+import { trips, tripMatches } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
 import { auth } from '@/lib/auth';
+import { TRANSITION_ERROR_STATUS, applyMatchAction } from '@/lib/matchConsent';
 
 export async function POST(request: NextRequest) {
   try {
@@ -73,8 +74,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const trip = userTrip[0];
-
     // Look up the match by matchId
     const match = await db
       .select()
@@ -99,148 +98,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const matchedTripId = matchRecord.matchedTripId;
-
-    // Update match status to 'accepted' in both directions
-    await db
-      .update(tripMatches)
-      .set({
-        status: 'accepted',
-        updatedAt: new Date().toISOString(),
-      })
-      .where(
-        and(
-          eq(tripMatches.tripId, tripId),
-          eq(tripMatches.matchedTripId, matchedTripId)
-        )
-      );
-
-    await db
-      .update(tripMatches)
-      .set({
-        status: 'accepted',
-        updatedAt: new Date().toISOString(),
-      })
-      .where(
-        and(
-          eq(tripMatches.tripId, matchedTripId),
-          eq(tripMatches.matchedTripId, tripId)
-        )
-      );
+    // Accepting needs a request from the other side first; the group is
+    // created once both have agreed
+    const result = await applyMatchAction(matchRecord, 'accept', userId);
 
-    // Get the matched trip to find the other user
-    const matchedTrip = await db
-      .select()
-      .from(trips)
-      .where(eq(trips.id, matchedTripId))
-      .limit(1);
-
-    if (matchedTrip.length === 0) {
+    if (!result.ok) {
       return NextResponse.json(
-        { error: 'Matched trip not found', code: 'MATCHED_TRIP_NOT_FOUND' },
-        { status: 404 }
+        { error: result.error, code: result.code },
+        { status: TRANSITION_ERROR_STATUS[result.code] }
       );
     }
 
-    const matchedUserId = matchedTrip[0].userId;
-
-    // Check if a group already exists for either trip
-    const existingGroup = await db
-      .select()
-      .from(groups)
-      .where(
-        or(
-          eq(groups.tripId, tripId),
-          eq(groups.tripId, matchedTripId)
-        )
-      )
-      .limit(1);
-
-    let groupResult;
-
-    if (existingGroup.length > 0) {
-      // Group exists, add current user if not already a member
-      const group = existingGroup[0];
-
-      // Check if user is already a member
-      const existingMember = await db
-        .select()
-        .from(groupMembers)
-        .where(
-          and(
-            eq(groupMembers.groupId, group.id),
-            eq(groupMembers.userId, userId)
-          )
-        )
-        .limit(1);
-
-      if (existingMember.length === 0) {
-        // Add user as member
-        await db.insert(groupMembers).values({
-          groupId: group.id,
-          userId: userId,
-          role: 'member',
-          joinedAt: new Date().toISOString(),
-        });
-      }
-
-      // Get all group members
-      const members = await db
-        .select()
-        .from(groupMembers)
-        .where(eq(groupMembers.groupId, group.id));
-
-      groupResult = {
-        group,
-        members,
-      };
-    } else {
-      // Create new group
-      const groupName = `Trip to ${trip.destination} - ${trip.travelDate}`;
-      
-      const newGroup = await db
-        .insert(groups)
-        .values({
-          name: groupName,
-          tripId: tripId,
-          createdBy: userId,
-          status: 'active',
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        })
-        .returning();
-
-      const group = newGroup[0];
-
-      // Add creator as admin
-      await db.insert(groupMembers).values({
-        groupId: group.id,
-        userId: userId,
-        role: 'admin',
-        joinedAt: new Date().toISOString(),
-      });
-
-      // Add matched user as member
-      await db.insert(groupMembers).values({
-        groupId: group.id,
-        userId: matchedUserId,
-        role: 'member',
-        joinedAt: new Date().toISOString(),
-      });
-
-      // Get all group members
-      const members = await db
-        .select()
-        .from(groupMembers)
-        .where(eq(groupMembers.groupId, group.id));
-
-      groupResult = {
-        group,
-        members,
-      };
-    }
-
-    return NextResponse.json(groupResult, { status: 200 });
+    return NextResponse.json(result.group, { status: 200 });
   } catch (error) {
     console.error('POST accept-match error:', error);
     return NextResponse.json(
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { trips, tripMatches } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import {
+  TRANSITION_ERROR_STATUS,
+  USER_MATCH_ACTIONS,
+  applyMatchAction,
+  type MatchAction,
+} from '@/lib/matchConsent';
+
+// POST - request, accept, decline or withdraw a match of the user's trip
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    // Extract trip and match IDs from URL path
+    const pathParts = request.nextUrl.pathname.split('/');
+    const tripId = parseInt(pathParts[3]);
+    const matchId = parseInt(pathParts[5]);
+
+    if (isNaN(tripId) || isNaN(matchId)) {
+      return NextResponse.json(
+        { error: 'Valid trip ID and match ID are required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const action = body.action as MatchAction;
+
+    if (!USER_MATCH_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${USER_MATCH_ACTIONS.join(', ')}`, code: 'INVALID_ACTION' },
+        { status: 400 }
+      );
+    }
+
+    const [trip] = await db.select().from(trips).where(eq(trips.id, tripId)).limit(1);
+
+    if (!trip) {
+      return NextResponse.json(
+        { error: 'Trip not found', code: 'TRIP_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (trip.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'You do not have permission to act on matches for this trip', code: 'FORBIDDEN' },
+        { status: 403 }
+      );
+    }
+
+    const [match] = await db
+      .select()
+      .from(tripMatches)
+      .where(and(eq(tripMatches.id, matchId), eq(tripMatches.tripId, tripId)))
+      .limit(1);
+
+    if (!match) {
+      return NextResponse.json(
+        { error: 'Trip match not found', code: 'MATCH_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const result = await applyMatchAction(match, action, session.user.id);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: TRANSITION_ERROR_STATUS[result.code] }
+      );
+    }
+
+    return NextResponse.json({ match: result.match, group: result.group ?? null }, { status: 200 });
+  } catch (error) {
+    console.error('POST match action error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
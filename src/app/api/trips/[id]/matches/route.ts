@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { trips, tripMatches, user } from '@/db/schema';
 import { eq, desc, and, ne } from 'drizzle-orm';
 import { auth } from '@/lib/auth';
+import { expireMatchRequests } from '@/lib/matchConsent';
 
 export async function GET(request: NextRequest) {
   try {
@@ -53,13 +54,19 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Lapse open requests past their deadline before showing them
+    await expireMatchRequests();
+
     // Query tripMatches with joined trip and user data
     // CRITICAL: Filter out matches where matchedTripId equals the current tripId (no self-matches)
     const matchesData = await db
       .select({
         matchId: tripMatches.id,
         matchScore: tripMatches.matchScore,
+        breakdown: tripMatches.breakdown,
         status: tripMatches.status,
+        requestedByTripId: tripMatches.requestedByTripId,
+        expiresAt: tripMatches.expiresAt,
         createdAt: tripMatches.createdAt,
         matchedTrip: {
           id: trips.id,
@@ -69,6 +76,9 @@ export async function GET(request: NextRequest) {
           travelDate: trips.travelDate,
           travelTime: trips.travelTime,
           transportMode: trips.transportMode,
+          role: trips.role,
+          seatsAvailable: trips.seatsAvailable,
+          scheduleId: trips.scheduleId,
           optimizationMode: trips.optimizationMode,
           status: trips.status,
           routeData: trips.routeData,
@@ -87,7 +97,8 @@ export async function GET(request: NextRequest) {
       .where(
         and(
           eq(tripMatches.tripId, tripId),
-          ne(tripMatches.matchedTripId, tripId) // Exclude self-matches
+          ne(tripMatches.matchedTripId, tripId), // Exclude self-matches
+          ne(tripMatches.status, 'invalidated') // Trips that changed and no longer match
         )
       )
       .orderBy(desc(tripMatches.matchScore));
@@ -98,7 +109,10 @@ export async function GET(request: NextRequest) {
       tripId: tripId,
       matchedTripId: match.matchedTrip.id,
       matchScore: match.matchScore,
+      breakdown: match.breakdown,
       status: match.status,
+      requestedByTripId: match.requestedByTripId,
+      expiresAt: match.expiresAt,
       createdAt: match.createdAt,
       matchedTrip: {
         ...match.matchedTrip,
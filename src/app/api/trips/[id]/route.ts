@@ -1,8 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { trips, tripMatches, groups, groupMembers } from '@/db/schema';
-import { eq, and, or } from 'drizzle-orm';
+import { eq, and, or, inArray } from 'drizzle-orm';
 import { auth } from '@/lib/auth';
+import {
+  DETOUR_MODES,
+  MAX_DETOUR_MINUTES_LIMIT,
+  MAX_FLEXIBILITY_MINUTES,
+  MAX_SEATS_OFFERED,
+  TRIP_ROLES,
+  departureWindow,
+} from '@/lib/matching';
+import { locateTrip, parseEndpointCoordinates } from '@/lib/trips';
+import { parseLatLon } from '@/lib/geo';
+import { enqueueTripMatching } from '@/lib/jobs';
+import { applyMatchAction } from '@/lib/matchConsent';
+import { endSharesForTrip } from '@/lib/liveLocation';
+import { sendLocationStopped } from '@/lib/realtime';
+import type { TransportMode } from '@/lib/routing';
+
+// Changes to these fields can change a trip's matches
+const MATCHING_FIELDS = [
+  'status',
+  'source',
+  'destination',
+  'travelDate',
+  'travelTime',
+  'transportMode',
+  'flexibilityMinutes',
+  'maxDetourMinutes',
+  'role',
+  'seatsAvailable'
+];
 
 export async function GET(request: NextRequest) {
   try {
@@ -58,6 +87,7 @@ export async function GET(request: NextRequest) {
       matchId: tripMatches.id,
       matchedTripId: tripMatches.matchedTripId,
       matchScore: tripMatches.matchScore,
+      matchBreakdown: tripMatches.breakdown,
       matchStatus: tripMatches.status,
       matchCreatedAt: tripMatches.createdAt,
       tripId: trips.id,
@@ -80,6 +110,7 @@ export async function GET(request: NextRequest) {
           eq(tripMatches.tripId, tripId),
           or(
             eq(tripMatches.status, 'pending'),
+            eq(tripMatches.status, 'requested'),
             eq(tripMatches.status, 'accepted')
           )
         )
@@ -89,6 +120,7 @@ export async function GET(request: NextRequest) {
     const matchedTrips = matchedTripsData.map(match => ({
       matchId: match.matchId,
       matchScore: match.matchScore,
+      matchBreakdown: match.matchBreakdown,
       matchStatus: match.matchStatus,
       matchCreatedAt: match.matchCreatedAt,
       trip: {
@@ -214,6 +246,55 @@ export async function PUT(request: NextRequest) {
     // Get update data from request body
     const updateData = await request.json();
 
+    if ('flexibilityMinutes' in updateData) {
+      const flexibility = updateData.flexibilityMinutes;
+      if (!Number.isInteger(flexibility) || flexibility < 0 || flexibility > MAX_FLEXIBILITY_MINUTES) {
+        return NextResponse.json({ 
+          error: `flexibilityMinutes must be a whole number between 0 and ${MAX_FLEXIBILITY_MINUTES}`,
+          code: 'INVALID_FLEXIBILITY' 
+        }, { status: 400 });
+      }
+    }
+
+    if ('maxDetourMinutes' in updateData) {
+      const maxDetour = updateData.maxDetourMinutes;
+      if (!Number.isInteger(maxDetour) || maxDetour < 0 || maxDetour > MAX_DETOUR_MINUTES_LIMIT) {
+        return NextResponse.json({ 
+          error: `maxDetourMinutes must be a whole number between 0 and ${MAX_DETOUR_MINUTES_LIMIT}`,
+          code: 'INVALID_MAX_DETOUR' 
+        }, { status: 400 });
+      }
+    }
+
+    if ('role' in updateData && !TRIP_ROLES.includes(updateData.role)) {
+      return NextResponse.json({ 
+        error: `role must be one of: ${TRIP_ROLES.join(', ')}`,
+        code: 'INVALID_ROLE' 
+      }, { status: 400 });
+    }
+
+    if ('seatsOffered' in updateData) {
+      const seats = updateData.seatsOffered;
+      if (!Number.isInteger(seats) || seats < 1 || seats > MAX_SEATS_OFFERED) {
+        return NextResponse.json({ 
+          error: `seatsOffered must be a whole number between 1 and ${MAX_SEATS_OFFERED}`,
+          code: 'INVALID_SEATS' 
+        }, { status: 400 });
+      }
+    }
+
+    if ('travelDate' in updateData || 'travelTime' in updateData) {
+      const travelDate = updateData.travelDate ?? existingTrip[0].travelDate;
+      const travelTime = updateData.travelTime ?? existingTrip[0].travelTime;
+      if (typeof travelDate !== 'string' || typeof travelTime !== 'string' ||
+          !departureWindow(travelDate, travelTime, 0)) {
+        return NextResponse.json({ 
+          error: 'travelDate must be YYYY-MM-DD and travelTime HH:MM',
+          code: 'INVALID_DATE_TIME' 
+        }, { status: 400 });
+      }
+    }
+
     // Build update object with allowed fields
     const updates: Record<string, any> = {
       updatedAt: new Date().toISOString()
@@ -228,7 +309,9 @@ export async function PUT(request: NextRequest) {
       'travelTime',
       'transportMode',
       'optimizationMode',
-      'routeData'
+      'routeData',
+      'flexibilityMinutes',
+      'maxDetourMinutes'
     ];
 
     for (const field of allowedFields) {
@@ -237,12 +320,95 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    const current = existingTrip[0];
+
+    // Roles only apply to car trips. Seats already taken by accepted riders
+    // stay taken when a driver changes how many they offer.
+    const mode = (updates.transportMode ?? current.transportMode).toLowerCase() as TransportMode;
+    if (!DETOUR_MODES.includes(mode)) {
+      updates.role = null;
+      updates.seatsOffered = null;
+      updates.seatsAvailable = null;
+    } else if ('role' in updateData || 'seatsOffered' in updateData) {
+      updates.role = updateData.role ?? current.role;
+      if (updates.role === 'driver') {
+        const offered = updateData.seatsOffered ?? current.seatsOffered;
+        const taken = current.role === 'driver' ? (current.seatsOffered ?? 0) - (current.seatsAvailable ?? 0) : 0;
+        if (!offered) {
+          return NextResponse.json({ 
+            error: 'seatsOffered is required for drivers',
+            code: 'INVALID_SEATS' 
+          }, { status: 400 });
+        }
+        if (offered < taken) {
+          return NextResponse.json({ 
+            error: `${taken} seats are already taken`,
+            code: 'SEATS_ALREADY_TAKEN' 
+          }, { status: 409 });
+        }
+        updates.seatsOffered = offered;
+        updates.seatsAvailable = offered - taken;
+      } else {
+        updates.seatsOffered = null;
+        updates.seatsAvailable = null;
+      }
+    }
+
+    // New endpoints or mode mean new coordinates and route geometry
+    const relocated = ['source', 'destination', 'transportMode'].some(
+      field => field in updates && updates[field] !== current[field as keyof typeof current]
+    );
+    if (relocated) {
+      // Coordinates picked from autocomplete save a geocoding round-trip
+      const endpoints = parseEndpointCoordinates(updateData);
+      if (!endpoints.ok) {
+        return NextResponse.json({ 
+          error: endpoints.error,
+          code: endpoints.code 
+        }, { status: 400 });
+      }
+      const location = await locateTrip(
+        updates.source ?? current.source,
+        updates.destination ?? current.destination,
+        updates.transportMode ?? current.transportMode,
+        {
+          sourceCoords: endpoints.sourceCoords ?? ('source' in updates ? null : parseLatLon(current.sourceCoordinates)),
+          destCoords: endpoints.destCoords ?? ('destination' in updates ? null : parseLatLon(current.destinationCoordinates)),
+        }
+      );
+      if (!location) {
+        return NextResponse.json({ 
+          error: 'Unable to geocode source or destination. Please provide more specific location names',
+          code: 'GEOCODING_FAILED' 
+        }, { status: 400 });
+      }
+      updates.sourceCoordinates = `${location.sourceCoords[0]},${location.sourceCoords[1]}`;
+      updates.destinationCoordinates = `${location.destCoords[0]},${location.destCoords[1]}`;
+      updates.routeGeometry = location.routeGeometry;
+    }
+
     // Update trip
     const updatedTrip = await db.update(trips)
       .set(updates)
       .where(eq(trips.id, tripId))
       .returning();
 
+    // Live location sharing stops with the trip
+    if ('status' in updates && current.status === 'active' && updates.status !== 'active') {
+      for (const share of await endSharesForTrip(tripId)) {
+        sendLocationStopped(share.groupId, share.userId, 'trip_ended');
+      }
+    }
+
+    // Rescore matches in the background; cancelled trips lose their pending matches
+    if (MATCHING_FIELDS.some(field => field in updates && updates[field] !== current[field as keyof typeof current])) {
+      try {
+        await enqueueTripMatching(tripId);
+      } catch (matchError) {
+        console.error('Matching enqueue error:', matchError);
+      }
+    }
+
     return NextResponse.json(updatedTrip[0], { status: 200 });
 
   } catch (error) {
@@ -302,11 +468,36 @@ export async function DELETE(request: NextRequest) {
       }, { status: 403 });
     }
 
+    // Open requests and accepted matches are ended first, so seats are given
+    // back and pair groups left before the cascade removes the matches
+    const openMatches = await db.select()
+      .from(tripMatches)
+      .where(and(
+        eq(tripMatches.tripId, tripId),
+        inArray(tripMatches.status, ['requested', 'accepted'])
+      ));
+    for (const match of openMatches) {
+      const action = match.status === 'requested' && match.requestedByTripId !== tripId ? 'decline' : 'withdraw';
+      const result = await applyMatchAction(match, action, userId);
+      if (!result.ok) {
+        console.warn(`Could not ${action} match ${match.id} of deleted trip ${tripId}:`, result.error);
+      }
+    }
+
     // Delete trip (cascading deletes will remove related tripMatches)
     const deletedTrip = await db.delete(trips)
       .where(eq(trips.id, tripId))
       .returning();
 
+    // The other side of each ended match may match someone else now
+    for (const match of openMatches) {
+      try {
+        await enqueueTripMatching(match.matchedTripId);
+      } catch (matchError) {
+        console.error('Matching enqueue error:', matchError);
+      }
+    }
+
     return NextResponse.json({
       message: 'Trip deleted successfully',
       trip: deletedTrip[0]
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { parseLatLon } from '@/lib/geo';
+import {
+  DEFAULT_FLEXIBILITY_MINUTES,
+  MAX_FLEXIBILITY_MINUTES,
+  MAX_SEATS_OFFERED,
+  TRIP_ROLES,
+  departureWindow,
+  type TripRole,
+} from '@/lib/matching';
+import { locateTrip } from '@/lib/trips';
+import { searchTrips } from '@/lib/tripSearch';
+
+const TRANSPORT_MODES = ['car', 'cycling', 'walking', 'bus', 'train', 'flight'];
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+function badRequest(error: string, code: string) {
+  return NextResponse.json({ error, code }, { status: 400 });
+}
+
+// Browse other users' active trips near a route:
+// ?source=&destination= (or sourceCoordinates=lat,lon&destinationCoordinates=lat,lon)
+// &dateFrom=&dateTo=&travelTime=&flexibilityMinutes=&transportMode=&role=
+// &minSeats=&matchRadius=&verifiedOnly=true&page=1&limit=20.
+// Results are sorted by calculateMatchScore, best first. minRating is rejected
+// with 400 UNSUPPORTED_FILTER until users can be rated.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const source = searchParams.get('source')?.trim() ?? '';
+    const destination = searchParams.get('destination')?.trim() ?? '';
+    const sourceCoordinates = searchParams.get('sourceCoordinates');
+    const destinationCoordinates = searchParams.get('destinationCoordinates');
+
+    if ((!source && !sourceCoordinates) || (!destination && !destinationCoordinates)) {
+      return badRequest(
+        'source and destination (or sourceCoordinates and destinationCoordinates) are required',
+        'MISSING_REQUIRED_FIELDS'
+      );
+    }
+
+    const sourceCoords = sourceCoordinates ? parseLatLon(sourceCoordinates) : null;
+    const destCoords = destinationCoordinates ? parseLatLon(destinationCoordinates) : null;
+    if ((sourceCoordinates && !sourceCoords) || (destinationCoordinates && !destCoords)) {
+      return badRequest('sourceCoordinates and destinationCoordinates must be lat,lon', 'INVALID_COORDINATES');
+    }
+
+    // Ratings aren't recorded anywhere yet, so the filter can't be honoured
+    if (searchParams.has('minRating')) {
+      return badRequest('Filtering by rating is not supported yet', 'UNSUPPORTED_FILTER');
+    }
+
+    const transportMode = searchParams.get('transportMode')?.trim().toLowerCase() || null;
+    if (transportMode && !TRANSPORT_MODES.includes(transportMode)) {
+      return badRequest(`transportMode must be one of: ${TRANSPORT_MODES.join(', ')}`, 'INVALID_TRANSPORT_MODE');
+    }
+
+    const dateFrom = searchParams.get('dateFrom')?.trim() || new Date().toISOString().slice(0, 10);
+    const dateTo = searchParams.get('dateTo')?.trim() || null;
+    if (!departureWindow(dateFrom, '00:00', 0) || (dateTo && !departureWindow(dateTo, '00:00', 0))) {
+      return badRequest('dateFrom and dateTo must be YYYY-MM-DD', 'INVALID_DATE_RANGE');
+    }
+    if (dateTo && dateTo < dateFrom) {
+      return badRequest('dateTo must not be before dateFrom', 'INVALID_DATE_RANGE');
+    }
+
+    const travelTime = searchParams.get('travelTime')?.trim() || null;
+    if (travelTime && !departureWindow(dateFrom, travelTime, 0)) {
+      return badRequest('travelTime must be HH:MM', 'INVALID_DATE_TIME');
+    }
+
+    const flexibilityMinutes = searchParams.has('flexibilityMinutes')
+      ? parseInt(searchParams.get('flexibilityMinutes')!)
+      : DEFAULT_FLEXIBILITY_MINUTES;
+    if (isNaN(flexibilityMinutes) || flexibilityMinutes < 0 || flexibilityMinutes > MAX_FLEXIBILITY_MINUTES) {
+      return badRequest(`flexibilityMinutes must be a number between 0 and ${MAX_FLEXIBILITY_MINUTES}`, 'INVALID_FLEXIBILITY');
+    }
+
+    const role = searchParams.get('role') as TripRole | null;
+    if (role && !TRIP_ROLES.includes(role)) {
+      return badRequest(`role must be one of: ${TRIP_ROLES.join(', ')}`, 'INVALID_ROLE');
+    }
+
+    const minSeats = searchParams.has('minSeats') ? parseInt(searchParams.get('minSeats')!) : null;
+    if (minSeats !== null && (isNaN(minSeats) || minSeats < 1 || minSeats > MAX_SEATS_OFFERED)) {
+      return badRequest(`minSeats must be a number between 1 and ${MAX_SEATS_OFFERED}`, 'INVALID_SEATS');
+    }
+
+    const matchRadius = searchParams.has('matchRadius') ? parseInt(searchParams.get('matchRadius')!) : 10;
+    if (isNaN(matchRadius) || matchRadius < 1 || matchRadius > 100) {
+      return badRequest('matchRadius must be a number between 1 and 100', 'INVALID_MATCH_RADIUS');
+    }
+
+    const page = searchParams.has('page') ? parseInt(searchParams.get('page')!) : 1;
+    const limit = searchParams.has('limit') ? parseInt(searchParams.get('limit')!) : DEFAULT_LIMIT;
+    if (isNaN(page) || page < 1) {
+      return badRequest('page must be a positive number', 'INVALID_PAGE');
+    }
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return badRequest(`limit must be a number between 1 and ${MAX_LIMIT}`, 'INVALID_LIMIT');
+    }
+
+    // The corridor is the route the searcher would take
+    const location = await locateTrip(source, destination, transportMode ?? 'car', { sourceCoords, destCoords });
+    if (!location) {
+      return badRequest(
+        'Unable to geocode source or destination. Please provide more specific location names',
+        'GEOCODING_FAILED'
+      );
+    }
+
+    const { results, total } = await searchTrips({
+      userId: session.user.id,
+      sourceCoords: location.sourceCoords,
+      destCoords: location.destCoords,
+      routeGeometry: location.routeGeometry,
+      destination,
+      radiusKm: matchRadius,
+      dateFrom,
+      dateTo,
+      travelTime,
+      flexibilityMinutes,
+      transportMode,
+      role,
+      minSeats,
+      verifiedOnly: searchParams.get('verifiedOnly') === 'true',
+      page,
+      limit,
+    });
+
+    return NextResponse.json(
+      { results, page, limit, total, hasMore: page * limit < total },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('GET trip search error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { vehicleProfiles } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { FUEL_TYPES } from '@/lib/costs';
+
+// Update a vehicle profile owned by the user
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const id = request.nextUrl.pathname.split('/').slice(-1)[0];
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json(
+        { error: 'Valid vehicle ID is required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+    const vehicleId = parseInt(id);
+
+    const existing = await db
+      .select()
+      .from(vehicleProfiles)
+      .where(and(eq(vehicleProfiles.id, vehicleId), eq(vehicleProfiles.userId, session.user.id)))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return NextResponse.json(
+        { error: 'Vehicle not found', code: 'VEHICLE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const { name, fuelType, consumption, isDefault } = await request.json();
+    const updateData: Record<string, any> = {
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || name.trim() === '') {
+        return NextResponse.json(
+          { error: 'Name must be a non-empty string', code: 'INVALID_NAME' },
+          { status: 400 }
+        );
+      }
+      updateData.name = name.trim();
+    }
+
+    if (fuelType !== undefined) {
+      if (!FUEL_TYPES.includes(fuelType)) {
+        return NextResponse.json(
+          { error: `fuelType must be one of: ${FUEL_TYPES.join(', ')}`, code: 'INVALID_FUEL_TYPE' },
+          { status: 400 }
+        );
+      }
+      updateData.fuelType = fuelType;
+    }
+
+    if (consumption !== undefined) {
+      if (typeof consumption !== 'number' || !(consumption > 0) || consumption > 100) {
+        return NextResponse.json(
+          { error: 'consumption must be a number between 0 and 100', code: 'INVALID_CONSUMPTION' },
+          { status: 400 }
+        );
+      }
+      updateData.consumption = consumption;
+    }
+
+    if (isDefault === true) {
+      await db
+        .update(vehicleProfiles)
+        .set({ isDefault: false })
+        .where(eq(vehicleProfiles.userId, session.user.id));
+      updateData.isDefault = true;
+    }
+
+    const updated = await db
+      .update(vehicleProfiles)
+      .set(updateData)
+      .where(eq(vehicleProfiles.id, vehicleId))
+      .returning();
+
+    return NextResponse.json(updated[0], { status: 200 });
+  } catch (error) {
+    console.error('PUT vehicle error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a vehicle profile owned by the user
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const id = request.nextUrl.pathname.split('/').slice(-1)[0];
+    if (!id || isNaN(parseInt(id))) {
+      return NextResponse.json(
+        { error: 'Valid vehicle ID is required', code: 'INVALID_ID' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await db
+      .delete(vehicleProfiles)
+      .where(and(eq(vehicleProfiles.id, parseInt(id)), eq(vehicleProfiles.userId, session.user.id)))
+      .returning();
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Vehicle not found', code: 'VEHICLE_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Vehicle deleted successfully', deletedVehicle: deleted[0] },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('DELETE vehicle error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
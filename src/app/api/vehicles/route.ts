@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { vehicleProfiles } from '@/db/schema';
+import { eq, desc } from 'drizzle-orm';
+import { auth } from '@/lib/auth';
+import { FUEL_TYPES, type FuelType } from '@/lib/costs';
+
+// List the user's vehicle profiles, default first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const vehicles = await db
+      .select()
+      .from(vehicleProfiles)
+      .where(eq(vehicleProfiles.userId, session.user.id))
+      .orderBy(desc(vehicleProfiles.isDefault), desc(vehicleProfiles.createdAt));
+
+    return NextResponse.json(vehicles, { status: 200 });
+  } catch (error) {
+    console.error('GET vehicles error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a vehicle profile; the first one (or one sent with isDefault) becomes the default
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: request.headers });
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'AUTHENTICATION_REQUIRED' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    if ('userId' in body || 'user_id' in body) {
+      return NextResponse.json(
+        { error: 'User ID cannot be provided in request body', code: 'USER_ID_NOT_ALLOWED' },
+        { status: 400 }
+      );
+    }
+
+    const { name, fuelType, consumption, isDefault } = body;
+
+    if (!name || typeof name !== 'string' || name.trim() === '') {
+      return NextResponse.json(
+        { error: 'Name is required and must be a non-empty string', code: 'MISSING_NAME' },
+        { status: 400 }
+      );
+    }
+
+    if (!FUEL_TYPES.includes(fuelType)) {
+      return NextResponse.json(
+        { error: `fuelType must be one of: ${FUEL_TYPES.join(', ')}`, code: 'INVALID_FUEL_TYPE' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof consumption !== 'number' || !(consumption > 0) || consumption > 100) {
+      return NextResponse.json(
+        {
+          error: 'consumption must be a number between 0 and 100 (L/100km, or kWh/100km for electric)',
+          code: 'INVALID_CONSUMPTION',
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await db
+      .select({ id: vehicleProfiles.id })
+      .from(vehicleProfiles)
+      .where(eq(vehicleProfiles.userId, session.user.id))
+      .limit(1);
+    const makeDefault = isDefault === true || existing.length === 0;
+
+    if (makeDefault) {
+      await db
+        .update(vehicleProfiles)
+        .set({ isDefault: false })
+        .where(eq(vehicleProfiles.userId, session.user.id));
+    }
+
+    const now = new Date().toISOString();
+    const newVehicle = await db
+      .insert(vehicleProfiles)
+      .values({
+        userId: session.user.id,
+        name: name.trim(),
+        fuelType: fuelType as FuelType,
+        consumption,
+        isDefault: makeDefault,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    return NextResponse.json(newVehicle[0], { status: 201 });
+  } catch (error) {
+    console.error('POST vehicles error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error: ' + (error instanceof Error ? error.message : 'Unknown error') },
+      { status: 500 }
+    );
+  }
+}
@@ -42,6 +42,7 @@ interface Group {
   name: string;
   status: string;
   memberCount: number;
+  unreadCount: number;
   createdAt: string;
   members: Array<{
     user: {
@@ -306,6 +307,11 @@ export default function DashboardPage() {
                   >
                     <MessageSquare className="h-4 w-4 mr-2" />
                     Open Chat
+                    {group.unreadCount > 0 && (
+                      <Badge className="ml-2">
+                        {group.unreadCount > 99 ? "99+" : group.unreadCount} unread
+                      </Badge>
+                    )}
                   </Button>
                 </Card>
               ))}
@@ -24,10 +24,32 @@ import {
   Navigation,
   ChevronDown,
   ChevronUp,
+  Reply,
+  Pencil,
+  SmilePlus,
+  X,
+  Check,
+  Flag,
+  BarChart3,
+  Radio,
 } from "lucide-react";
+import { ChatContentCard, ChatContentComposer, type StructuredKind } from "@/components/ChatContent";
+import type { MessageContent } from "@/lib/chatContent";
 import { useSession } from "@/lib/auth-client";
+import { useGroupEvents } from "@/lib/hooks/use-group-events";
 import { toast } from "sonner";
 
+// How long a typing indicator lasts without another typing signal
+const TYPING_TIMEOUT_MS = 5000;
+const TYPING_SIGNAL_INTERVAL_MS = 3000;
+
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "🙏"];
+
+// Live location: how often our position is posted while sharing, and how much
+// trail to keep (matches TRAIL_MINUTES in src/lib/liveLocation.ts)
+const LOCATION_SEND_INTERVAL_MS = 5000;
+const LIVE_TRAIL_MS = 15 * 60000;
+
 const MapComponent = dynamic(() => import("@/components/MapComponent"), {
   ssr: false,
   loading: () => (
@@ -37,18 +59,24 @@ const MapComponent = dynamic(() => import("@/components/MapComponent"), {
   ),
 });
 
-interface Message {
+type Message = MessageContent & {
   id: number;
   groupId: number;
   userId: string;
   message: string;
+  replyToId: number | null;
+  editedAt: string | null;
   createdAt: string;
   sender: {
     name: string;
     email: string;
     image: string | null;
   };
-}
+  replyTo: { id: number; message: string; senderName: string | null } | null;
+  reactions: Array<{ emoji: string; count: number; userIds: string[] }>;
+  poll: { closed: boolean; votes: Array<{ count: number; userIds: string[] }> } | null;
+  acceptedBy: string[] | null;
+};
 
 interface GroupMember {
   id: number;
@@ -69,10 +97,25 @@ interface Group {
   tripId: number | null;
   createdBy: string;
   status: string;
+  meetingPoint: {
+    messageId: number;
+    coordinates: [number, number];
+    label: string;
+    time: string | null;
+    acceptedAt: string;
+  } | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface LiveShare {
+  userId: string;
+  name: string;
+  expiresAt: string;
+  trail: Array<{ lat: number; lon: number; recordedAt: string }>;
+  etas: Array<{ userId: string; location: string; etaSeconds: number; arrivalAt: string }>;
+}
+
 interface CombinedRoute {
   coordinates: [number, number][];
   distance: number;
@@ -97,6 +140,14 @@ interface CombinedRoute {
   }>;
 }
 
+// Insert a message or replace it by id, keeping chronological order
+function upsertMessage(list: Message[], message: Message): Message[] {
+  if (list.some(m => m.id === message.id)) {
+    return list.map(m => (m.id === message.id ? message : m));
+  }
+  return [...list, message].sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id - b.id);
+}
+
 export default function GroupChatPage() {
   const params = useParams();
   const router = useRouter();
@@ -106,6 +157,21 @@ export default function GroupChatPage() {
   const [group, setGroup] = useState<Group | null>(null);
   const [members, setMembers] = useState<GroupMember[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [messagesLoaded, setMessagesLoaded] = useState(false);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
+  const [typingUsers, setTypingUsers] = useState<Record<string, { name: string; until: number }>>({});
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editing, setEditing] = useState<{ id: number; text: string } | null>(null);
+  const [reactingTo, setReactingTo] = useState<number | null>(null);
+  const [composing, setComposing] = useState<StructuredKind | null>(null);
+  // userId -> members sharing their location live
+  const [liveShares, setLiveShares] = useState<Record<string, LiveShare>>({});
+  // When our own sharing ends, while we share
+  const [sharingUntil, setSharingUntil] = useState<string | null>(null);
+  // userId -> last message id they have read
+  const [readMarkers, setReadMarkers] = useState<Record<string, number>>({});
   const [newMessage, setNewMessage] = useState("");
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
@@ -115,8 +181,15 @@ export default function GroupChatPage() {
   const [showRoute, setShowRoute] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const lastMessageIdRef = useRef<number | null>(null);
+  // Scroll height before older messages were prepended, to keep the view in place
+  const prependedFromHeightRef = useRef<number | null>(null);
   const messageInputRef = useRef<HTMLInputElement>(null);
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const lastReadSentRef = useRef(0);
+  const watchIdRef = useRef<number | null>(null);
+  const lastLocationSentRef = useRef(0);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -132,23 +205,118 @@ export default function GroupChatPage() {
     if (session?.user && groupId) {
       fetchGroupData();
       fetchCombinedRoute();
-      
-      // Set up polling for new messages every 3 seconds
-      pollingIntervalRef.current = setInterval(() => {
-        fetchMessages();
-      }, 3000);
-      
-      // Cleanup polling on unmount
-      return () => {
-        if (pollingIntervalRef.current) {
-          clearInterval(pollingIntervalRef.current);
-        }
-      };
     }
   }, [session, groupId]);
 
+  // New, edited and deleted messages arrive over the event stream. History is
+  // loaded once the stream is open so nothing sent in between is missed;
+  // reconnects resume from the stream's cursor instead.
+  const { connected } = useGroupEvents<Message>(session?.user ? groupId : null, {
+    onReady: () => {
+      if (!messagesLoaded) fetchMessages();
+    },
+    onEvent: (type, data) => {
+      if (type === "message.created" || type === "message.updated") {
+        setMessages(prev => upsertMessage(prev, data));
+      } else if (type === "message.deleted") {
+        setMessages(prev => prev
+          .filter(m => m.id !== data.id)
+          .map(m => (m.replyToId === data.id ? { ...m, replyToId: null, replyTo: null } : m)));
+      }
+      if (type === "message.created") {
+        setTypingUsers(({ [data.userId]: _, ...rest }) => rest);
+      }
+      if (type === "group.updated") {
+        setGroup(prev => (prev ? { ...prev, ...data } : prev));
+        // Riders are picked up at the official meeting point
+        if ("meetingPoint" in data) fetchCombinedRoute();
+      }
+    },
+    onTyping: ({ userId, name }) => {
+      setTypingUsers(prev => ({ ...prev, [userId]: { name, until: Date.now() + TYPING_TIMEOUT_MS } }));
+    },
+    onPresence: setOnlineUserIds,
+    onRead: ({ userId, lastReadMessageId }) => {
+      setReadMarkers(prev => ({ ...prev, [userId]: Math.max(prev[userId] ?? 0, lastReadMessageId) }));
+    },
+    onLocation: ({ userId, name, position, expiresAt, etas }) => {
+      setLiveShares(prev => {
+        const cutoff = Date.now() - LIVE_TRAIL_MS;
+        const trail = [...(prev[userId]?.trail ?? []), position]
+          .filter(point => new Date(point.recordedAt).getTime() > cutoff);
+        return { ...prev, [userId]: { userId, name, expiresAt, trail, etas } };
+      });
+    },
+    onLocationStopped: ({ userId }) => {
+      setLiveShares(({ [userId]: _, ...rest }) => rest);
+      if (userId === session?.user?.id) stopWatchingPosition();
+    },
+  });
+
+  // Mark the newest message read while the chat is open and visible
   useEffect(() => {
-    scrollToBottom();
+    const lastId = messages.length > 0 ? messages[messages.length - 1].id : 0;
+    if (lastId <= lastReadSentRef.current || document.visibilityState !== "visible") return;
+    lastReadSentRef.current = lastId;
+
+    const token = localStorage.getItem("bearer_token");
+    fetch(`/api/groups/${groupId}/read`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: JSON.stringify({ messageId: lastId }),
+    }).catch(() => {});
+  }, [messages]);
+
+  // Drop live locations whose sharing expired; shares ended by the worker
+  // aren't announced
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const now = new Date().toISOString();
+      setLiveShares(prev => {
+        const active = Object.entries(prev).filter(([, share]) => share.expiresAt > now);
+        return active.length === Object.keys(prev).length ? prev : Object.fromEntries(active);
+      });
+    }, 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Stop our own sharing when its time is up, and stop watching on leave
+  useEffect(() => {
+    if (!sharingUntil) return;
+    const timer = setTimeout(stopWatchingPosition, Math.max(0, new Date(sharingUntil).getTime() - Date.now()));
+    return () => clearTimeout(timer);
+  }, [sharingUntil]);
+
+  useEffect(() => () => {
+    if (watchIdRef.current !== null) navigator.geolocation.clearWatch(watchIdRef.current);
+  }, []);
+
+  // Drop typing indicators that weren't refreshed
+  useEffect(() => {
+    if (Object.keys(typingUsers).length === 0) return;
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      setTypingUsers(prev => Object.fromEntries(Object.entries(prev).filter(([, typing]) => typing.until > now)));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [typingUsers]);
+
+  useEffect(() => {
+    const container = messagesContainerRef.current;
+    if (prependedFromHeightRef.current !== null && container) {
+      container.scrollTop += container.scrollHeight - prependedFromHeightRef.current;
+      prependedFromHeightRef.current = null;
+    }
+
+    // Only follow the conversation when a message arrives at the bottom
+    const lastId = messages.length > 0 ? messages[messages.length - 1].id : null;
+    if (lastId !== lastMessageIdRef.current) {
+      lastMessageIdRef.current = lastId;
+      scrollToBottom();
+    }
   }, [messages]);
 
   const fetchGroupData = async () => {
@@ -184,9 +352,34 @@ export default function GroupChatPage() {
         setMembers(membersData);
       }
 
-      // Fetch messages
-      await fetchMessages();
-      
+      // Fetch live locations, and pick our own sharing back up
+      const locationResponse = await fetch(`/api/groups/${groupId}/location`, {
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+
+      if (locationResponse.ok) {
+        const shares: Array<LiveShare & { position: unknown }> = await locationResponse.json();
+        setLiveShares(Object.fromEntries(shares
+          .filter(share => share.trail.length > 0)
+          .map(share => [share.userId, { ...share, etas: [] }])));
+        const own = shares.find(share => share.userId === session?.user?.id);
+        if (own) watchPosition(own.expiresAt);
+      }
+
+      // Fetch read receipts
+      const readResponse = await fetch(`/api/groups/${groupId}/read`, {
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+
+      if (readResponse.ok) {
+        const markers: Array<{ userId: string; lastReadMessageId: number }> = await readResponse.json();
+        setReadMarkers(Object.fromEntries(markers.map(m => [m.userId, m.lastReadMessageId])));
+      }
+
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load group");
       toast.error("Failed to load group chat");
@@ -226,14 +419,48 @@ export default function GroupChatPage() {
       });
 
       if (response.ok) {
-        const data = await response.json();
-        setMessages(data);
+        const data: { messages: Message[]; hasMore: boolean } = await response.json();
+        // Keep anything the stream delivered while history was loading
+        setMessages(prev => prev.reduce(upsertMessage, data.messages));
+        setHasOlderMessages(data.hasMore);
+        setMessagesLoaded(true);
       }
     } catch (err) {
       console.error("Failed to fetch messages:", err);
     }
   };
 
+  const loadOlderMessages = async () => {
+    if (loadingOlder || !hasOlderMessages || messages.length === 0) return;
+
+    setLoadingOlder(true);
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch(`/api/groups/${groupId}/messages?before=${messages[0].id}`, {
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data: { messages: Message[]; hasMore: boolean } = await response.json();
+        prependedFromHeightRef.current = messagesContainerRef.current?.scrollHeight ?? null;
+        setMessages(prev => data.messages.reduce(upsertMessage, prev));
+        setHasOlderMessages(data.hasMore);
+      }
+    } catch (err) {
+      console.error("Failed to load older messages:", err);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop < 100) {
+      loadOlderMessages();
+    }
+  };
+
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -253,6 +480,7 @@ export default function GroupChatPage() {
         },
         body: JSON.stringify({
           message: newMessage.trim(),
+          replyToId: replyingTo?.id ?? null,
         }),
       });
 
@@ -261,8 +489,9 @@ export default function GroupChatPage() {
       }
 
       const sentMessage = await response.json();
-      setMessages([...messages, sentMessage]);
+      setMessages(prev => upsertMessage(prev, sentMessage));
       setNewMessage("");
+      setReplyingTo(null);
       messageInputRef.current?.focus();
       
       toast.success("Message sent");
@@ -275,6 +504,251 @@ export default function GroupChatPage() {
     }
   };
 
+  const saveEdit = async () => {
+    if (!editing || !editing.text.trim()) return;
+
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch(`/api/groups/${groupId}/messages/${editing.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify({ message: editing.text.trim() }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to edit message");
+      }
+
+      const updated = await response.json();
+      setMessages(prev => upsertMessage(prev, updated));
+      setEditing(null);
+    } catch (err) {
+      toast.error("Failed to edit message");
+    }
+  };
+
+  const toggleReaction = async (msg: Message, emoji: string) => {
+    const userId = session?.user?.id;
+    const reacted = msg.reactions.some(r => r.emoji === emoji && userId && r.userIds.includes(userId));
+    setReactingTo(null);
+
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch(
+        `/api/groups/${groupId}/messages/${msg.id}/reactions${reacted ? `?emoji=${encodeURIComponent(emoji)}` : ""}`,
+        {
+          method: reacted ? "DELETE" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Authorization": `Bearer ${token}`,
+          },
+          ...(!reacted && { body: JSON.stringify({ emoji }) }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to update reaction");
+      }
+
+      const updated = await response.json();
+      setMessages(prev => upsertMessage(prev, updated));
+    } catch (err) {
+      toast.error("Failed to update reaction");
+    }
+  };
+
+  const sendStructuredMessage = async (kind: StructuredKind, payload: unknown) => {
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch(`/api/groups/${groupId}/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify({ kind, payload, replyToId: replyingTo?.id ?? null }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to send message");
+      }
+
+      const sentMessage = await response.json();
+      setMessages(prev => upsertMessage(prev, sentMessage));
+      setComposing(null);
+      setReplyingTo(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to send message");
+    }
+  };
+
+  const votePoll = async (msg: Message, optionIndex: number) => {
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch(`/api/groups/${groupId}/messages/${msg.id}/vote`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify({ option: optionIndex }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to vote");
+      }
+
+      const updated = await response.json();
+      setMessages(prev => upsertMessage(prev, updated));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to vote");
+    }
+  };
+
+  const acceptMeetingPoint = async (msg: Message) => {
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch(`/api/groups/${groupId}/messages/${msg.id}/accept`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to accept meeting point");
+      }
+
+      const data = await response.json();
+      setMessages(prev => upsertMessage(prev, data.message));
+      if (data.meetingPoint) {
+        setGroup(prev => (prev ? { ...prev, meetingPoint: data.meetingPoint } : prev));
+        toast.success("Meeting point is now the group's pickup");
+      }
+    } catch (err) {
+      toast.error("Failed to accept meeting point");
+    }
+  };
+
+  const stopWatchingPosition = () => {
+    if (watchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+    }
+    setSharingUntil(null);
+  };
+
+  const sendPosition = async (position: GeolocationPosition) => {
+    const now = Date.now();
+    if (now - lastLocationSentRef.current < LOCATION_SEND_INTERVAL_MS) return;
+    lastLocationSentRef.current = now;
+
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch(`/api/groups/${groupId}/location`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          coordinates: [position.coords.latitude, position.coords.longitude],
+          accuracy: position.coords.accuracy,
+          heading: position.coords.heading,
+          speed: position.coords.speed,
+        }),
+      });
+
+      // Sharing ended on the server: stopped elsewhere, expired or trip over
+      if (response.status === 410) {
+        const data = await response.json();
+        stopWatchingPosition();
+        toast.info(data.error);
+      }
+    } catch (err) {
+      console.error("Failed to send location:", err);
+    }
+  };
+
+  const watchPosition = (expiresAt: string) => {
+    if (!navigator.geolocation || watchIdRef.current !== null) return;
+    setSharingUntil(expiresAt);
+    lastLocationSentRef.current = 0;
+    watchIdRef.current = navigator.geolocation.watchPosition(
+      sendPosition,
+      (err) => {
+        toast.error(`Location unavailable: ${err.message}`);
+        if (err.code === err.PERMISSION_DENIED) stopLocationSharing();
+      },
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+  };
+
+  const startLocationSharing = async () => {
+    if (!navigator.geolocation) {
+      toast.error("This browser can't share its location");
+      return;
+    }
+
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch(`/api/groups/${groupId}/location`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify({}),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start sharing");
+      }
+
+      watchPosition(data.expiresAt);
+      toast.success(`Sharing your location until ${new Date(data.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to start sharing");
+    }
+  };
+
+  const stopLocationSharing = async () => {
+    stopWatchingPosition();
+    setLiveShares(({ [session?.user?.id ?? ""]: _, ...rest }) => rest);
+
+    try {
+      const token = localStorage.getItem("bearer_token");
+      await fetch(`/api/groups/${groupId}/location`, {
+        method: "DELETE",
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+    } catch (err) {
+      console.error("Failed to stop sharing:", err);
+    }
+  };
+
+  const sendTypingSignal = () => {
+    const now = Date.now();
+    if (now - lastTypingSentRef.current < TYPING_SIGNAL_INTERVAL_MS) return;
+    lastTypingSentRef.current = now;
+
+    const token = localStorage.getItem("bearer_token");
+    fetch(`/api/groups/${groupId}/typing`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${token}`,
+      },
+    }).catch(() => {});
+  };
+
   const formatMessageTime = (timestamp: string) => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -331,6 +805,9 @@ export default function GroupChatPage() {
     );
   }
 
+  const ownMessages = messages.filter(m => m.userId === session?.user?.id);
+  const lastOwnMessageId = ownMessages.length > 0 ? ownMessages[ownMessages.length - 1].id : null;
+
   const routes = combinedRoute ? [{
     coordinates: combinedRoute.coordinates,
     distance: combinedRoute.distance,
@@ -339,6 +816,54 @@ export default function GroupChatPage() {
     mode: combinedRoute.transportMode,
   }] : [];
 
+  // Shared locations and meeting points of the loaded messages, plus the
+  // official meeting point
+  const officialMeetingPoint = group?.meetingPoint ?? null;
+  const mapPins = [
+    ...messages
+      .filter((m): m is Message & { kind: "location" | "meeting_point" } =>
+        m.kind === "location" || (m.kind === "meeting_point" && m.id !== officialMeetingPoint?.messageId))
+      .map(m => ({
+        lat: m.payload.coordinates[0],
+        lon: m.payload.coordinates[1],
+        label: m.payload.label,
+        type: m.kind,
+        detail: `${m.sender.name} · ${formatMessageTime(m.createdAt)}`,
+      })),
+    ...(officialMeetingPoint ? [{
+      lat: officialMeetingPoint.coordinates[0],
+      lon: officialMeetingPoint.coordinates[1],
+      label: officialMeetingPoint.label,
+      type: "official_meeting_point" as const,
+      detail: officialMeetingPoint.time ? new Date(officialMeetingPoint.time).toLocaleString() : undefined,
+    }] : []),
+  ];
+
+  const liveLocations = Object.values(liveShares)
+    .filter(share => share.trail.length > 0)
+    .map(share => {
+      const latest = share.trail[share.trail.length - 1];
+      return {
+        userId: share.userId,
+        name: share.name,
+        lat: latest.lat,
+        lon: latest.lon,
+        trail: share.trail.map(point => [point.lat, point.lon] as [number, number]),
+        recordedAt: latest.recordedAt,
+        etas: share.etas,
+      };
+    });
+
+  // Soonest live ETA to each member's pickup
+  const pickupEtas: Record<string, number> = {};
+  for (const share of Object.values(liveShares)) {
+    for (const eta of share.etas) {
+      pickupEtas[eta.userId] = Math.min(pickupEtas[eta.userId] ?? Infinity, eta.etaSeconds);
+    }
+  }
+
+  const showMap = !!combinedRoute || mapPins.length > 0 || liveLocations.length > 0;
+
   const transportModes = [
     { value: "car", label: "Car", icon: null, color: "#3b82f6" },
   ];
@@ -364,18 +889,28 @@ export default function GroupChatPage() {
               <h1 className="text-lg font-semibold">{group?.name || "Group Chat"}</h1>
               <p className="text-xs text-muted-foreground">
                 {members.length} member{members.length !== 1 ? "s" : ""}
+                {connected && ` · ${onlineUserIds.length} online`}
               </p>
             </div>
           </div>
           <div className="flex items-center gap-2">
-            {combinedRoute && (
+            <Button
+              variant={sharingUntil ? "default" : "outline"}
+              size="sm"
+              onClick={sharingUntil ? stopLocationSharing : startLocationSharing}
+              title={sharingUntil ? `Sharing until ${new Date(sharingUntil).toLocaleTimeString()}` : "Share your live location with the group"}
+            >
+              <Radio className={`h-4 w-4 mr-2 ${sharingUntil ? "animate-pulse" : ""}`} />
+              {sharingUntil ? "Stop sharing" : "Share location"}
+            </Button>
+            {showMap && (
               <Button
                 variant="outline"
                 size="sm"
                 onClick={() => setShowRoute(!showRoute)}
               >
                 <RouteIcon className="h-4 w-4 mr-2" />
-                {showRoute ? "Hide" : "Show"} Route
+                {showRoute ? "Hide" : "Show"} {combinedRoute ? "Route" : "Map"}
                 {showRoute ? <ChevronUp className="h-4 w-4 ml-2" /> : <ChevronDown className="h-4 w-4 ml-2" />}
               </Button>
             )}
@@ -388,68 +923,90 @@ export default function GroupChatPage() {
       </header>
 
       {/* Combined Route Section */}
-      {showRoute && combinedRoute && (
+      {showRoute && showMap && (
         <div className="border-b border-border bg-card">
           <div className="max-w-7xl mx-auto p-4 space-y-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <h2 className="text-lg font-semibold flex items-center gap-2">
-                  <Navigation className="h-5 w-5 text-primary" />
-                  Combined Travel Route
-                </h2>
-                <p className="text-sm text-muted-foreground">
-                  Optimized route for all {combinedRoute.memberCount} member{combinedRoute.memberCount !== 1 ? 's' : ''}
-                </p>
-              </div>
-              <div className="flex gap-4 text-sm">
-                <div className="text-center">
-                  <div className="text-muted-foreground">Distance</div>
-                  <div className="font-semibold">{formatDistance(combinedRoute.distance)}</div>
+            {combinedRoute && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <Navigation className="h-5 w-5 text-primary" />
+                    Combined Travel Route
+                  </h2>
+                  <p className="text-sm text-muted-foreground">
+                    Optimized route for all {combinedRoute.memberCount} member{combinedRoute.memberCount !== 1 ? 's' : ''}
+                  </p>
                 </div>
-                <div className="text-center">
-                  <div className="text-muted-foreground">Duration</div>
-                  <div className="font-semibold">{formatDuration(combinedRoute.duration)}</div>
+                <div className="flex gap-4 text-sm">
+                  <div className="text-center">
+                    <div className="text-muted-foreground">Distance</div>
+                    <div className="font-semibold">{formatDistance(combinedRoute.distance)}</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-muted-foreground">Duration</div>
+                    <div className="font-semibold">{formatDuration(combinedRoute.duration)}</div>
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
+
+            {officialMeetingPoint && (
+              <div className="flex items-center gap-2 text-sm">
+                <Flag className="h-4 w-4 text-green-600" />
+                <span className="font-medium">Meeting point:</span>
+                {officialMeetingPoint.label}
+                {officialMeetingPoint.time && (
+                  <span className="text-muted-foreground">· {new Date(officialMeetingPoint.time).toLocaleString()}</span>
+                )}
+              </div>
+            )}
 
             {/* Map */}
             <div className="h-96 rounded-lg overflow-hidden border border-border">
               <MapComponent 
                 routes={routes} 
                 transportModes={transportModes}
-                waypoints={combinedRoute.waypoints}
+                waypoints={combinedRoute?.waypoints}
                 members={members}
+                pins={mapPins}
+                liveLocations={liveLocations}
               />
             </div>
 
             {/* Waypoints List */}
-            <Card className="p-4">
-              <h3 className="text-sm font-semibold mb-3">Route Stops</h3>
-              <div className="space-y-2">
-                {combinedRoute.waypoints.map((waypoint, index) => {
-                  const member = members.find(m => m.userId === waypoint.userId);
-                  return (
-                    <div key={index} className="flex items-center gap-3 text-sm">
-                      <div className={`w-8 h-8 rounded-full flex items-center justify-center text-white font-medium ${
-                        waypoint.type === 'pickup' ? 'bg-green-600' : 'bg-blue-600'
-                      }`}>
-                        {index + 1}
-                      </div>
-                      <div className="flex-1">
-                        <div className="font-medium">{waypoint.location}</div>
-                        <div className="text-xs text-muted-foreground">
-                          {waypoint.type === 'pickup' ? 'Pick up' : 'Drop off'} {member?.user.name || 'Member'}
+            {combinedRoute && (
+              <Card className="p-4">
+                <h3 className="text-sm font-semibold mb-3">Route Stops</h3>
+                <div className="space-y-2">
+                  {combinedRoute.waypoints.map((waypoint, index) => {
+                    const member = members.find(m => m.userId === waypoint.userId);
+                    return (
+                      <div key={index} className="flex items-center gap-3 text-sm">
+                        <div className={`w-8 h-8 rounded-full flex items-center justify-center text-white font-medium ${
+                          waypoint.type === 'pickup' ? 'bg-green-600' : 'bg-blue-600'
+                        }`}>
+                          {index + 1}
                         </div>
+                        <div className="flex-1">
+                          <div className="font-medium">{waypoint.location}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {waypoint.type === 'pickup' ? 'Pick up' : 'Drop off'} {member?.user.name || 'Member'}
+                            {waypoint.type === 'pickup' && pickupEtas[waypoint.userId] !== undefined && (
+                              <span className="ml-1 font-medium text-sky-600">
+                                · ETA {formatDuration(pickupEtas[waypoint.userId])}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        <Badge variant="outline" className="capitalize">
+                          {waypoint.type}
+                        </Badge>
                       </div>
-                      <Badge variant="outline" className="capitalize">
-                        {waypoint.type}
-                      </Badge>
-                    </div>
-                  );
-                })}
-              </div>
-            </Card>
+                    );
+                  })}
+                </div>
+              </Card>
+            )}
           </div>
         </div>
       )}
@@ -458,8 +1015,16 @@ export default function GroupChatPage() {
         {/* Chat Area */}
         <div className="flex-1 flex flex-col">
           {/* Messages */}
-          <div className="flex-1 overflow-y-auto p-4 space-y-4">
-            {messages.length === 0 ? (
+          <div
+            ref={messagesContainerRef}
+            onScroll={handleMessagesScroll}
+            className="flex-1 overflow-y-auto p-4 space-y-4"
+          >
+            {!messagesLoaded ? (
+              <div className="flex h-full items-center justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : messages.length === 0 ? (
               <div className="flex flex-col items-center justify-center h-full text-center">
                 <Users className="h-12 w-12 text-muted-foreground mb-3" />
                 <h3 className="text-lg font-medium">No messages yet</h3>
@@ -469,9 +1034,18 @@ export default function GroupChatPage() {
               </div>
             ) : (
               <>
+                {loadingOlder && (
+                  <div className="flex justify-center">
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  </div>
+                )}
                 {messages.map((msg) => {
                   const isOwnMessage = msg.userId === session?.user?.id;
-                  
+                  const isLastOwnMessage = msg.id === lastOwnMessageId;
+                  const seenBy = isLastOwnMessage
+                    ? members.filter(m => m.userId !== session?.user?.id && (readMarkers[m.userId] ?? 0) >= msg.id)
+                    : [];
+
                   return (
                     <div
                       key={msg.id}
@@ -490,19 +1064,105 @@ export default function GroupChatPage() {
                           </span>
                           <span className="text-xs text-muted-foreground">
                             {formatMessageTime(msg.createdAt)}
+                            {msg.editedAt && " (edited)"}
                           </span>
                         </div>
-                        <div
-                          className={`rounded-lg px-4 py-2 ${
-                            isOwnMessage
-                              ? "bg-primary text-primary-foreground"
-                              : "bg-muted"
-                          }`}
-                        >
-                          <p className="text-sm whitespace-pre-wrap break-words">
-                            {msg.message}
-                          </p>
-                        </div>
+                        {msg.replyTo && (
+                          <div className="mb-1 border-l-2 border-primary/50 pl-2 text-xs text-muted-foreground">
+                            <span className="font-medium">{msg.replyTo.senderName || "Member"}</span>
+                            <p className="truncate">{msg.replyTo.message}</p>
+                          </div>
+                        )}
+                        {editing?.id === msg.id ? (
+                          <div className="flex items-center gap-1">
+                            <Input
+                              value={editing.text}
+                              onChange={(e) => setEditing({ id: msg.id, text: e.target.value })}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") saveEdit();
+                                if (e.key === "Escape") setEditing(null);
+                              }}
+                              autoFocus
+                            />
+                            <Button size="sm" variant="ghost" onClick={saveEdit}>
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="group relative">
+                            {msg.kind === "text" ? (
+                              <div
+                                className={`rounded-lg px-4 py-2 ${
+                                  isOwnMessage
+                                    ? "bg-primary text-primary-foreground"
+                                    : "bg-muted"
+                                }`}
+                              >
+                                <p className="text-sm whitespace-pre-wrap break-words">
+                                  {msg.message}
+                                </p>
+                              </div>
+                            ) : (
+                              <ChatContentCard
+                                message={msg}
+                                currentUserId={session?.user?.id}
+                                memberCount={members.length}
+                                official={msg.id === officialMeetingPoint?.messageId}
+                                onVote={(optionIndex) => votePoll(msg, optionIndex)}
+                                onAccept={() => acceptMeetingPoint(msg)}
+                              />
+                            )}
+                            <div className={`absolute top-0 ${isOwnMessage ? "right-full mr-1" : "left-full ml-1"} hidden group-hover:flex items-center gap-0.5`}>
+                              <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Reply" onClick={() => {
+                                setReplyingTo(msg);
+                                messageInputRef.current?.focus();
+                              }}>
+                                <Reply className="h-3.5 w-3.5" />
+                              </Button>
+                              <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="React" onClick={() => setReactingTo(reactingTo === msg.id ? null : msg.id)}>
+                                <SmilePlus className="h-3.5 w-3.5" />
+                              </Button>
+                              {isOwnMessage && msg.kind === "text" && (
+                                <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Edit" onClick={() => setEditing({ id: msg.id, text: msg.message })}>
+                                  <Pencil className="h-3.5 w-3.5" />
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                        {reactingTo === msg.id && (
+                          <div className="mt-1 flex gap-1 rounded-full border bg-card px-2 py-1 shadow-sm">
+                            {QUICK_REACTIONS.map(emoji => (
+                              <button key={emoji} className="text-lg hover:scale-125 transition-transform" onClick={() => toggleReaction(msg, emoji)}>
+                                {emoji}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                        {msg.reactions.length > 0 && (
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {msg.reactions.map(reaction => {
+                              const mine = !!session?.user?.id && reaction.userIds.includes(session.user.id);
+                              return (
+                                <button
+                                  key={reaction.emoji}
+                                  className={`rounded-full border px-2 py-0.5 text-xs ${mine ? "border-primary bg-primary/10" : "bg-card"}`}
+                                  onClick={() => toggleReaction(msg, reaction.emoji)}
+                                >
+                                  {reaction.emoji} {reaction.count}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        )}
+                        {seenBy.length > 0 && (
+                          <span className="mt-1 text-xs text-muted-foreground">
+                            Seen by {seenBy.map(m => m.user.name).join(", ")}
+                          </span>
+                        )}
                       </div>
                     </div>
                   );
@@ -512,14 +1172,54 @@ export default function GroupChatPage() {
             )}
           </div>
 
+          {/* Typing Indicator */}
+          {Object.keys(typingUsers).length > 0 && (
+            <p className="px-4 pb-1 text-xs text-muted-foreground italic">
+              {Object.values(typingUsers).map(typing => typing.name).join(", ")}{" "}
+              {Object.keys(typingUsers).length === 1 ? "is" : "are"} typing...
+            </p>
+          )}
+
           {/* Message Input */}
           <div className="border-t border-border bg-card p-4">
+            {replyingTo && (
+              <div className="mb-2 flex items-center justify-between rounded-md bg-muted px-3 py-2 text-xs">
+                <div className="min-w-0">
+                  <span className="font-medium">Replying to {replyingTo.userId === session?.user?.id ? "yourself" : replyingTo.sender.name}</span>
+                  <p className="truncate text-muted-foreground">{replyingTo.message}</p>
+                </div>
+                <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={() => setReplyingTo(null)}>
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            )}
+            {composing && (
+              <ChatContentComposer
+                kind={composing}
+                onSubmit={sendStructuredMessage}
+                onCancel={() => setComposing(null)}
+              />
+            )}
             <form onSubmit={sendMessage} className="flex gap-2">
+              <div className="flex">
+                <Button type="button" variant="ghost" size="sm" title="Share a location" onClick={() => setComposing("location")}>
+                  <MapPin className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" title="Propose a meeting point" onClick={() => setComposing("meeting_point")}>
+                  <Flag className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" title="Create a poll" onClick={() => setComposing("poll")}>
+                  <BarChart3 className="h-4 w-4" />
+                </Button>
+              </div>
               <Input
                 ref={messageInputRef}
                 placeholder="Type your message..."
                 value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
+                onChange={(e) => {
+                  setNewMessage(e.target.value);
+                  if (e.target.value.trim()) sendTypingSignal();
+                }}
                 disabled={sending}
                 className="flex-1"
               />
@@ -543,12 +1243,20 @@ export default function GroupChatPage() {
                 {members.map((member) => (
                   <Card key={member.id} className="p-3">
                     <div className="flex items-center gap-3">
-                      <Avatar className="h-10 w-10">
-                        <AvatarImage src={member.user.image || undefined} />
-                        <AvatarFallback>
-                          {getInitials(member.user.name)}
-                        </AvatarFallback>
-                      </Avatar>
+                      <div className="relative">
+                        <Avatar className="h-10 w-10">
+                          <AvatarImage src={member.user.image || undefined} />
+                          <AvatarFallback>
+                            {getInitials(member.user.name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        {onlineUserIds.includes(member.userId) && (
+                          <span
+                            className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 ring-2 ring-card"
+                            title="Online"
+                          />
+                        )}
+                      </div>
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2">
                           <p className="text-sm font-medium truncate">
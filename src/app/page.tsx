@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import dynamic from "next/dynamic";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { PlaceInput } from "@/components/PlaceInput";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -38,6 +39,8 @@ import {
   Radius } from
 "lucide-react";
 import { authClient, useSession } from "@/lib/auth-client";
+import { WEEKDAYS, WORK_WEEK, formatRRule, type Weekday } from "@/lib/recurrence";
+import type { LatLon } from "@/lib/geo";
 import { toast } from "sonner";
 
 const MapComponent = dynamic(() => import("@/components/MapComponent"), {
@@ -57,19 +60,42 @@ interface RouteData {
   distance: number;
   duration: number;
   cost: number;
+  costBreakdown?: {
+    currency: string;
+    region: string;
+    items: Array<{ type: string; label: string; amount: number }>;
+    total: number;
+  };
   mode: TransportMode;
   optimizationType?: "shortest" | "fastest" | "cheapest" | "balanced";
 }
 
+interface IsochroneCollection {
+  features: Array<{
+    properties: { minutes: number; radiusKm: number; suggestedMatchRadius: number };
+    geometry: { coordinates: number[][][] };
+  }>;
+}
+
 export default function Home() {
   const [source, setSource] = useState("");
   const [destination, setDestination] = useState("");
+  const [sourceCoords, setSourceCoords] = useState<LatLon | null>(null);
+  const [destCoords, setDestCoords] = useState<LatLon | null>(null);
   const [travelDate, setTravelDate] = useState("");
   const [travelTime, setTravelTime] = useState("");
   const [transportMode, setTransportMode] = useState<TransportMode>("car");
   const [optimizationMode, setOptimizationMode] = useState<OptimizationMode>("fastest");
   const [matchRadius, setMatchRadius] = useState("10");
+  const [flexibilityMinutes, setFlexibilityMinutes] = useState("30");
+  const [maxDetourMinutes, setMaxDetourMinutes] = useState("15");
+  const [role, setRole] = useState<"driver" | "rider">("rider");
+  const [seatsOffered, setSeatsOffered] = useState("3");
+  const [repeatDays, setRepeatDays] = useState<Weekday[]>([]);
+  const [repeatUntil, setRepeatUntil] = useState("");
   const [routes, setRoutes] = useState<RouteData[]>([]);
+  const [isochrones, setIsochrones] = useState<IsochroneCollection | null>(null);
+  const [isochroneLoading, setIsochroneLoading] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [showInstructions, setShowInstructions] = useState(true);
@@ -99,6 +125,32 @@ export default function Home() {
     }
   };
 
+  // Show how far travelers can get from the start of the route, to help pick a match radius
+  const showReachableArea = async () => {
+    const start = routes[0]?.coordinates[0];
+    if (!start) return;
+
+    setIsochroneLoading(true);
+    try {
+      const params = new URLSearchParams({
+        lat: String(start[0]),
+        lng: String(start[1]),
+        mode: transportMode,
+        minutes: "10,20,30",
+      });
+      const response = await fetch(`/api/isochrone?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to calculate reachable area");
+      }
+      setIsochrones(data);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to calculate reachable area");
+    } finally {
+      setIsochroneLoading(false);
+    }
+  };
+
   const createTrip = async () => {
     setError("");
 
@@ -146,7 +198,9 @@ export default function Home() {
           boardingPoints: [source],
           destination,
           transportMode,
-          optimizationMode
+          optimizationMode,
+          travelDate,
+          travelTime
         })
       });
 
@@ -159,10 +213,13 @@ export default function Home() {
       // Only show the primary route (first one which is the optimized one)
       const primaryRoute = routeData.routes && routeData.routes.length > 0 ? [routeData.routes[0]] : [];
       setRoutes(primaryRoute);
+      setIsochrones(null);
 
-      // Then create the trip in database with route data and match radius
+      // Then create the trip in database with route data and match radius.
+      // Repeating trips become a schedule that generates the upcoming days.
       const token = localStorage.getItem("bearer_token");
-      const tripResponse = await fetch("/api/trips", {
+      const recurring = repeatDays.length > 0;
+      const tripResponse = await fetch(recurring ? "/api/schedules" : "/api/trips", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -171,11 +228,24 @@ export default function Home() {
         body: JSON.stringify({
           source,
           destination,
-          travelDate,
+          ...(sourceCoords && { sourceCoordinates: sourceCoords }),
+          ...(destCoords && { destinationCoordinates: destCoords }),
+          ...(recurring ?
+          {
+            startDate: travelDate,
+            rrule: formatRRule({ freq: "WEEKLY", interval: 1, byDay: repeatDays, until: repeatUntil || null })
+          } :
+          { travelDate }),
           travelTime,
           transportMode,
           optimizationMode,
           matchRadius: radiusValue,
+          flexibilityMinutes: parseInt(flexibilityMinutes) || 0,
+          maxDetourMinutes: parseInt(maxDetourMinutes) || 0,
+          ...(transportMode === "car" && {
+            role,
+            seatsOffered: role === "driver" ? parseInt(seatsOffered) || 1 : undefined
+          }),
           routeData: primaryRoute
         })
       });
@@ -184,10 +254,17 @@ export default function Home() {
         throw new Error("Failed to create trip");
       }
 
-      const trip = await tripResponse.json();
+      const created = await tripResponse.json();
+      const trip = recurring ? created.trips[0] : created;
+      if (!trip) {
+        toast.success(`Recurring trip saved: ${created.description}. Trips will appear as the dates come up.`);
+        return;
+      }
       setCreatedTripId(trip.id);
 
-      toast.success("Trip created! Searching for travel companions...", {
+      toast.success(recurring ?
+      `Recurring trip created (${created.description})! Searching for travel companions...` :
+      "Trip created! Searching for travel companions...", {
         duration: 5000
       });
 
@@ -233,8 +310,8 @@ export default function Home() {
     return `${minutes}m`;
   };
 
-  const formatCost = (cost: number) => {
-    return `$${cost.toFixed(2)}`;
+  const formatCost = (cost: number, currency: string = "USD") => {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cost);
   };
 
   const getOptimizationIcon = (type?: string) => {
@@ -366,10 +443,13 @@ export default function Home() {
                 <MapPin className="h-4 w-4" />
                 Starting Point
               </label>
-              <Input
+              <PlaceInput
                 placeholder="e.g., New York, NY"
                 value={source}
-                onChange={(e) => setSource(e.target.value)} />
+                onChange={(value, coordinates) => {
+                  setSource(value);
+                  setSourceCoords(coordinates);
+                }} />
 
             </div>
 
@@ -379,10 +459,13 @@ export default function Home() {
                 <Navigation className="h-4 w-4" />
                 Destination
               </label>
-              <Input
+              <PlaceInput
                 placeholder="e.g., Los Angeles, CA"
                 value={destination}
-                onChange={(e) => setDestination(e.target.value)} />
+                onChange={(value, coordinates) => {
+                  setDestination(value);
+                  setDestCoords(coordinates);
+                }} />
 
             </div>
 
@@ -413,6 +496,128 @@ export default function Home() {
               </div>
             </div>
 
+            {/* Repeat */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium flex items-center gap-2">
+                <Calendar className="h-4 w-4" />
+                Repeat
+              </label>
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAYS.map((day) =>
+                <Button
+                  key={day}
+                  variant={repeatDays.includes(day) ? "default" : "outline"}
+                  size="sm"
+                  className="h-8 w-10 px-0 text-xs"
+                  onClick={() => setRepeatDays(repeatDays.includes(day) ?
+                  repeatDays.filter((d) => d !== day) :
+                  [...repeatDays, day])}>
+                    {day.charAt(0) + day.charAt(1).toLowerCase()}
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 text-xs"
+                  onClick={() => setRepeatDays(repeatDays.length > 0 ? [] : WORK_WEEK)}>
+                  {repeatDays.length > 0 ? "Once" : "Weekdays"}
+                </Button>
+              </div>
+              {repeatDays.length > 0 &&
+              <Input
+                type="date"
+                value={repeatUntil}
+                onChange={(e) => setRepeatUntil(e.target.value)}
+                min={travelDate || new Date().toISOString().split('T')[0]}
+                aria-label="Repeat until" />
+              }
+              <p className="text-xs text-muted-foreground">
+                {repeatDays.length > 0 ?
+                `Repeats on the selected days from the date above${repeatUntil ? ` until ${repeatUntil}` : ""}` :
+                "Pick days to make this a recurring trip, like a daily commute"}
+              </p>
+            </div>
+
+            {/* Departure Flexibility */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium flex items-center gap-2">
+                <Clock className="h-4 w-4" />
+                Flexibility (± minutes)
+              </label>
+              <Input
+                type="number"
+                min="0"
+                max="720"
+                step="15"
+                placeholder="e.g., 30"
+                value={flexibilityMinutes}
+                onChange={(e) => setFlexibilityMinutes(e.target.value)} />
+              <p className="text-xs text-muted-foreground">
+                Match with companions leaving up to {flexibilityMinutes || "0"} minutes earlier or later
+              </p>
+            </div>
+
+            {/* Driver or Rider */}
+            {transportMode === "car" &&
+            <div className="space-y-2">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  I'm
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                  variant={role === "driver" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setRole("driver")}>
+                    Offering seats
+                  </Button>
+                  <Button
+                  variant={role === "rider" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setRole("rider")}>
+                    Looking for a seat
+                  </Button>
+                </div>
+              </div>
+            }
+
+            {/* Seats Offered (drivers) */}
+            {transportMode === "car" && role === "driver" &&
+            <div className="space-y-2">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  Seats Offered
+                </label>
+                <Input
+                type="number"
+                min="1"
+                max="8"
+                placeholder="e.g., 3"
+                value={seatsOffered}
+                onChange={(e) => setSeatsOffered(e.target.value)} />
+              </div>
+            }
+
+            {/* Max Detour (drivers) */}
+            {transportMode === "car" && role === "driver" &&
+            <div className="space-y-2">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  <Car className="h-4 w-4" />
+                  Max Detour (minutes)
+                </label>
+                <Input
+                type="number"
+                min="0"
+                max="120"
+                placeholder="e.g., 15"
+                value={maxDetourMinutes}
+                onChange={(e) => setMaxDetourMinutes(e.target.value)} />
+                <p className="text-xs text-muted-foreground">
+                  Extra driving you'll accept to pick up and drop off a companion
+                </p>
+              </div>
+            }
+
             {/* Match Radius */}
             <div className="space-y-2">
               <label className="text-sm font-medium flex items-center gap-2">
@@ -429,6 +634,32 @@ export default function Home() {
               <p className="text-xs text-muted-foreground">
                 Find companions within {matchRadius || "10"}km of your route
               </p>
+              {routes.length > 0 && transportMode !== "flight" &&
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={showReachableArea}
+                disabled={isochroneLoading}>
+                  {isochroneLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Radius className="h-4 w-4 mr-2" />}
+                  Show reachable area from start
+                </Button>
+              }
+              {isochrones && isochrones.features.length > 0 &&
+              <div className="flex flex-wrap gap-2">
+                  {[...isochrones.features].reverse().map((feature) =>
+                <Button
+                  key={feature.properties.minutes}
+                  type="button"
+                  variant={matchRadius === String(feature.properties.suggestedMatchRadius) ? "default" : "secondary"}
+                  size="sm"
+                  onClick={() => setMatchRadius(String(feature.properties.suggestedMatchRadius))}>
+                      {feature.properties.minutes} min · {feature.properties.suggestedMatchRadius} km
+                    </Button>
+                )}
+                </div>
+              }
             </div>
 
             {/* Transport Mode */}
@@ -559,9 +790,19 @@ export default function Home() {
                             <DollarSign className="h-3 w-3" />
                             Cost
                           </div>
-                          <div className="font-medium">{formatCost(route.cost)}</div>
+                          <div className="font-medium">{formatCost(route.cost, route.costBreakdown?.currency)}</div>
                         </div>
                       </div>
+                      {route.costBreakdown && route.costBreakdown.items.length > 0 &&
+                    <div className="space-y-1 text-xs">
+                          {route.costBreakdown.items.map((item, itemIndex) =>
+                      <div key={itemIndex} className="flex justify-between text-muted-foreground">
+                              <span>{item.label}</span>
+                              <span>{formatCost(item.amount, route.costBreakdown!.currency)}</span>
+                            </div>
+                      )}
+                        </div>
+                    }
                       <div className="flex items-center gap-2 pt-2 border-t">
                         <Leaf className="h-4 w-4 text-green-600" />
                         <div className="flex-1">
@@ -595,7 +836,7 @@ export default function Home() {
 
         {/* Map */}
         <div className="flex-1 h-full relative">
-          <MapComponent routes={routes} transportModes={transportModes} />
+          <MapComponent routes={routes} transportModes={transportModes} isochrones={isochrones} />
         </div>
       </div>
     </div>);
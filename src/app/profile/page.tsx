@@ -21,6 +21,7 @@ import {
   Plus,
   Trash2,
   UserPlus,
+  MapPin,
 } from "lucide-react";
 import { useSession } from "@/lib/auth-client";
 import { toast } from "sonner";
@@ -34,6 +35,14 @@ interface EmergencyContact {
   createdAt: string;
 }
 
+interface SavedPlace {
+  id: number;
+  label: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+}
+
 interface UserProfile {
   id: number;
   userId: string;
@@ -51,10 +60,12 @@ export default function ProfilePage() {
 
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [emergencyContacts, setEmergencyContacts] = useState<EmergencyContact[]>([]);
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [editing, setEditing] = useState(false);
   const [addingContact, setAddingContact] = useState(false);
+  const [addingPlace, setAddingPlace] = useState(false);
 
   const [phoneData, setPhoneData] = useState({
     phone: "",
@@ -67,6 +78,11 @@ export default function ProfilePage() {
     relationship: "",
   });
 
+  const [newPlace, setNewPlace] = useState({
+    label: "",
+    address: "",
+  });
+
   useEffect(() => {
     if (!isPending && !session?.user) {
       router.push(`/login?redirect=${encodeURIComponent(window.location.pathname)}`);
@@ -110,6 +126,18 @@ export default function ProfilePage() {
         const contacts = await contactsResponse.json();
         setEmergencyContacts(contacts);
       }
+
+      // Fetch saved places
+      const placesResponse = await fetch("/api/places", {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (placesResponse.ok) {
+        const places = await placesResponse.json();
+        setSavedPlaces(places);
+      }
     } catch (err) {
       toast.error("Failed to load profile data");
     } finally {
@@ -208,6 +236,64 @@ export default function ProfilePage() {
     }
   };
 
+  const handleAddPlace = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newPlace.label || !newPlace.address) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch("/api/places", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(newPlace),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to save place");
+      }
+
+      const place = await response.json();
+      setSavedPlaces([...savedPlaces, place].sort((a, b) => a.label.localeCompare(b.label)));
+      setNewPlace({ label: "", address: "" });
+      setAddingPlace(false);
+      toast.success("Place saved successfully");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save place");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePlace = async (placeId: number) => {
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch(`/api/places/${placeId}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete place");
+      }
+
+      setSavedPlaces(savedPlaces.filter(p => p.id !== placeId));
+      toast.success("Place deleted successfully");
+    } catch (err) {
+      toast.error("Failed to delete place");
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -551,6 +637,124 @@ export default function ProfilePage() {
           )}
         </Card>
 
+        {/* Saved Places */}
+        <Card className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-lg font-semibold flex items-center gap-2">
+                <MapPin className="h-5 w-5 text-primary" />
+                Saved Places
+              </h2>
+              <p className="text-xs text-muted-foreground mt-1">
+                Suggested first when you type a starting point or destination
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setAddingPlace(true)}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Place
+            </Button>
+          </div>
+
+          {/* Add Place Form */}
+          {addingPlace && (
+            <Card className="p-4 mb-4 border-2 border-primary/20">
+              <form onSubmit={handleAddPlace} className="space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div>
+                    <Label htmlFor="placeLabel">Label *</Label>
+                    <Input
+                      id="placeLabel"
+                      type="text"
+                      placeholder="Home, Work, Gym"
+                      maxLength={50}
+                      value={newPlace.label}
+                      onChange={(e) =>
+                        setNewPlace({ ...newPlace, label: e.target.value })
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label htmlFor="placeAddress">Address *</Label>
+                    <Input
+                      id="placeAddress"
+                      type="text"
+                      placeholder="221B Baker Street, London"
+                      value={newPlace.address}
+                      onChange={(e) =>
+                        setNewPlace({ ...newPlace, address: e.target.value })
+                      }
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={saving} size="sm">
+                    {saving ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      <>
+                        <Plus className="h-4 w-4 mr-2" />
+                        Save Place
+                      </>
+                    )}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setAddingPlace(false);
+                      setNewPlace({ label: "", address: "" });
+                    }}
+                    disabled={saving}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </Card>
+          )}
+
+          {/* Saved Places List */}
+          {savedPlaces.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <MapPin className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p className="text-sm">No saved places yet</p>
+              <p className="text-xs mt-1">
+                Save Home or Work to plan trips without retyping addresses
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {savedPlaces.map((place) => (
+                <Card key={place.id} className="p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-semibold">{place.label}</h3>
+                      <p className="text-sm text-muted-foreground mt-1">{place.address}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeletePlace(place.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )}
+        </Card>
+
         {/* Safety Tips */}
         <Card className="p-6 bg-muted/50">
           <h2 className="text-lg font-semibold flex items-center gap-2 mb-3">
@@ -31,8 +31,13 @@ import {
   Mail,
   Phone,
   Shield,
+  Send,
+  Repeat,
 } from "lucide-react";
 import { useSession } from "@/lib/auth-client";
+import { explainMatch } from "@/lib/matchExplanation";
+import type { MatchResult } from "@/lib/matching";
+import type { MatchAction, MatchStatus } from "@/lib/matchConsent";
 import { toast } from "sonner";
 
 const MapComponent = dynamic(() => import("@/components/MapComponent"), {
@@ -58,6 +63,10 @@ interface Trip {
   routeGeometry: [number, number][] | null;
   sourceCoordinates: string | null;
   destinationCoordinates: string | null;
+  role: "driver" | "rider" | null;
+  seatsOffered: number | null;
+  seatsAvailable: number | null;
+  scheduleId: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -67,7 +76,10 @@ interface Match {
   tripId: number;
   matchedTripId: number;
   matchScore: number;
-  status: string;
+  breakdown: MatchResult | null;
+  status: MatchStatus;
+  requestedByTripId: number | null;
+  expiresAt: string | null;
   createdAt: string;
   matchedTrip: {
     id: number;
@@ -77,6 +89,9 @@ interface Match {
     travelDate: string;
     travelTime: string;
     transportMode: string;
+    role: "driver" | "rider" | null;
+    seatsAvailable: number | null;
+    scheduleId: number | null;
     user?: {
       name: string;
       email: string;
@@ -94,6 +109,15 @@ const transportModes = [
   { value: "flight", label: "Flight", icon: Plane, color: "#06b6d4" },
 ];
 
+const MATCH_ACTION_MESSAGES: Record<MatchAction, string> = {
+  request: "Request sent! They'll be able to accept or decline.",
+  accept: "Match accepted",
+  decline: "Match declined",
+  withdraw: "Match withdrawn",
+  expire: "Request expired",
+  invalidate: "Match no longer applies",
+};
+
 export default function TripDetailsPage() {
   const params = useParams();
   const router = useRouter();
@@ -103,7 +127,7 @@ export default function TripDetailsPage() {
   const [trip, setTrip] = useState<Trip | null>(null);
   const [matches, setMatches] = useState<Match[]>([]);
   const [loading, setLoading] = useState(true);
-  const [acceptingMatch, setAcceptingMatch] = useState<number | null>(null);
+  const [actingOnMatch, setActingOnMatch] = useState<number | null>(null);
 
   useEffect(() => {
     if (!isPending && !session?.user) {
@@ -154,37 +178,70 @@ export default function TripDetailsPage() {
     }
   };
 
-  const handleAcceptMatch = async (matchId: number) => {
-    setAcceptingMatch(matchId);
+  const handleMatchAction = async (matchId: number, action: MatchAction) => {
+    setActingOnMatch(matchId);
     try {
       const token = localStorage.getItem("bearer_token");
-      const response = await fetch(`/api/trips/${tripId}/accept-match`, {
+      const response = await fetch(`/api/trips/${tripId}/matches/${matchId}`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({ matchId }),
+        body: JSON.stringify({ action }),
       });
 
+      const result = await response.json();
       if (!response.ok) {
-        throw new Error("Failed to accept match");
+        throw new Error(result?.error || `Failed to ${action} match`);
       }
 
-      const result = await response.json();
-      toast.success(`Group "${result.group.name}" created! You can now chat with your travel companion.`);
-      
       // Refresh trip details
       await fetchTripDetails();
-      
-      // Navigate to group chat
-      setTimeout(() => {
-        router.push(`/groups/${result.group.id}`);
-      }, 1500);
+
+      if (result.group) {
+        toast.success(`Group "${result.group.name}" is ready! You can now chat with your travel companion.`);
+
+        // Navigate to group chat
+        setTimeout(() => {
+          router.push(`/groups/${result.group.id}`);
+        }, 1500);
+      } else {
+        toast.success(MATCH_ACTION_MESSAGES[action]);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : `Failed to ${action} match`);
+    } finally {
+      setActingOnMatch(null);
+    }
+  };
+
+  const handleStandingArrangement = async (matchId: number) => {
+    if (!trip?.scheduleId) return;
+    setActingOnMatch(matchId);
+    try {
+      const token = localStorage.getItem("bearer_token");
+      const response = await fetch(`/api/schedules/${trip.scheduleId}/arrangements`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ matchId }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result?.error || "Failed to set up a standing arrangement");
+      }
+
+      toast.success(result.standing ?
+        "Standing arrangement set! You'll be paired on every upcoming trip." :
+        "Saved. You'll be paired on every trip once your companion agrees too.");
     } catch (err) {
-      toast.error("Failed to accept match");
+      toast.error(err instanceof Error ? err.message : "Failed to set up a standing arrangement");
     } finally {
-      setAcceptingMatch(null);
+      setActingOnMatch(null);
     }
   };
 
@@ -352,6 +409,14 @@ export default function TripDetailsPage() {
                     <p className="text-sm font-medium capitalize">
                       {trip.transportMode}
                     </p>
+                    {trip.role === "driver" &&
+                    <p className="text-xs text-muted-foreground">
+                        Driving · {trip.seatsAvailable} of {trip.seatsOffered} seats free
+                      </p>
+                    }
+                    {trip.role === "rider" &&
+                    <p className="text-xs text-muted-foreground">Looking for a seat</p>
+                    }
                   </div>
                   <div className="space-y-1">
                     <div className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -457,36 +522,119 @@ export default function TripDetailsPage() {
                                 return <Icon className="h-3 w-3 text-muted-foreground" />;
                               })()}
                               <span>{match.matchedTrip.transportMode}</span>
+                              {match.matchedTrip.role === "driver" &&
+                              <span className="normal-case text-muted-foreground">
+                                  · driving, {match.matchedTrip.seatsAvailable} seats free
+                                </span>
+                              }
+                              {match.matchedTrip.role === "rider" &&
+                              <span className="normal-case text-muted-foreground">· looking for a seat</span>
+                              }
                             </div>
                           </div>
 
-                          {match.status === "pending" ? (
-                            <div className="flex gap-2">
-                              <Button
-                                size="sm"
-                                onClick={() => handleAcceptMatch(match.id)}
-                                disabled={acceptingMatch !== null}
-                                className="flex-1"
-                              >
-                                {acceptingMatch === match.id ? (
-                                  <>
-                                    <Loader2 className="h-3 w-3 mr-2 animate-spin" />
-                                    Creating Group...
-                                  </>
-                                ) : (
-                                  <>
-                                    <Check className="h-3 w-3 mr-2" />
-                                    Accept & Create Group
-                                  </>
-                                )}
-                              </Button>
-                            </div>
-                          ) : (
-                            <Badge variant="secondary" className="w-full justify-center">
-                              <Check className="h-3 w-3 mr-1" />
-                              {match.status === "accepted" ? "Connected" : "Declined"}
-                            </Badge>
-                          )}
+                          {(() => {
+                            const phrases = explainMatch(match.breakdown);
+                            if (phrases.length === 0) return null;
+                            const sentence = phrases.join(", ");
+                            return (
+                              <p className="text-sm text-muted-foreground mb-3">
+                                {sentence.charAt(0).toUpperCase() + sentence.slice(1)}.
+                              </p>
+                            );
+                          })()}
+
+                          {(() => {
+                            const busy = actingOnMatch !== null;
+                            const spinner = actingOnMatch === match.id &&
+                              <Loader2 className="h-3 w-3 mr-2 animate-spin" />;
+                            const sentByMe = match.requestedByTripId === trip.id;
+
+                            if (match.status === "pending") {
+                              return (
+                                <Button
+                                  size="sm"
+                                  onClick={() => handleMatchAction(match.id, "request")}
+                                  disabled={busy}
+                                  className="w-full"
+                                >
+                                  {spinner || <Send className="h-3 w-3 mr-2" />}
+                                  Request to Travel Together
+                                </Button>
+                              );
+                            }
+
+                            if (match.status === "requested" && !sentByMe) {
+                              return (
+                                <div className="space-y-2">
+                                  <p className="text-xs text-muted-foreground">
+                                    Wants to travel with you{match.expiresAt && ` · respond by ${new Date(match.expiresAt).toLocaleString()}`}
+                                  </p>
+                                  <div className="flex gap-2">
+                                    <Button
+                                      size="sm"
+                                      onClick={() => handleMatchAction(match.id, "accept")}
+                                      disabled={busy}
+                                      className="flex-1"
+                                    >
+                                      {spinner || <Check className="h-3 w-3 mr-2" />}
+                                      Accept & Create Group
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleMatchAction(match.id, "decline")}
+                                      disabled={busy}
+                                    >
+                                      <X className="h-3 w-3 mr-2" />
+                                      Decline
+                                    </Button>
+                                  </div>
+                                </div>
+                              );
+                            }
+
+                            if (match.status === "requested" || match.status === "accepted") {
+                              const recurringPair = match.status === "accepted" && trip.scheduleId && match.matchedTrip.scheduleId;
+                              return (
+                                <div className="space-y-2">
+                                  <div className="flex gap-2 items-center">
+                                    <Badge variant="secondary" className="flex-1 justify-center">
+                                      <Check className="h-3 w-3 mr-1" />
+                                      {match.status === "accepted" ? "Connected" : "Request sent"}
+                                    </Badge>
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      onClick={() => handleMatchAction(match.id, "withdraw")}
+                                      disabled={busy}
+                                    >
+                                      {spinner}
+                                      Withdraw
+                                    </Button>
+                                  </div>
+                                  {recurringPair && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="w-full"
+                                      onClick={() => handleStandingArrangement(match.id)}
+                                      disabled={busy}
+                                    >
+                                      <Repeat className="h-3 w-3 mr-2" />
+                                      Travel Together Every Time
+                                    </Button>
+                                  )}
+                                </div>
+                              );
+                            }
+
+                            return (
+                              <Badge variant="secondary" className="w-full justify-center capitalize">
+                                {match.status}
+                              </Badge>
+                            );
+                          })()}
                         </div>
                       </div>
                     </Card>
@@ -510,7 +658,7 @@ export default function TripDetailsPage() {
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">Pending</span>
                   <Badge variant="outline">
-                    {matches.filter((m) => m.status === "pending").length}
+                    {matches.filter((m) => m.status === "pending" || m.status === "requested").length}
                   </Badge>
                 </div>
                 <div className="flex items-center justify-between">
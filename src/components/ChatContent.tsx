@@ -0,0 +1,283 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { PlaceInput } from "@/components/PlaceInput";
+import { BarChart3, Check, Crosshair, Flag, Loader2, MapPin, Plus, X } from "lucide-react";
+import type { LatLon } from "@/lib/geo";
+import type { StructuredContent } from "@/lib/chatContent";
+
+// Composer and cards for structured group chat messages (see
+// src/lib/chatContent.ts for the payloads).
+
+export type StructuredKind = "location" | "meeting_point" | "poll";
+
+export type StructuredMessage = StructuredContent & {
+  id: number;
+  poll: { closed: boolean; votes: Array<{ count: number; userIds: string[] }> } | null;
+  acceptedBy: string[] | null;
+};
+
+const POLL_DURATIONS = [
+  { label: "15 minutes", minutes: 15 },
+  { label: "1 hour", minutes: 60 },
+  { label: "3 hours", minutes: 180 },
+  { label: "1 day", minutes: 1440 },
+];
+
+const MAX_POLL_OPTIONS = 10;
+
+interface ChatContentComposerProps {
+  kind: StructuredKind;
+  onSubmit: (kind: StructuredKind, payload: unknown) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Form for a location share, meeting point proposal or poll
+export function ChatContentComposer({ kind, onSubmit, onCancel }: ChatContentComposerProps) {
+  const [place, setPlace] = useState("");
+  const [coordinates, setCoordinates] = useState<LatLon | null>(null);
+  const [time, setTime] = useState("");
+  const [locating, setLocating] = useState(false);
+  const [question, setQuestion] = useState("");
+  const [options, setOptions] = useState(["", ""]);
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [submitting, setSubmitting] = useState(false);
+
+  const useCurrentLocation = () => {
+    if (!navigator.geolocation) return;
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setCoordinates([position.coords.latitude, position.coords.longitude]);
+        if (!place) setPlace("Current location");
+        setLocating(false);
+      },
+      () => setLocating(false),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  const payload = () => {
+    if (kind === "poll") {
+      return {
+        question,
+        options: options.map(option => option.trim()).filter(Boolean),
+        closesAt: new Date(Date.now() + durationMinutes * 60000).toISOString(),
+      };
+    }
+    return {
+      coordinates,
+      label: place.trim() || null,
+      ...(kind === "meeting_point" && { time: time ? new Date(time).toISOString() : null }),
+    };
+  };
+
+  const canSubmit = kind === "poll"
+    ? question.trim() !== "" && options.filter(option => option.trim()).length >= 2
+    : coordinates !== null && (kind === "location" || place.trim() !== "");
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setSubmitting(true);
+    try {
+      await onSubmit(kind, payload());
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="mb-2 space-y-2 rounded-md border bg-muted/40 p-3">
+      <div className="flex items-center justify-between text-sm font-medium">
+        {kind === "location" && "Share a location"}
+        {kind === "meeting_point" && "Propose a meeting point"}
+        {kind === "poll" && "Create a poll"}
+        <Button type="button" size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={onCancel}>
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {kind === "poll" ? (
+        <>
+          <Input
+            placeholder="Question, e.g. When do we leave?"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            maxLength={200}
+          />
+          {options.map((option, index) => (
+            <div key={index} className="flex gap-1">
+              <Input
+                placeholder={`Option ${index + 1}`}
+                value={option}
+                onChange={(e) => setOptions(options.map((o, i) => (i === index ? e.target.value : o)))}
+                maxLength={80}
+              />
+              {options.length > 2 && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setOptions(options.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-2">
+            {options.length < MAX_POLL_OPTIONS && (
+              <Button type="button" size="sm" variant="outline" onClick={() => setOptions([...options, ""])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add option
+              </Button>
+            )}
+            <select
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(parseInt(e.target.value))}
+            >
+              {POLL_DURATIONS.map(duration => (
+                <option key={duration.minutes} value={duration.minutes}>
+                  Closes in {duration.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex gap-1">
+            <div className="flex-1">
+              <PlaceInput
+                value={place}
+                placeholder={kind === "location" ? "Search a place (optional with current location)" : "Meeting point"}
+                onChange={(value, coords) => {
+                  setPlace(value);
+                  setCoordinates(coords);
+                }}
+              />
+            </div>
+            <Button type="button" variant="outline" onClick={useCurrentLocation} disabled={locating} title="Use my location">
+              {locating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Crosshair className="h-4 w-4" />}
+            </Button>
+          </div>
+          {kind === "meeting_point" && (
+            <Input type="datetime-local" value={time} onChange={(e) => setTime(e.target.value)} />
+          )}
+          {!coordinates && place && (
+            <p className="text-xs text-muted-foreground">Pick a suggestion or use your location to set the spot.</p>
+          )}
+        </>
+      )}
+
+      <Button type="submit" size="sm" disabled={!canSubmit || submitting}>
+        {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Send"}
+      </Button>
+    </form>
+  );
+}
+
+interface ChatContentCardProps {
+  message: StructuredMessage;
+  currentUserId: string | undefined;
+  memberCount: number;
+  // Whether this meeting point is the group's official one
+  official: boolean;
+  onVote: (optionIndex: number) => void;
+  onAccept: () => void;
+}
+
+// Rendering of a structured message in the chat
+export function ChatContentCard({ message, currentUserId, memberCount, official, onVote, onAccept }: ChatContentCardProps) {
+  if (message.kind === "location") {
+    return (
+      <div className="flex items-start gap-2 rounded-lg border bg-card px-4 py-3 text-sm">
+        <MapPin className="h-4 w-4 mt-0.5 text-purple-500" />
+        <div>
+          <div className="font-medium">{message.payload.label}</div>
+          <div className="text-xs text-muted-foreground">
+            {message.payload.coordinates[0].toFixed(5)}, {message.payload.coordinates[1].toFixed(5)} · on the group map
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (message.kind === "meeting_point") {
+    const acceptedBy = message.acceptedBy ?? [];
+    const accepted = !!currentUserId && acceptedBy.includes(currentUserId);
+    return (
+      <div className="space-y-2 rounded-lg border bg-card px-4 py-3 text-sm">
+        <div className="flex items-start gap-2">
+          <Flag className="h-4 w-4 mt-0.5 text-amber-500" />
+          <div className="flex-1">
+            <div className="font-medium">{message.payload.label}</div>
+            {message.payload.time && (
+              <div className="text-xs text-muted-foreground">{new Date(message.payload.time).toLocaleString()}</div>
+            )}
+          </div>
+          {official && <Badge className="bg-green-600">Official pickup</Badge>}
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">
+            Accepted by {acceptedBy.length} of {memberCount}
+          </span>
+          {!accepted && (
+            <Button size="sm" variant="outline" onClick={onAccept}>
+              <Check className="h-4 w-4 mr-1" />
+              Accept
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (message.kind === "poll" && message.poll) {
+    const { closed, votes } = message.poll;
+    const total = votes.reduce((sum, option) => sum + option.count, 0);
+    const leading = Math.max(...votes.map(option => option.count));
+    return (
+      <div className="space-y-2 rounded-lg border bg-card px-4 py-3 text-sm min-w-64">
+        <div className="flex items-start gap-2 font-medium">
+          <BarChart3 className="h-4 w-4 mt-0.5 text-primary" />
+          {message.payload.question}
+        </div>
+        {message.payload.options.map((option, index) => {
+          const mine = !!currentUserId && votes[index].userIds.includes(currentUserId);
+          const share = total > 0 ? Math.round((votes[index].count / total) * 100) : 0;
+          const winner = closed && total > 0 && votes[index].count === leading;
+          return (
+            <button
+              key={index}
+              disabled={closed}
+              onClick={() => onVote(index)}
+              className={`relative block w-full overflow-hidden rounded-md border px-3 py-1.5 text-left ${
+                mine ? "border-primary" : ""
+              } ${closed ? "cursor-default" : "hover:bg-muted"}`}
+            >
+              <div className="absolute inset-y-0 left-0 bg-primary/15" style={{ width: `${share}%` }} />
+              <div className="relative flex justify-between gap-2">
+                <span className={winner ? "font-semibold" : ""}>
+                  {option}
+                  {mine && " ✓"}
+                </span>
+                <span className="text-xs text-muted-foreground">{votes[index].count}</span>
+              </div>
+            </button>
+          );
+        })}
+        <div className="text-xs text-muted-foreground">
+          {total} vote{total !== 1 ? "s" : ""} · {closed ? "Closed" : `Closes ${new Date(message.payload.closesAt).toLocaleString()}`}
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+}
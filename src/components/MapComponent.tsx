@@ -1,17 +1,31 @@
 "use client";
 
 import { useEffect, useRef, useState, Fragment } from "react";
-import { MapContainer, TileLayer, Polyline, Marker, Popup, useMap } from "react-leaflet";
+import { MapContainer, TileLayer, Polyline, Polygon, Marker, Popup, useMap } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
+import { greatCirclePoints } from "@/lib/geo";
 
 interface RouteData {
   coordinates: [number, number][];
   distance: number;
   duration: number;
   cost: number;
+  costBreakdown?: {
+    currency: string;
+    region: string;
+    items: Array<{ type: string; label: string; amount: number }>;
+    total: number;
+  };
   mode: string;
   optimizationType?: "shortest" | "fastest" | "cheapest" | "balanced";
+  // Flight itineraries split into ground legs and great-circle flights
+  segments?: Array<{
+    type: "ground" | "flight";
+    from: string;
+    to: string;
+    coordinates: [number, number][];
+  }>;
 }
 
 interface TransportMode {
@@ -38,13 +52,64 @@ interface Member {
   };
 }
 
+// GeoJSON from /api/isochrone, largest band first
+interface IsochroneCollection {
+  features: Array<{
+    properties: {
+      minutes: number;
+      radiusKm: number;
+      suggestedMatchRadius: number;
+    };
+    geometry: { coordinates: number[][][] }; // [lon, lat]
+  }>;
+}
+
+// Places shared in a group chat
+interface Pin {
+  lat: number;
+  lon: number;
+  label: string;
+  type: "location" | "meeting_point" | "official_meeting_point";
+  detail?: string;
+}
+
+// Members sharing their position live, with their recent trail (oldest first)
+interface LiveLocation {
+  userId: string;
+  name: string;
+  lat: number;
+  lon: number;
+  trail: [number, number][];
+  recordedAt: string;
+  etas: Array<{ userId: string; location: string; etaSeconds: number }>;
+}
+
 interface MapComponentProps {
   routes: RouteData[];
   transportModes: TransportMode[];
   waypoints?: Waypoint[];
   members?: Member[];
+  isochrones?: IsochroneCollection | null;
+  pins?: Pin[];
+  // Not part of the fitted bounds, so the map doesn't follow every move
+  liveLocations?: LiveLocation[];
 }
 
+const PIN_COLORS: Record<Pin["type"], string> = {
+  location: "#a855f7",
+  meeting_point: "#f59e0b",
+  official_meeting_point: "#16a34a",
+};
+
+const PIN_LABELS: Record<Pin["type"], string> = {
+  location: "Shared location",
+  meeting_point: "Proposed meeting point",
+  official_meeting_point: "Meeting point",
+};
+
+// Outermost band palest, innermost strongest
+const ISOCHRONE_COLORS = ["#a5b4fc", "#818cf8", "#6366f1", "#4338ca"];
+
 // Fix for default marker icons in Leaflet
 if (typeof window !== 'undefined') {
   delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -55,44 +120,53 @@ if (typeof window !== 'undefined') {
   });
 }
 
-function MapUpdater({ routes, waypoints }: { routes: RouteData[]; waypoints?: Waypoint[] }) {
+function MapUpdater({ routes, waypoints, pins }: { routes: RouteData[]; waypoints?: Waypoint[]; pins?: Pin[] }) {
   const map = useMap();
 
+  const allCoordinates: [number, number][] = [];
+
+  // Add route coordinates
+  if (routes && routes.length > 0) {
+    routes.forEach(route => {
+      if (route.coordinates && Array.isArray(route.coordinates)) {
+        allCoordinates.push(...route.coordinates);
+      }
+    });
+  }
+
+  // Add waypoint coordinates
+  if (waypoints && waypoints.length > 0) {
+    waypoints.forEach(waypoint => {
+      allCoordinates.push([waypoint.lat, waypoint.lon]);
+    });
+  }
+
+  // Add pin coordinates
+  if (pins && pins.length > 0) {
+    pins.forEach(pin => {
+      allCoordinates.push([pin.lat, pin.lon]);
+    });
+  }
+
+  // Parents pass fresh arrays on every render; refit only when the bounds
+  // actually change so the map doesn't jump back while the user pans
+  const boundsKey = allCoordinates.length > 0 ? L.latLngBounds(allCoordinates).toBBoxString() : "";
+
   useEffect(() => {
-    if (!map) return;
-    
+    if (!map || !boundsKey) return;
+
     try {
-      const allCoordinates: [number, number][] = [];
-      
-      // Add route coordinates
-      if (routes && routes.length > 0) {
-        routes.forEach(route => {
-          if (route.coordinates && Array.isArray(route.coordinates)) {
-            allCoordinates.push(...route.coordinates);
-          }
-        });
-      }
-      
-      // Add waypoint coordinates
-      if (waypoints && waypoints.length > 0) {
-        waypoints.forEach(waypoint => {
-          allCoordinates.push([waypoint.lat, waypoint.lon]);
-        });
-      }
-      
-      if (allCoordinates.length > 0) {
-        const bounds = L.latLngBounds(allCoordinates);
-        map.fitBounds(bounds, { padding: [50, 50] });
-      }
+      const bounds = L.latLngBounds(allCoordinates);
+      map.fitBounds(bounds, { padding: [50, 50] });
     } catch (error) {
       console.error("Error updating map bounds:", error);
     }
-  }, [routes, waypoints, map]);
+  }, [boundsKey, map]);
 
   return null;
 }
 
-export default function MapComponent({ routes, transportModes, waypoints, members }: MapComponentProps) {
+export default function MapComponent({ routes, transportModes, waypoints, members, isochrones, pins, liveLocations }: MapComponentProps) {
   const [isClient, setIsClient] = useState(false);
   const [mapReady, setMapReady] = useState(false);
   const mapContainerRef = useRef<L.Map | null>(null);
@@ -133,6 +207,40 @@ export default function MapComponent({ routes, transportModes, waypoints, member
     }
   };
 
+  const getLiveLocationIcon = (name: string) => {
+    try {
+      const initials = name.split(" ").map(part => part[0]).join("").toUpperCase().slice(0, 2);
+      return L.divIcon({
+        className: "live-location-marker",
+        html: `
+          <div style="
+            background-color: #0ea5e9;
+            width: 30px;
+            height: 30px;
+            border-radius: 50%;
+            border: 3px solid white;
+            box-shadow: 0 0 0 4px rgba(14,165,233,0.35), 0 2px 6px rgba(0,0,0,0.4);
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            color: white;
+            font-weight: bold;
+            font-size: 11px;
+          ">${initials}</div>
+        `,
+        iconSize: [30, 30],
+        iconAnchor: [15, 15],
+      });
+    } catch (error) {
+      console.error("Error creating live location icon:", error);
+      return L.icon({
+        iconUrl: "https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon.png",
+        iconSize: [25, 41],
+        iconAnchor: [12, 41],
+      });
+    }
+  };
+
   const getWaypointIcon = (type: string, index: number) => {
     try {
       const color = type === 'pickup' ? '#22c55e' : '#3b82f6';
@@ -200,8 +308,8 @@ export default function MapComponent({ routes, transportModes, waypoints, member
     return `${minutes}m`;
   };
 
-  const formatCost = (cost: number) => {
-    return `$${cost.toFixed(2)}`;
+  const formatCost = (cost: number, currency: string = "USD") => {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cost);
   };
 
   const getOptimizationLabel = (type?: string) => {
@@ -272,6 +380,30 @@ export default function MapComponent({ routes, transportModes, waypoints, member
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
         
+        {/* Reachability bands sit under the routes */}
+        {mapReady && isochrones && isochrones.features.map((feature, index) => {
+          const color = ISOCHRONE_COLORS[
+            Math.min(ISOCHRONE_COLORS.length - 1, ISOCHRONE_COLORS.length - isochrones.features.length + index)
+          ];
+          return (
+            <Polygon
+              key={`isochrone-${feature.properties.minutes}`}
+              positions={feature.geometry.coordinates[0].map(([lon, lat]) => [lat, lon] as [number, number])}
+              pathOptions={{ color, weight: 1, fillColor: color, fillOpacity: 0.2 }}
+            >
+              <Popup>
+                <div className="text-sm space-y-1">
+                  <div className="font-semibold text-base mb-1">
+                    Within {feature.properties.minutes} min
+                  </div>
+                  <div><strong>Typical reach:</strong> {feature.properties.radiusKm} km</div>
+                  <div><strong>Suggested match radius:</strong> {feature.properties.suggestedMatchRadius} km</div>
+                </div>
+              </Popup>
+            </Polygon>
+          );
+        })}
+
         {mapReady && routes && routes.length > 0 && routes.map((route, index) => {
           const routeStyle = getRouteStyle(index, route.optimizationType);
           const hasValidCoordinates = route.coordinates && Array.isArray(route.coordinates) && route.coordinates.length > 0;
@@ -284,10 +416,44 @@ export default function MapComponent({ routes, transportModes, waypoints, member
           
           return (
             <Fragment key={`route-${index}`}>
-              <Polyline
-                positions={route.coordinates}
-                pathOptions={routeStyle}
-              />
+              {route.segments && route.segments.length > 0 ? (
+                route.segments.map((segment, segmentIndex) => {
+                  if (segment.coordinates.length === 0) return null;
+
+                  if (segment.type === "flight") {
+                    const from = segment.coordinates[0];
+                    const to = segment.coordinates[segment.coordinates.length - 1];
+                    return (
+                      <Polyline
+                        key={`route-${index}-segment-${segmentIndex}`}
+                        positions={greatCirclePoints(from, to)}
+                        pathOptions={{ ...routeStyle, dashArray: "8, 8" }}
+                      >
+                        <Popup>
+                          <div className="text-sm">
+                            <strong>Flight</strong>
+                            <br />
+                            {segment.from} → {segment.to}
+                          </div>
+                        </Popup>
+                      </Polyline>
+                    );
+                  }
+
+                  return (
+                    <Polyline
+                      key={`route-${index}-segment-${segmentIndex}`}
+                      positions={segment.coordinates}
+                      pathOptions={routeStyle}
+                    />
+                  );
+                })
+              ) : (
+                <Polyline
+                  positions={route.coordinates}
+                  pathOptions={routeStyle}
+                />
+              )}
               
               {/* Show start/end markers only if no waypoints */}
               {!waypoints && (
@@ -340,7 +506,7 @@ export default function MapComponent({ routes, transportModes, waypoints, member
                         </div>
                         <div><strong>Distance:</strong> {formatDistance(route.distance)}</div>
                         <div><strong>Duration:</strong> {formatDuration(route.duration)}</div>
-                        <div><strong>Cost:</strong> {formatCost(route.cost)}</div>
+                        <div><strong>Cost:</strong> {formatCost(route.cost, route.costBreakdown?.currency)}</div>
                         <div><strong>Mode:</strong> {route.mode}</div>
                       </div>
                     </Popup>
@@ -371,7 +537,49 @@ export default function MapComponent({ routes, transportModes, waypoints, member
           </Marker>
         ))}
         
-        {mapReady && <MapUpdater routes={routes} waypoints={waypoints} />}
+        {/* Render chat pins if provided */}
+        {mapReady && pins && pins.map((pin, index) => (
+          <Marker
+            key={`pin-${index}`}
+            position={[pin.lat, pin.lon]}
+            icon={getMarkerIcon(PIN_COLORS[pin.type])}
+          >
+            <Popup>
+              <div className="text-sm space-y-1">
+                <div className="font-semibold text-base mb-1">{pin.label}</div>
+                <div>{PIN_LABELS[pin.type]}</div>
+                {pin.detail && <div className="text-muted-foreground">{pin.detail}</div>}
+              </div>
+            </Popup>
+          </Marker>
+        ))}
+
+        {/* Render live locations if provided */}
+        {mapReady && liveLocations && liveLocations.map(live => (
+          <Fragment key={`live-${live.userId}`}>
+            {live.trail.length > 1 && (
+              <Polyline
+                positions={live.trail}
+                pathOptions={{ color: "#0ea5e9", weight: 4, opacity: 0.5, dashArray: "4 6" }}
+              />
+            )}
+            <Marker position={[live.lat, live.lon]} icon={getLiveLocationIcon(live.name)}>
+              <Popup>
+                <div className="text-sm space-y-1">
+                  <div className="font-semibold text-base mb-1">{live.name}</div>
+                  <div>Live · updated {new Date(live.recordedAt).toLocaleTimeString()}</div>
+                  {live.etas.map(eta => (
+                    <div key={eta.userId}>
+                      <strong>{getMemberName(eta.userId)}:</strong> {Math.max(1, Math.round(eta.etaSeconds / 60))} min
+                    </div>
+                  ))}
+                </div>
+              </Popup>
+            </Marker>
+          </Fragment>
+        ))}
+
+        {mapReady && <MapUpdater routes={routes} waypoints={waypoints} pins={pins} />}
       </MapContainer>
     </div>
   );
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Input } from "@/components/ui/input";
+import { Clock, MapPin, Star } from "lucide-react";
+import type { PlaceSuggestion } from "@/lib/places";
+import type { LatLon } from "@/lib/geo";
+
+interface PlaceInputProps {
+  value: string;
+  placeholder?: string;
+  // coordinates is set when a suggestion was picked, null while the user types
+  onChange: (value: string, coordinates: LatLon | null) => void;
+}
+
+const KIND_ICONS = {
+  saved: Star,
+  recent: Clock,
+  geocoder: MapPin,
+};
+
+// Text input with suggestions from /api/places/autocomplete. Picking one
+// hands its coordinates back so the trip doesn't need geocoding.
+export function PlaceInput({ value, placeholder, onChange }: PlaceInputProps) {
+  const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const id = ++requestId.current;
+    const timer = setTimeout(async () => {
+      try {
+        const token = localStorage.getItem("bearer_token");
+        const response = await fetch(`/api/places/autocomplete?q=${encodeURIComponent(value)}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!response.ok || id !== requestId.current) return;
+        setSuggestions(await response.json());
+        setHighlighted(0);
+      } catch {
+        // Suggestions are optional; free text still works
+      }
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [value, open]);
+
+  const pick = (suggestion: PlaceSuggestion) => {
+    onChange(suggestion.address, suggestion.coordinates);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      pick(suggestions[highlighted]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value, null);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        autoComplete="off" />
+
+      {open && suggestions.length > 0 &&
+      <ul className="absolute z-50 mt-1 w-full rounded-md border bg-popover text-popover-foreground shadow-md max-h-64 overflow-auto">
+          {suggestions.map((suggestion, index) => {
+          const Icon = KIND_ICONS[suggestion.kind];
+          return (
+            <li
+              key={`${suggestion.kind}-${suggestion.address}-${index}`}
+              className={`flex items-start gap-2 px-3 py-2 text-sm cursor-pointer ${index === highlighted ? "bg-accent" : ""}`}
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setHighlighted(index)}
+              onClick={() => pick(suggestion)}>
+
+                <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{suggestion.label}</p>
+                  {suggestion.label !== suggestion.address &&
+                <p className="text-xs text-muted-foreground truncate">{suggestion.address}</p>
+                }
+                </div>
+              </li>);
+
+        })}
+        </ul>
+      }
+    </div>);
+
+}
@@ -1,4 +1,4 @@
-import { sqliteTable, integer, text, real } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, integer, text, real, index, uniqueIndex, type AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
 
 
 
@@ -83,10 +83,58 @@ export const trips = sqliteTable('trips', {
   routeData: text('route_data', { mode: 'json' }),
   routeGeometry: text('route_geometry', { mode: 'json' }),
   matchRadius: integer('match_radius').notNull().default(10),
+  flexibilityMinutes: integer('flexibility_minutes').notNull().default(30),
+  maxDetourMinutes: integer('max_detour_minutes').notNull().default(15),
+  role: text('role'),
+  seatsOffered: integer('seats_offered'),
+  seatsAvailable: integer('seats_available'),
+  scheduleId: integer('schedule_id').references(() => tripSchedules.id, { onDelete: 'set null' }), // generated from a recurring schedule
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => [
+  uniqueIndex('trips_schedule_date_idx').on(table.scheduleId, table.travelDate),
+]);
+
+// Recurring trip templates. Trips are generated from them ahead of time by
+// src/lib/schedules.ts, reusing the coordinates and route geometry located once
+// when the schedule was created.
+export const tripSchedules = sqliteTable('trip_schedules', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  source: text('source').notNull(),
+  destination: text('destination').notNull(),
+  sourceCoordinates: text('source_coordinates').notNull(),
+  destinationCoordinates: text('destination_coordinates').notNull(),
+  routeGeometry: text('route_geometry', { mode: 'json' }),
+  routeData: text('route_data', { mode: 'json' }),
+  travelTime: text('travel_time').notNull(),
+  transportMode: text('transport_mode').notNull(),
+  optimizationMode: text('optimization_mode').notNull(),
+  matchRadius: integer('match_radius').notNull().default(10),
+  flexibilityMinutes: integer('flexibility_minutes').notNull().default(30),
+  maxDetourMinutes: integer('max_detour_minutes').notNull().default(15),
+  role: text('role'),
+  seatsOffered: integer('seats_offered'),
+  rrule: text('rrule').notNull(), // see src/lib/recurrence.ts
+  startDate: text('start_date').notNull(),
+  status: text('status').notNull().default('active'), // 'active' | 'ended'
+  generatedThrough: text('generated_through'), // last date trips were generated for
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
 });
 
+// Standing carpool arrangements: a row means scheduleId's owner wants to keep
+// travelling with partnerScheduleId's owner. The arrangement holds when both
+// directions exist.
+export const scheduleArrangements = sqliteTable('schedule_arrangements', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  scheduleId: integer('schedule_id').notNull().references(() => tripSchedules.id, { onDelete: 'cascade' }),
+  partnerScheduleId: integer('partner_schedule_id').notNull().references(() => tripSchedules.id, { onDelete: 'cascade' }),
+  createdAt: text('created_at').notNull(),
+}, (table) => [
+  uniqueIndex('schedule_arrangements_pair_idx').on(table.scheduleId, table.partnerScheduleId),
+]);
+
 export const userProfiles = sqliteTable('user_profiles', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   userId: text('user_id').notNull().unique().references(() => user.id, { onDelete: 'cascade' }),
@@ -104,6 +152,7 @@ export const groups = sqliteTable('groups', {
   tripId: integer('trip_id').references(() => trips.id, { onDelete: 'set null' }),
   createdBy: text('created_by').notNull().references(() => user.id, { onDelete: 'cascade' }),
   status: text('status').notNull().default('active'),
+  meetingPoint: text('meeting_point', { mode: 'json' }), // official pickup, an accepted meeting point message (see src/lib/chatContent.ts)
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
 });
@@ -121,17 +170,135 @@ export const tripMatches = sqliteTable('trip_matches', {
   tripId: integer('trip_id').notNull().references(() => trips.id, { onDelete: 'cascade' }),
   matchedTripId: integer('matched_trip_id').notNull().references(() => trips.id, { onDelete: 'cascade' }),
   matchScore: integer('match_score').notNull(),
+  breakdown: text('breakdown', { mode: 'json' }), // MatchResult from src/lib/matching.ts, from tripId's point of view
+  // 'pending' (suggested) | 'requested' | 'accepted' | 'declined' | 'withdrawn' | 'expired' | 'invalidated'
   status: text('status').notNull().default('pending'),
+  requestedByTripId: integer('requested_by_trip_id'),
+  expiresAt: text('expires_at'), // when an open request lapses
   createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at'),
 });
 
+// Consent history of a match pair, see src/lib/matchConsent.ts
+export const matchTransitions = sqliteTable('match_transitions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  tripMatchId: integer('trip_match_id').notNull().references(() => tripMatches.id, { onDelete: 'cascade' }), // the acting trip's row
+  action: text('action').notNull(), // 'request' | 'accept' | 'decline' | 'withdraw' | 'expire' | 'invalidate'
+  fromStatus: text('from_status').notNull(),
+  toStatus: text('to_status').notNull(),
+  actorUserId: text('actor_user_id').references(() => user.id, { onDelete: 'set null' }), // null for expiry and standing arrangements
+  createdAt: text('created_at').notNull(),
+}, (table) => [
+  index('match_transitions_trip_match_id_idx').on(table.tripMatchId),
+]);
+
+// Indexed for search by the messages_fts FTS5 table (drizzle/0023_messages_fts.sql)
 export const messages = sqliteTable('messages', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   groupId: integer('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
   userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
-  message: text('message').notNull(),
+  message: text('message').notNull(), // generated summary for structured kinds
+  kind: text('kind').notNull().default('text'), // 'text' | 'location' | 'meeting_point' | 'poll'
+  payload: text('payload', { mode: 'json' }), // structured content of non-text kinds, see src/lib/chatContent.ts
+  replyToId: integer('reply_to_id').references((): AnySQLiteColumn => messages.id, { onDelete: 'set null' }),
+  editedAt: text('edited_at'),
   createdAt: text('created_at').notNull(),
-});
+}, (table) => [
+  index('messages_group_id_idx').on(table.groupId, table.id),
+]);
+
+// Earlier versions of edited messages
+export const messageEdits = sqliteTable('message_edits', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  messageId: integer('message_id').notNull().references(() => messages.id, { onDelete: 'cascade' }),
+  previousMessage: text('previous_message').notNull(),
+  editedAt: text('edited_at').notNull(), // when this version was replaced
+}, (table) => [
+  index('message_edits_message_id_idx').on(table.messageId),
+]);
+
+export const messageReactions = sqliteTable('message_reactions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  messageId: integer('message_id').notNull().references(() => messages.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  emoji: text('emoji').notNull(),
+  createdAt: text('created_at').notNull(),
+}, (table) => [
+  uniqueIndex('message_reactions_unique_idx').on(table.messageId, table.userId, table.emoji),
+]);
+
+// One vote per member and poll message; changing the vote replaces it
+export const pollVotes = sqliteTable('poll_votes', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  messageId: integer('message_id').notNull().references(() => messages.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  optionIndex: integer('option_index').notNull(),
+  createdAt: text('created_at').notNull(),
+}, (table) => [
+  uniqueIndex('poll_votes_message_user_idx').on(table.messageId, table.userId),
+]);
+
+export const meetingPointAcceptances = sqliteTable('meeting_point_acceptances', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  messageId: integer('message_id').notNull().references(() => messages.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  createdAt: text('created_at').notNull(),
+}, (table) => [
+  uniqueIndex('meeting_point_acceptances_message_user_idx').on(table.messageId, table.userId),
+]);
+
+// How far each member has read a group's chat
+export const groupReadMarkers = sqliteTable('group_read_markers', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  groupId: integer('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  lastReadMessageId: integer('last_read_message_id').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => [
+  uniqueIndex('group_read_markers_group_user_idx').on(table.groupId, table.userId),
+]);
+
+// Chat changes pushed to connected members, see src/lib/realtime.ts. The id
+// doubles as the `since` cursor clients resume from after a reconnect.
+export const groupEvents = sqliteTable('group_events', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  groupId: integer('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+  type: text('type').notNull(), // 'message.created' | 'message.updated' | 'message.deleted' | 'group.updated'
+  messageId: integer('message_id'), // kept after the message is deleted
+  payload: text('payload', { mode: 'json' }).notNull(),
+  createdAt: text('created_at').notNull(),
+}, (table) => [
+  index('group_events_group_id_idx').on(table.groupId, table.id),
+]);
+
+// Live location sharing in a group, see src/lib/liveLocation.ts. A share
+// ends when its member stops it, its trip ends or it expires.
+export const locationShares = sqliteTable('location_shares', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  groupId: integer('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  tripId: integer('trip_id').notNull().references(() => trips.id, { onDelete: 'cascade' }), // the sharer's trip in the group
+  startedAt: text('started_at').notNull(),
+  expiresAt: text('expires_at').notNull(),
+  endedAt: text('ended_at'),
+  endReason: text('end_reason'), // 'stopped' | 'expired' | 'trip_ended'
+}, (table) => [
+  index('location_shares_group_id_idx').on(table.groupId, table.endedAt),
+]);
+
+// Recent positions of a share; older points are pruned, see TRAIL_MINUTES
+export const locationPoints = sqliteTable('location_points', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  shareId: integer('share_id').notNull().references(() => locationShares.id, { onDelete: 'cascade' }),
+  lat: real('lat').notNull(),
+  lon: real('lon').notNull(),
+  accuracy: real('accuracy'), // meters
+  heading: real('heading'), // degrees from north
+  speed: real('speed'), // m/s
+  recordedAt: text('recorded_at').notNull(),
+}, (table) => [
+  index('location_points_share_id_idx').on(table.shareId, table.recordedAt),
+]);
 
 export const emergencyContacts = sqliteTable('emergency_contacts', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -143,6 +310,20 @@ export const emergencyContacts = sqliteTable('emergency_contacts', {
   createdAt: text('created_at').notNull(),
 });
 
+// Places a user picks by name instead of typing an address: "Home", "Work", ...
+export const savedPlaces = sqliteTable('saved_places', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  label: text('label').notNull(),
+  address: text('address').notNull(),
+  latitude: real('latitude').notNull(),
+  longitude: real('longitude').notNull(),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => [
+  uniqueIndex('saved_places_user_label_idx').on(table.userId, table.label),
+]);
+
 export const emergencyAlerts = sqliteTable('emergency_alerts', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
@@ -154,4 +335,263 @@ export const emergencyAlerts = sqliteTable('emergency_alerts', {
   message: text('message').notNull(),
   sentTo: text('sent_to', { mode: 'json' }),
   createdAt: text('created_at').notNull(),
-});
\ No newline at end of file
+});
+// Offline gazetteer used by the "gazetteer" geocoding provider (src/lib/geocoding.ts)
+export const gazetteer = sqliteTable('gazetteer', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  normalizedName: text('normalized_name').notNull(),
+  region: text('region'),
+  country: text('country').notNull(),
+  countryCode: text('country_code').notNull(),
+  latitude: real('latitude').notNull(),
+  longitude: real('longitude').notNull(),
+  population: integer('population').notNull().default(0),
+}, (table) => [
+  index('gazetteer_normalized_name_idx').on(table.normalizedName),
+]);
+
+// GTFS static feeds imported by src/db/seeds/gtfs.ts, used by the transit planner (src/lib/transit.ts).
+// Times are stored as seconds after midnight of the service day and may exceed 24h.
+export const transitFeeds = sqliteTable('transit_feeds', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull().unique(),
+  timezone: text('timezone'),
+  importedAt: text('imported_at').notNull(),
+});
+
+export const transitStops = sqliteTable('transit_stops', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => transitFeeds.id, { onDelete: 'cascade' }),
+  stopId: text('stop_id').notNull(),
+  name: text('name').notNull(),
+  latitude: real('latitude').notNull(),
+  longitude: real('longitude').notNull(),
+  zoneId: text('zone_id'),
+}, (table) => [
+  index('transit_stops_feed_stop_idx').on(table.feedId, table.stopId),
+  index('transit_stops_location_idx').on(table.latitude, table.longitude),
+]);
+
+export const transitRoutes = sqliteTable('transit_routes', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => transitFeeds.id, { onDelete: 'cascade' }),
+  routeId: text('route_id').notNull(),
+  shortName: text('short_name'),
+  longName: text('long_name'),
+  routeType: integer('route_type').notNull(),
+}, (table) => [
+  index('transit_routes_feed_route_idx').on(table.feedId, table.routeId),
+]);
+
+export const transitTrips = sqliteTable('transit_trips', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => transitFeeds.id, { onDelete: 'cascade' }),
+  tripId: text('trip_id').notNull(),
+  routeId: text('route_id').notNull(),
+  serviceId: text('service_id').notNull(),
+  headsign: text('headsign'),
+}, (table) => [
+  index('transit_trips_feed_trip_idx').on(table.feedId, table.tripId),
+  index('transit_trips_feed_service_idx').on(table.feedId, table.serviceId),
+]);
+
+export const transitStopTimes = sqliteTable('transit_stop_times', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => transitFeeds.id, { onDelete: 'cascade' }),
+  tripId: text('trip_id').notNull(),
+  stopId: text('stop_id').notNull(),
+  stopSequence: integer('stop_sequence').notNull(),
+  arrivalTime: integer('arrival_time').notNull(),
+  departureTime: integer('departure_time').notNull(),
+}, (table) => [
+  index('transit_stop_times_feed_trip_idx').on(table.feedId, table.tripId, table.stopSequence),
+  index('transit_stop_times_feed_departure_idx').on(table.feedId, table.departureTime),
+]);
+
+export const transitCalendars = sqliteTable('transit_calendars', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => transitFeeds.id, { onDelete: 'cascade' }),
+  serviceId: text('service_id').notNull(),
+  // Service days as a 7-character mask, Monday first ("1111100" = weekdays)
+  days: text('days').notNull(),
+  startDate: text('start_date').notNull(),
+  endDate: text('end_date').notNull(),
+});
+
+export const transitCalendarDates = sqliteTable('transit_calendar_dates', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => transitFeeds.id, { onDelete: 'cascade' }),
+  serviceId: text('service_id').notNull(),
+  date: text('date').notNull(),
+  // 1 = service added on this date, 2 = service removed
+  exceptionType: integer('exception_type').notNull(),
+});
+
+export const transitFareAttributes = sqliteTable('transit_fare_attributes', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => transitFeeds.id, { onDelete: 'cascade' }),
+  fareId: text('fare_id').notNull(),
+  price: real('price').notNull(),
+  currency: text('currency').notNull(),
+  // null = unlimited transfers
+  transfers: integer('transfers'),
+  transferDuration: integer('transfer_duration'),
+});
+
+export const transitFareRules = sqliteTable('transit_fare_rules', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  feedId: integer('feed_id').notNull().references(() => transitFeeds.id, { onDelete: 'cascade' }),
+  fareId: text('fare_id').notNull(),
+  routeId: text('route_id'),
+  originId: text('origin_id'),
+  destinationId: text('destination_id'),
+});
+
+// Airports used to resolve flight trips (src/lib/flights.ts), seeded by src/db/seeds/airports.ts
+export const airports = sqliteTable('airports', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  iataCode: text('iata_code').notNull().unique(),
+  name: text('name').notNull(),
+  city: text('city').notNull(),
+  countryCode: text('country_code').notNull(),
+  latitude: real('latitude').notNull(),
+  longitude: real('longitude').notNull(),
+  // 'large' hubs are preferred over nearer 'medium' airports
+  size: text('size').notNull().default('large'),
+});
+
+// Vehicles a user drives, priced by the cost model (src/lib/costs.ts).
+// consumption is L/100km for combustion fuels and kWh/100km for electric.
+export const vehicleProfiles = sqliteTable('vehicle_profiles', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: text('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  fuelType: text('fuel_type').notNull(),
+  consumption: real('consumption').notNull(),
+  isDefault: integer('is_default', { mode: 'boolean' }).notNull().default(false),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+// Admin-editable energy, toll and parking prices per region (ISO country code, or 'DEFAULT')
+export const regionalPrices = sqliteTable('regional_prices', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  region: text('region').notNull().unique(),
+  currency: text('currency').notNull(),
+  petrolPrice: real('petrol_price').notNull(), // per liter
+  dieselPrice: real('diesel_price').notNull(), // per liter
+  lpgPrice: real('lpg_price'), // per liter
+  electricityPrice: real('electricity_price').notNull(), // per kWh
+  tollPerKm: real('toll_per_km').notNull().default(0), // applied to tolled distance
+  parkingPerHour: real('parking_per_hour').notNull().default(0),
+  updatedAt: text('updated_at').notNull(),
+});
+
+// Admin-editable conversion rates, as units of `currency` per 1 USD
+export const exchangeRates = sqliteTable('exchange_rates', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  currency: text('currency').notNull().unique(),
+  perUsd: real('per_usd').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+// Cost splits of a group's combined route (src/lib/ledger.ts). Recalculating
+// supersedes the previous split; only the active split's charges count.
+export const groupCostSplits = sqliteTable('group_cost_splits', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  groupId: integer('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+  method: text('method').notNull(), // 'equal' | 'distance' | 'custom'
+  status: text('status').notNull().default('active'), // 'active' | 'superseded'
+  payerId: text('payer_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  currency: text('currency').notNull(),
+  totalCost: real('total_cost').notNull(),
+  costBreakdown: text('cost_breakdown', { mode: 'json' }),
+  shares: text('shares', { mode: 'json' }).notNull(),
+  createdBy: text('created_by').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  createdAt: text('created_at').notNull(),
+}, (table) => [
+  index('group_cost_splits_group_idx').on(table.groupId, table.status),
+]);
+
+// Append-only ledger: 'charge' entries from a split, 'settlement' entries when a debt is paid
+export const groupLedgerEntries = sqliteTable('group_ledger_entries', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  groupId: integer('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+  splitId: integer('split_id').references(() => groupCostSplits.id, { onDelete: 'cascade' }),
+  type: text('type').notNull(),
+  fromUserId: text('from_user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  toUserId: text('to_user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  amount: real('amount').notNull(),
+  currency: text('currency').notNull(),
+  note: text('note'),
+  createdBy: text('created_by').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  createdAt: text('created_at').notNull(),
+}, (table) => [
+  index('group_ledger_entries_group_idx').on(table.groupId),
+]);
+
+// Historical congestion by road class and hour of week (0 = Monday 00:00),
+// as a multiplier on free-flow duration; seeded by src/db/seeds/speedProfiles.ts
+export const speedProfiles = sqliteTable('speed_profiles', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  roadClass: text('road_class').notNull(),
+  hourOfWeek: integer('hour_of_week').notNull(),
+  multiplier: real('multiplier').notNull(),
+}, (table) => [
+  index('speed_profiles_class_hour_idx').on(table.roadClass, table.hourOfWeek),
+]);
+
+// Persistent memoization of geocoding and routing calls (src/lib/cache.ts)
+export const cacheEntries = sqliteTable('cache_entries', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  namespace: text('namespace').notNull(), // 'geocode' | 'route'
+  key: text('key').notNull(),
+  value: text('value', { mode: 'json' }).notNull(),
+  hits: integer('hits').notNull().default(0),
+  createdAt: text('created_at').notNull(),
+  expiresAt: text('expires_at').notNull(),
+  lastHitAt: text('last_hit_at'),
+}, (table) => [
+  uniqueIndex('cache_entries_namespace_key_idx').on(table.namespace, table.key),
+  index('cache_entries_expires_idx').on(table.expiresAt),
+]);
+
+export const cacheStats = sqliteTable('cache_stats', {
+  namespace: text('namespace').primaryKey(),
+  hits: integer('hits').notNull().default(0),
+  misses: integer('misses').notNull().default(0),
+  updatedAt: text('updated_at').notNull(),
+});
+
+// Geohash cells covering each trip's source, destination and route, so matching
+// can look up nearby trips instead of scanning all of them
+export const tripCells = sqliteTable('trip_cells', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  tripId: integer('trip_id').notNull().references(() => trips.id, { onDelete: 'cascade' }),
+  kind: text('kind').notNull(), // 'source' | 'destination' | 'route'
+  cell: text('cell').notNull(),
+}, (table) => [
+  index('trip_cells_kind_cell_idx').on(table.kind, table.cell),
+  index('trip_cells_trip_idx').on(table.tripId),
+]);
+
+// Background jobs, run by src/workers/matching.ts
+export const jobs = sqliteTable('jobs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  type: text('type').notNull(), // 'match_trip' | 'close_poll'
+  payload: text('payload', { mode: 'json' }).notNull(),
+  status: text('status').notNull().default('pending'), // 'pending' | 'running' | 'done' | 'failed'
+  idempotencyKey: text('idempotency_key'),
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(5),
+  runAt: text('run_at').notNull(),
+  lockedAt: text('locked_at'),
+  lockedBy: text('locked_by'),
+  lastError: text('last_error'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => [
+  index('jobs_status_run_at_idx').on(table.status, table.runAt),
+  index('jobs_idempotency_key_idx').on(table.idempotencyKey, table.status),
+]);
@@ -0,0 +1,118 @@
+import { db } from '@/db';
+import { airports } from '@/db/schema';
+
+// [iataCode, name, city, countryCode, latitude, longitude, size]
+type AirportRow = [string, string, string, string, number, number, 'large' | 'medium'];
+
+const airportData: AirportRow[] = [
+    ['JFK', 'John F. Kennedy International Airport', 'New York', 'US', 40.6413, -73.7781, 'large'],
+    ['LGA', 'LaGuardia Airport', 'New York', 'US', 40.7769, -73.8740, 'medium'],
+    ['EWR', 'Newark Liberty International Airport', 'Newark', 'US', 40.6895, -74.1745, 'large'],
+    ['LAX', 'Los Angeles International Airport', 'Los Angeles', 'US', 33.9416, -118.4085, 'large'],
+    ['ORD', "O'Hare International Airport", 'Chicago', 'US', 41.9742, -87.9073, 'large'],
+    ['IAH', 'George Bush Intercontinental Airport', 'Houston', 'US', 29.9902, -95.3368, 'large'],
+    ['PHX', 'Phoenix Sky Harbor International Airport', 'Phoenix', 'US', 33.4342, -112.0116, 'large'],
+    ['PHL', 'Philadelphia International Airport', 'Philadelphia', 'US', 39.8744, -75.2424, 'large'],
+    ['SAT', 'San Antonio International Airport', 'San Antonio', 'US', 29.5337, -98.4698, 'medium'],
+    ['SAN', 'San Diego International Airport', 'San Diego', 'US', 32.7338, -117.1933, 'medium'],
+    ['DFW', 'Dallas/Fort Worth International Airport', 'Dallas', 'US', 32.8998, -97.0403, 'large'],
+    ['SJC', 'San Jose International Airport', 'San Jose', 'US', 37.3639, -121.9289, 'medium'],
+    ['AUS', 'Austin-Bergstrom International Airport', 'Austin', 'US', 30.1975, -97.6664, 'medium'],
+    ['SFO', 'San Francisco International Airport', 'San Francisco', 'US', 37.6213, -122.3790, 'large'],
+    ['SEA', 'Seattle-Tacoma International Airport', 'Seattle', 'US', 47.4502, -122.3088, 'large'],
+    ['DEN', 'Denver International Airport', 'Denver', 'US', 39.8561, -104.6737, 'large'],
+    ['IAD', 'Washington Dulles International Airport', 'Washington', 'US', 38.9531, -77.4565, 'large'],
+    ['DCA', 'Ronald Reagan Washington National Airport', 'Washington', 'US', 38.8512, -77.0402, 'medium'],
+    ['BOS', 'Logan International Airport', 'Boston', 'US', 42.3656, -71.0096, 'large'],
+    ['LAS', 'Harry Reid International Airport', 'Las Vegas', 'US', 36.0840, -115.1537, 'large'],
+    ['PDX', 'Portland International Airport', 'Portland', 'US', 45.5898, -122.5951, 'medium'],
+    ['ATL', 'Hartsfield-Jackson Atlanta International Airport', 'Atlanta', 'US', 33.6407, -84.4277, 'large'],
+    ['MIA', 'Miami International Airport', 'Miami', 'US', 25.7959, -80.2870, 'large'],
+    ['SMF', 'Sacramento International Airport', 'Sacramento', 'US', 38.6954, -121.5908, 'medium'],
+    ['YYZ', 'Toronto Pearson International Airport', 'Toronto', 'CA', 43.6777, -79.6248, 'large'],
+    ['YUL', 'Montréal-Trudeau International Airport', 'Montreal', 'CA', 45.4706, -73.7408, 'large'],
+    ['YVR', 'Vancouver International Airport', 'Vancouver', 'CA', 49.1967, -123.1815, 'large'],
+    ['MEX', 'Mexico City International Airport', 'Mexico City', 'MX', 19.4361, -99.0719, 'large'],
+    ['LHR', 'Heathrow Airport', 'London', 'GB', 51.4700, -0.4543, 'large'],
+    ['LGW', 'Gatwick Airport', 'London', 'GB', 51.1537, -0.1821, 'large'],
+    ['MAN', 'Manchester Airport', 'Manchester', 'GB', 53.3588, -2.2727, 'large'],
+    ['EDI', 'Edinburgh Airport', 'Edinburgh', 'GB', 55.9508, -3.3615, 'medium'],
+    ['DUB', 'Dublin Airport', 'Dublin', 'IE', 53.4264, -6.2499, 'large'],
+    ['CDG', 'Charles de Gaulle Airport', 'Paris', 'FR', 49.0097, 2.5479, 'large'],
+    ['ORY', 'Orly Airport', 'Paris', 'FR', 48.7262, 2.3652, 'medium'],
+    ['LYS', 'Lyon-Saint Exupéry Airport', 'Lyon', 'FR', 45.7256, 5.0811, 'medium'],
+    ['BER', 'Berlin Brandenburg Airport', 'Berlin', 'DE', 52.3667, 13.5033, 'large'],
+    ['MUC', 'Munich Airport', 'Munich', 'DE', 48.3537, 11.7750, 'large'],
+    ['FRA', 'Frankfurt Airport', 'Frankfurt', 'DE', 50.0379, 8.5622, 'large'],
+    ['HAM', 'Hamburg Airport', 'Hamburg', 'DE', 53.6304, 9.9882, 'medium'],
+    ['AMS', 'Amsterdam Airport Schiphol', 'Amsterdam', 'NL', 52.3105, 4.7683, 'large'],
+    ['BRU', 'Brussels Airport', 'Brussels', 'BE', 50.9010, 4.4856, 'large'],
+    ['MAD', 'Adolfo Suárez Madrid-Barajas Airport', 'Madrid', 'ES', 40.4983, -3.5676, 'large'],
+    ['BCN', 'Josep Tarradellas Barcelona-El Prat Airport', 'Barcelona', 'ES', 41.2974, 2.0833, 'large'],
+    ['LIS', 'Humberto Delgado Airport', 'Lisbon', 'PT', 38.7742, -9.1342, 'large'],
+    ['FCO', 'Leonardo da Vinci-Fiumicino Airport', 'Rome', 'IT', 41.8003, 12.2389, 'large'],
+    ['MXP', 'Milan Malpensa Airport', 'Milan', 'IT', 45.6306, 8.7281, 'large'],
+    ['VIE', 'Vienna International Airport', 'Vienna', 'AT', 48.1103, 16.5697, 'large'],
+    ['ZRH', 'Zurich Airport', 'Zurich', 'CH', 47.4582, 8.5555, 'large'],
+    ['PRG', 'Václav Havel Airport Prague', 'Prague', 'CZ', 50.1008, 14.2600, 'medium'],
+    ['WAW', 'Warsaw Chopin Airport', 'Warsaw', 'PL', 52.1657, 20.9671, 'medium'],
+    ['ARN', 'Stockholm Arlanda Airport', 'Stockholm', 'SE', 59.6498, 17.9238, 'large'],
+    ['CPH', 'Copenhagen Airport', 'Copenhagen', 'DK', 55.6180, 12.6508, 'large'],
+    ['OSL', 'Oslo Airport, Gardermoen', 'Oslo', 'NO', 60.1976, 11.1004, 'large'],
+    ['IST', 'Istanbul Airport', 'Istanbul', 'TR', 41.2753, 28.7519, 'large'],
+    ['DXB', 'Dubai International Airport', 'Dubai', 'AE', 25.2532, 55.3657, 'large'],
+    ['CAI', 'Cairo International Airport', 'Cairo', 'EG', 30.1219, 31.4056, 'large'],
+    ['NBO', 'Jomo Kenyatta International Airport', 'Nairobi', 'KE', -1.3192, 36.9278, 'large'],
+    ['JNB', 'O. R. Tambo International Airport', 'Johannesburg', 'ZA', -26.1392, 28.2460, 'large'],
+    ['CPT', 'Cape Town International Airport', 'Cape Town', 'ZA', -33.9715, 18.6021, 'large'],
+    ['LOS', 'Murtala Muhammed International Airport', 'Lagos', 'NG', 6.5774, 3.3212, 'large'],
+    ['BOM', 'Chhatrapati Shivaji Maharaj International Airport', 'Mumbai', 'IN', 19.0896, 72.8656, 'large'],
+    ['DEL', 'Indira Gandhi International Airport', 'Delhi', 'IN', 28.5562, 77.1000, 'large'],
+    ['BLR', 'Kempegowda International Airport', 'Bangalore', 'IN', 13.1986, 77.7066, 'large'],
+    ['MAA', 'Chennai International Airport', 'Chennai', 'IN', 12.9941, 80.1709, 'large'],
+    ['SIN', 'Singapore Changi Airport', 'Singapore', 'SG', 1.3644, 103.9915, 'large'],
+    ['BKK', 'Suvarnabhumi Airport', 'Bangkok', 'TH', 13.6900, 100.7501, 'large'],
+    ['HKG', 'Hong Kong International Airport', 'Hong Kong', 'HK', 22.3080, 113.9185, 'large'],
+    ['PVG', 'Shanghai Pudong International Airport', 'Shanghai', 'CN', 31.1443, 121.8083, 'large'],
+    ['PEK', 'Beijing Capital International Airport', 'Beijing', 'CN', 40.0799, 116.6031, 'large'],
+    ['ICN', 'Incheon International Airport', 'Seoul', 'KR', 37.4602, 126.4407, 'large'],
+    ['HND', 'Haneda Airport', 'Tokyo', 'JP', 35.5494, 139.7798, 'large'],
+    ['NRT', 'Narita International Airport', 'Tokyo', 'JP', 35.7720, 140.3929, 'large'],
+    ['KIX', 'Kansai International Airport', 'Osaka', 'JP', 34.4320, 135.2304, 'large'],
+    ['SYD', 'Sydney Kingsford Smith Airport', 'Sydney', 'AU', -33.9399, 151.1753, 'large'],
+    ['MEL', 'Melbourne Airport', 'Melbourne', 'AU', -37.6690, 144.8410, 'large'],
+    ['AKL', 'Auckland Airport', 'Auckland', 'NZ', -37.0082, 174.7850, 'large'],
+    ['GRU', 'São Paulo/Guarulhos International Airport', 'São Paulo', 'BR', -23.4356, -46.4731, 'large'],
+    ['GIG', 'Rio de Janeiro/Galeão International Airport', 'Rio de Janeiro', 'BR', -22.8090, -43.2506, 'large'],
+    ['EZE', 'Ministro Pistarini International Airport', 'Buenos Aires', 'AR', -34.8222, -58.5358, 'large'],
+    ['SCL', 'Arturo Merino Benítez International Airport', 'Santiago', 'CL', -33.3930, -70.7858, 'large'],
+    ['LIM', 'Jorge Chávez International Airport', 'Lima', 'PE', -12.0219, -77.1143, 'large'],
+    ['BOG', 'El Dorado International Airport', 'Bogotá', 'CO', 4.7016, -74.1469, 'large'],
+];
+
+async function main() {
+    const existing = await db.select({ id: airports.id }).from(airports).limit(1);
+
+    if (existing.length > 0) {
+        console.log('⚠️  Airports already seeded, skipping.');
+        return;
+    }
+
+    const rows = airportData.map(([iataCode, name, city, countryCode, latitude, longitude, size]) => ({
+        iataCode,
+        name,
+        city,
+        countryCode,
+        latitude,
+        longitude,
+        size,
+    }));
+
+    await db.insert(airports).values(rows);
+
+    console.log(`✅ Airports seeder completed successfully (${rows.length} airports)`);
+}
+
+main().catch((error) => {
+    console.error('❌ Seeder failed:', error);
+});
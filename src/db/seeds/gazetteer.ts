@@ -0,0 +1,114 @@
+import { db } from '@/db';
+import { gazetteer } from '@/db/schema';
+import { normalizePlaceName } from '@/lib/geocoding';
+
+// [name, region, country, countryCode, latitude, longitude, population]
+type GazetteerRow = [string, string | null, string, string, number, number, number];
+
+const places: GazetteerRow[] = [
+    ['New York', 'NY', 'USA', 'US', 40.7128, -74.0060, 8336817],
+    ['Los Angeles', 'CA', 'USA', 'US', 34.0522, -118.2437, 3979576],
+    ['Chicago', 'IL', 'USA', 'US', 41.8781, -87.6298, 2693976],
+    ['Houston', 'TX', 'USA', 'US', 29.7604, -95.3698, 2320268],
+    ['Phoenix', 'AZ', 'USA', 'US', 33.4484, -112.0740, 1680992],
+    ['Philadelphia', 'PA', 'USA', 'US', 39.9526, -75.1652, 1584064],
+    ['San Antonio', 'TX', 'USA', 'US', 29.4241, -98.4936, 1547253],
+    ['San Diego', 'CA', 'USA', 'US', 32.7157, -117.1611, 1423851],
+    ['Dallas', 'TX', 'USA', 'US', 32.7767, -96.7970, 1343573],
+    ['San Jose', 'CA', 'USA', 'US', 37.3382, -121.8863, 1021795],
+    ['Austin', 'TX', 'USA', 'US', 30.2672, -97.7431, 978908],
+    ['San Francisco', 'CA', 'USA', 'US', 37.7749, -122.4194, 881549],
+    ['Seattle', 'WA', 'USA', 'US', 47.6062, -122.3321, 753675],
+    ['Denver', 'CO', 'USA', 'US', 39.7392, -104.9903, 727211],
+    ['Washington', 'DC', 'USA', 'US', 38.9072, -77.0369, 705749],
+    ['Boston', 'MA', 'USA', 'US', 42.3601, -71.0589, 692600],
+    ['Las Vegas', 'NV', 'USA', 'US', 36.1699, -115.1398, 651319],
+    ['Portland', 'OR', 'USA', 'US', 45.5152, -122.6784, 654741],
+    ['Portland', 'ME', 'USA', 'US', 43.6591, -70.2568, 66215],
+    ['Atlanta', 'GA', 'USA', 'US', 33.7490, -84.3880, 498715],
+    ['Miami', 'FL', 'USA', 'US', 25.7617, -80.1918, 467963],
+    ['Sacramento', 'CA', 'USA', 'US', 38.5816, -121.4944, 513624],
+    ['Toronto', 'ON', 'Canada', 'CA', 43.6532, -79.3832, 2731571],
+    ['Montreal', 'QC', 'Canada', 'CA', 45.5017, -73.5673, 1762949],
+    ['Vancouver', 'BC', 'Canada', 'CA', 49.2827, -123.1207, 631486],
+    ['Mexico City', null, 'Mexico', 'MX', 19.4326, -99.1332, 9209944],
+    ['London', 'England', 'UK', 'GB', 51.5074, -0.1278, 8982000],
+    ['Manchester', 'England', 'UK', 'GB', 53.4808, -2.2426, 547627],
+    ['Edinburgh', 'Scotland', 'UK', 'GB', 55.9533, -3.1883, 524930],
+    ['Dublin', null, 'Ireland', 'IE', 53.3498, -6.2603, 544107],
+    ['Paris', 'Île-de-France', 'France', 'FR', 48.8566, 2.3522, 2165423],
+    ['Lyon', 'Auvergne-Rhône-Alpes', 'France', 'FR', 45.7640, 4.8357, 513275],
+    ['Berlin', null, 'Germany', 'DE', 52.5200, 13.4050, 3644826],
+    ['Munich', 'Bavaria', 'Germany', 'DE', 48.1351, 11.5820, 1471508],
+    ['Hamburg', null, 'Germany', 'DE', 53.5511, 9.9937, 1841179],
+    ['Amsterdam', 'North Holland', 'Netherlands', 'NL', 52.3676, 4.9041, 872680],
+    ['Brussels', null, 'Belgium', 'BE', 50.8503, 4.3517, 1208542],
+    ['Madrid', null, 'Spain', 'ES', 40.4168, -3.7038, 3223334],
+    ['Barcelona', 'Catalonia', 'Spain', 'ES', 41.3851, 2.1734, 1620343],
+    ['Lisbon', null, 'Portugal', 'PT', 38.7223, -9.1393, 504718],
+    ['Rome', 'Lazio', 'Italy', 'IT', 41.9028, 12.4964, 2872800],
+    ['Milan', 'Lombardy', 'Italy', 'IT', 45.4642, 9.1900, 1352000],
+    ['Vienna', null, 'Austria', 'AT', 48.2082, 16.3738, 1897491],
+    ['Zurich', null, 'Switzerland', 'CH', 47.3769, 8.5417, 402762],
+    ['Prague', null, 'Czechia', 'CZ', 50.0755, 14.4378, 1309000],
+    ['Warsaw', null, 'Poland', 'PL', 52.2297, 21.0122, 1790658],
+    ['Stockholm', null, 'Sweden', 'SE', 59.3293, 18.0686, 975904],
+    ['Copenhagen', null, 'Denmark', 'DK', 55.6761, 12.5683, 602481],
+    ['Oslo', null, 'Norway', 'NO', 59.9139, 10.7522, 697010],
+    ['Istanbul', null, 'Turkey', 'TR', 41.0082, 28.9784, 15462452],
+    ['Dubai', null, 'United Arab Emirates', 'AE', 25.2048, 55.2708, 3331420],
+    ['Cairo', null, 'Egypt', 'EG', 30.0444, 31.2357, 9539673],
+    ['Nairobi', null, 'Kenya', 'KE', -1.2921, 36.8219, 4397073],
+    ['Johannesburg', 'Gauteng', 'South Africa', 'ZA', -26.2041, 28.0473, 5635127],
+    ['Cape Town', 'Western Cape', 'South Africa', 'ZA', -33.9249, 18.4241, 4618000],
+    ['Lagos', null, 'Nigeria', 'NG', 6.5244, 3.3792, 14862000],
+    ['Mumbai', 'Maharashtra', 'India', 'IN', 19.0760, 72.8777, 12442373],
+    ['Delhi', null, 'India', 'IN', 28.7041, 77.1025, 16787941],
+    ['Bangalore', 'Karnataka', 'India', 'IN', 12.9716, 77.5946, 8443675],
+    ['Chennai', 'Tamil Nadu', 'India', 'IN', 13.0827, 80.2707, 7088000],
+    ['Singapore', null, 'Singapore', 'SG', 1.3521, 103.8198, 5685807],
+    ['Bangkok', null, 'Thailand', 'TH', 13.7563, 100.5018, 10539000],
+    ['Hong Kong', null, 'China', 'HK', 22.3193, 114.1694, 7500700],
+    ['Shanghai', null, 'China', 'CN', 31.2304, 121.4737, 24870895],
+    ['Beijing', null, 'China', 'CN', 39.9042, 116.4074, 21893095],
+    ['Seoul', null, 'South Korea', 'KR', 37.5665, 126.9780, 9776000],
+    ['Tokyo', null, 'Japan', 'JP', 35.6762, 139.6503, 13960000],
+    ['Osaka', null, 'Japan', 'JP', 34.6937, 135.5023, 2691000],
+    ['Sydney', 'NSW', 'Australia', 'AU', -33.8688, 151.2093, 5312163],
+    ['Melbourne', 'VIC', 'Australia', 'AU', -37.8136, 144.9631, 5078193],
+    ['Auckland', null, 'New Zealand', 'NZ', -36.8485, 174.7633, 1657200],
+    ['São Paulo', 'SP', 'Brazil', 'BR', -23.5505, -46.6333, 12325232],
+    ['Rio de Janeiro', 'RJ', 'Brazil', 'BR', -22.9068, -43.1729, 6747815],
+    ['Buenos Aires', null, 'Argentina', 'AR', -34.6037, -58.3816, 3075646],
+    ['Santiago', null, 'Chile', 'CL', -33.4489, -70.6693, 6257516],
+    ['Lima', null, 'Peru', 'PE', -12.0464, -77.0428, 9751717],
+    ['Bogotá', null, 'Colombia', 'CO', 4.7110, -74.0721, 7412566],
+];
+
+async function main() {
+    const existing = await db.select({ id: gazetteer.id }).from(gazetteer).limit(1);
+
+    if (existing.length > 0) {
+        console.log('⚠️  Gazetteer already seeded, skipping.');
+        return;
+    }
+
+    const rows = places.map(([name, region, country, countryCode, latitude, longitude, population]) => ({
+        name,
+        normalizedName: normalizePlaceName(name),
+        region,
+        country,
+        countryCode,
+        latitude,
+        longitude,
+        population,
+    }));
+
+    await db.insert(gazetteer).values(rows);
+
+    console.log(`✅ Gazetteer seeder completed successfully (${rows.length} places)`);
+}
+
+main().catch((error) => {
+    console.error('❌ Seeder failed:', error);
+});
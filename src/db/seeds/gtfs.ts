@@ -0,0 +1,247 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import {
+    transitFeeds,
+    transitStops,
+    transitRoutes,
+    transitTrips,
+    transitStopTimes,
+    transitCalendars,
+    transitCalendarDates,
+    transitFareAttributes,
+    transitFareRules,
+} from '@/db/schema';
+
+// Imports an unzipped GTFS static feed into the transit_* tables.
+// Usage: npx tsx src/db/seeds/gtfs.ts <feed-directory> [feed-name]
+// Re-importing a feed with the same name replaces it.
+
+const BATCH_SIZE = 500;
+
+// Split one CSV line, honouring double-quoted fields with "" escapes
+function parseCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (inQuotes) {
+            if (char === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                current += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            fields.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    fields.push(current);
+
+    return fields.map((field) => field.trim());
+}
+
+// Stream a GTFS file row by row as header-keyed records; missing optional files yield nothing
+async function* readGtfsFile(directory: string, fileName: string): AsyncGenerator<Record<string, string>> {
+    const filePath = path.join(directory, fileName);
+    if (!fs.existsSync(filePath)) return;
+
+    const lines = readline.createInterface({
+        input: fs.createReadStream(filePath, { encoding: 'utf8' }),
+        crlfDelay: Infinity,
+    });
+
+    let header: string[] | null = null;
+    for await (const rawLine of lines) {
+        const line = header ? rawLine : rawLine.replace(/^\uFEFF/, '');
+        if (!line.trim()) continue;
+
+        const fields = parseCsvLine(line);
+        if (!header) {
+            header = fields;
+            continue;
+        }
+
+        const record: Record<string, string> = {};
+        header.forEach((column, index) => {
+            record[column] = fields[index] ?? '';
+        });
+        yield record;
+    }
+}
+
+// "25:10:00" -> 90600; GTFS allows hours past 24 for trips running after midnight
+function parseGtfsTime(value: string): number | null {
+    const match = /^(\d+):(\d{2}):(\d{2})$/.exec(value);
+    if (!match) return null;
+    return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]);
+}
+
+// "20250131" -> "2025-01-31", the format trips.travelDate uses
+function parseGtfsDate(value: string): string {
+    return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+async function insertInBatches<T>(
+    fileName: string,
+    rows: AsyncIterable<T | null>,
+    insert: (batch: T[]) => Promise<unknown>
+): Promise<number> {
+    let batch: T[] = [];
+    let count = 0;
+
+    for await (const row of rows) {
+        if (!row) continue;
+        batch.push(row);
+        if (batch.length >= BATCH_SIZE) {
+            await insert(batch);
+            count += batch.length;
+            batch = [];
+        }
+    }
+    if (batch.length > 0) {
+        await insert(batch);
+        count += batch.length;
+    }
+
+    console.log(`  ${fileName}: ${count} rows`);
+    return count;
+}
+
+async function* mapRecords<T>(
+    records: AsyncIterable<Record<string, string>>,
+    map: (record: Record<string, string>) => T | null
+): AsyncGenerator<T | null> {
+    for await (const record of records) {
+        yield map(record);
+    }
+}
+
+async function main() {
+    const [directory, nameArg] = process.argv.slice(2);
+
+    if (!directory || !fs.existsSync(path.join(directory, 'stops.txt'))) {
+        console.error('❌ Usage: npx tsx src/db/seeds/gtfs.ts <feed-directory> [feed-name]');
+        console.error('   The directory must contain an unzipped GTFS feed (stops.txt, routes.txt, trips.txt, stop_times.txt).');
+        return;
+    }
+
+    const name = nameArg || path.basename(path.resolve(directory));
+
+    let timezone: string | null = null;
+    for await (const agency of readGtfsFile(directory, 'agency.txt')) {
+        timezone = agency.agency_timezone || null;
+        break;
+    }
+
+    // Replace any previous import of this feed (child rows cascade)
+    await db.delete(transitFeeds).where(eq(transitFeeds.name, name));
+
+    const [feed] = await db.insert(transitFeeds).values({
+        name,
+        timezone,
+        importedAt: new Date().toISOString(),
+    }).returning();
+    const feedId = feed.id;
+
+    console.log(`Importing GTFS feed "${name}" from ${directory}`);
+
+    await insertInBatches('stops.txt', mapRecords(readGtfsFile(directory, 'stops.txt'), (record) => {
+        const latitude = parseFloat(record.stop_lat);
+        const longitude = parseFloat(record.stop_lon);
+        // Skip stations, entrances and nodes without coordinates; only boardable stops matter
+        if (isNaN(latitude) || isNaN(longitude) || (record.location_type && record.location_type !== '0')) {
+            return null;
+        }
+        return {
+            feedId,
+            stopId: record.stop_id,
+            name: record.stop_name || record.stop_id,
+            latitude,
+            longitude,
+            zoneId: record.zone_id || null,
+        };
+    }), (batch) => db.insert(transitStops).values(batch));
+
+    await insertInBatches('routes.txt', mapRecords(readGtfsFile(directory, 'routes.txt'), (record) => ({
+        feedId,
+        routeId: record.route_id,
+        shortName: record.route_short_name || null,
+        longName: record.route_long_name || null,
+        routeType: parseInt(record.route_type) || 3,
+    })), (batch) => db.insert(transitRoutes).values(batch));
+
+    await insertInBatches('trips.txt', mapRecords(readGtfsFile(directory, 'trips.txt'), (record) => ({
+        feedId,
+        tripId: record.trip_id,
+        routeId: record.route_id,
+        serviceId: record.service_id,
+        headsign: record.trip_headsign || null,
+    })), (batch) => db.insert(transitTrips).values(batch));
+
+    await insertInBatches('stop_times.txt', mapRecords(readGtfsFile(directory, 'stop_times.txt'), (record) => {
+        const arrivalTime = parseGtfsTime(record.arrival_time);
+        const departureTime = parseGtfsTime(record.departure_time);
+        // Untimed intermediate stops are not boardable for the planner
+        if (arrivalTime === null && departureTime === null) return null;
+        return {
+            feedId,
+            tripId: record.trip_id,
+            stopId: record.stop_id,
+            stopSequence: parseInt(record.stop_sequence),
+            arrivalTime: arrivalTime ?? departureTime!,
+            departureTime: departureTime ?? arrivalTime!,
+        };
+    }), (batch) => db.insert(transitStopTimes).values(batch));
+
+    await insertInBatches('calendar.txt', mapRecords(readGtfsFile(directory, 'calendar.txt'), (record) => ({
+        feedId,
+        serviceId: record.service_id,
+        days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
+            .map((day) => (record[day] === '1' ? '1' : '0'))
+            .join(''),
+        startDate: parseGtfsDate(record.start_date),
+        endDate: parseGtfsDate(record.end_date),
+    })), (batch) => db.insert(transitCalendars).values(batch));
+
+    await insertInBatches('calendar_dates.txt', mapRecords(readGtfsFile(directory, 'calendar_dates.txt'), (record) => ({
+        feedId,
+        serviceId: record.service_id,
+        date: parseGtfsDate(record.date),
+        exceptionType: parseInt(record.exception_type),
+    })), (batch) => db.insert(transitCalendarDates).values(batch));
+
+    await insertInBatches('fare_attributes.txt', mapRecords(readGtfsFile(directory, 'fare_attributes.txt'), (record) => ({
+        feedId,
+        fareId: record.fare_id,
+        price: parseFloat(record.price) || 0,
+        currency: record.currency_type || 'USD',
+        transfers: record.transfers === '' || record.transfers === undefined ? null : parseInt(record.transfers),
+        transferDuration: record.transfer_duration ? parseInt(record.transfer_duration) : null,
+    })), (batch) => db.insert(transitFareAttributes).values(batch));
+
+    await insertInBatches('fare_rules.txt', mapRecords(readGtfsFile(directory, 'fare_rules.txt'), (record) => ({
+        feedId,
+        fareId: record.fare_id,
+        routeId: record.route_id || null,
+        originId: record.origin_id || null,
+        destinationId: record.destination_id || null,
+    })), (batch) => db.insert(transitFareRules).values(batch));
+
+    console.log(`✅ GTFS feed "${name}" imported successfully`);
+}
+
+main().catch((error) => {
+    console.error('❌ GTFS import failed:', error);
+});
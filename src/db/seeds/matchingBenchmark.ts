@@ -0,0 +1,226 @@
+import { db } from '@/db';
+import { tripCells, trips, user } from '@/db/schema';
+import { and, eq, like, ne } from 'drizzle-orm';
+import { buildTripCells, findCandidateTripIds, loadTrips } from '@/lib/spatialIndex';
+import { calculateDistance, distanceToPolyline, type LatLon } from '@/lib/geo';
+
+// Seeds synthetic trips around a few metro areas and compares candidate lookup
+// through the spatial index against scanning every active trip.
+// Usage: npx tsx src/db/seeds/matchingBenchmark.ts [trip-count] [query-count]
+// Benchmark trips are tagged "Benchmark" in their source and are reused when
+// already present. Run against a scratch database: they are real active trips.
+
+const DEFAULT_TRIP_COUNT = 50000;
+const DEFAULT_QUERY_COUNT = 25;
+const BENCHMARK_USERS = 50;
+const MATCH_RADIUS_KM = 10;
+const ROUTE_POINTS = 24;
+
+const METROS: { name: string; center: LatLon }[] = [
+    { name: 'New York', center: [40.7128, -74.006] },
+    { name: 'Los Angeles', center: [34.0522, -118.2437] },
+    { name: 'Chicago', center: [41.8781, -87.6298] },
+    { name: 'London', center: [51.5074, -0.1278] },
+    { name: 'Paris', center: [48.8566, 2.3522] },
+    { name: 'Berlin', center: [52.52, 13.405] },
+    { name: 'Tokyo', center: [35.6762, 139.6503] },
+    { name: 'Sydney', center: [-33.8688, 151.2093] },
+    { name: 'São Paulo', center: [-23.5505, -46.6333] },
+    { name: 'Mumbai', center: [19.076, 72.8777] },
+];
+
+// Deterministic PRNG so runs are comparable
+function createRandom(seed: number) {
+    let state = seed;
+    return () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296;
+    };
+}
+
+const random = createRandom(42);
+
+function pointNear([lat, lon]: LatLon, spreadKm: number): LatLon {
+    const dLat = (random() * 2 - 1) * spreadKm / 111.32;
+    const dLon = (random() * 2 - 1) * spreadKm / (111.32 * Math.cos(lat * Math.PI / 180));
+    return [lat + dLat, lon + dLon];
+}
+
+// A wobbly line between two points, standing in for routing engine geometry
+function syntheticRoute(start: LatLon, end: LatLon): LatLon[] {
+    const points: LatLon[] = [];
+    for (let i = 0; i <= ROUTE_POINTS; i++) {
+        const t = i / ROUTE_POINTS;
+        const wobble = i === 0 || i === ROUTE_POINTS ? 0 : (random() - 0.5) * 0.01;
+        points.push([
+            start[0] + (end[0] - start[0]) * t + wobble,
+            start[1] + (end[1] - start[1]) * t + wobble,
+        ]);
+    }
+    return points;
+}
+
+function parseCoordinates(value: string | null): LatLon | null {
+    if (!value) return null;
+    const [lat, lon] = value.split(',').map(parseFloat);
+    return [lat, lon];
+}
+
+// Whether any location rule in trip matching could score for this pair
+function couldMatch(
+    a: { source: LatLon; destination: LatLon; route: LatLon[] },
+    b: { source: LatLon | null; destination: LatLon | null; route: LatLon[] | null }
+): boolean {
+    const corridor = MATCH_RADIUS_KM / 2;
+    if (b.source && calculateDistance(a.source, b.source) <= MATCH_RADIUS_KM) return true;
+    if (b.destination && calculateDistance(a.destination, b.destination) <= MATCH_RADIUS_KM) return true;
+    if (b.source && distanceToPolyline(b.source, a.route) <= corridor) return true;
+    if (b.destination && distanceToPolyline(b.destination, a.route) <= corridor) return true;
+    if (b.route && b.route.length > 0) {
+        if (distanceToPolyline(a.source, b.route) <= corridor) return true;
+        if (distanceToPolyline(a.destination, b.route) <= corridor) return true;
+    }
+    return false;
+}
+
+async function seedTrips(count: number) {
+    const existing = await db.select({ id: trips.id }).from(trips).where(like(trips.source, 'Benchmark %'));
+    if (existing.length >= count) {
+        console.log(`⚠️  ${existing.length} benchmark trips already seeded, skipping`);
+        return;
+    }
+
+    const userIds: string[] = [];
+    for (let i = 0; i < BENCHMARK_USERS; i++) {
+        const id = `benchmark-user-${i}`;
+        userIds.push(id);
+        await db.insert(user).values({
+            id,
+            name: `Benchmark User ${i}`,
+            email: `benchmark-${i}@example.com`,
+        }).onConflictDoNothing();
+    }
+
+    const now = new Date().toISOString();
+    const batchSize = 500;
+    for (let created = existing.length; created < count; created += batchSize) {
+        const values = Array.from({ length: Math.min(batchSize, count - created) }, (_, i) => {
+            const metro = METROS[(created + i) % METROS.length];
+            const source = pointNear(metro.center, 40);
+            const destination = pointNear(metro.center, 40);
+            const day = 1 + Math.floor(random() * 28);
+            const hour = Math.floor(random() * 24);
+            return {
+                userId: userIds[(created + i) % userIds.length],
+                source: `Benchmark ${metro.name} ${created + i}`,
+                destination: `Benchmark ${metro.name} destination`,
+                sourceCoordinates: `${source[0]},${source[1]}`,
+                destinationCoordinates: `${destination[0]},${destination[1]}`,
+                travelDate: `2030-01-${String(day).padStart(2, '0')}`,
+                travelTime: `${String(hour).padStart(2, '0')}:00`,
+                transportMode: 'car',
+                optimizationMode: 'fastest',
+                status: 'active',
+                routeGeometry: syntheticRoute(source, destination),
+                matchRadius: MATCH_RADIUS_KM,
+                createdAt: now,
+                updatedAt: now,
+            };
+        });
+
+        const inserted = await db.insert(trips).values(values).returning({
+            id: trips.id,
+            sourceCoordinates: trips.sourceCoordinates,
+            destinationCoordinates: trips.destinationCoordinates,
+            routeGeometry: trips.routeGeometry,
+        });
+
+        const cells = inserted.flatMap((trip) => buildTripCells(
+            trip.id,
+            parseCoordinates(trip.sourceCoordinates),
+            parseCoordinates(trip.destinationCoordinates),
+            trip.routeGeometry as LatLon[]
+        ));
+        for (let i = 0; i < cells.length; i += batchSize) {
+            await db.insert(tripCells).values(cells.slice(i, i + batchSize));
+        }
+
+        if ((created + values.length) % 10000 === 0) {
+            console.log(`   ${created + values.length} trips seeded`);
+        }
+    }
+
+    console.log(`✅ Seeded ${count - existing.length} benchmark trips`);
+}
+
+async function main() {
+    const tripCount = parseInt(process.argv[2] || '') || DEFAULT_TRIP_COUNT;
+    const queryCount = parseInt(process.argv[3] || '') || DEFAULT_QUERY_COUNT;
+
+    await seedTrips(tripCount);
+
+    const queries = Array.from({ length: queryCount }, (_, i) => {
+        const metro = METROS[i % METROS.length];
+        const source = pointNear(metro.center, 40);
+        const destination = pointNear(metro.center, 40);
+        return { source, destination, route: syntheticRoute(source, destination) };
+    });
+    const excludeUserId = 'benchmark-query-user';
+
+    // Full scan: what POST /api/trips did before the index
+    let scanMs = 0;
+    let scanMatches = 0;
+    const scanResults: Set<number>[] = [];
+    for (const query of queries) {
+        const started = performance.now();
+        const active = await db.select().from(trips)
+            .where(and(eq(trips.status, 'active'), ne(trips.userId, excludeUserId)));
+        const near = active.filter((trip) => couldMatch(query, {
+            source: parseCoordinates(trip.sourceCoordinates),
+            destination: parseCoordinates(trip.destinationCoordinates),
+            route: trip.routeGeometry as LatLon[] | null,
+        }));
+        scanMs += performance.now() - started;
+        scanMatches += near.length;
+        scanResults.push(new Set(near.map((trip) => trip.id)));
+    }
+
+    // Index: prefilter by cell, then the same exact checks on the candidates
+    let indexMs = 0;
+    let candidates = 0;
+    let missed = 0;
+    for (const [i, query] of queries.entries()) {
+        const started = performance.now();
+        const ids = await findCandidateTripIds({
+            source: query.source,
+            destination: query.destination,
+            routeGeometry: query.route,
+            radiusKm: MATCH_RADIUS_KM,
+            excludeUserId,
+        });
+        const loaded = await loadTrips(ids);
+        const near = loaded.filter((trip) => couldMatch(query, {
+            source: parseCoordinates(trip.sourceCoordinates),
+            destination: parseCoordinates(trip.destinationCoordinates),
+            route: trip.routeGeometry as LatLon[] | null,
+        }));
+        indexMs += performance.now() - started;
+        candidates += ids.length;
+
+        const found = new Set(near.map((trip) => trip.id));
+        for (const id of scanResults[i]) {
+            if (!found.has(id)) missed++;
+        }
+    }
+
+    console.log(`\nMatching candidate lookup, ${queries.length} queries:`);
+    console.log(`   Full scan: ${(scanMs / queries.length).toFixed(1)} ms/query, ${(scanMatches / queries.length).toFixed(0)} nearby trips`);
+    console.log(`   Index:     ${(indexMs / queries.length).toFixed(1)} ms/query, ${(candidates / queries.length).toFixed(0)} candidates scored`);
+    console.log(missed === 0
+        ? '✅ Index found every nearby trip the full scan found'
+        : `❌ Index missed ${missed} nearby trips`);
+}
+
+main().catch((error) => {
+    console.error('❌ Benchmark failed:', error);
+});
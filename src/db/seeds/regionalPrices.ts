@@ -0,0 +1,70 @@
+import { db } from '@/db';
+import { exchangeRates, regionalPrices } from '@/db/schema';
+
+// [region, currency, petrol/L, diesel/L, lpg/L, electricity/kWh, toll/km, parking/h]
+type PriceRow = [string, string, number, number, number | null, number, number, number];
+
+const prices: PriceRow[] = [
+    ['DEFAULT', 'USD', 1.50, 1.60, 0.90, 0.20, 0.00, 2.00],
+    ['US', 'USD', 0.92, 1.02, 0.85, 0.17, 0.04, 3.00],
+    ['CA', 'CAD', 1.60, 1.75, 0.95, 0.14, 0.00, 3.00],
+    ['MX', 'MXN', 24.00, 25.50, 12.50, 1.20, 1.80, 25.00],
+    ['GB', 'GBP', 1.42, 1.50, 0.80, 0.27, 0.00, 3.50],
+    ['IE', 'EUR', 1.75, 1.68, 0.95, 0.35, 0.06, 3.00],
+    ['FR', 'EUR', 1.85, 1.75, 1.00, 0.25, 0.09, 2.50],
+    ['DE', 'EUR', 1.80, 1.70, 1.05, 0.38, 0.00, 2.50],
+    ['ES', 'EUR', 1.60, 1.50, 0.95, 0.22, 0.09, 2.50],
+    ['IT', 'EUR', 1.85, 1.75, 0.75, 0.30, 0.08, 2.00],
+    ['NL', 'EUR', 2.05, 1.75, 1.00, 0.30, 0.00, 4.50],
+    ['JP', 'JPY', 175.00, 155.00, 110.00, 31.00, 25.00, 400.00],
+    ['IN', 'INR', 105.00, 92.00, 65.00, 8.00, 2.00, 40.00],
+    ['AU', 'AUD', 2.00, 2.05, 1.00, 0.32, 0.10, 6.00],
+];
+
+// Units per 1 USD
+const rates: [string, number][] = [
+    ['EUR', 0.92],
+    ['GBP', 0.79],
+    ['CAD', 1.36],
+    ['MXN', 17.1],
+    ['JPY', 150.0],
+    ['INR', 83.0],
+    ['AUD', 1.52],
+];
+
+async function main() {
+    const existing = await db.select({ id: regionalPrices.id }).from(regionalPrices).limit(1);
+
+    if (existing.length > 0) {
+        console.log('⚠️  Regional prices already seeded, skipping.');
+        return;
+    }
+
+    const now = new Date().toISOString();
+
+    await db.insert(regionalPrices).values(prices.map(
+        ([region, currency, petrolPrice, dieselPrice, lpgPrice, electricityPrice, tollPerKm, parkingPerHour]) => ({
+            region,
+            currency,
+            petrolPrice,
+            dieselPrice,
+            lpgPrice,
+            electricityPrice,
+            tollPerKm,
+            parkingPerHour,
+            updatedAt: now,
+        })
+    ));
+
+    await db.insert(exchangeRates).values(rates.map(([currency, perUsd]) => ({
+        currency,
+        perUsd,
+        updatedAt: now,
+    })));
+
+    console.log(`✅ Regional prices seeder completed successfully (${prices.length} regions, ${rates.length} exchange rates)`);
+}
+
+main().catch((error) => {
+    console.error('❌ Seeder failed:', error);
+});
@@ -0,0 +1,56 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { db } from '@/db';
+import { speedProfiles } from '@/db/schema';
+
+// Loads historical speed profiles from a CSV with one row per road class and
+// weekday and one multiplier column per hour (see data/speed-profiles.csv).
+// Usage: npx tsx src/db/seeds/speedProfiles.ts [csv-file]
+// Re-running replaces all existing profiles.
+
+const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const DEFAULT_FILE = path.join(__dirname, 'data', 'speed-profiles.csv');
+
+async function main() {
+    const filePath = process.argv[2] || DEFAULT_FILE;
+
+    if (!fs.existsSync(filePath)) {
+        console.error(`❌ Speed profile file not found: ${filePath}`);
+        return;
+    }
+
+    const lines = fs.readFileSync(filePath, 'utf8')
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line && !line.startsWith('#'));
+
+    const rows: { roadClass: string; hourOfWeek: number; multiplier: number }[] = [];
+
+    // First line is the header
+    for (const line of lines.slice(1)) {
+        const [roadClass, day, ...hours] = line.split(',').map((field) => field.trim());
+        const dayIndex = DAYS.indexOf(day.toLowerCase());
+
+        if (dayIndex === -1 || hours.length !== 24) {
+            console.warn(`⚠️  Skipping malformed row: ${line}`);
+            continue;
+        }
+
+        hours.forEach((value, hour) => {
+            const multiplier = parseFloat(value);
+            if (isNaN(multiplier) || multiplier <= 0) return;
+            rows.push({ roadClass, hourOfWeek: dayIndex * 24 + hour, multiplier });
+        });
+    }
+
+    await db.delete(speedProfiles);
+    for (let i = 0; i < rows.length; i += 500) {
+        await db.insert(speedProfiles).values(rows.slice(i, i + 500));
+    }
+
+    console.log(`✅ Speed profiles seeder completed successfully (${rows.length} hourly multipliers)`);
+}
+
+main().catch((error) => {
+    console.error('❌ Seeder failed:', error);
+});
@@ -0,0 +1,35 @@
+import { db } from '@/db';
+import { tripCells, trips } from '@/db/schema';
+import { buildTripCells } from '@/lib/spatialIndex';
+import { parseLatLon, type LatLon } from '@/lib/geo';
+
+// Builds the matching spatial index for trips created before it existed.
+// Usage: npx tsx src/db/seeds/tripCells.ts
+// Re-running rebuilds every trip's cells.
+
+async function main() {
+    const allTrips = await db.select({
+        id: trips.id,
+        sourceCoordinates: trips.sourceCoordinates,
+        destinationCoordinates: trips.destinationCoordinates,
+        routeGeometry: trips.routeGeometry,
+    }).from(trips);
+
+    const rows = allTrips.flatMap((trip) => buildTripCells(
+        trip.id,
+        parseLatLon(trip.sourceCoordinates),
+        parseLatLon(trip.destinationCoordinates),
+        trip.routeGeometry as LatLon[] | null
+    ));
+
+    await db.delete(tripCells);
+    for (let i = 0; i < rows.length; i += 500) {
+        await db.insert(tripCells).values(rows.slice(i, i + 500));
+    }
+
+    console.log(`✅ Trip cells seeder completed successfully (${allTrips.length} trips, ${rows.length} cells)`);
+}
+
+main().catch((error) => {
+    console.error('❌ Seeder failed:', error);
+});
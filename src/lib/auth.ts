@@ -19,4 +19,14 @@ export const auth = betterAuth({
 export async function getCurrentUser(request: NextRequest) {
   const session = await auth.api.getSession({ headers: await headers() });
   return session?.user || null;
-}
\ No newline at end of file
+}
+
+// Admins are configured by email in ADMIN_EMAILS (comma-separated)
+export function isAdmin(user: { email: string } | null | undefined): boolean {
+  if (!user?.email) return false;
+  const admins = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(user.email.toLowerCase());
+}
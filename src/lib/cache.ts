@@ -0,0 +1,160 @@
+import { db } from '@/db';
+import { cacheEntries, cacheStats } from '@/db/schema';
+import { and, eq, gt, lte, sql } from 'drizzle-orm';
+import type { LatLon } from '@/lib/geo';
+
+export type CacheNamespace = 'geocode' | 'route';
+
+export const CACHE_NAMESPACES: CacheNamespace[] = ['geocode', 'route'];
+
+// Geocodes rarely change; routes follow road edits and closures more closely.
+// Override with GEOCODE_CACHE_TTL / ROUTE_CACHE_TTL (seconds); CACHE_DISABLED=true bypasses the cache.
+const DEFAULT_TTL_SECONDS: Record<CacheNamespace, number> = {
+  geocode: 30 * 24 * 3600,
+  route: 24 * 3600,
+};
+
+const TTL_ENV: Record<CacheNamespace, string> = {
+  geocode: 'GEOCODE_CACHE_TTL',
+  route: 'ROUTE_CACHE_TTL',
+};
+
+// Coordinates are rounded to ~1 m so near-identical requests share an entry
+const COORDINATE_PRECISION = 5;
+
+export function cacheTtlSeconds(namespace: CacheNamespace): number {
+  const configured = parseInt(process.env[TTL_ENV[namespace]] || '');
+  return configured > 0 ? configured : DEFAULT_TTL_SECONDS[namespace];
+}
+
+function cacheDisabled(): boolean {
+  return ['1', 'true'].includes((process.env.CACHE_DISABLED || '').trim().toLowerCase());
+}
+
+export function roundCoordinates(points: LatLon[]): string {
+  return points
+    .map(([lat, lon]) => `${lat.toFixed(COORDINATE_PRECISION)},${lon.toFixed(COORDINATE_PRECISION)}`)
+    .join(';');
+}
+
+async function recordLookup(namespace: CacheNamespace, hit: boolean) {
+  const now = new Date().toISOString();
+  await db
+    .insert(cacheStats)
+    .values({ namespace, hits: hit ? 1 : 0, misses: hit ? 0 : 1, updatedAt: now })
+    .onConflictDoUpdate({
+      target: cacheStats.namespace,
+      set: hit
+        ? { hits: sql`${cacheStats.hits} + 1`, updatedAt: now }
+        : { misses: sql`${cacheStats.misses} + 1`, updatedAt: now },
+    });
+}
+
+// Return the cached value for a key, or compute, store and return it.
+// Values rejected by `shouldCache` (failures, empty results) are not stored.
+// Cache errors never fail the caller; they fall through to `compute`.
+export async function cached<T>(
+  namespace: CacheNamespace,
+  key: string,
+  compute: () => Promise<T>,
+  shouldCache: (value: T) => boolean = () => true
+): Promise<T> {
+  if (cacheDisabled()) return compute();
+
+  const now = new Date();
+  try {
+    const rows = await db
+      .select()
+      .from(cacheEntries)
+      .where(and(
+        eq(cacheEntries.namespace, namespace),
+        eq(cacheEntries.key, key),
+        gt(cacheEntries.expiresAt, now.toISOString())
+      ))
+      .limit(1);
+
+    if (rows.length > 0) {
+      await db
+        .update(cacheEntries)
+        .set({ hits: sql`${cacheEntries.hits} + 1`, lastHitAt: now.toISOString() })
+        .where(eq(cacheEntries.id, rows[0].id));
+      await recordLookup(namespace, true);
+      return rows[0].value as T;
+    }
+
+    await recordLookup(namespace, false);
+  } catch (error) {
+    console.error(`Cache read error (${namespace}):`, error);
+    return compute();
+  }
+
+  const value = await compute();
+
+  if (shouldCache(value)) {
+    const expiresAt = new Date(now.getTime() + cacheTtlSeconds(namespace) * 1000).toISOString();
+    try {
+      await db
+        .insert(cacheEntries)
+        .values({ namespace, key, value, hits: 0, createdAt: now.toISOString(), expiresAt })
+        .onConflictDoUpdate({
+          target: [cacheEntries.namespace, cacheEntries.key],
+          set: { value, hits: 0, createdAt: now.toISOString(), expiresAt, lastHitAt: null },
+        });
+    } catch (error) {
+      console.error(`Cache write error (${namespace}):`, error);
+    }
+  }
+
+  return value;
+}
+
+// Per-namespace counters and entry counts for /api/admin/cache
+export async function getCacheStats() {
+  const now = new Date().toISOString();
+  const stats = await db.select().from(cacheStats);
+  const counts = await db
+    .select({
+      namespace: cacheEntries.namespace,
+      entries: sql<number>`count(*)`,
+      expired: sql<number>`sum(case when ${cacheEntries.expiresAt} <= ${now} then 1 else 0 end)`,
+    })
+    .from(cacheEntries)
+    .groupBy(cacheEntries.namespace);
+
+  return CACHE_NAMESPACES.map(namespace => {
+    const stat = stats.find(s => s.namespace === namespace);
+    const count = counts.find(c => c.namespace === namespace);
+    const hits = stat?.hits ?? 0;
+    const misses = stat?.misses ?? 0;
+    return {
+      namespace,
+      ttlSeconds: cacheTtlSeconds(namespace),
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 1000 : null,
+      entries: Number(count?.entries ?? 0),
+      expired: Number(count?.expired ?? 0),
+    };
+  });
+}
+
+// Delete entries: a whole namespace, only expired ones, or a single key
+export async function purgeCache(options: { namespace?: CacheNamespace; expiredOnly?: boolean; key?: string }): Promise<number> {
+  const conditions = [];
+  if (options.namespace) conditions.push(eq(cacheEntries.namespace, options.namespace));
+  if (options.key) conditions.push(eq(cacheEntries.key, options.key));
+  if (options.expiredOnly) conditions.push(lte(cacheEntries.expiresAt, new Date().toISOString()));
+
+  const deleted = await db
+    .delete(cacheEntries)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .returning({ id: cacheEntries.id });
+
+  return deleted.length;
+}
+
+export async function resetCacheStats(namespace?: CacheNamespace) {
+  await db
+    .delete(cacheStats)
+    .where(namespace ? eq(cacheStats.namespace, namespace) : undefined);
+}
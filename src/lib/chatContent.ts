@@ -0,0 +1,279 @@
+import { db } from '@/db';
+import { groupMembers, groups, meetingPointAcceptances, messages, pollVotes } from '@/db/schema';
+import { and, count, eq, isNull, or, sql } from 'drizzle-orm';
+import { toLatLon, type LatLon } from '@/lib/geo';
+import { enqueueJob } from '@/lib/jobs';
+
+// Structured chat messages next to plain text. The content lives in
+// messages.payload and messages.message holds a plain summary, so search,
+// reply previews and notifications work unchanged.
+// - location: a place shown on the group's map
+// - meeting_point: a proposed pickup; once more than half of the members have
+//   accepted it, it becomes the group's official meeting point, where the
+//   combined route picks up everyone but the driver (see calculateCombinedRoute)
+// - poll: a question with options that closes at closesAt (a close_poll job
+//   marks it closed and pushes the results; votes are refused from closesAt
+//   on either way)
+
+export type MessageKind = 'text' | 'location' | 'meeting_point' | 'poll';
+
+export const MESSAGE_KINDS: MessageKind[] = ['text', 'location', 'meeting_point', 'poll'];
+
+export interface LocationPayload {
+  coordinates: LatLon;
+  label: string;
+}
+
+export interface MeetingPointPayload {
+  coordinates: LatLon;
+  label: string;
+  time: string | null; // proposed pickup time
+}
+
+export interface PollPayload {
+  question: string;
+  options: string[];
+  closesAt: string;
+  closedAt: string | null; // set when the close_poll job ran
+}
+
+// groups.meeting_point
+export interface GroupMeetingPoint extends MeetingPointPayload {
+  messageId: number;
+  acceptedAt: string;
+}
+
+// A message's kind together with its payload; text messages have none
+export type MessageContent =
+  | { kind: 'text'; payload: null }
+  | { kind: 'location'; payload: LocationPayload }
+  | { kind: 'meeting_point'; payload: MeetingPointPayload }
+  | { kind: 'poll'; payload: PollPayload };
+
+export type StructuredContent = Exclude<MessageContent, { kind: 'text' }>;
+
+export type ContentError =
+  | 'INVALID_KIND'
+  | 'INVALID_PAYLOAD'
+  | 'WRONG_KIND'
+  | 'INVALID_OPTION'
+  | 'POLL_CLOSED';
+
+export type ContentResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; code: ContentError; error: string };
+
+// HTTP status for each error, shared by the message routes
+export const CONTENT_ERROR_STATUS: Record<ContentError, number> = {
+  INVALID_KIND: 400,
+  INVALID_PAYLOAD: 400,
+  WRONG_KIND: 409,
+  INVALID_OPTION: 400,
+  POLL_CLOSED: 409,
+};
+
+const MAX_LABEL_LENGTH = 120;
+const MAX_QUESTION_LENGTH = 200;
+const MAX_OPTION_LENGTH = 80;
+const MIN_POLL_OPTIONS = 2;
+const MAX_POLL_OPTIONS = 10;
+const MAX_POLL_DURATION_DAYS = 7;
+
+function fail(code: ContentError, error: string): { ok: false; code: ContentError; error: string } {
+  return { ok: false, code, error };
+}
+
+function trimmedString(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed && trimmed.length <= maxLength ? trimmed : null;
+}
+
+export function isPollClosed(poll: PollPayload, now: Date = new Date()): boolean {
+  return poll.closedAt !== null || new Date(poll.closesAt) <= now;
+}
+
+// Validate the payload of a new structured message and derive its summary
+export function parseMessageContent(
+  kind: unknown,
+  payload: unknown
+): ContentResult<StructuredContent & { summary: string }> {
+  if (typeof kind !== 'string' || !MESSAGE_KINDS.includes(kind as MessageKind) || kind === 'text') {
+    return fail('INVALID_KIND', `kind must be one of: ${MESSAGE_KINDS.join(', ')}`);
+  }
+  if (typeof payload !== 'object' || payload === null) {
+    return fail('INVALID_PAYLOAD', `payload is required for ${kind} messages`);
+  }
+  const body = payload as Record<string, unknown>;
+
+  if (kind === 'location' || kind === 'meeting_point') {
+    const coordinates = toLatLon(body.coordinates);
+    if (!coordinates) {
+      return fail('INVALID_PAYLOAD', 'payload.coordinates must be [lat, lon]');
+    }
+    const label = body.label == null && kind === 'location'
+      ? `${coordinates[0].toFixed(5)}, ${coordinates[1].toFixed(5)}`
+      : trimmedString(body.label, MAX_LABEL_LENGTH);
+    if (!label) {
+      return fail('INVALID_PAYLOAD', `payload.label must be 1-${MAX_LABEL_LENGTH} characters`);
+    }
+
+    if (kind === 'location') {
+      return { ok: true, kind, payload: { coordinates, label }, summary: `Shared a location: ${label}` };
+    }
+
+    let time: string | null = null;
+    if (body.time != null) {
+      const parsed = typeof body.time === 'string' ? new Date(body.time) : null;
+      if (!parsed || isNaN(parsed.getTime())) {
+        return fail('INVALID_PAYLOAD', 'payload.time must be an ISO date-time');
+      }
+      time = parsed.toISOString();
+    }
+    return { ok: true, kind, payload: { coordinates, label, time }, summary: `Proposed meeting point: ${label}` };
+  }
+
+  const question = trimmedString(body.question, MAX_QUESTION_LENGTH);
+  if (!question) {
+    return fail('INVALID_PAYLOAD', `payload.question must be 1-${MAX_QUESTION_LENGTH} characters`);
+  }
+
+  const options = Array.isArray(body.options)
+    ? body.options.map(option => trimmedString(option, MAX_OPTION_LENGTH))
+    : [];
+  if (options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS || options.some(option => option === null)) {
+    return fail(
+      'INVALID_PAYLOAD',
+      `payload.options must be ${MIN_POLL_OPTIONS}-${MAX_POLL_OPTIONS} options of 1-${MAX_OPTION_LENGTH} characters`
+    );
+  }
+  if (new Set(options).size !== options.length) {
+    return fail('INVALID_PAYLOAD', 'payload.options must be distinct');
+  }
+
+  const closesAt = typeof body.closesAt === 'string' ? new Date(body.closesAt) : null;
+  const now = Date.now();
+  if (!closesAt || isNaN(closesAt.getTime()) || closesAt.getTime() <= now ||
+      closesAt.getTime() > now + MAX_POLL_DURATION_DAYS * 24 * 3600 * 1000) {
+    return fail('INVALID_PAYLOAD', `payload.closesAt must be a future date-time within ${MAX_POLL_DURATION_DAYS} days`);
+  }
+
+  return {
+    ok: true,
+    kind: 'poll',
+    payload: { question, options: options as string[], closesAt: closesAt.toISOString(), closedAt: null },
+    summary: `Poll: ${question} (${options.join(' / ')})`,
+  };
+}
+
+// Schedule the close of a newly posted poll
+export function schedulePollClose(messageId: number, poll: PollPayload) {
+  const delaySeconds = Math.max(0, (new Date(poll.closesAt).getTime() - Date.now()) / 1000);
+  return enqueueJob('close_poll', { messageId }, { idempotencyKey: `close_poll:${messageId}`, delaySeconds });
+}
+
+// Vote for options[optionIndex]; voting again moves the vote
+export async function votePoll(
+  message: typeof messages.$inferSelect,
+  userId: string,
+  optionIndex: unknown
+): Promise<ContentResult<{}>> {
+  if (message.kind !== 'poll') {
+    return fail('WRONG_KIND', 'Only polls can be voted on');
+  }
+  const poll = message.payload as PollPayload;
+  if (isPollClosed(poll)) {
+    return fail('POLL_CLOSED', 'This poll is closed');
+  }
+  if (!Number.isInteger(optionIndex) || (optionIndex as number) < 0 || (optionIndex as number) >= poll.options.length) {
+    return fail('INVALID_OPTION', `option must be an index from 0 to ${poll.options.length - 1}`);
+  }
+
+  const createdAt = new Date().toISOString();
+  await db
+    .insert(pollVotes)
+    .values({ messageId: message.id, userId, optionIndex: optionIndex as number, createdAt })
+    .onConflictDoUpdate({
+      target: [pollVotes.messageId, pollVotes.userId],
+      set: { optionIndex: optionIndex as number, createdAt },
+    });
+  return { ok: true };
+}
+
+// Mark a poll closed. Returns its group, or null when it was already closed
+// or no longer exists.
+export async function closePoll(messageId: number): Promise<number | null> {
+  const [message] = await db
+    .select()
+    .from(messages)
+    .where(and(eq(messages.id, messageId), eq(messages.kind, 'poll')))
+    .limit(1);
+  if (!message) return null;
+
+  const poll = message.payload as PollPayload;
+  if (poll.closedAt) return null;
+
+  await db
+    .update(messages)
+    .set({ payload: { ...poll, closedAt: new Date().toISOString() } })
+    .where(eq(messages.id, messageId));
+  return message.groupId;
+}
+
+// Accept a proposed meeting point. It becomes the group's meeting point when
+// a majority of the current members accepted it, unless a newer proposal
+// already took over. Returns the new meeting point when this acceptance
+// promoted it.
+export async function acceptMeetingPoint(
+  message: typeof messages.$inferSelect,
+  userId: string
+): Promise<ContentResult<{ promoted: GroupMeetingPoint | null }>> {
+  if (message.kind !== 'meeting_point') {
+    return fail('WRONG_KIND', 'Only meeting points can be accepted');
+  }
+
+  await db
+    .insert(meetingPointAcceptances)
+    .values({ messageId: message.id, userId, createdAt: new Date().toISOString() })
+    .onConflictDoNothing();
+
+  const [[members], [accepted], [group]] = await Promise.all([
+    db.select({ total: count() }).from(groupMembers).where(eq(groupMembers.groupId, message.groupId)),
+    db
+      .select({ total: count() })
+      .from(meetingPointAcceptances)
+      .innerJoin(groupMembers, and(
+        eq(groupMembers.groupId, message.groupId),
+        eq(groupMembers.userId, meetingPointAcceptances.userId)
+      ))
+      .where(eq(meetingPointAcceptances.messageId, message.id)),
+    db.select({ meetingPoint: groups.meetingPoint }).from(groups).where(eq(groups.id, message.groupId)).limit(1),
+  ]);
+
+  const current = group?.meetingPoint as GroupMeetingPoint | null;
+  if (accepted.total * 2 <= members.total || (current && current.messageId >= message.id)) {
+    return { ok: true, promoted: null };
+  }
+
+  const acceptedAt = new Date().toISOString();
+  const meetingPoint: GroupMeetingPoint = {
+    ...(message.payload as MeetingPointPayload),
+    messageId: message.id,
+    acceptedAt,
+  };
+
+  // Guard against a concurrent promotion of a newer proposal
+  const [updated] = await db
+    .update(groups)
+    .set({ meetingPoint, updatedAt: acceptedAt })
+    .where(and(
+      eq(groups.id, message.groupId),
+      or(
+        isNull(groups.meetingPoint),
+        sql`json_extract(${groups.meetingPoint}, '$.messageId') < ${message.id}`
+      )
+    ))
+    .returning({ id: groups.id });
+
+  return { ok: true, promoted: updated ? meetingPoint : null };
+}
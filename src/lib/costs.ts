@@ -0,0 +1,357 @@
+import { db } from '@/db';
+import { exchangeRates, gazetteer, regionalPrices, userProfiles, vehicleProfiles } from '@/db/schema';
+import { and, between, eq } from 'drizzle-orm';
+import { calculateDistance, type LatLon } from '@/lib/geo';
+import type { RouteInstruction, TransportMode } from '@/lib/routing';
+
+export type FuelType = 'petrol' | 'diesel' | 'lpg' | 'electric';
+
+export const FUEL_TYPES: FuelType[] = ['petrol', 'diesel', 'lpg', 'electric'];
+
+export interface VehicleProfile {
+  id?: number;
+  name: string;
+  fuelType: FuelType;
+  consumption: number; // L/100km, or kWh/100km for electric
+}
+
+export interface RegionalPrices {
+  region: string;
+  currency: string;
+  petrolPrice: number;
+  dieselPrice: number;
+  lpgPrice: number | null;
+  electricityPrice: number;
+  tollPerKm: number;
+  parkingPerHour: number;
+}
+
+export interface CostItem {
+  type: 'fuel' | 'electricity' | 'toll' | 'parking' | 'fare';
+  label: string;
+  quantity?: number;
+  unit?: string;
+  unitPrice?: number;
+  amount: number;
+  // Set when the amount is a guess rather than derived from the route data
+  estimated?: boolean;
+}
+
+export interface CostBreakdown {
+  currency: string;
+  region: string;
+  vehicle?: VehicleProfile;
+  items: CostItem[];
+  total: number;
+}
+
+// Everything needed to price a route: where, in which currency, with which vehicle
+export interface CostContext {
+  prices: RegionalPrices;
+  currency: string;
+  // Multiply a price in prices.currency by this to get `currency`
+  rate: number;
+  vehicle: VehicleProfile;
+}
+
+export interface CostInput {
+  distance: number; // in meters
+  duration: number; // in seconds
+  mode: TransportMode;
+  instructions?: RouteInstruction[];
+  parkingHours?: number;
+  fare?: { amount: number; currency: string } | null;
+}
+
+// Used until an admin adds a DEFAULT row to regional_prices
+const FALLBACK_PRICES: RegionalPrices = {
+  region: 'DEFAULT',
+  currency: 'USD',
+  petrolPrice: 1.5,
+  dieselPrice: 1.6,
+  lpgPrice: 0.9,
+  electricityPrice: 0.2,
+  tollPerKm: 0,
+  parkingPerHour: 0,
+};
+
+export const DEFAULT_VEHICLE: VehicleProfile = {
+  name: 'Average petrol car',
+  fuelType: 'petrol',
+  consumption: 8.0,
+};
+
+// Combustion consumption relative to the rated mixed figure
+const ROUTE_TYPE_FACTORS = {
+  highway: 0.8,
+  mixed: 1.0,
+  urban: 1.25,
+};
+
+// Per-passenger diesel-equivalent L/100km for shared modes without a known fare
+const SHARED_MODE_CONSUMPTION: Partial<Record<TransportMode, number>> = {
+  bus: 2.5,
+  train: 1.8,
+  flight: 15.0,
+};
+
+// Without toll data from the routing engine, instructions driven faster than
+// this on average are assumed to be tolled motorway
+const MOTORWAY_SPEED_KMH = 80;
+
+// Places further than this from any gazetteer entry use the DEFAULT region
+const REGION_LOOKUP_RADIUS_KM = 300;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Country code of the nearest gazetteer place, or 'DEFAULT'
+export async function resolveRegion(point: LatLon): Promise<string> {
+  const delta = REGION_LOOKUP_RADIUS_KM / 111;
+  const candidates = await db
+    .select({ countryCode: gazetteer.countryCode, latitude: gazetteer.latitude, longitude: gazetteer.longitude })
+    .from(gazetteer)
+    .where(and(
+      between(gazetteer.latitude, point[0] - delta, point[0] + delta),
+      between(gazetteer.longitude, point[1] - delta * 2, point[1] + delta * 2)
+    ));
+
+  let nearest: { countryCode: string; distance: number } | null = null;
+  for (const candidate of candidates) {
+    const distance = calculateDistance(point, [candidate.latitude, candidate.longitude]);
+    if (distance <= REGION_LOOKUP_RADIUS_KM && (!nearest || distance < nearest.distance)) {
+      nearest = { countryCode: candidate.countryCode, distance };
+    }
+  }
+
+  return nearest?.countryCode ?? 'DEFAULT';
+}
+
+// Prices for a region, falling back to the DEFAULT row and then built-in defaults
+export async function getRegionalPrices(region: string): Promise<RegionalPrices> {
+  for (const key of [region.toUpperCase(), 'DEFAULT']) {
+    const rows = await db.select().from(regionalPrices).where(eq(regionalPrices.region, key)).limit(1);
+    if (rows.length > 0) {
+      const { id, updatedAt, ...prices } = rows[0];
+      return prices;
+    }
+  }
+  return FALLBACK_PRICES;
+}
+
+// Rate to convert an amount in `from` into `to`, via USD; null if either rate is unknown
+export async function getExchangeRate(from: string, to: string): Promise<number | null> {
+  const source = from.toUpperCase();
+  const target = to.toUpperCase();
+  if (source === target) return 1;
+
+  const perUsd = async (currency: string): Promise<number | null> => {
+    if (currency === 'USD') return 1;
+    const rows = await db.select().from(exchangeRates).where(eq(exchangeRates.currency, currency)).limit(1);
+    return rows.length > 0 ? rows[0].perUsd : null;
+  };
+
+  const [sourcePerUsd, targetPerUsd] = await Promise.all([perUsd(source), perUsd(target)]);
+  if (!sourcePerUsd || !targetPerUsd) return null;
+  return targetPerUsd / sourcePerUsd;
+}
+
+// A user's vehicle by id, or their default vehicle; undefined when vehicleId is not theirs
+export async function getVehicleProfile(userId: string | null, vehicleId?: number): Promise<VehicleProfile | undefined> {
+  if (!userId) {
+    return vehicleId === undefined ? DEFAULT_VEHICLE : undefined;
+  }
+
+  const condition = vehicleId !== undefined
+    ? and(eq(vehicleProfiles.id, vehicleId), eq(vehicleProfiles.userId, userId))
+    : and(eq(vehicleProfiles.userId, userId), eq(vehicleProfiles.isDefault, true));
+  const rows = await db.select().from(vehicleProfiles).where(condition).limit(1);
+
+  if (rows.length === 0) {
+    return vehicleId === undefined ? DEFAULT_VEHICLE : undefined;
+  }
+
+  const { id, name, fuelType, consumption } = rows[0];
+  return { id, name, fuelType: fuelType as FuelType, consumption };
+}
+
+// The currency a user picked in their profile's travel preferences, if any
+export async function getPreferredCurrency(userId: string): Promise<string | null> {
+  const rows = await db
+    .select({ travelPreferences: userProfiles.travelPreferences })
+    .from(userProfiles)
+    .where(eq(userProfiles.userId, userId))
+    .limit(1);
+  if (rows.length === 0 || !rows[0].travelPreferences) return null;
+
+  let preferences = rows[0].travelPreferences as any;
+  if (typeof preferences === 'string') {
+    try {
+      preferences = JSON.parse(preferences);
+    } catch {
+      return null;
+    }
+  }
+  return typeof preferences?.currency === 'string' ? preferences.currency.toUpperCase() : null;
+}
+
+// Resolve prices and currency for a region. A requested currency without a
+// known exchange rate falls back to the region's own currency.
+export async function createCostContext(
+  region: string,
+  vehicle: VehicleProfile,
+  currency?: string | null
+): Promise<CostContext> {
+  const prices = await getRegionalPrices(region);
+  const target = currency?.toUpperCase() || prices.currency;
+  const rate = await getExchangeRate(prices.currency, target);
+
+  if (rate === null) {
+    console.warn(`No exchange rate from ${prices.currency} to ${target}, pricing in ${prices.currency}`);
+    return { prices, currency: prices.currency, rate: 1, vehicle };
+  }
+
+  return { prices, currency: target, rate, vehicle };
+}
+
+function fuelPrice(prices: RegionalPrices, fuelType: FuelType): number {
+  switch (fuelType) {
+    case 'diesel':
+      return prices.dieselPrice;
+    case 'lpg':
+      return prices.lpgPrice ?? prices.petrolPrice;
+    case 'electric':
+      return prices.electricityPrice;
+    default:
+      return prices.petrolPrice;
+  }
+}
+
+function getRouteType(distanceKm: number, durationHours: number): keyof typeof ROUTE_TYPE_FACTORS {
+  const avgSpeed = durationHours > 0 ? distanceKm / durationHours : 0;
+  if (avgSpeed > 70) return 'highway';
+  if (avgSpeed < 40) return 'urban';
+  return 'mixed';
+}
+
+// Tolled distance in km. Engines that flag toll roads are taken at their word;
+// otherwise the distance driven at motorway speed is an estimate.
+function tolledDistanceKm(input: CostInput): { km: number; estimated: boolean } {
+  const instructions = input.instructions ?? [];
+  if (instructions.some((step) => step.toll !== undefined)) {
+    const km = instructions.reduce((sum, step) => (step.toll ? sum + step.distance / 1000 : sum), 0);
+    return { km, estimated: false };
+  }
+
+  const steps = instructions.length > 0
+    ? instructions
+    : [{ distance: input.distance, duration: input.duration }];
+  const km = steps.reduce((sum, step) => {
+    const speed = step.duration > 0 ? (step.distance / 1000) / (step.duration / 3600) : 0;
+    return speed > MOTORWAY_SPEED_KMH ? sum + step.distance / 1000 : sum;
+  }, 0);
+  return { km, estimated: true };
+}
+
+function vehicleEnergyItem(context: CostContext, distanceKm: number, durationHours: number): CostItem {
+  const { vehicle, prices, rate } = context;
+  const electric = vehicle.fuelType === 'electric';
+  const factor = electric ? 1 : ROUTE_TYPE_FACTORS[getRouteType(distanceKm, durationHours)];
+  const quantity = (distanceKm * vehicle.consumption * factor) / 100;
+  const unitPrice = fuelPrice(prices, vehicle.fuelType) * rate;
+
+  return {
+    type: electric ? 'electricity' : 'fuel',
+    label: electric ? `Electricity (${vehicle.name})` : `Fuel: ${vehicle.fuelType} (${vehicle.name})`,
+    quantity: round2(quantity),
+    unit: electric ? 'kWh' : 'L',
+    unitPrice: round2(unitPrice),
+    amount: round2(quantity * unitPrice),
+  };
+}
+
+function sharedFuelItem(context: CostContext, mode: TransportMode, distanceKm: number): CostItem | null {
+  const consumption = SHARED_MODE_CONSUMPTION[mode];
+  if (!consumption) return null;
+
+  const quantity = (distanceKm * consumption) / 100;
+  const unitPrice = context.prices.dieselPrice * context.rate;
+  return {
+    type: 'fuel',
+    label: `Fuel share (${mode})`,
+    quantity: round2(quantity),
+    unit: 'L',
+    unitPrice: round2(unitPrice),
+    amount: round2(quantity * unitPrice),
+  };
+}
+
+// Itemized cost of one route in the context's currency
+export async function estimateTripCost(context: CostContext, input: CostInput): Promise<CostBreakdown> {
+  const distanceKm = input.distance / 1000;
+  const durationHours = input.duration / 3600;
+  const items: CostItem[] = [];
+
+  if (input.mode === 'car') {
+    items.push(vehicleEnergyItem(context, distanceKm, durationHours));
+
+    const tolled = tolledDistanceKm(input);
+    if (tolled.km > 0 && context.prices.tollPerKm > 0) {
+      const unitPrice = context.prices.tollPerKm * context.rate;
+      items.push({
+        type: 'toll',
+        label: tolled.estimated ? 'Tolls (estimated from motorway speed)' : 'Tolls',
+        quantity: round2(tolled.km),
+        unit: 'km',
+        unitPrice: round2(unitPrice),
+        amount: round2(tolled.km * unitPrice),
+        ...(tolled.estimated && { estimated: true }),
+      });
+    }
+
+    if (input.parkingHours && input.parkingHours > 0 && context.prices.parkingPerHour > 0) {
+      const unitPrice = context.prices.parkingPerHour * context.rate;
+      items.push({
+        type: 'parking',
+        label: 'Parking',
+        quantity: input.parkingHours,
+        unit: 'h',
+        unitPrice: round2(unitPrice),
+        amount: round2(input.parkingHours * unitPrice),
+      });
+    }
+  } else if (input.mode === 'bus' || input.mode === 'train' || input.mode === 'flight') {
+    const fareRate = input.fare ? await getExchangeRate(input.fare.currency, context.currency) : null;
+    if (input.fare && fareRate !== null) {
+      items.push({
+        type: 'fare',
+        label: 'Ticket fare',
+        amount: round2(input.fare.amount * fareRate),
+      });
+    } else {
+      const item = sharedFuelItem(context, input.mode, distanceKm);
+      if (item) items.push(item);
+    }
+  }
+
+  return {
+    currency: context.currency,
+    region: context.prices.region,
+    vehicle: input.mode === 'car' ? context.vehicle : undefined,
+    items,
+    total: round2(items.reduce((sum, item) => sum + item.amount, 0)),
+  };
+}
+
+// Merge breakdowns priced in the same context, e.g. the legs of a flight itinerary
+export function combineCosts(breakdowns: CostBreakdown[]): CostBreakdown {
+  const items = breakdowns.flatMap((breakdown) => breakdown.items);
+  return {
+    currency: breakdowns[0].currency,
+    region: breakdowns[0].region,
+    vehicle: breakdowns.find((breakdown) => breakdown.vehicle)?.vehicle,
+    items,
+    total: round2(items.reduce((sum, item) => sum + item.amount, 0)),
+  };
+}
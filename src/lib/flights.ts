@@ -0,0 +1,201 @@
+import { db } from '@/db';
+import { airports } from '@/db/schema';
+import { calculateDistance, greatCirclePoints, polylineLength, type LatLon } from '@/lib/geo';
+import { getRoutingEngine, type RouteInstruction } from '@/lib/routing';
+
+export interface Airport {
+  iataCode: string;
+  name: string;
+  city: string;
+  countryCode: string;
+  coordinates: LatLon;
+}
+
+export interface ItinerarySegment {
+  type: 'ground' | 'flight';
+  from: string;
+  to: string;
+  coordinates: LatLon[];
+  distance: number; // in meters
+  duration: number; // in seconds
+  instructions: RouteInstruction[];
+}
+
+export interface FlightItinerary {
+  departureAirport: Airport;
+  arrivalAirport: Airport;
+  segments: ItinerarySegment[];
+  coordinates: LatLon[];
+  distance: number; // in meters, ground legs included
+  duration: number; // in seconds, door to door
+  flightDistance: number; // in meters, great-circle
+  groundDistance: number; // in meters
+  blockTime: number; // in seconds, gate to gate
+  co2Kg: number; // per passenger
+}
+
+// Large hubs within this radius win over a nearer smaller airport
+const PREFERRED_HUB_RADIUS_KM = 150;
+// Beyond this no airport is considered to serve the place
+const MAX_AIRPORT_RADIUS_KM = 300;
+
+// Block time: taxi out/in plus cruise, with a fixed allowance for climb and descent
+const TAXI_SECONDS = 20 * 60;
+const CLIMB_DESCENT_SECONDS = 15 * 60;
+const CRUISE_SPEED_KMH = 780;
+// Check-in/security before departure and deplaning/baggage after arrival
+const DEPARTURE_BUFFER_SECONDS = 90 * 60;
+const ARRIVAL_BUFFER_SECONDS = 30 * 60;
+
+// Per-passenger economy emission factors (kg CO2 per km) by flight length,
+// applied to the great-circle distance uplifted for routing and holding
+const FLIGHT_DETOUR_FACTOR = 1.08;
+const CAR_CO2_KG_PER_KM = 0.17;
+
+// Ground legs use a car at this speed when the routing engine returns nothing
+const GROUND_FALLBACK_SPEED_KMH = 50;
+const GROUND_DETOUR_FACTOR = 1.3;
+
+function flightEmissionFactor(distanceKm: number): number {
+  if (distanceKm < 1000) return 0.158;
+  if (distanceKm < 3700) return 0.131;
+  return 0.110;
+}
+
+export function estimateBlockTime(distanceKm: number): number {
+  return Math.round(TAXI_SECONDS + CLIMB_DESCENT_SECONDS + (distanceKm / CRUISE_SPEED_KMH) * 3600);
+}
+
+// Nearest airport serving a point, preferring large hubs nearby
+export async function findNearestAirport(point: LatLon): Promise<Airport | null> {
+  const rows = await db.select().from(airports);
+
+  let nearestHub: { airport: Airport; distance: number } | null = null;
+  let nearestAny: { airport: Airport; distance: number } | null = null;
+
+  for (const row of rows) {
+    const airport: Airport = {
+      iataCode: row.iataCode,
+      name: row.name,
+      city: row.city,
+      countryCode: row.countryCode,
+      coordinates: [row.latitude, row.longitude],
+    };
+    const distance = calculateDistance(point, airport.coordinates);
+    if (distance > MAX_AIRPORT_RADIUS_KM) continue;
+
+    if (!nearestAny || distance < nearestAny.distance) {
+      nearestAny = { airport, distance };
+    }
+    if (row.size === 'large' && distance <= PREFERRED_HUB_RADIUS_KM && (!nearestHub || distance < nearestHub.distance)) {
+      nearestHub = { airport, distance };
+    }
+  }
+
+  return (nearestHub ?? nearestAny)?.airport ?? null;
+}
+
+// Drive between a place and an airport, falling back to a straight estimate
+async function planGroundSegment(from: LatLon, to: LatLon, fromName: string, toName: string): Promise<ItinerarySegment> {
+  const [route] = await getRoutingEngine().route([from, to], 'car');
+
+  if (route) {
+    return {
+      type: 'ground',
+      from: fromName,
+      to: toName,
+      coordinates: route.coordinates,
+      distance: route.distance,
+      duration: route.duration,
+      instructions: route.instructions,
+    };
+  }
+
+  const distance = calculateDistance(from, to) * GROUND_DETOUR_FACTOR * 1000;
+  const duration = Math.round((distance / 1000 / GROUND_FALLBACK_SPEED_KMH) * 3600);
+  return {
+    type: 'ground',
+    from: fromName,
+    to: toName,
+    coordinates: [from, to],
+    distance,
+    duration,
+    instructions: [
+      {
+        distance,
+        duration,
+        instruction: `Drive to ${toName}`,
+        name: toName,
+        type: 'depart',
+      },
+    ],
+  };
+}
+
+// Door-to-door itinerary: drive to the nearest airport, fly the great circle,
+// drive on from the arrival airport. Returns null when both ends resolve to
+// the same airport or either end has no airport within range.
+export async function planFlightItinerary(
+  origin: LatLon,
+  destination: LatLon,
+  originName: string = 'origin',
+  destinationName: string = 'destination'
+): Promise<FlightItinerary | null> {
+  const [departureAirport, arrivalAirport] = await Promise.all([
+    findNearestAirport(origin),
+    findNearestAirport(destination),
+  ]);
+
+  if (!departureAirport || !arrivalAirport || departureAirport.iataCode === arrivalAirport.iataCode) {
+    return null;
+  }
+
+  const departureLabel = `${departureAirport.name} (${departureAirport.iataCode})`;
+  const arrivalLabel = `${arrivalAirport.name} (${arrivalAirport.iataCode})`;
+
+  const [groundOut, groundIn] = await Promise.all([
+    planGroundSegment(origin, departureAirport.coordinates, originName, departureLabel),
+    planGroundSegment(arrivalAirport.coordinates, destination, arrivalLabel, destinationName),
+  ]);
+
+  const arc = greatCirclePoints(departureAirport.coordinates, arrivalAirport.coordinates);
+  const flightDistanceKm = polylineLength(arc);
+  const blockTime = estimateBlockTime(flightDistanceKm);
+
+  const flight: ItinerarySegment = {
+    type: 'flight',
+    from: departureLabel,
+    to: arrivalLabel,
+    coordinates: arc,
+    distance: flightDistanceKm * 1000,
+    duration: blockTime,
+    instructions: [
+      {
+        distance: flightDistanceKm * 1000,
+        duration: blockTime,
+        instruction: `Fly ${departureAirport.iataCode} → ${arrivalAirport.iataCode}`,
+        name: `${departureAirport.iataCode}-${arrivalAirport.iataCode}`,
+        type: 'flight',
+      },
+    ],
+  };
+
+  const segments = [groundOut, flight, groundIn];
+  const groundDistance = groundOut.distance + groundIn.distance;
+  const co2Kg =
+    flightDistanceKm * FLIGHT_DETOUR_FACTOR * flightEmissionFactor(flightDistanceKm) +
+    (groundDistance / 1000) * CAR_CO2_KG_PER_KM;
+
+  return {
+    departureAirport,
+    arrivalAirport,
+    segments,
+    coordinates: segments.flatMap((segment) => segment.coordinates),
+    distance: flight.distance + groundDistance,
+    duration: groundOut.duration + DEPARTURE_BUFFER_SECONDS + blockTime + ARRIVAL_BUFFER_SECONDS + groundIn.duration,
+    flightDistance: flight.distance,
+    groundDistance,
+    blockTime,
+    co2Kg: Math.round(co2Kg * 10) / 10,
+  };
+}
@@ -0,0 +1,148 @@
+// Shared geometry helpers. Points are [lat, lon] throughout, matching the
+// trips table and Leaflet.
+export type LatLon = [number, number];
+
+export function toRad(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+export function toDeg(radians: number): number {
+  return radians * (180 / Math.PI);
+}
+
+// Great-circle distance between two points in km (Haversine formula)
+export function calculateDistance(start: LatLon, end: LatLon): number {
+  const R = 6371; // Earth's radius in km
+  const dLat = toRad(end[0] - start[0]);
+  const dLon = toRad(end[1] - start[1]);
+  const lat1 = toRad(start[0]);
+  const lat2 = toRad(end[0]);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+// Initial bearing from start to end in degrees (0 = north, clockwise)
+export function calculateBearing(start: LatLon, end: LatLon): number {
+  const lat1 = toRad(start[0]);
+  const lat2 = toRad(end[0]);
+  const dLon = toRad(end[1] - start[1]);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+// Total length of a polyline in km
+export function polylineLength(coordinates: LatLon[]): number {
+  let total = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    total += calculateDistance(coordinates[i - 1], coordinates[i]);
+  }
+  return total;
+}
+
+// Points along the great circle from start to end, endpoints included.
+// Longitudes are unwrapped so a Leaflet polyline crossing the antimeridian
+// stays continuous instead of jumping across the map.
+export function greatCirclePoints(start: LatLon, end: LatLon, segments: number = 64): LatLon[] {
+  const lat1 = toRad(start[0]);
+  const lon1 = toRad(start[1]);
+  const lat2 = toRad(end[0]);
+  const lon2 = toRad(end[1]);
+  const angle = calculateDistance(start, end) / 6371;
+
+  if (angle === 0) return [start, end];
+
+  const points: LatLon[] = [];
+  let previousLon = start[1];
+
+  for (let i = 0; i <= segments; i++) {
+    const f = i / segments;
+    const a = Math.sin((1 - f) * angle) / Math.sin(angle);
+    const b = Math.sin(f * angle) / Math.sin(angle);
+    const x = a * Math.cos(lat1) * Math.cos(lon1) + b * Math.cos(lat2) * Math.cos(lon2);
+    const y = a * Math.cos(lat1) * Math.sin(lon1) + b * Math.cos(lat2) * Math.sin(lon2);
+    const z = a * Math.sin(lat1) + b * Math.sin(lat2);
+
+    const lat = toDeg(Math.atan2(z, Math.sqrt(x * x + y * y)));
+    let lon = toDeg(Math.atan2(y, x));
+    while (lon - previousLon > 180) lon -= 360;
+    while (lon - previousLon < -180) lon += 360;
+    previousLon = lon;
+
+    points.push([lat, lon]);
+  }
+
+  return points;
+}
+
+// Point reached by travelling `distance` km from start on the given bearing
+export function destinationPoint(start: LatLon, bearing: number, distance: number): LatLon {
+  const lat1 = toRad(start[0]);
+  const lon1 = toRad(start[1]);
+  const angle = distance / 6371;
+  const theta = toRad(bearing);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angle) + Math.cos(lat1) * Math.sin(angle) * Math.cos(theta)
+  );
+  const lon2 = lon1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angle) * Math.cos(lat1),
+    Math.cos(angle) - Math.sin(lat1) * Math.sin(lat2)
+  );
+
+  return [toDeg(lat2), ((toDeg(lon2) + 540) % 360) - 180];
+}
+
+// Shortest distance in km from a point to the segment start-end, on a local
+// equirectangular projection around the point (accurate for segments up to a
+// few hundred km, which covers routing engine geometry)
+export function distanceToSegment(point: LatLon, start: LatLon, end: LatLon): number {
+  const kmPerDegree = 111.32;
+  const cosLat = Math.cos(toRad(point[0]));
+  const project = ([lat, lon]: LatLon): [number, number] => {
+    let dLon = lon - point[1];
+    if (dLon > 180) dLon -= 360;
+    if (dLon < -180) dLon += 360;
+    return [dLon * kmPerDegree * cosLat, (lat - point[0]) * kmPerDegree];
+  };
+
+  const [ax, ay] = project(start);
+  const [bx, by] = project(end);
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+// Shortest distance in km from a point to any segment of a polyline
+export function distanceToPolyline(point: LatLon, line: LatLon[]): number {
+  if (line.length === 0) return Infinity;
+  if (line.length === 1) return calculateDistance(point, line[0]);
+
+  let minDistance = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    minDistance = Math.min(minDistance, distanceToSegment(point, line[i - 1], line[i]));
+  }
+  return minDistance;
+}
+
+// "lat,lon" as stored in trips.source_coordinates / destination_coordinates
+export function parseLatLon(value: string | null): LatLon | null {
+  if (!value) return null;
+  const [lat, lon] = value.split(',').map(parseFloat);
+  return isNaN(lat) || isNaN(lon) ? null : [lat, lon];
+}
+
+// A [lat, lon] pair from a request body, or null unless both are in range
+export function toLatLon(value: unknown): LatLon | null {
+  if (!Array.isArray(value) || value.length !== 2) return null;
+  const [lat, lon] = value;
+  if (typeof lat !== 'number' || typeof lon !== 'number') return null;
+  if (!(lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180)) return null;
+  return [lat, lon];
+}
@@ -0,0 +1,253 @@
+import { db } from '@/db';
+import { gazetteer } from '@/db/schema';
+import { desc, eq, sql } from 'drizzle-orm';
+import type { LatLon } from '@/lib/geo';
+import { cached } from '@/lib/cache';
+
+// All coordinates leaving this module are [lat, lon], the order Leaflet and the
+// trips table use. Providers that speak GeoJSON ([lon, lat]) convert internally.
+export type { LatLon };
+
+export interface GeocodeResult {
+  coordinates: LatLon;
+  label: string;
+  provider: string;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  search(query: string, limit?: number): Promise<GeocodeResult[]>;
+}
+
+const USER_AGENT = 'TravelCompanionApp/1.0';
+
+// Lowercase, strip accents and collapse whitespace so "São Paulo " matches "sao paulo"
+export function normalizePlaceName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Treat % and _ in user input literally in a LIKE pattern (matched with ESCAPE '\')
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Nominatim (OpenStreetMap) - public instance by default, or a self-hosted one
+export function createNominatimProvider(
+  baseUrl: string = 'https://nominatim.openstreetmap.org'
+): GeocodingProvider {
+  return {
+    name: 'nominatim',
+    async search(query, limit = 1) {
+      const response = await fetch(
+        `${baseUrl}/search?format=json&q=${encodeURIComponent(query)}&limit=${limit}`,
+        { headers: { 'User-Agent': USER_AGENT } }
+      );
+
+      if (!response.ok) {
+        console.error('Nominatim API error:', response.status, response.statusText);
+        return [];
+      }
+
+      const data = await response.json();
+      if (!Array.isArray(data)) return [];
+
+      return data.map((item: any) => ({
+        coordinates: [parseFloat(item.lat), parseFloat(item.lon)] as LatLon,
+        label: item.display_name || query,
+        provider: 'nominatim',
+      }));
+    },
+  };
+}
+
+// Photon returns a GeoJSON FeatureCollection with [lon, lat] point geometries
+export function createPhotonProvider(baseUrl: string): GeocodingProvider {
+  return {
+    name: 'photon',
+    async search(query, limit = 1) {
+      const response = await fetch(
+        `${baseUrl}/api?q=${encodeURIComponent(query)}&limit=${limit}`,
+        { headers: { 'User-Agent': USER_AGENT } }
+      );
+
+      if (!response.ok) {
+        console.error('Photon API error:', response.status, response.statusText);
+        return [];
+      }
+
+      const data = await response.json();
+      return featuresToResults(data?.features, 'photon', (props) =>
+        [props.name, props.city, props.state, props.country].filter(Boolean).join(', ')
+      );
+    },
+  };
+}
+
+// Pelias speaks the same GeoJSON shape as Photon but exposes a ready-made label
+export function createPeliasProvider(baseUrl: string): GeocodingProvider {
+  return {
+    name: 'pelias',
+    async search(query, limit = 1) {
+      const response = await fetch(
+        `${baseUrl}/v1/search?text=${encodeURIComponent(query)}&size=${limit}`,
+        { headers: { 'User-Agent': USER_AGENT } }
+      );
+
+      if (!response.ok) {
+        console.error('Pelias API error:', response.status, response.statusText);
+        return [];
+      }
+
+      const data = await response.json();
+      return featuresToResults(data?.features, 'pelias', (props) => props.label);
+    },
+  };
+}
+
+function featuresToResults(
+  features: any[] | undefined,
+  provider: string,
+  getLabel: (properties: any) => string | undefined
+): GeocodeResult[] {
+  if (!Array.isArray(features)) return [];
+
+  return features
+    .filter((feature) => feature?.geometry?.type === 'Point')
+    .map((feature) => {
+      const [lon, lat] = feature.geometry.coordinates;
+      return {
+        coordinates: [lat, lon] as LatLon,
+        label: getLabel(feature.properties || {}) || '',
+        provider,
+      };
+    });
+}
+
+// Offline gazetteer backed by the local `gazetteer` table (see src/db/seeds/gazetteer.ts).
+// "Portland, Oregon, USA" is looked up by its first part; the remaining parts are
+// used to prefer the entry whose region or country matches.
+export function createGazetteerProvider(): GeocodingProvider {
+  return {
+    name: 'gazetteer',
+    async search(query, limit = 1) {
+      const parts = query.split(',').map(normalizePlaceName).filter(Boolean);
+      if (parts.length === 0) return [];
+
+      const [place, ...qualifiers] = parts;
+
+      let candidates = await db
+        .select()
+        .from(gazetteer)
+        .where(eq(gazetteer.normalizedName, place))
+        .orderBy(desc(gazetteer.population))
+        .limit(20);
+
+      if (candidates.length === 0) {
+        candidates = await db
+          .select()
+          .from(gazetteer)
+          .where(sql`${gazetteer.normalizedName} LIKE ${escapeLikePattern(place) + '%'} ESCAPE '\\'`)
+          .orderBy(desc(gazetteer.population))
+          .limit(20);
+      }
+
+      const qualifierScore = (entry: typeof candidates[number]) => {
+        const haystack = [entry.region, entry.country, entry.countryCode]
+          .filter(Boolean)
+          .map((value) => normalizePlaceName(value as string));
+        return qualifiers.filter((q) => haystack.includes(q)).length;
+      };
+
+      return candidates
+        .map((entry, index) => ({ entry, index, score: qualifierScore(entry) }))
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, limit)
+        .map(({ entry }) => ({
+          coordinates: [entry.latitude, entry.longitude] as LatLon,
+          label: [entry.name, entry.region, entry.country].filter(Boolean).join(', '),
+          provider: 'gazetteer',
+        }));
+    },
+  };
+}
+
+function createProvider(name: string): GeocodingProvider | null {
+  const baseUrl = process.env.GEOCODING_URL;
+
+  switch (name) {
+    case 'nominatim':
+      return createNominatimProvider(baseUrl || undefined);
+    case 'photon':
+      return baseUrl ? createPhotonProvider(baseUrl) : null;
+    case 'pelias':
+      return baseUrl ? createPeliasProvider(baseUrl) : null;
+    case 'gazetteer':
+      return createGazetteerProvider();
+    default:
+      return null;
+  }
+}
+
+// GEOCODING_PROVIDER is a comma-separated chain tried in order, e.g.
+// "photon,gazetteer" to fall back to the offline table when Photon is down.
+// Self-hosted Photon/Pelias/Nominatim instances are addressed with GEOCODING_URL.
+let providerChain: GeocodingProvider[] | null = null;
+
+export function getGeocodingProviders(): GeocodingProvider[] {
+  if (providerChain) return providerChain;
+
+  const names = (process.env.GEOCODING_PROVIDER || 'nominatim')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  providerChain = names
+    .map((name) => {
+      const provider = createProvider(name);
+      if (!provider) {
+        console.warn(`⚠️ Geocoding provider "${name}" is unknown or missing GEOCODING_URL, skipping.`);
+      }
+      return provider;
+    })
+    .filter((provider): provider is GeocodingProvider => provider !== null);
+
+  if (providerChain.length === 0) {
+    providerChain = [createNominatimProvider()];
+  }
+
+  return providerChain;
+}
+
+// Return up to `limit` candidates from the first provider that yields any
+export async function searchLocations(query: string, limit: number = 5): Promise<GeocodeResult[]> {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const providers = getGeocodingProviders();
+  const key = `${providers.map(provider => provider.name).join(',')}:${limit}:${normalizePlaceName(trimmed)}`;
+
+  // Empty results are not cached so a provider outage doesn't stick
+  return cached('geocode', key, async () => {
+    for (const provider of providers) {
+      try {
+        const results = await provider.search(trimmed, limit);
+        if (results.length > 0) return results;
+      } catch (error) {
+        console.error(`Geocoding error (${provider.name}):`, error);
+      }
+    }
+
+    return [];
+  }, results => results.length > 0);
+}
+
+// Resolve a free-text location to [lat, lon], or null if no provider finds it
+export async function geocode(location: string): Promise<LatLon | null> {
+  const results = await searchLocations(location, 1);
+  return results.length > 0 ? results[0].coordinates : null;
+}
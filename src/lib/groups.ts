@@ -0,0 +1,191 @@
+import { db } from '@/db';
+import { groupMembers, groups, tripMatches, trips } from '@/db/schema';
+import { and, eq, inArray, or } from 'drizzle-orm';
+import { calculateDistance, type LatLon } from '@/lib/geo';
+import { getRoutingEngine, type RouteLeg, type TransportMode } from '@/lib/routing';
+import type { GroupMeetingPoint } from '@/lib/chatContent';
+
+export interface CombinedWaypoint {
+  lat: number;
+  lon: number;
+  type: 'pickup' | 'dropoff';
+  userId: string;
+  location: string;
+  atMeetingPoint?: boolean; // picked up at the group's official meeting point
+}
+
+export interface CombinedRoute {
+  coordinates: LatLon[];
+  distance: number; // in meters
+  duration: number; // in seconds
+  waypoints: CombinedWaypoint[];
+  // legs[i] runs from waypoints[i] to waypoints[i + 1]
+  legs: RouteLeg[];
+  transportMode: TransportMode;
+}
+
+type TripRow = typeof trips.$inferSelect;
+
+// Calculate optimal combined route for all group members. With an official
+// meeting point, everyone but the driver (or the first member when nobody
+// drives) is picked up there instead of at their own source.
+export async function calculateCombinedRoute(
+  memberTrips: TripRow[],
+  meetingPoint: GroupMeetingPoint | null = null
+): Promise<CombinedRoute | null> {
+  if (memberTrips.length === 0) return null;
+
+  const drivers = memberTrips.filter(trip => trip.role === 'driver');
+  const startingTrips = drivers.length > 0 ? drivers : memberTrips.slice(0, 1);
+
+  // Collect all unique waypoints
+  const waypoints: CombinedWaypoint[] = [];
+
+  for (const trip of memberTrips) {
+    // Add source point
+    if (meetingPoint && !startingTrips.includes(trip)) {
+      waypoints.push({
+        lat: meetingPoint.coordinates[0],
+        lon: meetingPoint.coordinates[1],
+        type: 'pickup',
+        userId: trip.userId,
+        location: meetingPoint.label,
+        atMeetingPoint: true,
+      });
+    } else if (trip.sourceCoordinates) {
+      const [lat, lon] = trip.sourceCoordinates.split(',').map(parseFloat);
+      waypoints.push({
+        lat,
+        lon,
+        type: 'pickup',
+        userId: trip.userId,
+        location: trip.source
+      });
+    }
+
+    // Add destination point
+    if (trip.destinationCoordinates) {
+      const [lat, lon] = trip.destinationCoordinates.split(',').map(parseFloat);
+      waypoints.push({
+        lat,
+        lon,
+        type: 'dropoff',
+        userId: trip.userId,
+        location: trip.destination
+      });
+    }
+  }
+
+  if (waypoints.length === 0) return null;
+
+  // Sort waypoints to create efficient route
+  // Start with first pickup; the meeting point comes after the driver's start
+  const pickups = [
+    ...waypoints.filter(w => w.type === 'pickup' && !w.atMeetingPoint),
+    ...waypoints.filter(w => w.type === 'pickup' && w.atMeetingPoint),
+  ];
+  const dropoffs = waypoints.filter(w => w.type === 'dropoff');
+
+  if (pickups.length === 0 || dropoffs.length === 0) return null;
+
+  // Simple optimization: pickup all passengers first, then drop off at destinations
+  const orderedWaypoints = [...pickups, ...dropoffs];
+
+  // Get transport mode from first trip
+  const transportMode = (memberTrips[0].transportMode || 'car') as TransportMode;
+
+  // Calculate route through all waypoints using the configured routing engine
+  const points = orderedWaypoints.map(wp => [wp.lat, wp.lon] as LatLon);
+  const [route] = await getRoutingEngine().route(points, transportMode);
+
+  if (!route) {
+    console.error('Combined route calculation failed');
+    return null;
+  }
+
+  // Engines that could not split the route per waypoint get straight-line
+  // legs scaled to the route's total distance
+  let legs = route.legs;
+  if (legs.length !== points.length - 1) {
+    const straight = points.slice(1).map((point, index) => calculateDistance(points[index], point));
+    const straightTotal = straight.reduce((sum, distance) => sum + distance, 0) || 1;
+    legs = straight.map(distance => ({
+      distance: route.distance * distance / straightTotal,
+      duration: route.duration * distance / straightTotal,
+      instructions: [],
+    }));
+  }
+
+  return {
+    coordinates: route.coordinates,
+    distance: route.distance,
+    duration: route.duration,
+    waypoints: orderedWaypoints,
+    legs,
+    transportMode
+  };
+}
+
+// The group's official meeting point, if one was agreed in the chat
+export async function getGroupMeetingPoint(groupId: number): Promise<GroupMeetingPoint | null> {
+  const [group] = await db
+    .select({ meetingPoint: groups.meetingPoint })
+    .from(groups)
+    .where(eq(groups.id, groupId))
+    .limit(1);
+  return (group?.meetingPoint as GroupMeetingPoint | null) ?? null;
+}
+
+// The group's trip and the members' trips paired into it by an accepted
+// match, those still active on the group trip's date. A group that isn't for
+// a trip (or whose trip was deleted) has none.
+export async function getGroupMemberTrips(groupId: number): Promise<TripRow[]> {
+  const [groupTrip] = await db
+    .select({ trip: trips })
+    .from(groups)
+    .innerJoin(trips, eq(groups.tripId, trips.id))
+    .where(eq(groups.id, groupId))
+    .limit(1);
+  if (!groupTrip) return [];
+  const { id: tripId, travelDate } = groupTrip.trip;
+
+  const members = await db
+    .select()
+    .from(groupMembers)
+    .where(eq(groupMembers.groupId, groupId));
+
+  const memberUserIds = members.map(m => m.userId);
+  if (memberUserIds.length === 0) return [];
+
+  const paired = await db
+    .select({ tripId: tripMatches.tripId, matchedTripId: tripMatches.matchedTripId })
+    .from(tripMatches)
+    .where(
+      and(
+        eq(tripMatches.status, 'accepted'),
+        or(eq(tripMatches.tripId, tripId), eq(tripMatches.matchedTripId, tripId))
+      )
+    );
+  const tripIds = new Set([tripId, ...paired.flatMap(match => [match.tripId, match.matchedTripId])]);
+
+  return db
+    .select()
+    .from(trips)
+    .where(
+      and(
+        inArray(trips.id, [...tripIds]),
+        inArray(trips.userId, memberUserIds),
+        eq(trips.travelDate, travelDate),
+        eq(trips.status, 'active')
+      )
+    );
+}
+
+export async function isGroupMember(groupId: number, userId: string): Promise<boolean> {
+  const [membership] = await db
+    .select({ id: groupMembers.id })
+    .from(groupMembers)
+    .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)))
+    .limit(1);
+  return !!membership;
+}
@@ -0,0 +1,129 @@
+import * as React from 'react';
+import type { LivePosition, PickupEta, ShareEndReason } from '@/lib/liveLocation';
+import type { GroupEventPayloads, GroupEventType } from '@/lib/realtime';
+
+// Client for /api/groups/[id]/events. EventSource can't send the bearer
+// token, so the stream is read with fetch. Reconnects with backoff and
+// resumes from the last event id it saw.
+
+// A stored event's type with its data, so checking the type narrows the data
+export type GroupEventArgs<M> = { [T in GroupEventType]: [type: T, data: GroupEventPayloads<M>[T]] }[GroupEventType];
+
+export interface GroupEventHandlers<M> {
+  onReady?: (ready: { cursor: number; online: string[] }) => void;
+  onEvent: (...event: GroupEventArgs<M>) => void;
+  onTyping?: (typing: { userId: string; name: string }) => void;
+  onPresence?: (online: string[]) => void;
+  onRead?: (read: { userId: string; lastReadMessageId: number }) => void;
+  onLocation?: (location: {
+    userId: string;
+    name: string;
+    position: LivePosition;
+    expiresAt: string;
+    etas: PickupEta[];
+  }) => void;
+  onLocationStopped?: (stopped: { userId: string; reason: ShareEndReason }) => void;
+}
+
+const MAX_RETRY_DELAY_MS = 30000;
+
+export function useGroupEvents<M>(groupId: string | null, handlers: GroupEventHandlers<M>) {
+  const [connected, setConnected] = React.useState(false);
+  const handlersRef = React.useRef(handlers);
+  handlersRef.current = handlers;
+
+  React.useEffect(() => {
+    if (!groupId) return;
+
+    const controller = new AbortController();
+    let cursor: number | null = null;
+    let attempt = 0;
+
+    const dispatch = (event: string, id: string | null, data: string) => {
+      const payload = JSON.parse(data);
+      if (id) cursor = parseInt(id);
+
+      if (event === 'ready') {
+        cursor = payload.cursor;
+        handlersRef.current.onReady?.(payload);
+        handlersRef.current.onPresence?.(payload.online);
+      } else if (event === 'typing') {
+        handlersRef.current.onTyping?.(payload);
+      } else if (event === 'presence') {
+        handlersRef.current.onPresence?.(payload.online);
+      } else if (event === 'read') {
+        handlersRef.current.onRead?.(payload);
+      } else if (event === 'location') {
+        handlersRef.current.onLocation?.(payload);
+      } else if (event === 'location_stopped') {
+        handlersRef.current.onLocationStopped?.(payload);
+      } else {
+        handlersRef.current.onEvent(...[event, payload] as GroupEventArgs<M>);
+      }
+    };
+
+    const connect = async () => {
+      const token = localStorage.getItem('bearer_token');
+      const query = cursor !== null ? `?since=${cursor}` : '';
+      const response = await fetch(`/api/groups/${groupId}/events${query}`, {
+        headers: { Authorization: `Bearer ${token}` },
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`Event stream failed with ${response.status}`);
+      }
+
+      setConnected(true);
+      attempt = 0;
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        // Events are separated by a blank line
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const block = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+
+          let event = 'message';
+          let id: string | null = null;
+          const data: string[] = [];
+          for (const line of block.split('\n')) {
+            if (line.startsWith(':')) continue;
+            const [field, ...rest] = line.split(':');
+            const fieldValue = rest.join(':').replace(/^ /, '');
+            if (field === 'event') event = fieldValue;
+            else if (field === 'id') id = fieldValue;
+            else if (field === 'data') data.push(fieldValue);
+          }
+          if (data.length > 0) dispatch(event, id, data.join('\n'));
+        }
+      }
+    };
+
+    const run = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          await connect();
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          console.error('Group event stream error:', err);
+        }
+        setConnected(false);
+
+        const delay = Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS);
+        attempt++;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    };
+
+    run();
+    return () => controller.abort();
+  }, [groupId]);
+
+  return { connected };
+}
@@ -0,0 +1,153 @@
+import { calculateBearing, calculateDistance, destinationPoint, toRad, type LatLon } from '@/lib/geo';
+import { getRoutingEngine, type EngineRoute, type IsochroneBand, type TransportMode } from '@/lib/routing';
+
+export const ISOCHRONE_MODES: TransportMode[] = ['car', 'cycling', 'walking', 'bus', 'train'];
+export const MAX_ISOCHRONE_BANDS = 4;
+export const MAX_ISOCHRONE_MINUTES = 120;
+
+export interface IsochroneProperties {
+  minutes: number;
+  mode: TransportMode;
+  radiusKm: number; // median distance from the origin to the band's edge
+  areaKm2: number;
+  suggestedMatchRadius: number; // whole km, within the trips API's 1-100 range
+}
+
+export interface IsochroneFeature {
+  type: 'Feature';
+  properties: IsochroneProperties;
+  geometry: { type: 'Polygon'; coordinates: number[][][] }; // GeoJSON [lon, lat]
+}
+
+export interface IsochroneCollection {
+  type: 'FeatureCollection';
+  features: IsochroneFeature[];
+}
+
+// Sampling fallback for engines without a native isochrone service: route
+// towards points on a ring in each direction and walk along each route until
+// the band's time runs out.
+const SAMPLE_BEARINGS = 16;
+const SAMPLE_BATCH_SIZE = 4;
+
+// Optimistic speeds (km/h) used to place the probe points beyond reach
+const PROBE_SPEEDS: Record<TransportMode, number> = {
+  car: 100,
+  cycling: 25,
+  walking: 6,
+  bus: 80,
+  train: 100,
+  flight: 100,
+};
+
+// Point along the route reached after `seconds`, assuming an even pace along the geometry
+function pointAtTime(route: EngineRoute, seconds: number): LatLon {
+  const coordinates = route.coordinates;
+  if (seconds >= route.duration || coordinates.length < 2) {
+    return coordinates[coordinates.length - 1];
+  }
+
+  const segmentLengths = coordinates.slice(1).map((point, i) => calculateDistance(coordinates[i], point));
+  const totalLength = segmentLengths.reduce((sum, length) => sum + length, 0);
+  let remaining = totalLength * seconds / route.duration;
+
+  for (let i = 0; i < segmentLengths.length; i++) {
+    if (remaining <= segmentLengths[i]) {
+      const t = segmentLengths[i] > 0 ? remaining / segmentLengths[i] : 0;
+      const [lat1, lon1] = coordinates[i];
+      const [lat2, lon2] = coordinates[i + 1];
+      return [lat1 + (lat2 - lat1) * t, lon1 + (lon2 - lon1) * t];
+    }
+    remaining -= segmentLengths[i];
+  }
+
+  return coordinates[coordinates.length - 1];
+}
+
+async function sampleIsochrones(origin: LatLon, mode: TransportMode, minutes: number[]): Promise<IsochroneBand[]> {
+  const engine = getRoutingEngine();
+  const probeDistance = Math.max(...minutes) / 60 * PROBE_SPEEDS[mode];
+  const bearings = Array.from({ length: SAMPLE_BEARINGS }, (_, i) => i * 360 / SAMPLE_BEARINGS);
+
+  // Small batches keep public routing servers from rate-limiting us
+  const routes: (EngineRoute | null)[] = [];
+  for (let i = 0; i < bearings.length; i += SAMPLE_BATCH_SIZE) {
+    const batch = await Promise.all(bearings.slice(i, i + SAMPLE_BATCH_SIZE).map(async (bearing) => {
+      const [route] = await engine.route([origin, destinationPoint(origin, bearing, probeDistance)], mode);
+      if (route) return route;
+      // The probe may have landed in the sea or a roadless area; try closer in
+      const [closer] = await engine.route([origin, destinationPoint(origin, bearing, probeDistance / 2)], mode);
+      return closer ?? null;
+    }));
+    routes.push(...batch);
+  }
+
+  const reachable = routes.filter((route): route is EngineRoute => route !== null && route.coordinates.length > 0);
+  if (reachable.length < 3) return [];
+
+  return minutes.map(limit => {
+    // Order by actual bearing so roads that wander sideways don't twist the ring
+    const edge = reachable
+      .map(route => pointAtTime(route, limit * 60))
+      .sort((a, b) => calculateBearing(origin, a) - calculateBearing(origin, b));
+    return { minutes: limit, polygon: [...edge, edge[0]] };
+  });
+}
+
+// Reachable bands around `origin`, from the engine's isochrone service when it
+// has one, otherwise sampled from routes
+export async function computeIsochrones(origin: LatLon, mode: TransportMode, minutes: number[]): Promise<IsochroneBand[]> {
+  const engine = getRoutingEngine();
+  const bands = engine.isochrone
+    ? await engine.isochrone(origin, mode, minutes)
+    : await sampleIsochrones(origin, mode, minutes);
+
+  return bands.filter(band => band.polygon.length >= 4);
+}
+
+// Area of a [lat, lon] ring in km², on a local equirectangular projection
+function ringArea(ring: LatLon[], origin: LatLon): number {
+  const kmPerDegree = 111.32;
+  const cosLat = Math.cos(toRad(origin[0]));
+  let area = 0;
+  for (let i = 1; i < ring.length; i++) {
+    const x1 = ring[i - 1][1] * kmPerDegree * cosLat;
+    const y1 = ring[i - 1][0] * kmPerDegree;
+    const x2 = ring[i][1] * kmPerDegree * cosLat;
+    const y2 = ring[i][0] * kmPerDegree;
+    area += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(area) / 2;
+}
+
+function medianRadius(ring: LatLon[], origin: LatLon): number {
+  const distances = ring.slice(0, -1).map(point => calculateDistance(origin, point)).sort((a, b) => a - b);
+  if (distances.length === 0) return 0;
+  const middle = Math.floor(distances.length / 2);
+  return distances.length % 2 === 1 ? distances[middle] : (distances[middle - 1] + distances[middle]) / 2;
+}
+
+// GeoJSON for the API and map, largest band first so smaller ones draw on top
+export function toIsochroneCollection(origin: LatLon, mode: TransportMode, bands: IsochroneBand[]): IsochroneCollection {
+  const features = [...bands]
+    .sort((a, b) => b.minutes - a.minutes)
+    .map((band): IsochroneFeature => {
+      const radiusKm = medianRadius(band.polygon, origin);
+      return {
+        type: 'Feature',
+        properties: {
+          minutes: band.minutes,
+          mode,
+          radiusKm: Math.round(radiusKm * 10) / 10,
+          areaKm2: Math.round(ringArea(band.polygon, origin) * 10) / 10,
+          suggestedMatchRadius: Math.min(100, Math.max(1, Math.round(radiusKm))),
+        },
+        geometry: {
+          type: 'Polygon',
+          coordinates: [band.polygon.map(([lat, lon]) => [lon, lat])],
+        },
+      };
+    });
+
+  return { type: 'FeatureCollection', features };
+}
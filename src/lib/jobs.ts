@@ -0,0 +1,150 @@
+import { db } from '@/db';
+import { jobs } from '@/db/schema';
+import { and, asc, eq, lte, sql } from 'drizzle-orm';
+
+// SQLite-backed job queue. Producers enqueue from API routes, delayed jobs
+// wait until runAt; a worker (src/workers/matching.ts) claims one job at a time, retries failures with
+// exponential backoff and gives up after maxAttempts.
+
+export interface JobPayloads {
+  match_trip: { tripId: number };
+  close_poll: { messageId: number };
+}
+
+export type JobType = keyof JobPayloads;
+
+export type Job = typeof jobs.$inferSelect;
+
+export type JobHandlers = { [T in JobType]: (payload: JobPayloads[T]) => Promise<unknown> };
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 3600;
+
+// A running job whose worker hasn't finished in this long is assumed dead
+const LOCK_TIMEOUT_SECONDS = 300;
+
+function secondsFromNow(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString();
+}
+
+// Queue a job. With an idempotency key, a job still waiting under the same key
+// absorbs the new request instead of queueing a duplicate; a job that is
+// already running does not, since it may have read state that is now stale.
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: { idempotencyKey?: string; delaySeconds?: number; maxAttempts?: number } = {}
+): Promise<Job> {
+  const runAt = secondsFromNow(options.delaySeconds ?? 0);
+
+  if (options.idempotencyKey) {
+    const [waiting] = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.idempotencyKey, options.idempotencyKey), eq(jobs.status, 'pending')))
+      .limit(1);
+    if (waiting) return waiting;
+  }
+
+  const now = new Date().toISOString();
+  const [job] = await db
+    .insert(jobs)
+    .values({
+      type,
+      payload,
+      status: 'pending',
+      idempotencyKey: options.idempotencyKey ?? null,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+  return job;
+}
+
+// Put jobs of crashed workers back in the queue
+async function releaseStaleJobs() {
+  await db
+    .update(jobs)
+    .set({ status: 'pending', lockedAt: null, lockedBy: null, updatedAt: new Date().toISOString() })
+    .where(and(eq(jobs.status, 'running'), lte(jobs.lockedAt, secondsFromNow(-LOCK_TIMEOUT_SECONDS))));
+}
+
+// Atomically take the next due job, or null when the queue is idle
+export async function claimJob(workerId: string): Promise<Job | null> {
+  await releaseStaleJobs();
+
+  const now = new Date().toISOString();
+  const next = db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(and(eq(jobs.status, 'pending'), lte(jobs.runAt, now)))
+    .orderBy(asc(jobs.runAt), asc(jobs.id))
+    .limit(1);
+
+  // The status check makes a race with another worker claim nothing
+  const [job] = await db
+    .update(jobs)
+    .set({
+      status: 'running',
+      attempts: sql`${jobs.attempts} + 1`,
+      lockedAt: now,
+      lockedBy: workerId,
+      updatedAt: now,
+    })
+    .where(and(eq(jobs.id, sql`(${next})`), eq(jobs.status, 'pending')))
+    .returning();
+  return job ?? null;
+}
+
+export async function completeJob(job: Job) {
+  await db
+    .update(jobs)
+    .set({ status: 'done', lockedAt: null, lockedBy: null, lastError: null, updatedAt: new Date().toISOString() })
+    .where(eq(jobs.id, job.id));
+}
+
+// Retry after 30 s, 60 s, 120 s, ... up to an hour; fail for good after maxAttempts
+export async function failJob(job: Job, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  const exhausted = job.attempts >= job.maxAttempts;
+  const delay = Math.min(BASE_RETRY_DELAY_SECONDS * 2 ** (job.attempts - 1), MAX_RETRY_DELAY_SECONDS);
+
+  await db
+    .update(jobs)
+    .set({
+      status: exhausted ? 'failed' : 'pending',
+      runAt: exhausted ? job.runAt : secondsFromNow(delay),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: message,
+      updatedAt: new Date().toISOString(),
+    })
+    .where(eq(jobs.id, job.id));
+}
+
+// Claim and run one job. Returns false when there was nothing to do.
+export async function runNextJob(workerId: string, handlers: JobHandlers): Promise<boolean> {
+  const job = await claimJob(workerId);
+  if (!job) return false;
+
+  try {
+    // The payload was stored for this job type by enqueueJob
+    const handler = handlers[job.type as JobType] as ((payload: unknown) => Promise<unknown>) | undefined;
+    if (!handler) throw new Error(`No handler for job type "${job.type}"`);
+    await handler(job.payload);
+    await completeJob(job);
+  } catch (error) {
+    console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+    await failJob(job, error);
+  }
+  return true;
+}
+
+// Matching reruns whenever a trip changes; one waiting job per trip is enough
+export function enqueueTripMatching(tripId: number) {
+  return enqueueJob('match_trip', { tripId }, { idempotencyKey: `match_trip:${tripId}` });
+}
@@ -0,0 +1,226 @@
+import { db } from '@/db';
+import { groupCostSplits, groupLedgerEntries } from '@/db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { getExchangeRate } from '@/lib/costs';
+import type { CombinedRoute } from '@/lib/groups';
+
+export type SplitMethod = 'equal' | 'distance' | 'custom';
+
+export const SPLIT_METHODS: SplitMethod[] = ['equal', 'distance', 'custom'];
+
+export interface MemberShare {
+  userId: string;
+  distance: number; // meters ridden on the combined route
+  share: number; // fraction of the total, 0..1
+  amount: number;
+}
+
+export interface Balance {
+  fromUserId: string;
+  toUserId: string;
+  amount: number;
+  currency: string;
+}
+
+type LedgerEntry = typeof groupLedgerEntries.$inferSelect;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Distance each member spends on board, from their first pickup to their last dropoff
+export function distanceRidden(route: CombinedRoute, userId: string): number {
+  const indices = route.waypoints
+    .map((waypoint, index) => (waypoint.userId === userId ? index : -1))
+    .filter(index => index >= 0);
+  if (indices.length < 2) return 0;
+
+  const from = Math.min(...indices);
+  const to = Math.max(...indices);
+  return route.legs.slice(from, to).reduce((sum, leg) => sum + leg.distance, 0);
+}
+
+// Split a route's cost between members.
+// - equal: everyone pays the same
+// - distance: each leg's cost is shared by the members on board for it;
+//   legs nobody rides are carried by the payer
+// - custom: proportional to organizer-supplied weights
+// Amounts are rounded to cents with the remainder given to the largest share.
+export function splitRouteCost(
+  route: CombinedRoute,
+  totalCost: number,
+  method: SplitMethod,
+  memberIds: string[],
+  payerId: string,
+  customShares?: Record<string, number>
+): MemberShare[] {
+  const raw = new Map<string, number>(memberIds.map(userId => [userId, 0]));
+
+  if (method === 'equal') {
+    for (const userId of memberIds) {
+      raw.set(userId, totalCost / memberIds.length);
+    }
+  } else if (method === 'custom') {
+    const weights = memberIds.map(userId => Math.max(0, customShares?.[userId] ?? 0));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    memberIds.forEach((userId, index) => {
+      raw.set(userId, totalWeight > 0 ? totalCost * weights[index] / totalWeight : 0);
+    });
+  } else {
+    const routeDistance = route.legs.reduce((sum, leg) => sum + leg.distance, 0) || 1;
+    const boardings = memberIds.map(userId => {
+      const indices = route.waypoints
+        .map((waypoint, index) => (waypoint.userId === userId ? index : -1))
+        .filter(index => index >= 0);
+      return { userId, from: Math.min(...indices), to: Math.max(...indices) };
+    });
+
+    route.legs.forEach((leg, legIndex) => {
+      const legCost = totalCost * leg.distance / routeDistance;
+      const onBoard = boardings.filter(b => b.from <= legIndex && legIndex < b.to);
+      if (onBoard.length === 0) {
+        raw.set(payerId, (raw.get(payerId) ?? 0) + legCost);
+        return;
+      }
+      for (const boarding of onBoard) {
+        raw.set(boarding.userId, (raw.get(boarding.userId) ?? 0) + legCost / onBoard.length);
+      }
+    });
+  }
+
+  const shares = memberIds.map(userId => ({
+    userId,
+    distance: Math.round(distanceRidden(route, userId)),
+    share: totalCost > 0 ? (raw.get(userId) ?? 0) / totalCost : 0,
+    amount: round2(raw.get(userId) ?? 0),
+  }));
+
+  const remainder = round2(totalCost - shares.reduce((sum, share) => sum + share.amount, 0));
+  if (remainder !== 0 && shares.length > 0) {
+    const largest = shares.reduce((max, share) => (share.amount > max.amount ? share : max), shares[0]);
+    largest.amount = round2(largest.amount + remainder);
+  }
+
+  return shares;
+}
+
+export async function getActiveSplit(groupId: number) {
+  const rows = await db
+    .select()
+    .from(groupCostSplits)
+    .where(and(eq(groupCostSplits.groupId, groupId), eq(groupCostSplits.status, 'active')))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+// Record a new split for a group: supersede the old one and charge every
+// member except the payer for their share
+export async function recordCostSplit(values: {
+  groupId: number;
+  method: SplitMethod;
+  payerId: string;
+  currency: string;
+  totalCost: number;
+  costBreakdown: unknown;
+  shares: MemberShare[];
+  createdBy: string;
+}) {
+  const now = new Date().toISOString();
+
+  await db
+    .update(groupCostSplits)
+    .set({ status: 'superseded' })
+    .where(and(eq(groupCostSplits.groupId, values.groupId), eq(groupCostSplits.status, 'active')));
+
+  const [split] = await db
+    .insert(groupCostSplits)
+    .values({ ...values, status: 'active', createdAt: now })
+    .returning();
+
+  const charges = values.shares
+    .filter(share => share.userId !== values.payerId && share.amount > 0)
+    .map(share => ({
+      groupId: values.groupId,
+      splitId: split.id,
+      type: 'charge',
+      fromUserId: share.userId,
+      toUserId: values.payerId,
+      amount: share.amount,
+      currency: values.currency,
+      note: `${values.method} split of ${values.currency} ${values.totalCost.toFixed(2)}`,
+      createdBy: values.createdBy,
+      createdAt: now,
+    }));
+
+  if (charges.length > 0) {
+    await db.insert(groupLedgerEntries).values(charges);
+  }
+
+  return split;
+}
+
+// Ledger entries that count: charges of the active split plus every settlement
+export async function getLedgerEntries(groupId: number, activeSplitId: number | null): Promise<LedgerEntry[]> {
+  const entries = await db
+    .select()
+    .from(groupLedgerEntries)
+    .where(eq(groupLedgerEntries.groupId, groupId))
+    .orderBy(asc(groupLedgerEntries.createdAt), asc(groupLedgerEntries.id));
+
+  return entries.filter(entry => entry.type === 'settlement' || entry.splitId === activeSplitId);
+}
+
+// Net outstanding debt per pair of members in `currency`; settled pairs are
+// omitted. Entries in other currencies (settlements of an earlier split) are
+// converted at the current exchange rate, or left out when there is none.
+export async function computeBalances(entries: LedgerEntry[], currency: string): Promise<Balance[]> {
+  const rates = new Map<string, number | null>();
+  for (const entryCurrency of new Set(entries.map(entry => entry.currency))) {
+    const rate = await getExchangeRate(entryCurrency, currency);
+    if (rate === null) console.warn(`No exchange rate from ${entryCurrency} to ${currency}, leaving its entries out of the balances`);
+    rates.set(entryCurrency, rate);
+  }
+
+  const net = new Map<string, number>();
+
+  for (const entry of entries) {
+    const rate = rates.get(entry.currency);
+    if (rate == null) continue;
+    const sign = entry.type === 'charge' ? 1 : -1;
+    const [a, b] = [entry.fromUserId, entry.toUserId].sort();
+    const direction = entry.fromUserId === a ? 1 : -1;
+    const key = `${a}\n${b}`;
+    net.set(key, (net.get(key) ?? 0) + sign * direction * entry.amount * rate);
+  }
+
+  const balances: Balance[] = [];
+  for (const [key, amount] of net) {
+    const [a, b] = key.split('\n');
+    const rounded = round2(amount);
+    if (rounded > 0) balances.push({ fromUserId: a, toUserId: b, amount: rounded, currency });
+    if (rounded < 0) balances.push({ fromUserId: b, toUserId: a, amount: -rounded, currency });
+  }
+  return balances;
+}
+
+export async function recordSettlement(values: {
+  groupId: number;
+  fromUserId: string;
+  toUserId: string;
+  amount: number;
+  currency: string;
+  note?: string | null;
+  createdBy: string;
+}) {
+  const [entry] = await db
+    .insert(groupLedgerEntries)
+    .values({
+      ...values,
+      splitId: null,
+      type: 'settlement',
+      note: values.note || null,
+      createdAt: new Date().toISOString(),
+    })
+    .returning();
+  return entry;
+}
@@ -0,0 +1,356 @@
+import { db } from '@/db';
+import { groups, locationPoints, locationShares, trips, user } from '@/db/schema';
+import { and, asc, eq, gt, inArray, isNull, lt, lte } from 'drizzle-orm';
+import { calculateDistance, distanceToSegment, toLatLon, type LatLon } from '@/lib/geo';
+import { calculateCombinedRoute, getGroupMeetingPoint, getGroupMemberTrips, type CombinedRoute } from '@/lib/groups';
+
+// Live location sharing during a group trip. A member opts in for a limited
+// time; their positions are kept as a short trail (older points are pruned)
+// and pushed to connected members as `location` signals (src/lib/realtime.ts).
+// A share ends when the member stops it, when its trip is no longer active or
+// when it expires; positions posted after that are refused so the client
+// stops watching. Drivers' positions come with an ETA to each pickup still
+// ahead of them on the group's combined route.
+
+export const DEFAULT_SHARE_MINUTES = 60;
+export const MAX_SHARE_MINUTES = 240;
+export const TRAIL_MINUTES = 15;
+
+export type ShareEndReason = 'stopped' | 'expired' | 'trip_ended';
+
+export type LocationShare = typeof locationShares.$inferSelect;
+
+export interface LivePosition {
+  lat: number;
+  lon: number;
+  accuracy: number | null;
+  heading: number | null;
+  speed: number | null;
+  recordedAt: string;
+}
+
+export interface PickupEta {
+  userId: string;
+  location: string;
+  etaSeconds: number;
+  arrivalAt: string;
+}
+
+export type LocationError =
+  | 'INVALID_DURATION'
+  | 'INVALID_POSITION'
+  | 'NO_ACTIVE_TRIP'
+  | 'SHARE_NOT_ACTIVE'
+  | 'SHARE_EXPIRED'
+  | 'TRIP_ENDED';
+
+export type LocationResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; code: LocationError; error: string };
+
+// HTTP status for each error, shared by the location routes
+export const LOCATION_ERROR_STATUS: Record<LocationError, number> = {
+  INVALID_DURATION: 400,
+  INVALID_POSITION: 400,
+  NO_ACTIVE_TRIP: 409,
+  SHARE_NOT_ACTIVE: 410,
+  SHARE_EXPIRED: 410,
+  TRIP_ENDED: 410,
+};
+
+// A pickup this close behind the driver still counts as ahead (GPS jitter)
+const PASSED_TOLERANCE_KM = 0.05;
+
+function fail(code: LocationError, error: string): { ok: false; code: LocationError; error: string } {
+  return { ok: false, code, error };
+}
+
+function trailCutoff(now: Date): string {
+  return new Date(now.getTime() - TRAIL_MINUTES * 60000).toISOString();
+}
+
+function optionalNumber(value: unknown): number | null | undefined {
+  if (value == null) return null;
+  return typeof value === 'number' && isFinite(value) ? value : undefined;
+}
+
+// Start sharing for durationMinutes, replacing the member's current share in
+// the group. Refused unless the member has an active trip in the group today.
+export async function startLocationShare(
+  groupId: number,
+  userId: string,
+  durationMinutes: unknown = DEFAULT_SHARE_MINUTES
+): Promise<LocationResult<{ share: LocationShare }>> {
+  if (!Number.isInteger(durationMinutes) || (durationMinutes as number) < 1 || (durationMinutes as number) > MAX_SHARE_MINUTES) {
+    return fail('INVALID_DURATION', `durationMinutes must be a whole number between 1 and ${MAX_SHARE_MINUTES}`);
+  }
+
+  // Only the member's trip in this group counts, and only on its day
+  const today = new Date().toISOString().slice(0, 10);
+  const memberTrips = await getGroupMemberTrips(groupId);
+  const trip = memberTrips.find(t => t.userId === userId && t.travelDate === today);
+  if (!trip) {
+    return fail('NO_ACTIVE_TRIP', 'Location can only be shared during an active trip of the group');
+  }
+
+  await stopLocationShare(groupId, userId, 'stopped');
+
+  const now = new Date();
+  const [share] = await db
+    .insert(locationShares)
+    .values({
+      groupId,
+      userId,
+      tripId: trip.id,
+      startedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + (durationMinutes as number) * 60000).toISOString(),
+    })
+    .returning();
+  return { ok: true, share };
+}
+
+async function endShares(shareIds: number[], reason: ShareEndReason) {
+  if (shareIds.length === 0) return;
+  await db
+    .update(locationShares)
+    .set({ endedAt: new Date().toISOString(), endReason: reason })
+    .where(and(inArray(locationShares.id, shareIds), isNull(locationShares.endedAt)));
+  // The trail is only kept while sharing
+  await db.delete(locationPoints).where(inArray(locationPoints.shareId, shareIds));
+}
+
+// End the member's current share in the group, if any
+export async function stopLocationShare(groupId: number, userId: string, reason: ShareEndReason): Promise<LocationShare | null> {
+  const [share] = await db
+    .select()
+    .from(locationShares)
+    .where(and(
+      eq(locationShares.groupId, groupId),
+      eq(locationShares.userId, userId),
+      isNull(locationShares.endedAt)
+    ))
+    .limit(1);
+  if (!share) return null;
+
+  await endShares([share.id], reason);
+  return share;
+}
+
+// End every share of a trip that is no longer active. Returns the ended
+// shares so their groups can be told.
+export async function endSharesForTrip(tripId: number): Promise<LocationShare[]> {
+  const shares = await db
+    .select()
+    .from(locationShares)
+    .where(and(eq(locationShares.tripId, tripId), isNull(locationShares.endedAt)));
+  await endShares(shares.map(share => share.id), 'trip_ended');
+  return shares;
+}
+
+// End shares past their expiry and prune trail points older than the trail
+// window. Run periodically by the worker; returns the number of shares ended.
+export async function expireLocationShares(now: Date = new Date()): Promise<number> {
+  const expired = await db
+    .select({ id: locationShares.id })
+    .from(locationShares)
+    .where(and(isNull(locationShares.endedAt), lte(locationShares.expiresAt, now.toISOString())));
+  await endShares(expired.map(share => share.id), 'expired');
+
+  await db.delete(locationPoints).where(lt(locationPoints.recordedAt, trailCutoff(now)));
+  return expired.length;
+}
+
+// Record a position of the member's active share. Ends the share instead when
+// it expired or its trip is over (SHARE_EXPIRED / TRIP_ENDED, reported once;
+// later positions get SHARE_NOT_ACTIVE).
+export async function recordPosition(
+  groupId: number,
+  userId: string,
+  body: Record<string, unknown>
+): Promise<LocationResult<{ share: LocationShare; position: LivePosition; etas: PickupEta[] }>> {
+  const coordinates = toLatLon(body.coordinates);
+  const accuracy = optionalNumber(body.accuracy);
+  const heading = optionalNumber(body.heading);
+  const speed = optionalNumber(body.speed);
+  if (!coordinates || accuracy === undefined || heading === undefined || speed === undefined) {
+    return fail('INVALID_POSITION', 'coordinates must be [lat, lon]; accuracy, heading and speed must be numbers when given');
+  }
+
+  const [row] = await db
+    .select({ share: locationShares, tripStatus: trips.status, groupStatus: groups.status })
+    .from(locationShares)
+    .innerJoin(trips, eq(locationShares.tripId, trips.id))
+    .innerJoin(groups, eq(locationShares.groupId, groups.id))
+    .where(and(
+      eq(locationShares.groupId, groupId),
+      eq(locationShares.userId, userId),
+      isNull(locationShares.endedAt)
+    ))
+    .limit(1);
+
+  if (!row) {
+    return fail('SHARE_NOT_ACTIVE', 'Location sharing is not active');
+  }
+
+  const now = new Date();
+  if (row.tripStatus !== 'active' || row.groupStatus !== 'active') {
+    await endShares([row.share.id], 'trip_ended');
+    return fail('TRIP_ENDED', 'Location sharing ended because the trip is over');
+  }
+  if (new Date(row.share.expiresAt) <= now) {
+    await endShares([row.share.id], 'expired');
+    return fail('SHARE_EXPIRED', 'Location sharing ended because its time limit was reached');
+  }
+
+  const position: LivePosition = {
+    lat: coordinates[0],
+    lon: coordinates[1],
+    accuracy,
+    heading,
+    speed,
+    recordedAt: now.toISOString(),
+  };
+  await db.insert(locationPoints).values({ shareId: row.share.id, ...position });
+  await db
+    .delete(locationPoints)
+    .where(and(eq(locationPoints.shareId, row.share.id), lt(locationPoints.recordedAt, trailCutoff(now))));
+
+  const etas = await pickupEtasForShare(row.share, coordinates, now);
+  return { ok: true, share: row.share, position, etas };
+}
+
+// ETAs only make sense for whoever does the pickups
+async function pickupEtasForShare(share: LocationShare, position: LatLon, now: Date): Promise<PickupEta[]> {
+  const memberTrips = await getGroupMemberTrips(share.groupId);
+  const trip = memberTrips.find(t => t.id === share.tripId);
+  if (!trip || trip.role === 'rider') return [];
+
+  // Routes are cached by the routing engine, so this is cheap after the first position
+  const route = await calculateCombinedRoute(memberTrips, await getGroupMeetingPoint(share.groupId));
+  return route ? estimatePickupEtas(route, position, share.userId, now) : [];
+}
+
+// Active shares of a group with their trails (oldest point first)
+export async function activeLocationShares(groupId: number) {
+  const now = new Date();
+  const shares = await db
+    .select({
+      id: locationShares.id,
+      userId: locationShares.userId,
+      name: user.name,
+      tripId: locationShares.tripId,
+      startedAt: locationShares.startedAt,
+      expiresAt: locationShares.expiresAt,
+    })
+    .from(locationShares)
+    .leftJoin(user, eq(locationShares.userId, user.id))
+    .where(and(
+      eq(locationShares.groupId, groupId),
+      isNull(locationShares.endedAt),
+      gt(locationShares.expiresAt, now.toISOString())
+    ));
+  if (shares.length === 0) return [];
+
+  const points = await db
+    .select()
+    .from(locationPoints)
+    .where(and(
+      inArray(locationPoints.shareId, shares.map(share => share.id)),
+      gt(locationPoints.recordedAt, trailCutoff(now))
+    ))
+    .orderBy(asc(locationPoints.recordedAt));
+
+  return shares.map(share => {
+    const trail: LivePosition[] = points
+      .filter(point => point.shareId === share.id)
+      .map(({ id, shareId, ...position }) => position);
+    return { ...share, trail, position: trail[trail.length - 1] ?? null };
+  });
+}
+
+// Distance along the route of each vertex, in km
+function cumulativeDistances(coordinates: LatLon[]): number[] {
+  const cumulative = [0];
+  for (let i = 1; i < coordinates.length; i++) {
+    cumulative.push(cumulative[i - 1] + calculateDistance(coordinates[i - 1], coordinates[i]));
+  }
+  return cumulative;
+}
+
+// Where a point lies along the route (km from its start) and how far off the
+// route it is, searching segments from `fromIndex` on
+function locateOnRoute(point: LatLon, coordinates: LatLon[], cumulative: number[], fromIndex: number = 0) {
+  let best = { along: cumulative[fromIndex] ?? 0, offRoute: Infinity, index: fromIndex };
+  for (let i = Math.max(fromIndex, 1); i < coordinates.length; i++) {
+    const offRoute = distanceToSegment(point, coordinates[i - 1], coordinates[i]);
+    if (offRoute < best.offRoute) {
+      const segmentLength = cumulative[i] - cumulative[i - 1];
+      const fromStart = Math.min(calculateDistance(coordinates[i - 1], point), segmentLength);
+      best = { along: cumulative[i - 1] + fromStart, offRoute, index: i - 1 };
+    }
+  }
+  if (best.offRoute === Infinity && coordinates.length > 0) {
+    best.offRoute = calculateDistance(point, coordinates[0]);
+  }
+  return best;
+}
+
+// Seconds from now until the sharer reaches each pickup still ahead of them,
+// other than their own. The position is placed on the combined route and the
+// time in between comes from the route's per-waypoint legs; time to get back
+// onto the route is added at the route's average speed.
+export function estimatePickupEtas(
+  route: CombinedRoute,
+  position: LatLon,
+  sharerId: string,
+  now: Date = new Date()
+): PickupEta[] {
+  if (route.coordinates.length < 2 || route.waypoints.length === 0) return [];
+
+  const cumulative = cumulativeDistances(route.coordinates);
+
+  // Waypoints are in route order, so each is searched for after the previous one
+  let fromIndex = 0;
+  const waypointAlong = route.waypoints.map(waypoint => {
+    const located = locateOnRoute([waypoint.lat, waypoint.lon], route.coordinates, cumulative, fromIndex);
+    fromIndex = located.index;
+    return located.along;
+  });
+
+  // Seconds from the route start to each waypoint
+  const waypointTime = [0];
+  for (let i = 1; i < route.waypoints.length; i++) {
+    waypointTime.push(waypointTime[i - 1] + (route.legs[i - 1]?.duration ?? 0));
+  }
+
+  const timeAt = (along: number): number => {
+    for (let i = 0; i < waypointAlong.length - 1; i++) {
+      if (along <= waypointAlong[i + 1]) {
+        const span = waypointAlong[i + 1] - waypointAlong[i];
+        const fraction = span > 0 ? Math.max(0, (along - waypointAlong[i]) / span) : 1;
+        return waypointTime[i] + fraction * (waypointTime[i + 1] - waypointTime[i]);
+      }
+    }
+    return waypointTime[waypointTime.length - 1];
+  };
+
+  const averageKmPerSecond = route.duration > 0 ? route.distance / 1000 / route.duration : 0;
+  const current = locateOnRoute(position, route.coordinates, cumulative);
+  const rejoinSeconds = averageKmPerSecond > 0 ? current.offRoute / averageKmPerSecond : 0;
+  const currentTime = timeAt(current.along);
+
+  const etas: PickupEta[] = [];
+  route.waypoints.forEach((waypoint, index) => {
+    if (waypoint.type !== 'pickup' || waypoint.userId === sharerId) return;
+    if (waypointAlong[index] < current.along - PASSED_TOLERANCE_KM) return;
+
+    const etaSeconds = Math.round(Math.max(0, timeAt(waypointAlong[index]) - currentTime) + rejoinSeconds);
+    etas.push({
+      userId: waypoint.userId,
+      location: waypoint.location,
+      etaSeconds,
+      arrivalAt: new Date(now.getTime() + etaSeconds * 1000).toISOString(),
+    });
+  });
+  return etas;
+}
@@ -0,0 +1,457 @@
+import { db } from '@/db';
+import { groupMembers, groups, matchTransitions, trips, tripMatches } from '@/db/schema';
+import { and, asc, eq, gt, inArray, lte, or, sql } from 'drizzle-orm';
+import { enqueueTripMatching } from '@/lib/jobs';
+import { calculateMatchScore, mirrorMatchResult, toMatchTrip, type MatchResult } from '@/lib/matching';
+
+// Two-sided consent for a matched pair of trips. Matching suggests a pair
+// ('pending'); one side requests, the other accepts or declines, the requester
+// can withdraw while the request is open and either side can withdraw after
+// acceptance. Open requests expire, and rematching invalidates pairs that no
+// longer match. Both rows of a pair always share the same consent state, and
+// only mutual acceptance puts the users in a group.
+
+export type MatchStatus =
+  | 'pending'
+  | 'requested'
+  | 'accepted'
+  | 'declined'
+  | 'withdrawn'
+  | 'expired'
+  | 'invalidated';
+
+export type MatchAction = 'request' | 'accept' | 'decline' | 'withdraw' | 'expire' | 'invalidate';
+
+// Actions users can take; 'expire' and 'invalidate' are applied by the system
+export const USER_MATCH_ACTIONS: MatchAction[] = ['request', 'accept', 'decline', 'withdraw'];
+
+export interface ConsentState {
+  status: MatchStatus;
+  requestedByTripId: number | null;
+  expiresAt: string | null;
+}
+
+export type TransitionError =
+  | 'INVALID_TRANSITION'
+  | 'NOT_ALLOWED'
+  | 'REQUEST_EXPIRED'
+  | 'TRIP_FULL'
+  | 'TRIP_NOT_ACTIVE'
+  | 'CONFLICT';
+
+export type TransitionResult =
+  | { ok: true; state: ConsentState }
+  | { ok: false; code: TransitionError; error: string };
+
+// HTTP status for each error, shared by the match routes
+export const TRANSITION_ERROR_STATUS: Record<TransitionError, number> = {
+  INVALID_TRANSITION: 409,
+  NOT_ALLOWED: 403,
+  REQUEST_EXPIRED: 410,
+  TRIP_FULL: 409,
+  TRIP_NOT_ACTIVE: 409,
+  CONFLICT: 409,
+};
+
+const MATCH_REQUEST_TTL_HOURS = parseFloat(process.env.MATCH_REQUEST_TTL_HOURS || '') || 48;
+
+function fail(code: TransitionError, error: string): TransitionResult {
+  return { ok: false, code, error };
+}
+
+function isExpired(state: ConsentState, now: Date): boolean {
+  return state.status === 'requested' && !!state.expiresAt && new Date(state.expiresAt) <= now;
+}
+
+// The consent state after `actorTripId` (null for the system) takes `action`.
+// Pure, so the rules can be exercised without a database.
+// - request: from a suggestion, or after a withdrawal or expiry. Requesting a
+//   pair the other side has already requested accepts it.
+// - accept / decline: only the side that didn't request, before expiry
+// - withdraw: the requester while the request is open, either side once accepted
+// - expire: an open request whose deadline has passed
+// - invalidate: a suggested, requested or accepted pair that no longer matches
+// Declined pairs are final; invalidated ones only come back as suggestions.
+export function transitionMatch(
+  state: ConsentState,
+  action: MatchAction,
+  actorTripId: number | null,
+  now: Date = new Date(),
+  ttlHours: number = MATCH_REQUEST_TTL_HOURS
+): TransitionResult {
+  const expired = isExpired(state, now);
+
+  switch (action) {
+    case 'request':
+      if (state.status === 'requested' && !expired && state.requestedByTripId !== actorTripId) {
+        return transitionMatch(state, 'accept', actorTripId, now, ttlHours);
+      }
+      if (state.status === 'requested' && !expired) {
+        return fail('INVALID_TRANSITION', 'You have already requested this match');
+      }
+      if (!['pending', 'withdrawn', 'expired'].includes(state.status) && !expired) {
+        return fail('INVALID_TRANSITION', `Cannot request a match that is ${state.status}`);
+      }
+      return {
+        ok: true,
+        state: {
+          status: 'requested',
+          requestedByTripId: actorTripId,
+          expiresAt: new Date(now.getTime() + ttlHours * 3600 * 1000).toISOString(),
+        },
+      };
+
+    case 'accept':
+    case 'decline':
+      if (state.status !== 'requested') {
+        return fail('INVALID_TRANSITION', `Cannot ${action} a match that is ${state.status}`);
+      }
+      if (state.requestedByTripId === actorTripId) {
+        return fail('NOT_ALLOWED', `You cannot ${action} your own request`);
+      }
+      if (expired) {
+        return fail('REQUEST_EXPIRED', 'This request has expired');
+      }
+      return {
+        ok: true,
+        state: { ...state, status: action === 'accept' ? 'accepted' : 'declined', expiresAt: null },
+      };
+
+    case 'withdraw':
+      if (state.status === 'requested' && !expired) {
+        if (state.requestedByTripId !== actorTripId) {
+          return fail('NOT_ALLOWED', 'Only the requester can withdraw a request; decline it instead');
+        }
+        return { ok: true, state: { ...state, status: 'withdrawn', expiresAt: null } };
+      }
+      if (state.status === 'accepted') {
+        return { ok: true, state: { ...state, status: 'withdrawn', expiresAt: null } };
+      }
+      return fail('INVALID_TRANSITION', `Cannot withdraw a match that is ${state.status}`);
+
+    case 'expire':
+      if (!expired) {
+        return fail('INVALID_TRANSITION', 'Only open requests past their deadline expire');
+      }
+      return { ok: true, state: { ...state, status: 'expired', expiresAt: null } };
+
+    case 'invalidate':
+      if (!['pending', 'requested', 'accepted'].includes(state.status)) {
+        return fail('INVALID_TRANSITION', `Cannot invalidate a match that is ${state.status}`);
+      }
+      return { ok: true, state: { ...state, status: 'invalidated', expiresAt: null } };
+  }
+}
+
+type TripMatchRow = typeof tripMatches.$inferSelect;
+type TripRow = typeof trips.$inferSelect;
+
+function consentState(row: TripMatchRow): ConsentState {
+  return {
+    status: row.status as MatchStatus,
+    requestedByTripId: row.requestedByTripId,
+    expiresAt: row.expiresAt,
+  };
+}
+
+// Write a transition to both rows of the pair. The status check makes a
+// concurrent transition of the same pair write nothing.
+async function saveTransition(
+  row: TripMatchRow,
+  action: MatchAction,
+  next: ConsentState,
+  actorUserId: string | null,
+  timestamp: string
+): Promise<boolean> {
+  const updated = await db
+    .update(tripMatches)
+    .set({ ...next, updatedAt: timestamp })
+    .where(and(
+      or(
+        and(eq(tripMatches.tripId, row.tripId), eq(tripMatches.matchedTripId, row.matchedTripId)),
+        and(eq(tripMatches.tripId, row.matchedTripId), eq(tripMatches.matchedTripId, row.tripId))
+      ),
+      eq(tripMatches.status, row.status)
+    ))
+    .returning({ id: tripMatches.id });
+  if (updated.length === 0) return false;
+
+  await db.insert(matchTransitions).values({
+    tripMatchId: row.id,
+    action,
+    fromStatus: row.status,
+    toStatus: next.status,
+    actorUserId,
+    createdAt: timestamp,
+  });
+  return true;
+}
+
+// The driver of a driver/rider pair, whose seat the rider takes
+function driverOf(a: TripRow, b: TripRow): TripRow | null {
+  if (a.role === 'driver' && b.role === 'rider') return a;
+  if (b.role === 'driver' && a.role === 'rider') return b;
+  return null;
+}
+
+// Take one seat; the seat check is part of the update so two riders can't take the last one
+async function takeSeat(driverTrip: TripRow): Promise<boolean> {
+  const [trip] = await db
+    .update(trips)
+    .set({ seatsAvailable: sql`${trips.seatsAvailable} - 1`, updatedAt: new Date().toISOString() })
+    .where(and(eq(trips.id, driverTrip.id), gt(trips.seatsAvailable, 0)))
+    .returning();
+  if (!trip) return false;
+
+  // A full car drops out of matching
+  if (trip.seatsAvailable === 0) await enqueueTripMatching(trip.id);
+  return true;
+}
+
+async function releaseSeat(driverTrip: TripRow) {
+  const [trip] = await db
+    .update(trips)
+    .set({
+      seatsAvailable: sql`min(${trips.seatsAvailable} + 1, ${trips.seatsOffered})`,
+      updatedAt: new Date().toISOString(),
+    })
+    .where(eq(trips.id, driverTrip.id))
+    .returning();
+
+  // Back in matching with a free seat
+  if (trip && trip.seatsAvailable === 1) await enqueueTripMatching(trip.id);
+}
+
+// A trip can head several groups (a driver with riders from different
+// matches), so the oldest one is used
+async function tripGroup(tripId: number) {
+  const [group] = await db
+    .select()
+    .from(groups)
+    .where(eq(groups.tripId, tripId))
+    .orderBy(asc(groups.id))
+    .limit(1);
+  return group ?? null;
+}
+
+// Put both users of an accepted pair in the group of the driver's trip, or of
+// the accepting user's trip when neither drives; it is created when missing
+async function joinPairGroup(accepterTrip: TripRow, requesterTrip: TripRow) {
+  const timestamp = new Date().toISOString();
+  const groupTrip = driverOf(accepterTrip, requesterTrip) ?? accepterTrip;
+  let group = await tripGroup(groupTrip.id);
+  const isNewGroup = !group;
+
+  if (!group) {
+    [group] = await db
+      .insert(groups)
+      .values({
+        name: `Trip to ${groupTrip.destination} - ${groupTrip.travelDate}`,
+        tripId: groupTrip.id,
+        createdBy: groupTrip.userId,
+        status: 'active',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      })
+      .returning();
+  }
+
+  const existing = await db
+    .select({ userId: groupMembers.userId })
+    .from(groupMembers)
+    .where(and(
+      eq(groupMembers.groupId, group.id),
+      inArray(groupMembers.userId, [accepterTrip.userId, requesterTrip.userId])
+    ));
+  const memberIds = new Set(existing.map(member => member.userId));
+
+  for (const userId of [accepterTrip.userId, requesterTrip.userId]) {
+    if (memberIds.has(userId)) continue;
+    await db.insert(groupMembers).values({
+      groupId: group.id,
+      userId,
+      role: isNewGroup && userId === groupTrip.userId ? 'admin' : 'member',
+      joinedAt: timestamp,
+    });
+  }
+
+  const members = await db.select().from(groupMembers).where(eq(groupMembers.groupId, group.id));
+  return { group, members };
+}
+
+// After a withdrawal the user whose trip the group isn't for leaves it. The
+// group is the driver's, or without a driver whichever of the two trips'
+// groups the pair was put in (the accepter's, which isn't recorded).
+async function leavePairGroup(a: TripRow, b: TripRow) {
+  const driverTrip = driverOf(a, b);
+  let group = driverTrip ? await tripGroup(driverTrip.id) : null;
+
+  if (!driverTrip) {
+    for (const trip of [a, b].sort((x, y) => x.id - y.id)) {
+      const candidate = await tripGroup(trip.id);
+      if (!candidate) continue;
+      const members = await db
+        .select({ userId: groupMembers.userId })
+        .from(groupMembers)
+        .where(and(eq(groupMembers.groupId, candidate.id), inArray(groupMembers.userId, [a.userId, b.userId])));
+      if (members.length === 2) {
+        group = candidate;
+        break;
+      }
+    }
+  }
+  if (!group) return;
+
+  const leaving = group.tripId === a.id ? b : a;
+  await db
+    .delete(groupMembers)
+    .where(and(eq(groupMembers.groupId, group.id), eq(groupMembers.userId, leaving.userId)));
+}
+
+export type MatchActionResult =
+  | { ok: true; match: TripMatchRow; group?: Awaited<ReturnType<typeof joinPairGroup>> }
+  | { ok: false; code: TransitionError; error: string };
+
+// Apply a user's action to a match, seen from the row of the trip they own.
+// Requests and acceptances need both trips to be active. Accepting takes the
+// driver's seat and groups the users; withdrawing an accepted match gives the
+// seat back and takes the other user out of the group.
+export async function applyMatchAction(
+  row: TripMatchRow,
+  action: MatchAction,
+  actorUserId: string
+): Promise<MatchActionResult> {
+  const now = new Date();
+  const result = transitionMatch(consentState(row), action, row.tripId, now);
+
+  if (!result.ok) {
+    if (result.code === 'REQUEST_EXPIRED') await expireMatchRequests(now);
+    return result;
+  }
+
+  const [actorTrip] = await db.select().from(trips).where(eq(trips.id, row.tripId)).limit(1);
+  const [otherTrip] = await db.select().from(trips).where(eq(trips.id, row.matchedTripId)).limit(1);
+  if ((action === 'request' || action === 'accept') &&
+      (actorTrip?.status !== 'active' || otherTrip?.status !== 'active')) {
+    return { ok: false, code: 'TRIP_NOT_ACTIVE', error: 'Both trips must be active to request or accept a match' };
+  }
+
+  const driverTrip = actorTrip && otherTrip ? driverOf(actorTrip, otherTrip) : null;
+  const accepting = result.state.status === 'accepted';
+
+  if (accepting && driverTrip && !(await takeSeat(driverTrip))) {
+    return { ok: false, code: 'TRIP_FULL', error: 'This car has no seats left' };
+  }
+
+  const timestamp = now.toISOString();
+  if (!(await saveTransition(row, action, result.state, actorUserId, timestamp))) {
+    if (accepting && driverTrip) await releaseSeat(driverTrip);
+    return { ok: false, code: 'CONFLICT', error: 'The match changed in the meantime; reload and try again' };
+  }
+
+  const match = { ...row, ...result.state, updatedAt: timestamp };
+
+  if (accepting && actorTrip && otherTrip) {
+    return { ok: true, match, group: await joinPairGroup(actorTrip, otherTrip) };
+  }
+
+  if (row.status === 'accepted' && result.state.status === 'withdrawn' && actorTrip && otherTrip) {
+    if (driverTrip) await releaseSeat(driverTrip);
+    await leavePairGroup(actorTrip, otherTrip);
+  }
+
+  return { ok: true, match };
+}
+
+// Invalidate a pair that no longer matches (see rematchTrip). An accepted
+// pair gives the seat back and takes the other user out of the group.
+// False when the pair changed in the meantime.
+export async function invalidateMatch(row: TripMatchRow): Promise<boolean> {
+  const result = transitionMatch(consentState(row), 'invalidate', null);
+  if (!result.ok) return false;
+  if (!(await saveTransition(row, 'invalidate', result.state, null, new Date().toISOString()))) {
+    return false;
+  }
+
+  if (row.status === 'accepted') {
+    const [trip] = await db.select().from(trips).where(eq(trips.id, row.tripId)).limit(1);
+    const [otherTrip] = await db.select().from(trips).where(eq(trips.id, row.matchedTripId)).limit(1);
+    if (trip && otherTrip) {
+      const driverTrip = driverOf(trip, otherTrip);
+      if (driverTrip) await releaseSeat(driverTrip);
+      await leavePairGroup(trip, otherTrip);
+    }
+  }
+  return true;
+}
+
+// Expire every open request past its deadline. Returns how many pairs lapsed.
+export async function expireMatchRequests(now: Date = new Date()): Promise<number> {
+  const lapsed = await db
+    .select()
+    .from(tripMatches)
+    .where(and(eq(tripMatches.status, 'requested'), lte(tripMatches.expiresAt, now.toISOString())));
+
+  let expired = 0;
+  const timestamp = now.toISOString();
+  // Both rows of a pair lapse together; record it once, on the requester's row
+  for (const row of lapsed.filter(m => m.tripId === m.requestedByTripId)) {
+    const result = transitionMatch(consentState(row), 'expire', null, now);
+    if (result.ok && await saveTransition(row, 'expire', result.state, null, timestamp)) {
+      expired++;
+    }
+  }
+  return expired;
+}
+
+// Accept a pair on both users' behalf, for trips generated under a standing
+// arrangement (see src/lib/schedules.ts). False when the driver has no seat left.
+export async function confirmStandingPair(trip: TripRow, partnerTrip: TripRow): Promise<boolean> {
+  const existing = await db
+    .select()
+    .from(tripMatches)
+    .where(or(
+      and(eq(tripMatches.tripId, trip.id), eq(tripMatches.matchedTripId, partnerTrip.id)),
+      and(eq(tripMatches.tripId, partnerTrip.id), eq(tripMatches.matchedTripId, trip.id))
+    ));
+  if (existing.some(row => row.status === 'accepted')) return true;
+
+  const driverTrip = driverOf(trip, partnerTrip);
+  if (driverTrip && !(await takeSeat(driverTrip))) return false;
+
+  const result = calculateMatchScore(toMatchTrip(trip), toMatchTrip(partnerTrip));
+  const timestamp = new Date().toISOString();
+  const directions: [TripRow, TripRow, MatchResult][] = [
+    [trip, partnerTrip, result],
+    [partnerTrip, trip, mirrorMatchResult(result)],
+  ];
+
+  for (const [from, to, breakdown] of directions) {
+    const values = {
+      matchScore: breakdown.score,
+      breakdown,
+      status: 'accepted',
+      requestedByTripId: null,
+      expiresAt: null,
+      updatedAt: timestamp,
+    };
+    const row = existing.find(m => m.tripId === from.id && m.matchedTripId === to.id);
+    const [saved] = row
+      ? await db.update(tripMatches).set(values).where(eq(tripMatches.id, row.id)).returning()
+      : await db.insert(tripMatches).values({ ...values, tripId: from.id, matchedTripId: to.id, createdAt: timestamp }).returning();
+
+    if (from === trip) {
+      await db.insert(matchTransitions).values({
+        tripMatchId: saved.id,
+        action: 'accept',
+        fromStatus: row?.status ?? 'pending',
+        toStatus: 'accepted',
+        actorUserId: null,
+        createdAt: timestamp,
+      });
+    }
+  }
+
+  await joinPairGroup(trip, partnerTrip);
+  return true;
+}
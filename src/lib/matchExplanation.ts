@@ -0,0 +1,58 @@
+import type { MatchResult } from '@/lib/matching';
+
+// Plain-language phrases for a stored match breakdown, from the point of view
+// of the trip that owns the match row. Client-safe: no database imports.
+
+function formatKm(km: number): string {
+  return km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+}
+
+export function explainMatch(breakdown: MatchResult | null | undefined): string[] {
+  if (!breakdown) return [];
+
+  const { components, details } = breakdown;
+  const phrases: string[] = [];
+
+  if (components.source !== undefined && details.sourceDistance !== undefined) {
+    phrases.push(`starts ${formatKm(details.sourceDistance)} from you`);
+  }
+  if (components.destination !== undefined && details.destinationDistance !== undefined) {
+    phrases.push(`ends ${formatKm(details.destinationDistance)} from your destination`);
+  } else if (components.destinationName !== undefined) {
+    phrases.push('is heading to the same destination');
+  }
+
+  if (details.sharedRouteFraction !== undefined && details.sharedRouteFraction >= 0.1) {
+    phrases.push(`shares ${Math.round(details.sharedRouteFraction * 100)}% of your route`);
+  }
+
+  if (components.detour !== undefined && details.detourMinutes !== undefined) {
+    const extra = `${details.detourMinutes} min (${formatKm(details.detourKm ?? 0)})`;
+    if (components.detour === 0) {
+      phrases.push(`the pickup detour of ${extra} is more than the driver accepts`);
+    } else if (details.detourDriver === 'self') {
+      phrases.push(`picking them up adds ${extra} to your drive`);
+    } else {
+      phrases.push(`picking you up adds ${extra} to their drive`);
+    }
+  } else {
+    if (components.pickup !== undefined) phrases.push('can be picked up along your route');
+    if (components.dropoff !== undefined) phrases.push('can be dropped off along your route');
+    if (components.theyPickup !== undefined) phrases.push('can pick you up along their route');
+    if (components.theyDropoff !== undefined) phrases.push('can drop you off along their route');
+  }
+
+  if (details.timeGapMinutes !== undefined && details.timeGapMinutes > 0) {
+    phrases.push(`leaves ${details.timeGapMinutes} min outside your departure window`);
+  } else if (details.timeOverlapMinutes !== undefined && details.timeOverlapMinutes > 0) {
+    phrases.push(`departure windows overlap by ${details.timeOverlapMinutes} min`);
+  } else if (components.timing !== undefined) {
+    phrases.push('leaves at the same time');
+  }
+
+  if (components.mode !== undefined) {
+    phrases.push('travels the same way');
+  }
+
+  return phrases;
+}
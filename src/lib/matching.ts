@@ -0,0 +1,617 @@
+import { db } from '@/db';
+import { tripMatches, trips } from '@/db/schema';
+import { eq, or } from 'drizzle-orm';
+import { calculateDistance, distanceToPolyline, parseLatLon, type LatLon } from '@/lib/geo';
+import { getRoutingEngine, type TransportMode } from '@/lib/routing';
+import { findCandidateTripIds, indexTrip, loadTrips, removeTripFromIndex } from '@/lib/spatialIndex';
+import { invalidateMatch } from '@/lib/matchConsent';
+
+// Departure-time compatibility for carpool matching.
+// Each trip leaves within ±flexibilityMinutes of its travelDate/travelTime.
+
+export type TimeDecayCurve = 'linear' | 'exponential' | 'step';
+
+export const TIME_DECAY_CURVES: TimeDecayCurve[] = ['linear', 'exponential', 'step'];
+
+export const DEFAULT_FLEXIBILITY_MINUTES = 30;
+export const MAX_FLEXIBILITY_MINUTES = 720;
+
+export interface DepartureWindow {
+  start: number; // minutes since the Unix epoch, local wall-clock time
+  end: number;
+}
+
+export interface TimeCompatibility {
+  compatibility: number; // 0..1
+  overlapMinutes: number;
+  gapMinutes: number; // time between the windows when they don't overlap
+}
+
+// MATCH_TIME_DECAY picks how compatibility falls off as windows drift apart;
+// MATCH_TIME_DECAY_MINUTES sets its scale (linear reaches zero there,
+// exponential drops to 1/e, step cuts off).
+function timeDecayConfig(): { curve: TimeDecayCurve; scaleMinutes: number } {
+  const curve = (process.env.MATCH_TIME_DECAY || 'linear').trim().toLowerCase() as TimeDecayCurve;
+  const scaleMinutes = parseInt(process.env.MATCH_TIME_DECAY_MINUTES || '');
+  return {
+    curve: TIME_DECAY_CURVES.includes(curve) ? curve : 'linear',
+    scaleMinutes: scaleMinutes > 0 ? scaleMinutes : 60,
+  };
+}
+
+// Trip dates and times are wall-clock values without a zone, so compare them as UTC
+export function departureWindow(travelDate: string, travelTime: string, flexibilityMinutes: number): DepartureWindow | null {
+  const departure = Date.parse(`${travelDate}T${travelTime.slice(0, 5)}:00Z`);
+  if (isNaN(departure)) return null;
+
+  const center = Math.round(departure / 60000);
+  const flexibility = Math.max(0, flexibilityMinutes);
+  return { start: center - flexibility, end: center + flexibility };
+}
+
+export function decayTimeGap(gapMinutes: number): number {
+  const { curve, scaleMinutes } = timeDecayConfig();
+  if (gapMinutes <= 0) return 1;
+
+  switch (curve) {
+    case 'step':
+      return gapMinutes <= scaleMinutes ? 1 : 0;
+    case 'exponential': {
+      const value = Math.exp(-gapMinutes / scaleMinutes);
+      return value < 0.01 ? 0 : value;
+    }
+    default:
+      return Math.max(0, 1 - gapMinutes / scaleMinutes);
+  }
+}
+
+// Overlapping windows score 0.5..1 by how much of the narrower window is shared;
+// disjoint windows score 0..0.5, decaying with the gap between them.
+// Zero-width windows (no flexibility) overlap fully only when the times are equal.
+export function scoreTimeCompatibility(a: DepartureWindow, b: DepartureWindow): TimeCompatibility {
+  const overlap = Math.min(a.end, b.end) - Math.max(a.start, b.start);
+
+  if (overlap >= 0) {
+    const narrower = Math.min(a.end - a.start, b.end - b.start);
+    const ratio = narrower > 0 ? overlap / narrower : 1;
+    return { compatibility: 0.5 + 0.5 * ratio, overlapMinutes: overlap, gapMinutes: 0 };
+  }
+
+  return { compatibility: 0.5 * decayTimeGap(-overlap), overlapMinutes: 0, gapMinutes: -overlap };
+}
+
+// Routed detours: how much longer the driver's trip gets when they pick the
+// rider up and drop them off on the way, as opposed to how close the rider's
+// points are to the driver's polyline.
+
+export const DEFAULT_MAX_DETOUR_MINUTES = 15;
+export const MAX_DETOUR_MINUTES_LIMIT = 120;
+
+// Only drivers make detours; riders of buses and trains join the fixed route
+export const DETOUR_MODES: TransportMode[] = ['car'];
+
+// Car trips say who drives: a driver offers seats, a rider looks for one.
+// Trips without a role (other modes, and car trips from before roles) pair
+// with anyone, as before.
+export const TRIP_ROLES = ['driver', 'rider'] as const;
+export type TripRole = typeof TRIP_ROLES[number];
+
+export const MAX_SEATS_OFFERED = 8;
+
+export function rolesCompatible(a: TripRole | null, b: TripRole | null): boolean {
+  return !a || !b || a !== b;
+}
+
+// A driver with every seat taken stops matching
+export function isTripFull(trip: { role: string | null; seatsAvailable: number | null }): boolean {
+  return trip.role === 'driver' && (trip.seatsAvailable ?? 0) <= 0;
+}
+
+// A detour adding this fraction of the direct trip's duration scores nothing
+const DETOUR_RATIO_LIMIT = 0.5;
+
+export interface Detour {
+  directDistance: number; // meters
+  directDuration: number; // seconds
+  extraDistance: number; // meters
+  extraDuration: number; // seconds
+  ratio: number; // extraDuration / directDuration
+}
+
+// Driver's extra distance and time for source -> rider source -> rider
+// destination -> destination. Null when the engine can't route either trip.
+export async function computeDetour(
+  driver: { source: LatLon; destination: LatLon },
+  rider: { source: LatLon; destination: LatLon },
+  mode: TransportMode
+): Promise<Detour | null> {
+  const engine = getRoutingEngine();
+  const [[direct], [withRider]] = await Promise.all([
+    engine.route([driver.source, driver.destination], mode),
+    engine.route([driver.source, rider.source, rider.destination, driver.destination], mode),
+  ]);
+  if (!direct || !withRider) return null;
+
+  const extraDistance = Math.max(0, withRider.distance - direct.distance);
+  const extraDuration = Math.max(0, withRider.duration - direct.duration);
+  return {
+    directDistance: direct.distance,
+    directDuration: direct.duration,
+    extraDistance,
+    extraDuration,
+    ratio: direct.duration > 0 ? extraDuration / direct.duration : 0,
+  };
+}
+
+// 0..1, falling linearly with the detour ratio; zero beyond the driver's limit
+export function scoreDetour(detour: Detour, maxDetourMinutes: number): number {
+  if (detour.extraDuration > maxDetourMinutes * 60) return 0;
+  return Math.max(0, 1 - detour.ratio / DETOUR_RATIO_LIMIT);
+}
+
+// Calculate minimum distance from a point to a route, measured to its segments
+// rather than its vertices so sparse geometry doesn't overstate the distance
+function distanceToRoute(point: [number, number], routeCoordinates: [number, number][]): number {
+  return distanceToPolyline(point, routeCoordinates);
+}
+
+// Share of `route` within thresholdKm of `other`, from up to 40 evenly spaced vertices
+const SHARED_ROUTE_SAMPLES = 40;
+
+function sharedRouteFraction(route: [number, number][], other: [number, number][], thresholdKm: number): number {
+  const step = Math.max(1, Math.floor(route.length / SHARED_ROUTE_SAMPLES));
+  const samples = route.filter((_, index) => index % step === 0);
+  const near = samples.filter(point => distanceToRoute(point, other) <= thresholdKm).length;
+  return Math.round((near / samples.length) * 100) / 100;
+}
+
+// Enhanced matching configuration - now accepts matchRadius parameter
+export function getMatchingConfig(matchRadius: number) {
+  return {
+    SOURCE_RADIUS_KM: matchRadius,        // Use configurable matchRadius
+    DESTINATION_RADIUS_KM: matchRadius,   // Use configurable matchRadius
+    ROUTE_PROXIMITY_KM: matchRadius / 2,  // Half of matchRadius
+    MIN_MATCH_SCORE: 50                   // Minimum score to create a match
+  };
+}
+
+// The parts of a trip that matching looks at
+export interface MatchTrip {
+  sourceCoords: [number, number] | null;
+  destCoords: [number, number] | null;
+  routeGeometry: [number, number][] | null;
+  destination: string;
+  travelDate: string;
+  travelTime: string;
+  flexibilityMinutes: number;
+  transportMode: string;
+  matchRadius: number;
+  role: TripRole | null;
+}
+
+// Calculate comprehensive match score with detailed reasons
+// Points per rule, from the first trip's point of view
+export type MatchComponent =
+  | 'source'
+  | 'destination'
+  | 'destinationName'
+  | 'pickup'
+  | 'dropoff'
+  | 'theyPickup'
+  | 'theyDropoff'
+  | 'timing'
+  | 'mode'
+  | 'detour';
+
+// Rules 4-7, replaced by the detour stage for car trips
+const ROUTE_COMPONENTS: MatchComponent[] = ['pickup', 'dropoff', 'theyPickup', 'theyDropoff'];
+
+export interface MatchResult {
+  score: number;
+  components: Partial<Record<MatchComponent, number>>;
+  reasons: string[];
+  details: {
+    sourceDistance?: number;
+    destinationDistance?: number;
+    routeProximity?: number;
+    sharedRouteFraction?: number; // share of the first trip's route running alongside the other's
+    theirSharedRouteFraction?: number;
+    timeCompatibility?: number;
+    timeOverlapMinutes?: number;
+    timeGapMinutes?: number;
+    detourMinutes?: number;
+    detourKm?: number;
+    detourRatio?: number;
+    detourDriver?: 'self' | 'match';
+  };
+}
+
+export function calculateMatchScore(tripA: MatchTrip, tripB: MatchTrip): MatchResult {
+  let score = 0;
+  const components: MatchResult['components'] = {};
+  const reasons: string[] = [];
+  const details: MatchResult['details'] = {};
+
+  // Use the minimum matchRadius between the two trips for fair matching
+  const effectiveMatchRadius = Math.min(tripA.matchRadius, tripB.matchRadius);
+  const MATCHING_CONFIG = getMatchingConfig(effectiveMatchRadius);
+
+  // Rule 1: Sources within radius (HIGH PRIORITY - 45 points)
+  // A's source near B's source = potential pickup together
+  if (tripA.sourceCoords && tripB.sourceCoords) {
+    const sourceDistance = calculateDistance(tripA.sourceCoords, tripB.sourceCoords);
+    details.sourceDistance = sourceDistance;
+    
+    if (sourceDistance <= MATCHING_CONFIG.SOURCE_RADIUS_KM) {
+      const proximityScore = Math.round(45 * (1 - sourceDistance / MATCHING_CONFIG.SOURCE_RADIUS_KM));
+      score += proximityScore;
+      components.source = proximityScore;
+      reasons.push(`starting_points_nearby_${sourceDistance.toFixed(1)}km`);
+    }
+  }
+
+  // Rule 2: Destinations within radius (HIGH PRIORITY - 45 points)
+  // A's destination near B's destination = going to same area
+  if (tripA.destCoords && tripB.destCoords) {
+    const destDistance = calculateDistance(tripA.destCoords, tripB.destCoords);
+    details.destinationDistance = destDistance;
+    
+    if (destDistance <= MATCHING_CONFIG.DESTINATION_RADIUS_KM) {
+      const proximityScore = Math.round(45 * (1 - destDistance / MATCHING_CONFIG.DESTINATION_RADIUS_KM));
+      score += proximityScore;
+      components.destination = proximityScore;
+      reasons.push(`destinations_nearby_${destDistance.toFixed(1)}km`);
+    }
+  }
+
+  // Rule 3: Exact same destination name (bonus 10 points)
+  if (tripA.destination.toLowerCase().trim() === tripB.destination.toLowerCase().trim()) {
+    score += 10;
+    components.destinationName = 10;
+    reasons.push('same_destination_name');
+  }
+
+  // Rule 4: B's source along A's route (PICKUP - 40 points)
+  // A can pick up B along the way
+  if (tripB.sourceCoords && tripA.routeGeometry && tripA.routeGeometry.length > 0) {
+    const distanceToARoute = distanceToRoute(tripB.sourceCoords, tripA.routeGeometry);
+    
+    if (distanceToARoute <= MATCHING_CONFIG.ROUTE_PROXIMITY_KM) {
+      const proximityScore = Math.round(40 * (1 - distanceToARoute / MATCHING_CONFIG.ROUTE_PROXIMITY_KM));
+      score += proximityScore;
+      components.pickup = proximityScore;
+      details.routeProximity = distanceToARoute;
+      reasons.push(`can_pickup_along_route_${distanceToARoute.toFixed(1)}km`);
+    }
+  }
+
+  // Rule 5: B's destination along A's route (DROPOFF - 40 points)
+  // A can drop off B along the way
+  if (tripB.destCoords && tripA.routeGeometry && tripA.routeGeometry.length > 0) {
+    const distanceToARoute = distanceToRoute(tripB.destCoords, tripA.routeGeometry);
+    
+    if (distanceToARoute <= MATCHING_CONFIG.ROUTE_PROXIMITY_KM) {
+      const proximityScore = Math.round(40 * (1 - distanceToARoute / MATCHING_CONFIG.ROUTE_PROXIMITY_KM));
+      score += proximityScore;
+      components.dropoff = proximityScore;
+      reasons.push(`can_dropoff_along_route_${distanceToARoute.toFixed(1)}km`);
+    }
+  }
+
+  // Rule 6: A's source along B's route (REVERSE PICKUP - 35 points)
+  // B can pick up A along their way
+  if (tripA.sourceCoords && tripB.routeGeometry && tripB.routeGeometry.length > 0) {
+    const distanceToBRoute = distanceToRoute(tripA.sourceCoords, tripB.routeGeometry);
+    
+    if (distanceToBRoute <= MATCHING_CONFIG.ROUTE_PROXIMITY_KM) {
+      const proximityScore = Math.round(35 * (1 - distanceToBRoute / MATCHING_CONFIG.ROUTE_PROXIMITY_KM));
+      score += proximityScore;
+      components.theyPickup = proximityScore;
+      reasons.push(`they_can_pickup_${distanceToBRoute.toFixed(1)}km`);
+    }
+  }
+
+  // Rule 7: A's destination along B's route (REVERSE DROPOFF - 35 points)
+  // B can drop off A along their way
+  if (tripA.destCoords && tripB.routeGeometry && tripB.routeGeometry.length > 0) {
+    const distanceToBRoute = distanceToRoute(tripA.destCoords, tripB.routeGeometry);
+    
+    if (distanceToBRoute <= MATCHING_CONFIG.ROUTE_PROXIMITY_KM) {
+      const proximityScore = Math.round(35 * (1 - distanceToBRoute / MATCHING_CONFIG.ROUTE_PROXIMITY_KM));
+      score += proximityScore;
+      components.theyDropoff = proximityScore;
+      reasons.push(`they_can_dropoff_${distanceToBRoute.toFixed(1)}km`);
+    }
+  }
+
+  // How much of each route runs alongside the other (reported, not scored)
+  if (tripA.routeGeometry && tripA.routeGeometry.length > 0 && tripB.routeGeometry && tripB.routeGeometry.length > 0) {
+    details.sharedRouteFraction = sharedRouteFraction(tripA.routeGeometry, tripB.routeGeometry, MATCHING_CONFIG.ROUTE_PROXIMITY_KM);
+    details.theirSharedRouteFraction = sharedRouteFraction(tripB.routeGeometry, tripA.routeGeometry, MATCHING_CONFIG.ROUTE_PROXIMITY_KM);
+  }
+
+  // Rule 8: Departure windows compatible (TIMING - 30 points)
+  // Scaled by how much the windows overlap, decaying with the gap when they don't
+  const windowA = departureWindow(tripA.travelDate, tripA.travelTime, tripA.flexibilityMinutes);
+  const windowB = departureWindow(tripB.travelDate, tripB.travelTime, tripB.flexibilityMinutes);
+  if (windowA && windowB) {
+    const timing = scoreTimeCompatibility(windowA, windowB);
+    details.timeCompatibility = Math.round(timing.compatibility * 100) / 100;
+    details.timeOverlapMinutes = timing.overlapMinutes;
+    details.timeGapMinutes = timing.gapMinutes;
+
+    const timingScore = Math.round(30 * timing.compatibility);
+    if (timingScore > 0) {
+      score += timingScore;
+      components.timing = timingScore;
+      reasons.push(timing.overlapMinutes > 0 || timing.gapMinutes === 0
+        ? `departure_windows_overlap_${timing.overlapMinutes}min`
+        : `departures_${timing.gapMinutes}min_apart`);
+    }
+  }
+
+  // Rule 9: Compatible transport mode (MODE - 20 points)
+  if (tripA.transportMode.toLowerCase() === tripB.transportMode.toLowerCase()) {
+    score += 20;
+    components.mode = 20;
+    reasons.push('same_transport_mode');
+  }
+
+  return { score, components, reasons, details };
+}
+
+// Routing every candidate would be slow, so only the best-scoring ones get the detour stage
+const DETOUR_CANDIDATE_LIMIT = 20;
+
+// Detour stage for car trips: route each driver through the other trip's pickup
+// and dropoff, and replace the polyline-proximity points (rules 4-7) with up to
+// 80 points for the better detour that stays within its driver's limit. When
+// the trips declare roles only the driver's detour counts.
+async function applyDetourScore(
+  result: MatchResult,
+  tripA: { sourceCoords: [number, number]; destCoords: [number, number]; maxDetourMinutes: number; role: TripRole | null },
+  tripB: { sourceCoords: [number, number]; destCoords: [number, number]; maxDetourMinutes: number; role: TripRole | null }
+): Promise<MatchResult> {
+  const [aDrives, bDrives] = await Promise.all([
+    tripA.role === 'rider' || tripB.role === 'driver' ? null : computeDetour(
+      { source: tripA.sourceCoords, destination: tripA.destCoords },
+      { source: tripB.sourceCoords, destination: tripB.destCoords },
+      'car'
+    ),
+    tripB.role === 'rider' || tripA.role === 'driver' ? null : computeDetour(
+      { source: tripB.sourceCoords, destination: tripB.destCoords },
+      { source: tripA.sourceCoords, destination: tripA.destCoords },
+      'car'
+    ),
+  ]);
+
+  const options = [
+    { driver: 'self' as const, detour: aDrives, points: aDrives ? scoreDetour(aDrives, tripA.maxDetourMinutes) : 0 },
+    { driver: 'match' as const, detour: bDrives, points: bDrives ? scoreDetour(bDrives, tripB.maxDetourMinutes) : 0 },
+  ].filter(option => option.detour !== null);
+
+  // Engine couldn't route either trip; keep the geometric estimate
+  if (options.length === 0) return result;
+
+  const best = options.reduce((a, b) => (b.points > a.points ? b : a));
+  const detourScore = Math.round(80 * best.points);
+  const details = { ...result.details };
+  const reasons = result.reasons.filter(reason =>
+    !/^(can_pickup|can_dropoff|they_can_pickup|they_can_dropoff)_/.test(reason)
+  );
+
+  if (best.detour) {
+    details.detourMinutes = Math.round(best.detour.extraDuration / 60);
+    details.detourKm = Math.round(best.detour.extraDistance / 100) / 10;
+    details.detourRatio = Math.round(best.detour.ratio * 100) / 100;
+    details.detourDriver = best.driver;
+  }
+
+  if (detourScore > 0) {
+    reasons.push(`${best.driver === 'self' ? 'you_drive' : 'they_drive'}_detour_${details.detourMinutes}min`);
+  } else {
+    reasons.push('detour_too_long');
+  }
+
+  const components = { ...result.components };
+  const routeScore = ROUTE_COMPONENTS.reduce((sum, key) => sum + (components[key] ?? 0), 0);
+  for (const key of ROUTE_COMPONENTS) delete components[key];
+  components.detour = detourScore;
+
+  return {
+    score: result.score - routeScore + detourScore,
+    components,
+    reasons,
+    details,
+  };
+}
+
+// Reasons whose meaning flips with the point of view
+const MIRRORED_REASONS: [string, string][] = [
+  ['can_pickup_along_route_', 'they_can_pickup_'],
+  ['can_dropoff_along_route_', 'they_can_dropoff_'],
+  ['you_drive_', 'they_drive_'],
+];
+
+// The same result as seen from the other trip
+export function mirrorMatchResult(result: MatchResult): MatchResult {
+  const { pickup, dropoff, theyPickup, theyDropoff, ...rest } = result.components;
+  const components: MatchResult['components'] = { ...rest };
+  if (theyPickup !== undefined) components.pickup = theyPickup;
+  if (theyDropoff !== undefined) components.dropoff = theyDropoff;
+  if (pickup !== undefined) components.theyPickup = pickup;
+  if (dropoff !== undefined) components.theyDropoff = dropoff;
+
+  const reasons = result.reasons.map(reason => {
+    for (const [mine, theirs] of MIRRORED_REASONS) {
+      if (reason.startsWith(mine)) return theirs + reason.slice(mine.length);
+      if (reason.startsWith(theirs)) return mine + reason.slice(theirs.length);
+    }
+    return reason;
+  });
+
+  const { sharedRouteFraction: shared, theirSharedRouteFraction: theirShared, detourDriver, ...details } = result.details;
+  return {
+    score: result.score,
+    components,
+    reasons,
+    details: {
+      ...details,
+      ...(theirShared !== undefined && { sharedRouteFraction: theirShared }),
+      ...(shared !== undefined && { theirSharedRouteFraction: shared }),
+      ...(detourDriver && { detourDriver: detourDriver === 'self' ? 'match' as const : 'self' as const }),
+    },
+  };
+}
+
+type TripRow = typeof trips.$inferSelect;
+
+export function toMatchTrip(trip: TripRow): MatchTrip {
+  return {
+    sourceCoords: parseLatLon(trip.sourceCoordinates),
+    destCoords: parseLatLon(trip.destinationCoordinates),
+    routeGeometry: trip.routeGeometry as [number, number][] | null,
+    destination: trip.destination,
+    travelDate: trip.travelDate,
+    travelTime: trip.travelTime,
+    flexibilityMinutes: trip.flexibilityMinutes,
+    transportMode: trip.transportMode,
+    matchRadius: trip.matchRadius || 10,
+    role: trip.role as TripRole | null,
+  };
+}
+
+// Score a trip against nearby active trips of other users, skipping incompatible
+// roles and full cars. Car pairs among the best candidates get the routed
+// detour stage.
+async function findMatches(trip: TripRow, match: MatchTrip) {
+  const candidates = await loadTrips(await findCandidateTripIds({
+    source: match.sourceCoords!,
+    destination: match.destCoords!,
+    routeGeometry: match.routeGeometry,
+    radiusKm: match.matchRadius,
+    excludeUserId: trip.userId,
+  }));
+  const potentialMatches = candidates.filter(candidate =>
+    rolesCompatible(match.role, candidate.role as TripRole | null) && !isTripFull(candidate)
+  );
+
+  const scored = potentialMatches.map(potentialMatch => {
+    const other = toMatchTrip(potentialMatch);
+    return {
+      potentialMatch,
+      other,
+      matchResult: calculateMatchScore(match, other),
+      config: getMatchingConfig(Math.min(match.matchRadius, other.matchRadius)),
+    };
+  });
+
+  const detourCandidates = scored
+    .filter(({ potentialMatch, other, matchResult, config }) =>
+      DETOUR_MODES.includes(trip.transportMode.toLowerCase() as TransportMode) &&
+      DETOUR_MODES.includes(potentialMatch.transportMode.toLowerCase() as TransportMode) &&
+      other.sourceCoords && other.destCoords &&
+      matchResult.score >= config.MIN_MATCH_SCORE / 2
+    )
+    .sort((a, b) => b.matchResult.score - a.matchResult.score)
+    .slice(0, DETOUR_CANDIDATE_LIMIT);
+
+  for (const candidate of detourCandidates) {
+    candidate.matchResult = await applyDetourScore(
+      candidate.matchResult,
+      {
+        sourceCoords: match.sourceCoords!,
+        destCoords: match.destCoords!,
+        maxDetourMinutes: trip.maxDetourMinutes,
+        role: match.role,
+      },
+      {
+        sourceCoords: candidate.other.sourceCoords!,
+        destCoords: candidate.other.destCoords!,
+        maxDetourMinutes: candidate.potentialMatch.maxDetourMinutes,
+        role: candidate.other.role,
+      }
+    );
+  }
+
+  return scored.filter(({ matchResult, config }) => matchResult.score >= config.MIN_MATCH_SCORE);
+}
+
+// Bring a trip's matches up to date with its current state. Safe to run any
+// number of times: pending matches are rescored, new pairs are added in both
+// directions and pending or requested matches that no longer qualify are
+// invalidated. Inactive trips (cancelled, completed, deleted) lose their index
+// cells and all open and accepted matches; an accepted pair gives the seat back
+// and leaves the group. A full car keeps its cells and open requests but loses
+// its pending matches. Declined, withdrawn and expired matches are left alone.
+export async function rematchTrip(tripId: number): Promise<{ matched: number; invalidated: number }> {
+  const [trip] = await db.select().from(trips).where(eq(trips.id, tripId)).limit(1);
+  const existing = await db
+    .select()
+    .from(tripMatches)
+    .where(or(eq(tripMatches.tripId, tripId), eq(tripMatches.matchedTripId, tripId)));
+
+  const active = trip?.status === 'active';
+  let matches: Awaited<ReturnType<typeof findMatches>> = [];
+  if (trip && active) {
+    const match = toMatchTrip(trip);
+    await indexTrip(trip.id, match.sourceCoords, match.destCoords, match.routeGeometry);
+    if (match.sourceCoords && match.destCoords && !isTripFull(trip)) {
+      matches = await findMatches(trip, match);
+    }
+  } else {
+    await removeTripFromIndex(tripId);
+  }
+
+  const timestamp = new Date().toISOString();
+  const inserts: (typeof tripMatches.$inferInsert)[] = [];
+
+  for (const { potentialMatch, matchResult } of matches) {
+    // Each row explains the match from its own trip's point of view
+    const directions: [number, number, MatchResult][] = [
+      [tripId, potentialMatch.id, matchResult],
+      [potentialMatch.id, tripId, mirrorMatchResult(matchResult)],
+    ];
+    for (const [from, to, breakdown] of directions) {
+      const row = existing.find(m => m.tripId === from && m.matchedTripId === to);
+      if (!row) {
+        inserts.push({
+          tripId: from,
+          matchedTripId: to,
+          matchScore: matchResult.score,
+          breakdown,
+          status: 'pending',
+          createdAt: timestamp,
+        });
+      } else if (row.status === 'pending' || row.status === 'invalidated') {
+        await db
+          .update(tripMatches)
+          .set({ matchScore: matchResult.score, breakdown, status: 'pending' })
+          .where(eq(tripMatches.id, row.id));
+      }
+    }
+  }
+
+  if (inserts.length > 0) {
+    await db.insert(tripMatches).values(inserts);
+  }
+
+  const matchedIds = new Set(matches.map(({ potentialMatch }) => potentialMatch.id));
+  const stillMatches = (m: typeof existing[number]) =>
+    matchedIds.has(m.tripId === tripId ? m.matchedTripId : m.tripId);
+  const stale = existing.filter(m =>
+    (m.status === 'pending' && !stillMatches(m)) ||
+    (m.status === 'requested' && !stillMatches(m) && !(active && isTripFull(trip))) ||
+    (m.status === 'accepted' && !active)
+  );
+  for (const row of stale) {
+    if (row.status === 'pending') {
+      await db.update(tripMatches).set({ status: 'invalidated' }).where(eq(tripMatches.id, row.id));
+    } else {
+      // Both rows of a pair are in `existing`; the first one invalidates the pair
+      await invalidateMatch(row);
+    }
+  }
+
+  return { matched: matches.length, invalidated: stale.length };
+}
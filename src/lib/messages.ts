@@ -0,0 +1,269 @@
+import { db } from '@/db';
+import { groupReadMarkers, meetingPointAcceptances, messageReactions, messages, pollVotes, user } from '@/db/schema';
+import { and, asc, count, desc, eq, gt, inArray, lt, ne, sql } from 'drizzle-orm';
+import { isPollClosed, type PollPayload } from '@/lib/chatContent';
+
+// Group chat history in id order (ids only grow, so they double as cursors),
+// reply previews, reactions, poll results and meeting point acceptances of
+// structured messages (src/lib/chatContent.ts), read markers and full-text
+// search over the messages_fts FTS5 table.
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+const messageColumns = {
+  id: messages.id,
+  groupId: messages.groupId,
+  userId: messages.userId,
+  message: messages.message,
+  kind: messages.kind,
+  payload: messages.payload,
+  replyToId: messages.replyToId,
+  editedAt: messages.editedAt,
+  createdAt: messages.createdAt,
+  sender: {
+    name: user.name,
+    email: user.email,
+    image: user.image,
+  },
+};
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+export interface ReplyPreview {
+  id: number;
+  message: string;
+  senderName: string | null;
+}
+
+// Votes per option of a poll, in option order
+export interface PollResults {
+  closed: boolean;
+  votes: Array<{ count: number; userIds: string[] }>;
+}
+
+const REPLY_PREVIEW_LENGTH = 120;
+
+// Add reply previews, grouped reactions, poll results and meeting point
+// acceptances to message rows
+async function withMessageDetails<T extends { id: number; kind: string; payload: unknown; replyToId: number | null }>(rows: T[]) {
+  const ids = rows.map(row => row.id);
+  const replyToIds = [...new Set(rows.map(row => row.replyToId).filter((id): id is number => id !== null))];
+  const pollIds = rows.filter(row => row.kind === 'poll').map(row => row.id);
+  const meetingPointIds = rows.filter(row => row.kind === 'meeting_point').map(row => row.id);
+
+  const [reactions, replies, votes, acceptances] = await Promise.all([
+    ids.length === 0 ? [] : db
+      .select({ messageId: messageReactions.messageId, userId: messageReactions.userId, emoji: messageReactions.emoji })
+      .from(messageReactions)
+      .where(inArray(messageReactions.messageId, ids))
+      .orderBy(asc(messageReactions.id)),
+    replyToIds.length === 0 ? [] : db
+      .select({ id: messages.id, message: messages.message, senderName: user.name })
+      .from(messages)
+      .leftJoin(user, eq(messages.userId, user.id))
+      .where(inArray(messages.id, replyToIds)),
+    pollIds.length === 0 ? [] : db
+      .select({ messageId: pollVotes.messageId, userId: pollVotes.userId, optionIndex: pollVotes.optionIndex })
+      .from(pollVotes)
+      .where(inArray(pollVotes.messageId, pollIds)),
+    meetingPointIds.length === 0 ? [] : db
+      .select({ messageId: meetingPointAcceptances.messageId, userId: meetingPointAcceptances.userId })
+      .from(meetingPointAcceptances)
+      .where(inArray(meetingPointAcceptances.messageId, meetingPointIds))
+      .orderBy(asc(meetingPointAcceptances.id)),
+  ]);
+
+  const repliesById = new Map(replies.map(reply => [reply.id, {
+    ...reply,
+    message: reply.message.length > REPLY_PREVIEW_LENGTH ? reply.message.slice(0, REPLY_PREVIEW_LENGTH) + '…' : reply.message,
+  }]));
+
+  return rows.map(row => {
+    const summaries: ReactionSummary[] = [];
+    for (const reaction of reactions) {
+      if (reaction.messageId !== row.id) continue;
+      const summary = summaries.find(s => s.emoji === reaction.emoji);
+      if (summary) {
+        summary.count++;
+        summary.userIds.push(reaction.userId);
+      } else {
+        summaries.push({ emoji: reaction.emoji, count: 1, userIds: [reaction.userId] });
+      }
+    }
+    // Null when there is no reply or the replied-to message was deleted
+    const replyTo: ReplyPreview | null = row.replyToId !== null ? repliesById.get(row.replyToId) ?? null : null;
+
+    let poll: PollResults | null = null;
+    if (row.kind === 'poll') {
+      const payload = row.payload as PollPayload;
+      poll = { closed: isPollClosed(payload), votes: payload.options.map(() => ({ count: 0, userIds: [] as string[] })) };
+      for (const vote of votes) {
+        if (vote.messageId !== row.id) continue;
+        poll.votes[vote.optionIndex].count++;
+        poll.votes[vote.optionIndex].userIds.push(vote.userId);
+      }
+    }
+    const acceptedBy = row.kind === 'meeting_point'
+      ? acceptances.filter(acceptance => acceptance.messageId === row.id).map(acceptance => acceptance.userId)
+      : null;
+
+    return { ...row, replyTo, reactions: summaries, poll, acceptedBy };
+  });
+}
+
+// A message as clients see it, for responses and realtime events
+export async function getGroupMessage(messageId: number) {
+  const rows = await db
+    .select(messageColumns)
+    .from(messages)
+    .leftJoin(user, eq(messages.userId, user.id))
+    .where(eq(messages.id, messageId))
+    .limit(1);
+  const [message] = await withMessageDetails(rows);
+  return message ?? null;
+}
+
+// One page of a group's messages, oldest first. `before` pages back from a
+// message id, `after` forward from one; with neither the newest page is
+// returned. hasMore says whether further messages exist in that direction.
+export async function listGroupMessages(
+  groupId: number,
+  page: { before?: number | null; after?: number | null; limit: number }
+) {
+  const forward = page.after != null;
+  const rows = await db
+    .select(messageColumns)
+    .from(messages)
+    .leftJoin(user, eq(messages.userId, user.id))
+    .where(and(
+      eq(messages.groupId, groupId),
+      page.before != null ? lt(messages.id, page.before) : undefined,
+      forward ? gt(messages.id, page.after!) : undefined
+    ))
+    .orderBy(forward ? asc(messages.id) : desc(messages.id))
+    .limit(page.limit + 1);
+
+  const hasMore = rows.length > page.limit;
+  const pageRows = await withMessageDetails(rows.slice(0, page.limit));
+  return { messages: forward ? pageRows : pageRows.reverse(), hasMore };
+}
+
+// A single emoji (with modifiers, ZWJ sequences or flags), not arbitrary text
+export function isReactionEmoji(value: unknown): value is string {
+  return typeof value === 'string' &&
+    value.length <= 16 &&
+    /^(\p{Extended_Pictographic}|\p{Regional_Indicator})[\p{Extended_Pictographic}\p{Emoji_Modifier}\p{Regional_Indicator}\u200d\ufe0f]*$/u.test(value);
+}
+
+// Move a member's read marker forward; it never moves back
+export async function markGroupRead(groupId: number, userId: string, messageId: number) {
+  const updatedAt = new Date().toISOString();
+  const [marker] = await db
+    .insert(groupReadMarkers)
+    .values({ groupId, userId, lastReadMessageId: messageId, updatedAt })
+    .onConflictDoUpdate({
+      target: [groupReadMarkers.groupId, groupReadMarkers.userId],
+      set: {
+        lastReadMessageId: sql`max(${groupReadMarkers.lastReadMessageId}, excluded.last_read_message_id)`,
+        updatedAt,
+      },
+    })
+    .returning();
+  return marker;
+}
+
+// Messages from others after the user's read marker, per group
+export async function unreadCounts(userId: string, groupIds: number[]): Promise<Map<number, number>> {
+  if (groupIds.length === 0) return new Map();
+
+  const rows = await db
+    .select({ groupId: messages.groupId, unread: count() })
+    .from(messages)
+    .leftJoin(groupReadMarkers, and(
+      eq(groupReadMarkers.groupId, messages.groupId),
+      eq(groupReadMarkers.userId, userId)
+    ))
+    .where(and(
+      inArray(messages.groupId, groupIds),
+      ne(messages.userId, userId),
+      sql`${messages.id} > coalesce(${groupReadMarkers.lastReadMessageId}, 0)`
+    ))
+    .groupBy(messages.groupId);
+
+  return new Map(rows.map(row => [row.groupId, row.unread]));
+}
+
+// Typed text as an FTS5 query: every word must appear, the last ones as
+// prefixes so results show up while typing. Null when there are no words.
+// Quoting each word keeps FTS5 operators in user input from being parsed.
+export function toFtsQuery(input: string): string | null {
+  const words = input.match(/[\p{L}\p{N}]+/gu);
+  if (!words) return null;
+  return words.map(word => `"${word}"*`).join(' ');
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+// Split an FTS5 snippet into plain and highlighted parts, so clients can
+// render highlights without injecting HTML
+export function parseSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  for (const [index, chunk] of snippet.split(MATCH_START).entries()) {
+    const [matched, rest] = index === 0 ? [null, chunk] : chunk.split(MATCH_END);
+    if (matched) parts.push({ text: matched, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  }
+  return parts;
+}
+
+// Messages of a group matching the search, newest first, each with a
+// highlighted snippet. Page back with `before` (a message id).
+export async function searchGroupMessages(
+  groupId: number,
+  query: string,
+  page: { before?: number | null; limit: number }
+) {
+  const rows = await db.all<{
+    id: number;
+    userId: string;
+    message: string;
+    createdAt: string;
+    senderName: string | null;
+    senderImage: string | null;
+    snippet: string;
+  }>(sql`
+    SELECT m.id AS id, m.user_id AS userId, m.message AS message, m.created_at AS createdAt,
+      u.name AS senderName, u.image AS senderImage,
+      snippet(messages_fts, 0, ${MATCH_START}, ${MATCH_END}, '…', 16) AS snippet
+    FROM messages_fts
+    JOIN ${messages} m ON m.id = messages_fts.rowid
+    LEFT JOIN ${user} u ON u.id = m.user_id
+    WHERE messages_fts MATCH ${query}
+      AND m.group_id = ${groupId}
+      ${page.before != null ? sql`AND m.id < ${page.before}` : sql``}
+    ORDER BY m.id DESC
+    LIMIT ${page.limit + 1}
+  `);
+
+  const hasMore = rows.length > page.limit;
+  return {
+    results: rows.slice(0, page.limit).map(({ senderName, senderImage, snippet, ...row }) => ({
+      ...row,
+      groupId,
+      sender: { name: senderName, image: senderImage },
+      snippet: parseSnippet(snippet),
+    })),
+    hasMore,
+  };
+}
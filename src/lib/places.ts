@@ -0,0 +1,125 @@
+import { db } from '@/db';
+import { savedPlaces, trips } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { calculateDistance, parseLatLon, type LatLon } from '@/lib/geo';
+import { normalizePlaceName, searchLocations } from '@/lib/geocoding';
+
+// Address autocomplete for the trip planner. Suggestions come from the user's
+// saved places, the endpoints of their recent trips and the geocoder, and
+// always carry coordinates so a picked suggestion needs no further geocoding.
+
+export type PlaceSuggestionKind = 'saved' | 'recent' | 'geocoder';
+
+export interface PlaceSuggestion {
+  kind: PlaceSuggestionKind;
+  label: string; // what the list shows, e.g. "Home"
+  address: string; // what goes in the input
+  coordinates: LatLon;
+  savedPlaceId?: number;
+}
+
+// Saved places beat recent endpoints beat geocoder results of the same quality
+const KIND_WEIGHT: Record<PlaceSuggestionKind, number> = { saved: 1.5, recent: 1, geocoder: 0 };
+
+// Suggestions closer than this are the same place
+const DUPLICATE_DISTANCE_KM = 0.1;
+
+const RECENT_TRIP_LIMIT = 50;
+const MIN_GEOCODER_QUERY_LENGTH = 3;
+
+// 1 exact, 0.8 prefix, 0.6 prefix of a later word, 0.4 anywhere, 0 no match
+export function matchQuality(query: string, text: string): number {
+  const q = normalizePlaceName(query);
+  const t = normalizePlaceName(text);
+  if (!q) return 0.5;
+  if (t === q) return 1;
+  if (t.startsWith(q)) return 0.8;
+  if (t.split(/[\s,]+/).some(word => word.startsWith(q))) return 0.6;
+  if (t.includes(q)) return 0.4;
+  return 0;
+}
+
+// Score, drop non-matches and collapse duplicates. Recent candidates are
+// expected most recent first and get a small bonus for it. Geocoder results
+// matched the query on the provider's side, so they're never dropped.
+export function rankPlaceSuggestions(query: string, candidates: PlaceSuggestion[], limit: number): PlaceSuggestion[] {
+  const recentCount = candidates.filter(candidate => candidate.kind === 'recent').length;
+  let recentIndex = 0;
+
+  const scored = candidates
+    .map(candidate => {
+      let quality = Math.max(matchQuality(query, candidate.label), matchQuality(query, candidate.address));
+      if (candidate.kind === 'geocoder') quality = Math.max(quality, 0.5);
+      const recency = candidate.kind === 'recent' ? 0.5 * (1 - recentIndex++ / Math.max(1, recentCount)) : 0;
+      return { candidate, quality, score: quality * 2 + KIND_WEIGHT[candidate.kind] + recency };
+    })
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const ranked: PlaceSuggestion[] = [];
+  for (const { candidate } of scored) {
+    const duplicate = ranked.some(kept =>
+      normalizePlaceName(kept.address) === normalizePlaceName(candidate.address) ||
+      calculateDistance(kept.coordinates, candidate.coordinates) < DUPLICATE_DISTANCE_KM
+    );
+    if (!duplicate) ranked.push(candidate);
+    if (ranked.length === limit) break;
+  }
+  return ranked;
+}
+
+async function recentEndpoints(userId: string): Promise<PlaceSuggestion[]> {
+  const recentTrips = await db
+    .select({
+      source: trips.source,
+      destination: trips.destination,
+      sourceCoordinates: trips.sourceCoordinates,
+      destinationCoordinates: trips.destinationCoordinates,
+    })
+    .from(trips)
+    .where(eq(trips.userId, userId))
+    .orderBy(desc(trips.createdAt))
+    .limit(RECENT_TRIP_LIMIT);
+
+  const endpoints: PlaceSuggestion[] = [];
+  for (const trip of recentTrips) {
+    for (const [address, value] of [[trip.source, trip.sourceCoordinates], [trip.destination, trip.destinationCoordinates]] as const) {
+      const coordinates = parseLatLon(value);
+      if (coordinates) endpoints.push({ kind: 'recent', label: address, address, coordinates });
+    }
+  }
+  return endpoints;
+}
+
+// Ranked suggestions for what the user has typed so far. An empty query lists
+// saved places and recent endpoints; the geocoder is asked from a few characters on.
+export async function autocompletePlaces(userId: string, query: string, limit: number = 8): Promise<PlaceSuggestion[]> {
+  const saved = await db.select().from(savedPlaces).where(eq(savedPlaces.userId, userId));
+  const candidates: PlaceSuggestion[] = [
+    ...saved.map(place => ({
+      kind: 'saved' as const,
+      label: place.label,
+      address: place.address,
+      coordinates: [place.latitude, place.longitude] as LatLon,
+      savedPlaceId: place.id,
+    })),
+    ...(await recentEndpoints(userId)),
+  ];
+
+  if (query.trim().length >= MIN_GEOCODER_QUERY_LENGTH) {
+    try {
+      const results = await searchLocations(query, 5);
+      candidates.push(...results.map(result => ({
+        kind: 'geocoder' as const,
+        label: result.label,
+        address: result.label,
+        coordinates: result.coordinates,
+      })));
+    } catch (error) {
+      // Saved and recent places still help when the geocoder is down
+      console.error('Autocomplete geocoding error:', error);
+    }
+  }
+
+  return rankPlaceSuggestions(query, candidates, limit);
+}
@@ -0,0 +1,140 @@
+import { EventEmitter } from 'node:events';
+import { db } from '@/db';
+import { groupEvents } from '@/db/schema';
+import { and, asc, desc, eq, gt } from 'drizzle-orm';
+import type { LivePosition, PickupEta, ShareEndReason } from '@/lib/liveLocation';
+import type { GroupMeetingPoint } from '@/lib/chatContent';
+
+// Realtime group chat. Message changes are stored in group_events so a client
+// can catch up from its last event id after a reconnect; typing, presence,
+// read receipts and live locations are ephemeral and only reach members
+// connected to this server process (read markers and location trails
+// themselves are stored, see src/lib/messages.ts and src/lib/liveLocation.ts).
+// Connected streams are woken through an in-process emitter and also re-check
+// the table periodically, so events written by other processes arrive too.
+
+// Stored event payloads by type; M is the message as the reader sees it
+// (a message with sender, reply preview, reactions and poll results)
+export interface GroupEventPayloads<M = unknown> {
+  'message.created': M;
+  'message.updated': M;
+  'message.deleted': { id: number };
+  'group.updated': { meetingPoint: GroupMeetingPoint };
+}
+
+export type GroupEventType = keyof GroupEventPayloads;
+
+export type GroupEvent = typeof groupEvents.$inferSelect;
+
+export type GroupSignal =
+  | { type: 'typing'; userId: string; name: string }
+  | { type: 'presence'; online: string[] }
+  | { type: 'read'; userId: string; lastReadMessageId: number }
+  | { type: 'location'; userId: string; name: string; position: LivePosition; expiresAt: string; etas: PickupEta[] }
+  | { type: 'location_stopped'; userId: string; reason: ShareEndReason };
+
+export const CATCH_UP_BATCH_SIZE = 500;
+
+const hub = new EventEmitter();
+hub.setMaxListeners(0);
+
+// groupId -> userId -> open streams
+const online = new Map<number, Map<string, number>>();
+
+export async function publishGroupEvent<T extends GroupEventType>(
+  groupId: number,
+  type: T,
+  messageId: number | null,
+  payload: GroupEventPayloads[T]
+): Promise<GroupEvent> {
+  const [event] = await db
+    .insert(groupEvents)
+    .values({ groupId, type, messageId, payload, createdAt: new Date().toISOString() })
+    .returning();
+  hub.emit(`events:${groupId}`);
+  return event;
+}
+
+// Events after the cursor, oldest first
+export async function groupEventsSince(groupId: number, since: number, limit: number = CATCH_UP_BATCH_SIZE) {
+  return db
+    .select()
+    .from(groupEvents)
+    .where(and(eq(groupEvents.groupId, groupId), gt(groupEvents.id, since)))
+    .orderBy(asc(groupEvents.id))
+    .limit(limit);
+}
+
+// Cursor for a client starting from the current state
+export async function latestGroupEventId(groupId: number): Promise<number> {
+  const [latest] = await db
+    .select({ id: groupEvents.id })
+    .from(groupEvents)
+    .where(eq(groupEvents.groupId, groupId))
+    .orderBy(desc(groupEvents.id))
+    .limit(1);
+  return latest?.id ?? 0;
+}
+
+export function sendTyping(groupId: number, user: { id: string; name: string }) {
+  hub.emit(`signal:${groupId}`, { type: 'typing', userId: user.id, name: user.name } satisfies GroupSignal);
+}
+
+export function sendReadReceipt(groupId: number, userId: string, lastReadMessageId: number) {
+  hub.emit(`signal:${groupId}`, { type: 'read', userId, lastReadMessageId } satisfies GroupSignal);
+}
+
+export function sendLocation(
+  groupId: number,
+  sharer: { id: string; name: string },
+  update: { position: LivePosition; expiresAt: string; etas: PickupEta[] }
+) {
+  hub.emit(`signal:${groupId}`, { type: 'location', userId: sharer.id, name: sharer.name, ...update } satisfies GroupSignal);
+}
+
+export function sendLocationStopped(groupId: number, userId: string, reason: ShareEndReason) {
+  hub.emit(`signal:${groupId}`, { type: 'location_stopped', userId, reason } satisfies GroupSignal);
+}
+
+export function onlineMembers(groupId: number): string[] {
+  return [...(online.get(groupId)?.keys() ?? [])];
+}
+
+// Mark a member online for as long as one of their streams stays open.
+// Returns the function to call when the stream closes.
+export function connectPresence(groupId: number, userId: string): () => void {
+  const members = online.get(groupId) ?? new Map<string, number>();
+  online.set(groupId, members);
+  members.set(userId, (members.get(userId) ?? 0) + 1);
+  if (members.get(userId) === 1) emitPresence(groupId);
+
+  let connected = true;
+  return () => {
+    if (!connected) return;
+    connected = false;
+    const remaining = (members.get(userId) ?? 1) - 1;
+    if (remaining > 0) {
+      members.set(userId, remaining);
+      return;
+    }
+    members.delete(userId);
+    if (members.size === 0) online.delete(groupId);
+    emitPresence(groupId);
+  };
+}
+
+function emitPresence(groupId: number) {
+  hub.emit(`signal:${groupId}`, { type: 'presence', online: onlineMembers(groupId) } satisfies GroupSignal);
+}
+
+export function subscribeToGroup(
+  groupId: number,
+  listeners: { onEvents: () => void; onSignal: (signal: GroupSignal) => void }
+): () => void {
+  hub.on(`events:${groupId}`, listeners.onEvents);
+  hub.on(`signal:${groupId}`, listeners.onSignal);
+  return () => {
+    hub.off(`events:${groupId}`, listeners.onEvents);
+    hub.off(`signal:${groupId}`, listeners.onSignal);
+  };
+}
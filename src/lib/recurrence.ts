@@ -0,0 +1,124 @@
+// The subset of iCalendar RRULE used for recurring trips:
+//   FREQ=DAILY or FREQ=WEEKLY, INTERVAL=n, BYDAY=MO,TU,... and UNTIL=YYYYMMDD
+// e.g. "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20301231" for weekday commutes.
+// Dates are calendar dates (YYYY-MM-DD) in the trip's local time.
+
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export const WORK_WEEK: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+export interface Recurrence {
+  freq: 'DAILY' | 'WEEKLY';
+  interval: number;
+  byDay: Weekday[]; // empty: every day (DAILY) or the start date's weekday (WEEKLY)
+  until: string | null; // YYYY-MM-DD, inclusive
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function fromDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDate(new Date(toDate(date).getTime() + days * DAY_MS));
+}
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(toDate(value).getTime()) && fromDate(toDate(value)) === value;
+}
+
+// Null when the rule is malformed or uses parts we don't support
+export function parseRRule(rule: string): Recurrence | null {
+  const parts = new Map<string, string>();
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';')) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) return null;
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY') return null;
+
+  const interval = parts.has('INTERVAL') ? parseInt(parts.get('INTERVAL')!) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 52) return null;
+
+  const byDay = parts.has('BYDAY') ? parts.get('BYDAY')!.split(',') : [];
+  if (!byDay.every(day => (WEEKDAYS as readonly string[]).includes(day))) return null;
+
+  let until: string | null = null;
+  if (parts.has('UNTIL')) {
+    const match = parts.get('UNTIL')!.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) return null;
+    until = `${match[1]}-${match[2]}-${match[3]}`;
+    if (!isDate(until)) return null;
+  }
+
+  for (const key of parts.keys()) {
+    if (!['FREQ', 'INTERVAL', 'BYDAY', 'UNTIL'].includes(key)) return null;
+  }
+
+  return { freq, interval, byDay: byDay as Weekday[], until };
+}
+
+export function formatRRule(recurrence: Recurrence): string {
+  const parts = [`FREQ=${recurrence.freq}`];
+  if (recurrence.interval > 1) parts.push(`INTERVAL=${recurrence.interval}`);
+  if (recurrence.byDay.length > 0) parts.push(`BYDAY=${recurrence.byDay.join(',')}`);
+  if (recurrence.until) parts.push(`UNTIL=${recurrence.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+// Occurrence dates in [from, to], counting intervals from startDate
+export function occurrencesBetween(recurrence: Recurrence, startDate: string, from: string, to: string): string[] {
+  const first = from > startDate ? from : startDate;
+  const last = recurrence.until && recurrence.until < to ? recurrence.until : to;
+  const start = toDate(startDate);
+  const days = recurrence.byDay.length > 0
+    ? recurrence.byDay
+    : recurrence.freq === 'WEEKLY' ? [WEEKDAYS[start.getUTCDay()]] : [...WEEKDAYS];
+
+  // Weeks are counted from the Sunday starting the start date's week
+  const startWeek = start.getTime() - start.getUTCDay() * DAY_MS;
+  const dates: string[] = [];
+
+  for (let date = first; date <= last; date = addDays(date, 1)) {
+    const day = toDate(date);
+    if (!days.includes(WEEKDAYS[day.getUTCDay()])) continue;
+
+    const elapsed = recurrence.freq === 'WEEKLY'
+      ? Math.floor((day.getTime() - startWeek) / (7 * DAY_MS))
+      : Math.round((day.getTime() - start.getTime()) / DAY_MS);
+    if (elapsed % recurrence.interval === 0) dates.push(date);
+  }
+  return dates;
+}
+
+const DAY_NAMES: Record<Weekday, string> = {
+  SU: 'Sun', MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat',
+};
+
+// e.g. "Every weekday until 2030-12-31", "Every 2 weeks on Mon, Thu"
+export function describeRecurrence(recurrence: Recurrence): string {
+  const every = recurrence.interval > 1
+    ? `Every ${recurrence.interval} ${recurrence.freq === 'DAILY' ? 'days' : 'weeks'}`
+    : 'Every';
+  const workWeek = recurrence.byDay.length === WORK_WEEK.length && WORK_WEEK.every(day => recurrence.byDay.includes(day));
+
+  let text: string;
+  if (recurrence.byDay.length === 0) {
+    text = recurrence.interval > 1 ? every : recurrence.freq === 'DAILY' ? 'Every day' : 'Every week';
+  } else if (workWeek && recurrence.interval === 1) {
+    text = 'Every weekday';
+  } else {
+    const days = WEEKDAYS.filter(day => recurrence.byDay.includes(day)).map(day => DAY_NAMES[day]).join(', ');
+    text = recurrence.interval > 1 ? `${every} on ${days}` : `Every ${days}`;
+  }
+
+  return recurrence.until ? `${text} until ${recurrence.until}` : text;
+}
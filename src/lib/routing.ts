@@ -0,0 +1,722 @@
+import { calculateBearing, calculateDistance, type LatLon } from '@/lib/geo';
+import { cached, roundCoordinates } from '@/lib/cache';
+
+export type TransportMode = 'car' | 'cycling' | 'walking' | 'bus' | 'train' | 'flight';
+
+export interface RouteInstruction {
+  distance: number;
+  duration: number;
+  instruction: string;
+  name: string;
+  type: string;
+  // Whether the step uses a toll road; left out by engines that don't report tolls
+  toll?: boolean;
+}
+
+export interface RouteLeg {
+  distance: number; // in meters
+  duration: number; // in seconds
+  instructions: RouteInstruction[];
+}
+
+export interface EngineRoute {
+  coordinates: LatLon[]; // [lat, lon] for Leaflet
+  distance: number; // in meters
+  duration: number; // in seconds
+  instructions: RouteInstruction[];
+  legs: RouteLeg[];
+}
+
+export interface RouteOptions {
+  // Ask for up to this many alternatives; engines may return fewer
+  alternatives?: number;
+}
+
+// Area reachable from the origin within `minutes`, as a closed [lat, lon] ring
+export interface IsochroneBand {
+  minutes: number;
+  polygon: LatLon[];
+}
+
+// Every engine takes ordered [lat, lon] waypoints (at least two) and returns
+// routes with [lat, lon] geometry. Failures are logged and yield [].
+// Engines with a native isochrone service also implement `isochrone`;
+// for the others, src/lib/isochrone.ts samples routes instead.
+export interface RoutingEngine {
+  name: string;
+  route(waypoints: LatLon[], mode: TransportMode, options?: RouteOptions): Promise<EngineRoute[]>;
+  isochrone?(origin: LatLon, mode: TransportMode, minutes: number[]): Promise<IsochroneBand[]>;
+}
+
+const USER_AGENT = 'TravelCompanionApp/1.0';
+
+// Map transport modes to OSRM profiles
+function mapToOSRMProfile(mode: TransportMode): string {
+  const profileMap: Record<TransportMode, string> = {
+    car: 'car',
+    cycling: 'bike',
+    walking: 'foot',
+    bus: 'car', // Fallback to car for bus
+    train: 'car', // Fallback to car for train
+    flight: 'car', // Fallback to car for flight
+  };
+  return profileMap[mode] || 'car';
+}
+
+// Map transport modes to Valhalla costing models
+function mapToValhallaCosting(mode: TransportMode): string {
+  const costingMap: Record<TransportMode, string> = {
+    car: 'auto',
+    cycling: 'bicycle',
+    walking: 'pedestrian',
+    bus: 'bus',
+    train: 'auto',
+    flight: 'auto',
+  };
+  return costingMap[mode] || 'auto';
+}
+
+// Map transport modes to GraphHopper vehicle profiles
+function mapToGraphHopperProfile(mode: TransportMode): string {
+  const profileMap: Record<TransportMode, string> = {
+    car: 'car',
+    cycling: 'bike',
+    walking: 'foot',
+    bus: 'car',
+    train: 'car',
+    flight: 'car',
+  };
+  return profileMap[mode] || 'car';
+}
+
+// OSRM - public demo server by default, or a self-hosted instance
+export function createOSRMEngine(baseUrl: string = 'https://router.project-osrm.org'): RoutingEngine {
+  return {
+    name: 'osrm',
+    async route(waypoints, mode, options = {}) {
+      try {
+        const profile = mapToOSRMProfile(mode);
+        // OSRM expects lon,lat format (not lat,lon)
+        const coords = waypoints.map(([lat, lon]) => `${lon},${lat}`).join(';');
+        const alternatives = options.alternatives && options.alternatives > 1
+          ? `&alternatives=true&number_of_alternatives=${options.alternatives}`
+          : '';
+
+        const response = await fetch(
+          `${baseUrl}/route/v1/${profile}/${coords}?overview=full&geometries=geojson&steps=true${alternatives}`,
+          { headers: { 'User-Agent': USER_AGENT } }
+        );
+
+        if (!response.ok) {
+          const error = await response.text();
+          console.error('OSRM API error:', response.status, error);
+          return [];
+        }
+
+        const data = await response.json();
+
+        if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) {
+          console.error('No routes found in OSRM response:', data.code);
+          return [];
+        }
+
+        return data.routes.map((route: any) => {
+          const legs: RouteLeg[] = (route.legs || []).map((leg: any) => ({
+            distance: leg.distance,
+            duration: leg.duration,
+            instructions: (leg.steps || [])
+              .filter((step: any) => step.maneuver)
+              .map((step: any) => ({
+                distance: step.distance,
+                duration: step.duration,
+                instruction: formatManeuver(step.maneuver, step.name),
+                name: step.name || 'Unnamed road',
+                type: step.maneuver.type,
+                toll: (step.intersections || []).some((intersection: any) => intersection.classes?.includes('toll')),
+              })),
+          }));
+
+          return {
+            // Convert GeoJSON [lon, lat] to [lat, lon] for Leaflet
+            coordinates: route.geometry.coordinates.map((coord: number[]) => [coord[1], coord[0]]),
+            distance: route.distance,
+            duration: route.duration,
+            instructions: legs.flatMap((leg) => leg.instructions),
+            legs,
+          };
+        });
+      } catch (error) {
+        console.error('OSRM route calculation error:', error);
+        return [];
+      }
+    },
+  };
+}
+
+// Format OSRM maneuver into human-readable instruction
+function formatManeuver(maneuver: any, roadName: string): string {
+  const name = roadName || 'the road';
+
+  switch (maneuver.type) {
+    case 'depart':
+      return `Head ${getDirection(maneuver.bearing_after)} on ${name}`;
+    case 'arrive':
+      return `Arrive at your destination`;
+    case 'turn':
+      if (maneuver.modifier === 'left') return `Turn left onto ${name}`;
+      if (maneuver.modifier === 'right') return `Turn right onto ${name}`;
+      if (maneuver.modifier === 'sharp left') return `Sharp left onto ${name}`;
+      if (maneuver.modifier === 'sharp right') return `Sharp right onto ${name}`;
+      if (maneuver.modifier === 'slight left') return `Slight left onto ${name}`;
+      if (maneuver.modifier === 'slight right') return `Slight right onto ${name}`;
+      return `Turn onto ${name}`;
+    case 'continue':
+      return `Continue on ${name}`;
+    case 'merge':
+      return `Merge onto ${name}`;
+    case 'on ramp':
+      return `Take the ramp onto ${name}`;
+    case 'off ramp':
+      return `Take the exit onto ${name}`;
+    case 'fork':
+      if (maneuver.modifier === 'left') return `Keep left at the fork onto ${name}`;
+      if (maneuver.modifier === 'right') return `Keep right at the fork onto ${name}`;
+      return `Continue at the fork onto ${name}`;
+    case 'roundabout':
+    case 'rotary':
+      const exit = maneuver.exit || 1;
+      return `At the roundabout, take exit ${exit} onto ${name}`;
+    case 'end of road':
+      if (maneuver.modifier === 'left') return `At the end of the road, turn left onto ${name}`;
+      if (maneuver.modifier === 'right') return `At the end of the road, turn right onto ${name}`;
+      return `At the end of the road, continue onto ${name}`;
+    default:
+      return `Continue on ${name}`;
+  }
+}
+
+// Get cardinal direction from bearing
+function getDirection(bearing: number): string {
+  const directions = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+  const index = Math.round(bearing / 45) % 8;
+  return directions[index];
+}
+
+// Valhalla - distances come back in km and shapes as precision-6 encoded polylines
+export function createValhallaEngine(baseUrl: string = 'https://valhalla1.openstreetmap.de'): RoutingEngine {
+  return {
+    name: 'valhalla',
+    async route(waypoints, mode, options = {}) {
+      try {
+        const body = {
+          locations: waypoints.map(([lat, lon]) => ({ lat, lon })),
+          costing: mapToValhallaCosting(mode),
+          units: 'kilometers',
+          alternates: options.alternatives && options.alternatives > 1 ? options.alternatives - 1 : 0,
+        };
+
+        const response = await fetch(`${baseUrl}/route`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': USER_AGENT,
+          },
+          body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          console.error('Valhalla API error:', response.status, error);
+          return [];
+        }
+
+        const data = await response.json();
+        if (!data.trip) {
+          console.error('No trip found in Valhalla response');
+          return [];
+        }
+
+        const trips = [data.trip, ...(data.alternates || []).map((alt: any) => alt.trip)];
+        return trips.filter(Boolean).map(valhallaTripToRoute);
+      } catch (error) {
+        console.error('Valhalla route calculation error:', error);
+        return [];
+      }
+    },
+    async isochrone([lat, lon], mode, minutes) {
+      try {
+        const body = {
+          locations: [{ lat, lon }],
+          costing: mapToValhallaCosting(mode),
+          contours: minutes.map(time => ({ time })),
+          polygons: true,
+        };
+
+        const response = await fetch(`${baseUrl}/isochrone`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': USER_AGENT,
+          },
+          body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          console.error('Valhalla isochrone API error:', response.status, error);
+          return [];
+        }
+
+        // GeoJSON features, one per contour, with [lon, lat] outer rings
+        const data = await response.json();
+        return (data.features || [])
+          .filter((feature: any) => feature.geometry?.type === 'Polygon')
+          .map((feature: any) => ({
+            minutes: feature.properties.contour,
+            polygon: feature.geometry.coordinates[0].map((coord: number[]) => [coord[1], coord[0]]),
+          }));
+      } catch (error) {
+        console.error('Valhalla isochrone error:', error);
+        return [];
+      }
+    },
+  };
+}
+
+function valhallaTripToRoute(trip: any): EngineRoute {
+  const legs: RouteLeg[] = [];
+  const coordinates: LatLon[] = [];
+
+  for (const leg of trip.legs || []) {
+    const shape = decodePolyline(leg.shape || '', 6);
+    // Consecutive legs share their boundary point
+    coordinates.push(...(coordinates.length > 0 ? shape.slice(1) : shape));
+
+    legs.push({
+      distance: (leg.summary?.length || 0) * 1000,
+      duration: leg.summary?.time || 0,
+      instructions: (leg.maneuvers || []).map((maneuver: any) => ({
+        distance: (maneuver.length || 0) * 1000,
+        duration: maneuver.time || 0,
+        instruction: maneuver.instruction,
+        name: maneuver.street_names?.[0] || 'Unnamed road',
+        type: String(maneuver.type),
+        toll: maneuver.toll === true,
+      })),
+    });
+  }
+
+  return {
+    coordinates,
+    distance: (trip.summary?.length || 0) * 1000,
+    duration: trip.summary?.time || 0,
+    instructions: legs.flatMap((leg) => leg.instructions),
+    legs,
+  };
+}
+
+// Decode a Google-style encoded polyline into [lat, lon] pairs
+function decodePolyline(encoded: string, precision: number): LatLon[] {
+  const factor = Math.pow(10, precision);
+  const coordinates: LatLon[] = [];
+  let index = 0;
+  let lat = 0;
+  let lon = 0;
+
+  while (index < encoded.length) {
+    for (const axis of [0, 1]) {
+      let result = 0;
+      let shift = 0;
+      let byte: number;
+      do {
+        byte = encoded.charCodeAt(index++) - 63;
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20);
+      const delta = result & 1 ? ~(result >> 1) : result >> 1;
+      if (axis === 0) lat += delta;
+      else lon += delta;
+    }
+    coordinates.push([lat / factor, lon / factor]);
+  }
+
+  return coordinates;
+}
+
+// GraphHopper - hosted API needs GRAPHHOPPER_API_KEY, self-hosted instances usually don't
+export function createGraphHopperEngine(
+  baseUrl: string = 'https://graphhopper.com/api/1',
+  apiKey?: string
+): RoutingEngine {
+  return {
+    name: 'graphhopper',
+    async route(waypoints, mode, options = {}) {
+      try {
+        const alternatives = options.alternatives && options.alternatives > 1 && waypoints.length === 2;
+        const body: Record<string, any> = {
+          points: waypoints.map(([lat, lon]) => [lon, lat]),
+          profile: mapToGraphHopperProfile(mode),
+          points_encoded: false,
+          instructions: true,
+          locale: 'en',
+          details: ['toll'],
+        };
+        if (alternatives) {
+          body['algorithm'] = 'alternative_route';
+          body['alternative_route.max_paths'] = options.alternatives;
+        }
+
+        const url = apiKey ? `${baseUrl}/route?key=${encodeURIComponent(apiKey)}` : `${baseUrl}/route`;
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': USER_AGENT,
+          },
+          body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          console.error('GraphHopper API error:', response.status, error);
+          return [];
+        }
+
+        const data = await response.json();
+        if (!data.paths || data.paths.length === 0) {
+          console.error('No paths found in GraphHopper response');
+          return [];
+        }
+
+        return data.paths.map((path: any) => graphHopperPathToRoute(path, waypoints.length));
+      } catch (error) {
+        console.error('GraphHopper route calculation error:', error);
+        return [];
+      }
+    },
+    async isochrone([lat, lon], mode, minutes) {
+      try {
+        // One request per band: GraphHopper's buckets split a single limit evenly
+        const bands = await Promise.all(minutes.map(async (limit) => {
+          const params = new URLSearchParams({
+            point: `${lat},${lon}`,
+            profile: mapToGraphHopperProfile(mode),
+            time_limit: String(limit * 60),
+            buckets: '1',
+          });
+          if (apiKey) params.set('key', apiKey);
+
+          const response = await fetch(`${baseUrl}/isochrone?${params}`, {
+            headers: { 'User-Agent': USER_AGENT },
+          });
+
+          if (!response.ok) {
+            const error = await response.text();
+            console.error('GraphHopper isochrone API error:', response.status, error);
+            return null;
+          }
+
+          const data = await response.json();
+          const feature = (data.polygons || []).find((polygon: any) => polygon.geometry?.type === 'Polygon');
+          if (!feature) return null;
+
+          return {
+            minutes: limit,
+            polygon: feature.geometry.coordinates[0].map((coord: number[]) => [coord[1], coord[0]] as LatLon),
+          };
+        }));
+
+        return bands.filter((band): band is IsochroneBand => band !== null);
+      } catch (error) {
+        console.error('GraphHopper isochrone error:', error);
+        return [];
+      }
+    },
+  };
+}
+
+// GraphHopper returns a single instruction list; "reached via point" (sign 5)
+// and "finish" (sign 4) mark the leg boundaries. Toll details are point
+// intervals, matched against each instruction's interval.
+function graphHopperPathToRoute(path: any, waypointCount: number): EngineRoute {
+  const instructions: RouteInstruction[] = [];
+  const legs: RouteLeg[] = [];
+  let current: RouteLeg = { distance: 0, duration: 0, instructions: [] };
+  const tolled: [number, number][] = (path.details?.toll || [])
+    .filter(([, , value]: [number, number, string]) => value && value !== 'no')
+    .map(([from, to]: [number, number, string]) => [from, to]);
+
+  for (const item of path.instructions || []) {
+    const [from, to] = item.interval || [0, 0];
+    const instruction: RouteInstruction = {
+      distance: item.distance,
+      duration: item.time / 1000,
+      instruction: item.text,
+      name: item.street_name || 'Unnamed road',
+      type: String(item.sign),
+      ...(path.details?.toll && { toll: tolled.some(([start, end]) => start < to && end > from) }),
+    };
+    instructions.push(instruction);
+    current.instructions.push(instruction);
+    current.distance += instruction.distance;
+    current.duration += instruction.duration;
+
+    if (item.sign === 5 || item.sign === 4) {
+      legs.push(current);
+      current = { distance: 0, duration: 0, instructions: [] };
+    }
+  }
+  if (current.instructions.length > 0 || legs.length < waypointCount - 1) {
+    legs.push(current);
+  }
+
+  return {
+    coordinates: (path.points?.coordinates || []).map((coord: number[]) => [coord[1], coord[0]]),
+    distance: path.distance,
+    duration: path.time / 1000,
+    instructions,
+    legs,
+  };
+}
+
+// Average speeds (km/h) and road-distance detour factors used by the stub engine
+const STUB_SPEEDS: Record<TransportMode, number> = {
+  car: 60,
+  cycling: 18,
+  walking: 5,
+  bus: 45,
+  train: 90,
+  flight: 60,
+};
+const STUB_DETOUR_FACTOR = 1.3;
+const STUB_POINTS_PER_LEG = 16;
+
+// In-process engine with synthetic geometry: each leg is a gently curved line
+// between the waypoints, 30% longer than the straight line. Output depends only
+// on the input, so /api/route and trip creation can be exercised offline.
+export function createStubEngine(): RoutingEngine {
+  return {
+    name: 'stub',
+    async route(waypoints, mode, options = {}) {
+      const count = Math.max(1, Math.min(options.alternatives || 1, 3));
+      const speed = STUB_SPEEDS[mode] || 60;
+      const routes: EngineRoute[] = [];
+
+      for (let alt = 0; alt < count; alt++) {
+        // Alternatives bow out further and get slightly longer and slower
+        const bow = alt * 0.08;
+        const lengthFactor = STUB_DETOUR_FACTOR * (1 + alt * 0.07);
+        const speedFactor = 1 - alt * 0.05;
+        const coordinates: LatLon[] = [];
+        const legs: RouteLeg[] = [];
+
+        for (let i = 1; i < waypoints.length; i++) {
+          const start = waypoints[i - 1];
+          const end = waypoints[i];
+          const points = interpolateCurve(start, end, bow);
+          coordinates.push(...(coordinates.length > 0 ? points.slice(1) : points));
+
+          const distance = calculateDistance(start, end) * lengthFactor * 1000;
+          const duration = distance / 1000 / (speed * speedFactor) * 3600;
+          const direction = getDirection(calculateBearing(start, end));
+          const isLastLeg = i === waypoints.length - 1;
+
+          legs.push({
+            distance,
+            duration,
+            instructions: [
+              {
+                distance,
+                duration,
+                instruction: `Head ${direction} on the synthetic route`,
+                name: 'Synthetic route',
+                type: 'depart',
+              },
+              {
+                distance: 0,
+                duration: 0,
+                instruction: isLastLeg ? 'Arrive at your destination' : `Arrive at stop ${i}`,
+                name: 'Synthetic route',
+                type: 'arrive',
+              },
+            ],
+          });
+        }
+
+        routes.push({
+          coordinates,
+          distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+          duration: legs.reduce((sum, leg) => sum + leg.duration, 0),
+          instructions: legs.flatMap((leg) => leg.instructions),
+          legs,
+        });
+      }
+
+      return routes;
+    },
+  };
+}
+
+// Points along a straight line pushed sideways by a sine bump of `bow` x leg length
+function interpolateCurve(start: LatLon, end: LatLon, bow: number): LatLon[] {
+  const dLat = end[0] - start[0];
+  const dLon = end[1] - start[1];
+  const points: LatLon[] = [];
+
+  for (let step = 0; step <= STUB_POINTS_PER_LEG; step++) {
+    const t = step / STUB_POINTS_PER_LEG;
+    const offset = Math.sin(Math.PI * t) * bow;
+    points.push([
+      start[0] + dLat * t - dLon * offset,
+      start[1] + dLon * t + dLat * offset,
+    ]);
+  }
+
+  return points;
+}
+
+// Memoize an engine's responses in the persistent cache, keyed by engine,
+// mode, alternatives and rounded waypoints. Failed lookups are not cached.
+export function createCachedEngine(engine: RoutingEngine): RoutingEngine {
+  const cachedEngine: RoutingEngine = {
+    name: engine.name,
+    route(waypoints, mode, options = {}) {
+      const key = `${engine.name}:${mode}:${options.alternatives ?? 0}:${roundCoordinates(waypoints)}`;
+      return cached('route', key, () => engine.route(waypoints, mode, options), routes => routes.length > 0);
+    },
+  };
+
+  const isochrone = engine.isochrone?.bind(engine);
+  if (isochrone) {
+    cachedEngine.isochrone = (origin, mode, minutes) => {
+      const key = `${engine.name}:isochrone:${mode}:${minutes.join(',')}:${roundCoordinates([origin])}`;
+      return cached('route', key, () => isochrone(origin, mode, minutes), bands => bands.length > 0);
+    };
+  }
+
+  return cachedEngine;
+}
+
+// ROUTING_ENGINE selects the backend: "osrm" (default), "valhalla", "graphhopper"
+// or "stub". ROUTING_URL points an adapter at a self-hosted instance.
+let routingEngine: RoutingEngine | null = null;
+
+export function getRoutingEngine(): RoutingEngine {
+  if (routingEngine) return routingEngine;
+
+  const name = (process.env.ROUTING_ENGINE || 'osrm').trim().toLowerCase();
+  const baseUrl = process.env.ROUTING_URL || undefined;
+
+  switch (name) {
+    case 'valhalla':
+      routingEngine = createValhallaEngine(baseUrl);
+      break;
+    case 'graphhopper':
+      routingEngine = createGraphHopperEngine(baseUrl, process.env.GRAPHHOPPER_API_KEY);
+      break;
+    case 'stub':
+      routingEngine = createStubEngine();
+      break;
+    case 'osrm':
+      routingEngine = createOSRMEngine(baseUrl);
+      break;
+    default:
+      console.warn(`⚠️ Routing engine "${name}" is unknown, falling back to OSRM.`);
+      routingEngine = createOSRMEngine(baseUrl);
+  }
+
+  // The stub is local and deterministic, so caching it would only add queries
+  if (routingEngine.name !== 'stub') {
+    routingEngine = createCachedEngine(routingEngine);
+  }
+
+  return routingEngine;
+}
+
+// Brute force is exact and cheap up to 7! = 5040 orders; beyond that use
+// nearest-neighbour followed by 2-opt improvement.
+const MAX_EXHAUSTIVE_STOPS = 7;
+
+// Reorder the intermediate waypoints to shorten the trip. The first and last
+// waypoints stay fixed. Returns indices into `waypoints` in visiting order.
+// Uses straight-line distances, so no routing engine calls are made.
+export function optimizeWaypointOrder(waypoints: LatLon[]): number[] {
+  const identity = waypoints.map((_, index) => index);
+  if (waypoints.length <= 3) return identity;
+
+  const last = waypoints.length - 1;
+  const middle = identity.slice(1, last);
+  const cost = (order: number[]) => {
+    let total = 0;
+    for (let i = 1; i < order.length; i++) {
+      total += calculateDistance(waypoints[order[i - 1]], waypoints[order[i]]);
+    }
+    return total;
+  };
+
+  if (middle.length <= MAX_EXHAUSTIVE_STOPS) {
+    let best = identity;
+    let bestCost = cost(identity);
+    for (const permutation of permutations(middle)) {
+      const order = [0, ...permutation, last];
+      const orderCost = cost(order);
+      if (orderCost < bestCost) {
+        best = order;
+        bestCost = orderCost;
+      }
+    }
+    return best;
+  }
+
+  // Nearest neighbour from the start
+  const remaining = new Set(middle);
+  const order = [0];
+  while (remaining.size > 0) {
+    const current = waypoints[order[order.length - 1]];
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    for (const candidate of remaining) {
+      const distance = calculateDistance(current, waypoints[candidate]);
+      if (distance < nearestDistance) {
+        nearest = candidate;
+        nearestDistance = distance;
+      }
+    }
+    order.push(nearest);
+    remaining.delete(nearest);
+  }
+  order.push(last);
+
+  // 2-opt: reverse any segment of intermediate stops that shortens the tour
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < order.length - 2; i++) {
+      for (let j = i + 1; j < order.length - 1; j++) {
+        const before = calculateDistance(waypoints[order[i - 1]], waypoints[order[i]]) +
+          calculateDistance(waypoints[order[j]], waypoints[order[j + 1]]);
+        const after = calculateDistance(waypoints[order[i - 1]], waypoints[order[j]]) +
+          calculateDistance(waypoints[order[i]], waypoints[order[j + 1]]);
+        if (after + 1e-9 < before) {
+          order.splice(i, j - i + 1, ...order.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+}
+
+function* permutations(items: number[]): Generator<number[]> {
+  if (items.length <= 1) {
+    yield items;
+    return;
+  }
+  for (let i = 0; i < items.length; i++) {
+    const rest = [...items.slice(0, i), ...items.slice(i + 1)];
+    for (const permutation of permutations(rest)) {
+      yield [items[i], ...permutation];
+    }
+  }
+}
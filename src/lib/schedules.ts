@@ -0,0 +1,170 @@
+import { db } from '@/db';
+import { scheduleArrangements, trips, tripSchedules } from '@/db/schema';
+import { and, eq, gte, inArray, isNull, lt, or } from 'drizzle-orm';
+import { parseLatLon, type LatLon } from '@/lib/geo';
+import { enqueueTripMatching } from '@/lib/jobs';
+import { confirmStandingPair } from '@/lib/matchConsent';
+import { addDays, occurrencesBetween, parseRRule } from '@/lib/recurrence';
+import { indexTrip } from '@/lib/spatialIndex';
+
+// Recurring trips. A schedule generates concrete trips a fixed number of days
+// ahead, copying the coordinates and route geometry it located once, so each
+// day gets matched like any other trip without geocoding or routing again.
+// Trips of two schedules whose owners both opted into a standing arrangement
+// are accepted as a pair as soon as they're generated.
+
+const SCHEDULE_HORIZON_DAYS = parseInt(process.env.SCHEDULE_HORIZON_DAYS || '') || 14;
+
+type Schedule = typeof tripSchedules.$inferSelect;
+type TripRow = typeof trips.$inferSelect;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Schedules of partners who opted in both ways with this one
+async function standingPartners(scheduleId: number): Promise<number[]> {
+  const rows = await db
+    .select()
+    .from(scheduleArrangements)
+    .where(or(eq(scheduleArrangements.scheduleId, scheduleId), eq(scheduleArrangements.partnerScheduleId, scheduleId)));
+
+  const mine = new Set(rows.filter(row => row.scheduleId === scheduleId).map(row => row.partnerScheduleId));
+  return rows
+    .filter(row => row.partnerScheduleId === scheduleId && mine.has(row.scheduleId))
+    .map(row => row.scheduleId);
+}
+
+// Pair a generated trip with the same day's trips of its standing partners
+async function carryArrangements(trip: TripRow) {
+  if (!trip.scheduleId) return;
+  const partners = await standingPartners(trip.scheduleId);
+  if (partners.length === 0) return;
+
+  const partnerTrips = await db
+    .select()
+    .from(trips)
+    .where(and(
+      inArray(trips.scheduleId, partners),
+      eq(trips.travelDate, trip.travelDate),
+      eq(trips.status, 'active')
+    ));
+
+  for (const partnerTrip of partnerTrips) {
+    if (!(await confirmStandingPair(trip, partnerTrip))) {
+      console.warn(`Standing arrangement skipped for trips ${trip.id} and ${partnerTrip.id}: car is full`);
+    }
+  }
+}
+
+// Create the schedule's trips up to the horizon. Safe to rerun: a date that
+// already has a trip is skipped. Returns the trips created.
+export async function generateScheduleTrips(schedule: Schedule): Promise<TripRow[]> {
+  const recurrence = parseRRule(schedule.rrule);
+  if (!recurrence || schedule.status !== 'active') return [];
+
+  const from = schedule.generatedThrough ? addDays(schedule.generatedThrough, 1) : schedule.startDate;
+  const through = addDays(today(), SCHEDULE_HORIZON_DAYS);
+  const dates = occurrencesBetween(recurrence, schedule.startDate, from > today() ? from : today(), through);
+
+  const sourceCoords = parseLatLon(schedule.sourceCoordinates);
+  const destCoords = parseLatLon(schedule.destinationCoordinates);
+  const routeGeometry = schedule.routeGeometry as LatLon[] | null;
+  const timestamp = new Date().toISOString();
+  const created: TripRow[] = [];
+
+  for (const travelDate of dates) {
+    const [trip] = await db
+      .insert(trips)
+      .values({
+        userId: schedule.userId,
+        source: schedule.source,
+        destination: schedule.destination,
+        sourceCoordinates: schedule.sourceCoordinates,
+        destinationCoordinates: schedule.destinationCoordinates,
+        travelDate,
+        travelTime: schedule.travelTime,
+        transportMode: schedule.transportMode,
+        optimizationMode: schedule.optimizationMode,
+        status: 'active',
+        routeData: schedule.routeData,
+        routeGeometry,
+        matchRadius: schedule.matchRadius,
+        flexibilityMinutes: schedule.flexibilityMinutes,
+        maxDetourMinutes: schedule.maxDetourMinutes,
+        role: schedule.role,
+        seatsOffered: schedule.seatsOffered,
+        seatsAvailable: schedule.seatsOffered,
+        scheduleId: schedule.id,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (!trip) continue;
+
+    await indexTrip(trip.id, sourceCoords, destCoords, routeGeometry);
+    await carryArrangements(trip);
+    await enqueueTripMatching(trip.id);
+    created.push(trip);
+  }
+
+  const ended = recurrence.until !== null && recurrence.until <= through;
+  await db
+    .update(tripSchedules)
+    .set({ generatedThrough: through, status: ended ? 'ended' : 'active', updatedAt: timestamp })
+    .where(eq(tripSchedules.id, schedule.id));
+
+  return created;
+}
+
+// Top up every active schedule whose generated trips don't reach the horizon yet
+export async function extendSchedules(): Promise<number> {
+  const due = await db
+    .select()
+    .from(tripSchedules)
+    .where(and(
+      eq(tripSchedules.status, 'active'),
+      or(isNull(tripSchedules.generatedThrough), lt(tripSchedules.generatedThrough, addDays(today(), SCHEDULE_HORIZON_DAYS)))
+    ));
+
+  let created = 0;
+  for (const schedule of due) {
+    created += (await generateScheduleTrips(schedule)).length;
+  }
+  return created;
+}
+
+// Record that a schedule's owner wants to keep travelling with a partner
+// schedule. Once both have opted in, their upcoming trips on the same days are
+// paired right away. Returns whether the arrangement now holds.
+export async function optIntoArrangement(scheduleId: number, partnerScheduleId: number): Promise<boolean> {
+  await db
+    .insert(scheduleArrangements)
+    .values({ scheduleId, partnerScheduleId, createdAt: new Date().toISOString() })
+    .onConflictDoNothing();
+
+  const [reverse] = await db
+    .select()
+    .from(scheduleArrangements)
+    .where(and(eq(scheduleArrangements.scheduleId, partnerScheduleId), eq(scheduleArrangements.partnerScheduleId, scheduleId)))
+    .limit(1);
+  if (!reverse) return false;
+
+  const upcoming = await db
+    .select()
+    .from(trips)
+    .where(and(eq(trips.scheduleId, scheduleId), eq(trips.status, 'active'), gte(trips.travelDate, today())));
+  for (const trip of upcoming) {
+    await carryArrangements(trip);
+  }
+  return true;
+}
+
+// Stop carrying a partnership forward. Trips already paired stay paired; each
+// can still be withdrawn on its own.
+export async function optOutOfArrangement(scheduleId: number, partnerScheduleId: number) {
+  await db
+    .delete(scheduleArrangements)
+    .where(and(eq(scheduleArrangements.scheduleId, scheduleId), eq(scheduleArrangements.partnerScheduleId, partnerScheduleId)));
+}
@@ -0,0 +1,216 @@
+import { db } from '@/db';
+import { tripCells, trips } from '@/db/schema';
+import { and, eq, gte, inArray, lt, ne, or, type SQL } from 'drizzle-orm';
+import { toRad, type LatLon } from '@/lib/geo';
+
+// Trip lookup by geohash cell. Sources and destinations are stored as one
+// precision-5 cell (~4.9 x 4.9 km) and routes as every precision-4 cell
+// (~39 x 19.5 km) they pass through. Queries cover the search area with
+// cells of whatever precision keeps the cover small and match stored cells
+// by prefix, so the candidate set is a superset to be scored exactly.
+
+export type TripCellKind = 'source' | 'destination' | 'route';
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+const POINT_CELL_PRECISION = 5;
+const ROUTE_CELL_PRECISION = 4;
+const MAX_QUERY_CELLS = 48;
+const KM_PER_DEGREE = 111.32;
+const INSERT_BATCH_SIZE = 500;
+
+export function encodeGeohash([lat, lon]: LatLon, precision: number): string {
+  let latRange = [-90, 90];
+  let lonRange = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lonRange : latRange;
+    const coordinate = evenBit ? lon : lat;
+    const mid = (range[0] + range[1]) / 2;
+    value <<= 1;
+    if (coordinate >= mid) {
+      value |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+    if (evenBit) lonRange = range; else latRange = range;
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+// Cell height and width in degrees
+function cellSize(precision: number): { height: number; width: number } {
+  const totalBits = precision * 5;
+  return {
+    height: 180 / 2 ** Math.floor(totalBits / 2),
+    width: 360 / 2 ** Math.ceil(totalBits / 2),
+  };
+}
+
+function wrapLon(lon: number): number {
+  return ((lon + 540) % 360) - 180;
+}
+
+// Values from min to max at most `step` apart, both ends included
+function steps(min: number, max: number, step: number): number[] {
+  const values: number[] = [];
+  for (let value = min; value < max; value += step) values.push(value);
+  values.push(max);
+  return values;
+}
+
+// Extra points so consecutive ones are at most `step` degrees apart
+function densify(line: LatLon[], step: number): LatLon[] {
+  if (line.length < 2) return line;
+
+  const points: LatLon[] = [line[0]];
+  for (let i = 1; i < line.length; i++) {
+    const [lat1, lon1] = line[i - 1];
+    const [lat2, lon2] = line[i];
+    const count = Math.ceil(Math.max(Math.abs(lat2 - lat1), Math.abs(lon2 - lon1)) / step);
+    for (let j = 1; j <= count; j++) {
+      points.push([lat1 + (lat2 - lat1) * j / count, lon1 + (lon2 - lon1) * j / count]);
+    }
+  }
+  return points;
+}
+
+// Cells of one precision covering the box within radiusKm of each point,
+// or of the whole polyline through them when `connected`
+function coverAt(points: LatLon[], radiusKm: number, precision: number, connected: boolean): Set<string> {
+  const { height, width } = cellSize(precision);
+  const cells = new Set<string>();
+
+  for (const [lat, lon] of connected ? densify(points, Math.min(height, width)) : points) {
+    const dLat = radiusKm / KM_PER_DEGREE;
+    const dLon = Math.min(180, radiusKm / (KM_PER_DEGREE * Math.max(0.01, Math.cos(toRad(lat)))));
+    for (const cellLat of steps(Math.max(-90, lat - dLat), Math.min(90, lat + dLat), height)) {
+      for (const cellLon of steps(lon - dLon, lon + dLon, width)) {
+        cells.add(encodeGeohash([cellLat, wrapLon(cellLon)], precision));
+      }
+    }
+  }
+
+  return cells;
+}
+
+// The finest cover, at no more than maxPrecision, that stays within MAX_QUERY_CELLS
+function coverArea(points: LatLon[], radiusKm: number, maxPrecision: number, connected: boolean = false): string[] {
+  for (let precision = maxPrecision; precision > 1; precision--) {
+    const cells = coverAt(points, radiusKm, precision, connected);
+    if (cells.size <= MAX_QUERY_CELLS) return [...cells];
+  }
+  return [...coverAt(points, radiusKm, 1, connected)];
+}
+
+// Rows for trip_cells; exported so bulk loaders can batch them
+export function buildTripCells(
+  tripId: number,
+  source: LatLon | null,
+  destination: LatLon | null,
+  routeGeometry: LatLon[] | null
+) {
+  const rows: { tripId: number; kind: TripCellKind; cell: string }[] = [];
+  if (source) rows.push({ tripId, kind: 'source', cell: encodeGeohash(source, POINT_CELL_PRECISION) });
+  if (destination) rows.push({ tripId, kind: 'destination', cell: encodeGeohash(destination, POINT_CELL_PRECISION) });
+
+  if (routeGeometry && routeGeometry.length > 0) {
+    const { height, width } = cellSize(ROUTE_CELL_PRECISION);
+    const routeCells = new Set(
+      densify(routeGeometry, Math.min(height, width) / 2).map(point => encodeGeohash(point, ROUTE_CELL_PRECISION))
+    );
+    for (const cell of routeCells) rows.push({ tripId, kind: 'route', cell });
+  }
+
+  return rows;
+}
+
+// (Re)build a trip's cells
+export async function indexTrip(
+  tripId: number,
+  source: LatLon | null,
+  destination: LatLon | null,
+  routeGeometry: LatLon[] | null
+) {
+  await db.delete(tripCells).where(eq(tripCells.tripId, tripId));
+
+  const rows = buildTripCells(tripId, source, destination, routeGeometry);
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(tripCells).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+  }
+}
+
+export async function removeTripFromIndex(tripId: number) {
+  await db.delete(tripCells).where(eq(tripCells.tripId, tripId));
+}
+
+async function tripsInCells(kinds: TripCellKind[], cells: string[], excludeUserId: string): Promise<number[]> {
+  if (cells.length === 0) return [];
+
+  // One index range per kind and cell prefix ('{' sorts right after 'z')
+  const ranges: SQL[] = [];
+  for (const kind of kinds) {
+    for (const cell of cells) {
+      ranges.push(and(eq(tripCells.kind, kind), gte(tripCells.cell, cell), lt(tripCells.cell, cell + '{'))!);
+    }
+  }
+
+  const rows = await db
+    .selectDistinct({ tripId: tripCells.tripId })
+    .from(tripCells)
+    .innerJoin(trips, eq(tripCells.tripId, trips.id))
+    .where(and(or(...ranges), eq(trips.status, 'active'), ne(trips.userId, excludeUserId)));
+
+  return rows.map(row => row.tripId);
+}
+
+// Active trips of other users that could score on location: sources or
+// destinations within radiusKm of ours, routes passing within radiusKm / 2 of
+// our endpoints, or endpoints within radiusKm / 2 of our route
+export async function findCandidateTripIds(query: {
+  source: LatLon;
+  destination: LatLon;
+  routeGeometry: LatLon[] | null;
+  radiusKm: number;
+  excludeUserId: string;
+}): Promise<number[]> {
+  const { source, destination, routeGeometry, radiusKm, excludeUserId } = query;
+  const corridorKm = radiusKm / 2;
+
+  const lookups = [
+    tripsInCells(['source'], coverArea([source], radiusKm, POINT_CELL_PRECISION), excludeUserId),
+    tripsInCells(['destination'], coverArea([destination], radiusKm, POINT_CELL_PRECISION), excludeUserId),
+    tripsInCells(['route'], coverArea([source, destination], corridorKm, ROUTE_CELL_PRECISION), excludeUserId),
+  ];
+  if (routeGeometry && routeGeometry.length > 0) {
+    lookups.push(tripsInCells(
+      ['source', 'destination'],
+      coverArea(routeGeometry, corridorKm, POINT_CELL_PRECISION, true),
+      excludeUserId
+    ));
+  }
+
+  const results = await Promise.all(lookups);
+  return [...new Set(results.flat())];
+}
+
+// Load trips by ID in chunks that stay under SQLite's parameter limit
+export async function loadTrips(tripIds: number[]) {
+  const loaded: (typeof trips.$inferSelect)[] = [];
+  for (let i = 0; i < tripIds.length; i += INSERT_BATCH_SIZE) {
+    loaded.push(...await db.select().from(trips).where(inArray(trips.id, tripIds.slice(i, i + INSERT_BATCH_SIZE))));
+  }
+  return loaded;
+}
@@ -0,0 +1,146 @@
+import { db } from '@/db';
+import { speedProfiles } from '@/db/schema';
+import type { RouteInstruction, TransportMode } from '@/lib/routing';
+
+export type RoadClass = 'motorway' | 'primary' | 'secondary' | 'residential';
+
+// A point in local time: a service date plus seconds after its midnight
+export interface TravelMoment {
+  date: string; // YYYY-MM-DD
+  seconds: number;
+}
+
+export interface TimedRoute {
+  departure: TravelMoment;
+  arrival: TravelMoment;
+  duration: number; // in seconds, with congestion
+  freeFlowDuration: number; // in seconds, as returned by the routing engine
+  trafficFactor: number; // duration / freeFlowDuration
+}
+
+// Modes that share the road with congestion; cycling and walking are unaffected
+const CONGESTED_MODES: TransportMode[] = ['car', 'bus', 'train'];
+
+const HOURS_PER_WEEK = 168;
+const SECONDS_PER_DAY = 86400;
+
+// Profiles change only when re-seeded, so keep them in memory for a while
+const PROFILE_CACHE_TTL_MS = 10 * 60 * 1000;
+let profileCache: { loadedAt: number; profiles: Map<string, number[]> } | null = null;
+
+async function loadSpeedProfiles(): Promise<Map<string, number[]>> {
+  if (profileCache && Date.now() - profileCache.loadedAt < PROFILE_CACHE_TTL_MS) {
+    return profileCache.profiles;
+  }
+
+  const rows = await db.select().from(speedProfiles);
+  const profiles = new Map<string, number[]>();
+  for (const row of rows) {
+    if (!profiles.has(row.roadClass)) {
+      profiles.set(row.roadClass, new Array(HOURS_PER_WEEK).fill(1));
+    }
+    profiles.get(row.roadClass)![row.hourOfWeek % HOURS_PER_WEEK] = row.multiplier;
+  }
+
+  profileCache = { loadedAt: Date.now(), profiles };
+  return profiles;
+}
+
+// Engines don't agree on road classification, so infer it from free-flow speed
+export function classifyRoad(distance: number, duration: number): RoadClass {
+  const speed = duration > 0 ? (distance / 1000) / (duration / 3600) : 0;
+  if (speed > 80) return 'motorway';
+  if (speed > 55) return 'primary';
+  if (speed > 35) return 'secondary';
+  return 'residential';
+}
+
+// Bring seconds into [0, 86400) by moving the date
+export function normalizeMoment(moment: TravelMoment): TravelMoment {
+  const dayOffset = Math.floor(moment.seconds / SECONDS_PER_DAY);
+  if (dayOffset === 0) return moment;
+
+  const date = new Date(`${moment.date}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + dayOffset);
+  return {
+    date: date.toISOString().slice(0, 10),
+    seconds: moment.seconds - dayOffset * SECONDS_PER_DAY,
+  };
+}
+
+// 0 = Monday 00:00 ... 167 = Sunday 23:00
+export function hourOfWeek(moment: TravelMoment): number {
+  const { date, seconds } = normalizeMoment(moment);
+  const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+  return weekday * 24 + Math.floor(seconds / 3600);
+}
+
+function multiplierAt(profiles: Map<string, number[]>, roadClass: RoadClass, moment: TravelMoment): number {
+  return profiles.get(roadClass)?.[hourOfWeek(moment)] ?? 1;
+}
+
+// Route steps scaled so their free-flow durations add up to the route's
+function freeFlowSteps(duration: number, distance: number, instructions: RouteInstruction[] = []) {
+  const steps = instructions.filter(step => step.duration > 0);
+  if (steps.length === 0) {
+    return [{ roadClass: classifyRoad(distance, duration), duration }];
+  }
+
+  const stepTotal = steps.reduce((sum, step) => sum + step.duration, 0);
+  return steps.map(step => ({
+    roadClass: classifyRoad(step.distance, step.duration),
+    duration: step.duration * duration / stepTotal,
+  }));
+}
+
+function timed(departure: TravelMoment, arrival: TravelMoment, duration: number, freeFlowDuration: number): TimedRoute {
+  // Whole seconds; rounding the departure down keeps "arrive by" promises
+  return {
+    departure: normalizeMoment({ ...departure, seconds: Math.floor(departure.seconds) }),
+    arrival: normalizeMoment({ ...arrival, seconds: Math.round(arrival.seconds) }),
+    duration: Math.round(duration),
+    freeFlowDuration,
+    trafficFactor: freeFlowDuration > 0 ? Math.round((duration / freeFlowDuration) * 100) / 100 : 1,
+  };
+}
+
+// Drive the route forward from `departure`, slowing each step by the
+// congestion expected when the vehicle reaches it
+export async function timeRouteFromDeparture(
+  route: { duration: number; distance: number; instructions?: RouteInstruction[] },
+  mode: TransportMode,
+  departure: TravelMoment
+): Promise<TimedRoute> {
+  if (!CONGESTED_MODES.includes(mode)) {
+    return timed(departure, { ...departure, seconds: departure.seconds + route.duration }, route.duration, route.duration);
+  }
+
+  const profiles = await loadSpeedProfiles();
+  let clock = departure.seconds;
+  for (const step of freeFlowSteps(route.duration, route.distance, route.instructions)) {
+    clock += step.duration * multiplierAt(profiles, step.roadClass, { date: departure.date, seconds: clock });
+  }
+
+  return timed(departure, { date: departure.date, seconds: clock }, clock - departure.seconds, route.duration);
+}
+
+// Work backward from the latest acceptable arrival to the departure time
+// that gets there, using the congestion expected on each step
+export async function timeRouteForArrival(
+  route: { duration: number; distance: number; instructions?: RouteInstruction[] },
+  mode: TransportMode,
+  arriveBy: TravelMoment
+): Promise<TimedRoute> {
+  if (!CONGESTED_MODES.includes(mode)) {
+    return timed({ ...arriveBy, seconds: arriveBy.seconds - route.duration }, arriveBy, route.duration, route.duration);
+  }
+
+  const profiles = await loadSpeedProfiles();
+  let clock = arriveBy.seconds;
+  for (const step of freeFlowSteps(route.duration, route.distance, route.instructions).reverse()) {
+    // Congestion just before reaching the end of the step
+    clock -= step.duration * multiplierAt(profiles, step.roadClass, { date: arriveBy.date, seconds: clock - 1 });
+  }
+
+  return timed({ date: arriveBy.date, seconds: clock }, arriveBy, arriveBy.seconds - clock, route.duration);
+}
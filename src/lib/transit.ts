@@ -0,0 +1,600 @@
+import { db } from '@/db';
+import {
+  transitFeeds,
+  transitStops,
+  transitRoutes,
+  transitTrips,
+  transitStopTimes,
+  transitCalendars,
+  transitCalendarDates,
+  transitFareAttributes,
+  transitFareRules,
+} from '@/db/schema';
+import { and, eq, gte, inArray, lte } from 'drizzle-orm';
+import { calculateDistance, polylineLength, type LatLon } from '@/lib/geo';
+
+export type TransitMode = 'bus' | 'train';
+
+export interface TransitPlace {
+  name: string;
+  coordinates: LatLon;
+  stopId?: string;
+}
+
+export interface TransitLeg {
+  type: 'walk' | 'ride' | 'transfer';
+  from: TransitPlace;
+  to: TransitPlace;
+  departureTime: string; // "HH:MM", hours may exceed 24 after midnight
+  arrivalTime: string;
+  duration: number; // in seconds
+  distance: number; // in meters
+  coordinates: LatLon[];
+  instruction: string;
+  routeId?: string;
+  routeName?: string;
+  routeType?: number;
+  headsign?: string;
+  stopCount?: number;
+}
+
+export interface TransitFare {
+  amount: number;
+  currency: string;
+}
+
+export interface TransitJourney {
+  legs: TransitLeg[];
+  departureSeconds: number;
+  arrivalSeconds: number;
+  duration: number; // in seconds
+  distance: number; // in meters
+  transfers: number;
+  fare: TransitFare | null;
+  coordinates: LatLon[];
+}
+
+export interface TransitPlanOptions {
+  date: string; // YYYY-MM-DD
+  departureSeconds: number; // seconds after midnight on `date`
+  mode?: TransitMode;
+}
+
+// Walking assumptions for access, egress and transfers
+const WALK_SPEED_MPS = 1.33;
+const WALK_DETOUR_FACTOR = 1.25;
+const MAX_ACCESS_WALK_M = 1200;
+const MAX_TRANSFER_WALK_M = 300;
+const MIN_TRANSFER_SECONDS = 120;
+// Round k allows k rides, i.e. k - 1 transfers
+const MAX_ROUNDS = 4;
+// Only stop times within this window after the requested departure are loaded
+const SEARCH_WINDOW_SECONDS = 4 * 3600;
+
+// GTFS route_type values (basic and extended) accepted for each mode
+function matchesMode(routeType: number, mode: TransitMode): boolean {
+  if (mode === 'bus') {
+    return routeType === 3 || routeType === 11 || (routeType >= 200 && routeType < 300) || (routeType >= 700 && routeType < 800);
+  }
+  return [0, 1, 2, 12].includes(routeType) ||
+    (routeType >= 100 && routeType < 200) ||
+    (routeType >= 400 && routeType < 500) ||
+    (routeType >= 900 && routeType < 1000);
+}
+
+// "08:30" -> 30600
+export function parseClockTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(value.trim());
+  if (!match) return null;
+  return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + (match[3] ? parseInt(match[3]) : 0);
+}
+
+// 30600 -> "08:30"
+export function formatClockTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+function walkSeconds(distanceMeters: number): number {
+  return Math.round(distanceMeters / WALK_SPEED_MPS);
+}
+
+function walkMeters(from: LatLon, to: LatLon): number {
+  return calculateDistance(from, to) * 1000 * WALK_DETOUR_FACTOR;
+}
+
+export async function hasTransitData(): Promise<boolean> {
+  const feeds = await db.select({ id: transitFeeds.id }).from(transitFeeds).limit(1);
+  return feeds.length > 0;
+}
+
+// Services running on a date: calendar.txt weekday ranges plus calendar_dates.txt exceptions
+async function getActiveServiceIds(feedId: number, date: string): Promise<string[]> {
+  const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7; // Monday = 0
+
+  const calendars = await db
+    .select()
+    .from(transitCalendars)
+    .where(
+      and(
+        eq(transitCalendars.feedId, feedId),
+        lte(transitCalendars.startDate, date),
+        gte(transitCalendars.endDate, date)
+      )
+    );
+
+  const active = new Set(
+    calendars.filter((calendar) => calendar.days[weekday] === '1').map((calendar) => calendar.serviceId)
+  );
+
+  const exceptions = await db
+    .select()
+    .from(transitCalendarDates)
+    .where(and(eq(transitCalendarDates.feedId, feedId), eq(transitCalendarDates.date, date)));
+
+  for (const exception of exceptions) {
+    if (exception.exceptionType === 1) active.add(exception.serviceId);
+    if (exception.exceptionType === 2) active.delete(exception.serviceId);
+  }
+
+  return [...active];
+}
+
+interface PatternTrip {
+  tripId: string;
+  headsign: string | null;
+  arrivals: number[];
+  departures: number[];
+}
+
+// A RAPTOR "route": trips of one GTFS route that visit the same stop sequence
+interface Pattern {
+  routeId: string;
+  stops: string[];
+  trips: PatternTrip[]; // sorted by departure from the first stop
+}
+
+type Label =
+  | { kind: 'access'; arrival: number; distance: number }
+  | { kind: 'ride'; arrival: number; pattern: Pattern; trip: PatternTrip; boardIndex: number; alightIndex: number; boardRound: number }
+  | { kind: 'walk'; arrival: number; fromStop: string; distance: number };
+
+interface FeedNetwork {
+  feedId: number;
+  stops: Map<string, { name: string; coordinates: LatLon; zoneId: string | null }>;
+  routes: Map<string, { name: string; routeType: number }>;
+  patterns: Pattern[];
+  stopPatterns: Map<string, Array<{ pattern: Pattern; index: number }>>;
+}
+
+async function loadFeedNetwork(
+  feedId: number,
+  options: TransitPlanOptions,
+  mode: TransitMode | undefined
+): Promise<FeedNetwork | null> {
+  const serviceIds = await getActiveServiceIds(feedId, options.date);
+  if (serviceIds.length === 0) return null;
+
+  const routeRows = await db.select().from(transitRoutes).where(eq(transitRoutes.feedId, feedId));
+  const routes = new Map(
+    routeRows
+      .filter((route) => !mode || matchesMode(route.routeType, mode))
+      .map((route) => [
+        route.routeId,
+        { name: route.shortName || route.longName || route.routeId, routeType: route.routeType },
+      ])
+  );
+  if (routes.size === 0) return null;
+
+  const stopTimeRows = await db
+    .select({
+      tripId: transitStopTimes.tripId,
+      stopId: transitStopTimes.stopId,
+      stopSequence: transitStopTimes.stopSequence,
+      arrivalTime: transitStopTimes.arrivalTime,
+      departureTime: transitStopTimes.departureTime,
+      routeId: transitTrips.routeId,
+      headsign: transitTrips.headsign,
+    })
+    .from(transitStopTimes)
+    .innerJoin(
+      transitTrips,
+      and(eq(transitTrips.feedId, transitStopTimes.feedId), eq(transitTrips.tripId, transitStopTimes.tripId))
+    )
+    .where(
+      and(
+        eq(transitStopTimes.feedId, feedId),
+        inArray(transitTrips.serviceId, serviceIds),
+        gte(transitStopTimes.arrivalTime, options.departureSeconds),
+        lte(transitStopTimes.departureTime, options.departureSeconds + SEARCH_WINDOW_SECONDS)
+      )
+    );
+
+  // Group stop times into trips, then trips into patterns
+  const tripRows = new Map<string, typeof stopTimeRows>();
+  for (const row of stopTimeRows) {
+    if (!routes.has(row.routeId)) continue;
+    const rows = tripRows.get(row.tripId) || [];
+    rows.push(row);
+    tripRows.set(row.tripId, rows);
+  }
+
+  const patternsByKey = new Map<string, Pattern>();
+  for (const [tripId, rows] of tripRows) {
+    if (rows.length < 2) continue;
+    rows.sort((a, b) => a.stopSequence - b.stopSequence);
+
+    const stopIds = rows.map((row) => row.stopId);
+    const key = `${rows[0].routeId}|${stopIds.join('>')}`;
+    let pattern = patternsByKey.get(key);
+    if (!pattern) {
+      pattern = { routeId: rows[0].routeId, stops: stopIds, trips: [] };
+      patternsByKey.set(key, pattern);
+    }
+    pattern.trips.push({
+      tripId,
+      headsign: rows[0].headsign,
+      arrivals: rows.map((row) => row.arrivalTime),
+      departures: rows.map((row) => row.departureTime),
+    });
+  }
+
+  const patterns = [...patternsByKey.values()];
+  const stopPatterns = new Map<string, Array<{ pattern: Pattern; index: number }>>();
+  for (const pattern of patterns) {
+    pattern.trips.sort((a, b) => a.departures[0] - b.departures[0]);
+    pattern.stops.forEach((stopId, index) => {
+      const entries = stopPatterns.get(stopId) || [];
+      entries.push({ pattern, index });
+      stopPatterns.set(stopId, entries);
+    });
+  }
+  if (patterns.length === 0) return null;
+
+  const stopRows = await db.select().from(transitStops).where(eq(transitStops.feedId, feedId));
+  const stops = new Map(
+    stopRows.map((stop) => [
+      stop.stopId,
+      { name: stop.name, coordinates: [stop.latitude, stop.longitude] as LatLon, zoneId: stop.zoneId },
+    ])
+  );
+
+  return { feedId, stops, routes, patterns, stopPatterns };
+}
+
+// Stops within walking range of a point, with the walk distance in meters
+function nearbyStops(network: FeedNetwork, point: LatLon, maxMeters: number): Map<string, number> {
+  const result = new Map<string, number>();
+  for (const [stopId, stop] of network.stops) {
+    if (!network.stopPatterns.has(stopId)) continue;
+    const distance = walkMeters(point, stop.coordinates);
+    if (distance <= maxMeters) result.set(stopId, distance);
+  }
+  return result;
+}
+
+// Round-based public transit routing (RAPTOR, Delling et al. 2012) over one feed
+function runRaptor(
+  network: FeedNetwork,
+  origin: LatLon,
+  destination: LatLon,
+  departureSeconds: number
+): { rounds: Map<string, Label>[]; targetStop: string; targetRound: number; arrival: number; egressMeters: number } | null {
+  const access = nearbyStops(network, origin, MAX_ACCESS_WALK_M);
+  const egress = nearbyStops(network, destination, MAX_ACCESS_WALK_M);
+  if (access.size === 0 || egress.size === 0) return null;
+
+  const bestArrival = new Map<string, number>();
+  const rounds: Map<string, Label>[] = [new Map()];
+  let marked = new Set<string>();
+
+  for (const [stopId, distance] of access) {
+    const arrival = departureSeconds + walkSeconds(distance);
+    rounds[0].set(stopId, { kind: 'access', arrival, distance });
+    bestArrival.set(stopId, arrival);
+    marked.add(stopId);
+  }
+
+  // Latest round at or before `round` in which the stop has a label
+  const labelRound = (stopId: string, round: number): number => {
+    for (let k = round; k >= 0; k--) {
+      if (rounds[k].has(stopId)) return k;
+    }
+    return -1;
+  };
+
+  let best: { targetStop: string; targetRound: number; arrival: number; egressMeters: number } | null = null;
+
+  for (let round = 1; round <= MAX_ROUNDS && marked.size > 0; round++) {
+    const current = new Map<string, Label>();
+    rounds.push(current);
+    const bound = best ? best.arrival : Infinity;
+
+    // Each pattern is scanned once, from the earliest marked stop on it
+    const queue = new Map<Pattern, number>();
+    for (const stopId of marked) {
+      for (const { pattern, index } of network.stopPatterns.get(stopId) || []) {
+        const existing = queue.get(pattern);
+        if (existing === undefined || index < existing) queue.set(pattern, index);
+      }
+    }
+
+    const improved = new Set<string>();
+    for (const [pattern, startIndex] of queue) {
+      let trip: PatternTrip | null = null;
+      let boardIndex = -1;
+      let boardRound = -1;
+
+      for (let i = startIndex; i < pattern.stops.length; i++) {
+        const stopId = pattern.stops[i];
+
+        if (trip) {
+          const arrival = trip.arrivals[i];
+          if (arrival < (bestArrival.get(stopId) ?? Infinity) && arrival < bound) {
+            current.set(stopId, { kind: 'ride', arrival, pattern, trip, boardIndex, alightIndex: i, boardRound });
+            bestArrival.set(stopId, arrival);
+            improved.add(stopId);
+          }
+        }
+
+        // Can we catch an earlier trip here, given how we reached this stop last round?
+        const previousRound = labelRound(stopId, round - 1);
+        if (previousRound < 0) continue;
+        const previous = rounds[previousRound].get(stopId)!;
+        const readyAt = previous.arrival + (previous.kind === 'access' ? 0 : MIN_TRANSFER_SECONDS);
+        if (trip && trip.departures[i] <= readyAt) continue;
+
+        const candidate = pattern.trips.find((t) => t.departures[i] >= readyAt);
+        if (candidate && (!trip || candidate.departures[i] < trip.departures[i])) {
+          trip = candidate;
+          boardIndex = i;
+          boardRound = previousRound;
+        }
+      }
+    }
+
+    // Footpath transfers from stops improved by riding this round
+    for (const stopId of [...improved]) {
+      const from = network.stops.get(stopId);
+      const label = current.get(stopId);
+      if (!from || !label) continue;
+
+      for (const [neighborId, distance] of nearbyStops(network, from.coordinates, MAX_TRANSFER_WALK_M)) {
+        if (neighborId === stopId) continue;
+        const arrival = label.arrival + walkSeconds(distance);
+        if (arrival < (bestArrival.get(neighborId) ?? Infinity)) {
+          current.set(neighborId, { kind: 'walk', arrival, fromStop: stopId, distance });
+          bestArrival.set(neighborId, arrival);
+          improved.add(neighborId);
+        }
+      }
+    }
+
+    for (const [stopId, distance] of egress) {
+      const label = current.get(stopId);
+      if (!label) continue;
+      const arrival = label.arrival + walkSeconds(distance);
+      if (!best || arrival < best.arrival) {
+        best = { targetStop: stopId, targetRound: round, arrival, egressMeters: distance };
+      }
+    }
+
+    marked = improved;
+  }
+
+  return best ? { rounds, ...best } : null;
+}
+
+function buildJourney(
+  network: FeedNetwork,
+  origin: LatLon,
+  destination: LatLon,
+  departureSeconds: number,
+  result: NonNullable<ReturnType<typeof runRaptor>>
+): Omit<TransitJourney, 'fare'> & { rides: Array<{ routeId: string; boardStop: string; alightStop: string; departure: number }> } {
+  const legs: TransitLeg[] = [];
+  const rides: Array<{ routeId: string; boardStop: string; alightStop: string; departure: number }> = [];
+  const place = (stopId: string): TransitPlace => {
+    const stop = network.stops.get(stopId)!;
+    return { name: stop.name, coordinates: stop.coordinates, stopId };
+  };
+
+  // Egress walk to the destination
+  const lastStop = place(result.targetStop);
+  const lastArrival = result.rounds[result.targetRound].get(result.targetStop)!.arrival;
+  legs.unshift({
+    type: 'walk',
+    from: lastStop,
+    to: { name: 'Destination', coordinates: destination },
+    departureTime: formatClockTime(lastArrival),
+    arrivalTime: formatClockTime(result.arrival),
+    duration: result.arrival - lastArrival,
+    distance: result.egressMeters,
+    coordinates: [lastStop.coordinates, destination],
+    instruction: `Walk from ${lastStop.name} to your destination`,
+  });
+
+  // Follow labels back to the access stop
+  let stopId = result.targetStop;
+  let round = result.targetRound;
+  while (true) {
+    const label = result.rounds[round].get(stopId)!;
+
+    if (label.kind === 'access') {
+      const firstStop = place(stopId);
+      legs.unshift({
+        type: 'walk',
+        from: { name: 'Origin', coordinates: origin },
+        to: firstStop,
+        departureTime: formatClockTime(departureSeconds),
+        arrivalTime: formatClockTime(label.arrival),
+        duration: label.arrival - departureSeconds,
+        distance: label.distance,
+        coordinates: [origin, firstStop.coordinates],
+        instruction: `Walk to ${firstStop.name}`,
+      });
+      break;
+    }
+
+    if (label.kind === 'walk') {
+      const from = place(label.fromStop);
+      const to = place(stopId);
+      const fromLabel = result.rounds[round].get(label.fromStop)!;
+      legs.unshift({
+        type: 'transfer',
+        from,
+        to,
+        departureTime: formatClockTime(fromLabel.arrival),
+        arrivalTime: formatClockTime(label.arrival),
+        duration: label.arrival - fromLabel.arrival,
+        distance: label.distance,
+        coordinates: [from.coordinates, to.coordinates],
+        instruction: `Transfer: walk from ${from.name} to ${to.name}`,
+      });
+      stopId = label.fromStop;
+      continue;
+    }
+
+    const { pattern, trip, boardIndex, alightIndex } = label;
+    const route = network.routes.get(pattern.routeId)!;
+    const from = place(pattern.stops[boardIndex]);
+    const to = place(pattern.stops[alightIndex]);
+    const coordinates = pattern.stops
+      .slice(boardIndex, alightIndex + 1)
+      .map((id) => network.stops.get(id)!.coordinates);
+    const departure = trip.departures[boardIndex];
+    const towards = trip.headsign ? ` towards ${trip.headsign}` : '';
+    const stopCount = alightIndex - boardIndex;
+
+    legs.unshift({
+      type: 'ride',
+      from,
+      to,
+      departureTime: formatClockTime(departure),
+      arrivalTime: formatClockTime(label.arrival),
+      duration: label.arrival - departure,
+      distance: polylineLength(coordinates) * 1000,
+      coordinates,
+      instruction: `Ride line ${route.name}${towards} from ${from.name} to ${to.name} (${stopCount} stop${stopCount === 1 ? '' : 's'})`,
+      routeId: pattern.routeId,
+      routeName: route.name,
+      routeType: route.routeType,
+      headsign: trip.headsign || undefined,
+      stopCount,
+    });
+    rides.unshift({ routeId: pattern.routeId, boardStop: from.stopId!, alightStop: to.stopId!, departure });
+
+    stopId = pattern.stops[boardIndex];
+    round = label.boardRound;
+  }
+
+  const coordinates: LatLon[] = [];
+  for (const leg of legs) {
+    coordinates.push(...(coordinates.length > 0 ? leg.coordinates.slice(1) : leg.coordinates));
+  }
+
+  return {
+    legs,
+    rides,
+    departureSeconds,
+    arrivalSeconds: result.arrival,
+    duration: result.arrival - departureSeconds,
+    distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    transfers: Math.max(0, rides.length - 1),
+    coordinates,
+  };
+}
+
+// Price rides with fare_attributes/fare_rules. A ride reuses the previous fare
+// when that fare allows another transfer within its transfer_duration.
+async function calculateFare(
+  network: FeedNetwork,
+  rides: Array<{ routeId: string; boardStop: string; alightStop: string; departure: number }>
+): Promise<TransitFare | null> {
+  if (rides.length === 0) return null;
+
+  const attributes = await db.select().from(transitFareAttributes).where(eq(transitFareAttributes.feedId, network.feedId));
+  if (attributes.length === 0) return null;
+  const rules = await db.select().from(transitFareRules).where(eq(transitFareRules.feedId, network.feedId));
+
+  const fareFor = (ride: typeof rides[number]) => {
+    const originZone = network.stops.get(ride.boardStop)?.zoneId;
+    const destinationZone = network.stops.get(ride.alightStop)?.zoneId;
+    const fareIds = rules.length === 0
+      ? attributes.map((attribute) => attribute.fareId)
+      : rules
+          .filter((rule) =>
+            (!rule.routeId || rule.routeId === ride.routeId) &&
+            (!rule.originId || rule.originId === originZone) &&
+            (!rule.destinationId || rule.destinationId === destinationZone)
+          )
+          .map((rule) => rule.fareId);
+
+    return attributes
+      .filter((attribute) => fareIds.includes(attribute.fareId))
+      .sort((a, b) => a.price - b.price)[0];
+  };
+
+  let total = 0;
+  let currency: string | null = null;
+  let active: { fareId: string; startedAt: number; transfersLeft: number | null; transferDuration: number | null } | null = null;
+
+  for (const ride of rides) {
+    const fare = fareFor(ride);
+    if (!fare) return null;
+
+    const covered = active &&
+      active.fareId === fare.fareId &&
+      (active.transfersLeft === null || active.transfersLeft > 0) &&
+      (active.transferDuration === null || ride.departure - active.startedAt <= active.transferDuration);
+
+    if (covered && active) {
+      if (active.transfersLeft !== null) active.transfersLeft--;
+      continue;
+    }
+
+    total += fare.price;
+    currency = currency || fare.currency;
+    active = {
+      fareId: fare.fareId,
+      startedAt: ride.departure,
+      transfersLeft: fare.transfers,
+      transferDuration: fare.transferDuration,
+    };
+  }
+
+  return { amount: Math.round(total * 100) / 100, currency: currency || 'USD' };
+}
+
+// Plan the earliest-arriving transit journey across all imported feeds.
+// Routes of the requested mode are tried first; if none connect, any mode is allowed.
+export async function planTransitJourney(
+  origin: LatLon,
+  destination: LatLon,
+  options: TransitPlanOptions
+): Promise<TransitJourney | null> {
+  const feeds = await db.select({ id: transitFeeds.id }).from(transitFeeds);
+  const modes: Array<TransitMode | undefined> = options.mode ? [options.mode, undefined] : [undefined];
+
+  for (const mode of modes) {
+    let best: TransitJourney | null = null;
+
+    for (const feed of feeds) {
+      const network = await loadFeedNetwork(feed.id, options, mode);
+      if (!network) continue;
+
+      const result = runRaptor(network, origin, destination, options.departureSeconds);
+      if (!result) continue;
+
+      const { rides, ...journey } = buildJourney(network, origin, destination, options.departureSeconds, result);
+      if (!best || journey.arrivalSeconds < best.arrivalSeconds) {
+        best = { ...journey, fare: await calculateFare(network, rides) };
+      }
+    }
+
+    if (best) return best;
+  }
+
+  return null;
+}
@@ -0,0 +1,118 @@
+import { db } from '@/db';
+import { user } from '@/db/schema';
+import { inArray } from 'drizzle-orm';
+import type { LatLon } from '@/lib/geo';
+import {
+  MAX_FLEXIBILITY_MINUTES,
+  calculateMatchScore,
+  isTripFull,
+  rolesCompatible,
+  toMatchTrip,
+  type MatchComponent,
+  type MatchResult,
+  type TripRole,
+} from '@/lib/matching';
+import { findCandidateTripIds, loadTrips } from '@/lib/spatialIndex';
+
+// Browsing other users' trips along a route before creating one. Candidates
+// come from the spatial index like automatic matching and are ranked with
+// calculateMatchScore against a trip the searcher would take on the same day.
+// The routed detour stage is skipped: it costs a routing call per result.
+
+export interface TripSearchQuery {
+  userId: string;
+  sourceCoords: LatLon;
+  destCoords: LatLon;
+  routeGeometry: LatLon[] | null;
+  destination: string;
+  radiusKm: number;
+  dateFrom: string;
+  dateTo: string | null;
+  travelTime: string | null; // without one every departure that day counts as on time
+  flexibilityMinutes: number;
+  transportMode: string | null;
+  role: TripRole | null;
+  minSeats: number | null; // only drivers with this many free seats
+  verifiedOnly: boolean;
+  page: number;
+  limit: number;
+}
+
+type TripRow = Awaited<ReturnType<typeof loadTrips>>[number];
+
+export interface TripSearchResult {
+  trip: Omit<TripRow, 'routeGeometry' | 'sourceCoordinates' | 'destinationCoordinates'>;
+  user: { name: string; image: string | null; verified: boolean };
+  score: number;
+  breakdown: MatchResult;
+}
+
+// Rules that say a trip is actually near the searched route; the cell lookup
+// only narrows candidates down to a superset
+const LOCATION_COMPONENTS: MatchComponent[] = ['source', 'destination', 'pickup', 'dropoff', 'theyPickup', 'theyDropoff'];
+
+export async function searchTrips(query: TripSearchQuery): Promise<{ results: TripSearchResult[]; total: number }> {
+  const candidates = await loadTrips(await findCandidateTripIds({
+    source: query.sourceCoords,
+    destination: query.destCoords,
+    routeGeometry: query.routeGeometry,
+    radiusKm: query.radiusKm,
+    excludeUserId: query.userId,
+  }));
+
+  const filtered = candidates.filter(trip =>
+    trip.travelDate >= query.dateFrom &&
+    (!query.dateTo || trip.travelDate <= query.dateTo) &&
+    (!query.transportMode || trip.transportMode.toLowerCase() === query.transportMode.toLowerCase()) &&
+    rolesCompatible(query.role, trip.role as TripRole | null) &&
+    !isTripFull(trip) &&
+    (query.minSeats === null || (trip.role === 'driver' && (trip.seatsAvailable ?? 0) >= query.minSeats))
+  );
+
+  const users = filtered.length === 0 ? [] : await db
+    .select({ id: user.id, name: user.name, image: user.image, emailVerified: user.emailVerified })
+    .from(user)
+    .where(inArray(user.id, [...new Set(filtered.map(trip => trip.userId))]));
+  const usersById = new Map(users.map(row => [row.id, row]));
+
+  const scored: TripSearchResult[] = [];
+  for (const trip of filtered) {
+    const owner = usersById.get(trip.userId);
+    if (!owner || (query.verifiedOnly && !owner.emailVerified)) continue;
+
+    const breakdown = calculateMatchScore(
+      {
+        sourceCoords: query.sourceCoords,
+        destCoords: query.destCoords,
+        routeGeometry: query.routeGeometry,
+        destination: query.destination,
+        travelDate: trip.travelDate,
+        travelTime: query.travelTime ?? '12:00',
+        flexibilityMinutes: query.travelTime ? query.flexibilityMinutes : MAX_FLEXIBILITY_MINUTES,
+        transportMode: query.transportMode ?? trip.transportMode,
+        matchRadius: query.radiusKm,
+        role: query.role,
+      },
+      toMatchTrip(trip)
+    );
+    if (!LOCATION_COMPONENTS.some(key => (breakdown.components[key] ?? 0) > 0)) continue;
+
+    const { routeGeometry, sourceCoordinates, destinationCoordinates, ...publicTrip } = trip;
+    scored.push({
+      trip: publicTrip,
+      user: { name: owner.name, image: owner.image, verified: owner.emailVerified },
+      score: breakdown.score,
+      breakdown,
+    });
+  }
+
+  // Best score first, then earliest departure
+  scored.sort((a, b) =>
+    b.score - a.score ||
+    a.trip.travelDate.localeCompare(b.trip.travelDate) ||
+    a.trip.travelTime.localeCompare(b.trip.travelTime)
+  );
+
+  const start = (query.page - 1) * query.limit;
+  return { results: scored.slice(start, start + query.limit), total: scored.length };
+}
@@ -0,0 +1,139 @@
+import { geocode } from '@/lib/geocoding';
+import { toLatLon, type LatLon } from '@/lib/geo';
+import { getRoutingEngine, type TransportMode } from '@/lib/routing';
+import { planFlightItinerary } from '@/lib/flights';
+import {
+  DEFAULT_FLEXIBILITY_MINUTES,
+  DEFAULT_MAX_DETOUR_MINUTES,
+  DETOUR_MODES,
+  MAX_DETOUR_MINUTES_LIMIT,
+  MAX_FLEXIBILITY_MINUTES,
+  MAX_SEATS_OFFERED,
+  TRIP_ROLES,
+  type TripRole,
+} from '@/lib/matching';
+
+export interface TripLocation {
+  sourceCoords: LatLon;
+  destCoords: LatLon;
+  routeGeometry: LatLon[] | null;
+}
+
+// Geocode a trip's endpoints and calculate the route geometry used for
+// matching: the airport-to-airport itinerary for flights, otherwise the
+// configured routing engine. Endpoints whose coordinates are already known
+// (picked from autocomplete) skip geocoding. Null when either endpoint can't
+// be geocoded.
+export async function locateTrip(
+  source: string,
+  destination: string,
+  transportMode: string,
+  known: { sourceCoords?: LatLon | null; destCoords?: LatLon | null } = {}
+): Promise<TripLocation | null> {
+  const sourceCoords = known.sourceCoords ?? await geocode(source);
+  const destCoords = known.destCoords ?? await geocode(destination);
+  if (!sourceCoords || !destCoords) return null;
+
+  let routeGeometry: LatLon[] | null = null;
+  if (transportMode.toLowerCase() === 'flight') {
+    const itinerary = await planFlightItinerary(sourceCoords, destCoords, source, destination);
+    if (itinerary) {
+      routeGeometry = itinerary.coordinates;
+    }
+  } else {
+    const [route] = await getRoutingEngine().route([sourceCoords, destCoords], transportMode as TransportMode);
+    if (route) {
+      routeGeometry = route.coordinates;
+    }
+  }
+
+  return { sourceCoords, destCoords, routeGeometry };
+}
+
+// Matching preferences shared by one-off trips and recurring schedules
+export interface TripOptions {
+  matchRadius: number;
+  flexibilityMinutes: number;
+  maxDetourMinutes: number;
+  role: TripRole | null;
+  seatsOffered: number | null;
+}
+
+export type TripOptionsResult =
+  | { ok: true; options: TripOptions }
+  | { ok: false; code: string; error: string };
+
+// Validate the matching preferences in a request body, applying defaults.
+// Car trips say who drives; drivers say how many seats they offer.
+export function parseTripOptions(body: Record<string, any>, transportMode: string): TripOptionsResult {
+  const matchRadius = body.matchRadius !== undefined ? parseInt(body.matchRadius) : 10;
+  const flexibilityMinutes = body.flexibilityMinutes !== undefined ? parseInt(body.flexibilityMinutes) : DEFAULT_FLEXIBILITY_MINUTES;
+  const maxDetourMinutes = body.maxDetourMinutes !== undefined ? parseInt(body.maxDetourMinutes) : DEFAULT_MAX_DETOUR_MINUTES;
+
+  if (isNaN(matchRadius) || matchRadius < 1 || matchRadius > 100) {
+    return { ok: false, code: 'INVALID_MATCH_RADIUS', error: 'matchRadius must be a number between 1 and 100' };
+  }
+
+  // ± minutes around the departure time
+  if (isNaN(flexibilityMinutes) || flexibilityMinutes < 0 || flexibilityMinutes > MAX_FLEXIBILITY_MINUTES) {
+    return {
+      ok: false,
+      code: 'INVALID_FLEXIBILITY',
+      error: `flexibilityMinutes must be a number between 0 and ${MAX_FLEXIBILITY_MINUTES}`,
+    };
+  }
+
+  // Extra driving time the driver accepts
+  if (isNaN(maxDetourMinutes) || maxDetourMinutes < 0 || maxDetourMinutes > MAX_DETOUR_MINUTES_LIMIT) {
+    return {
+      ok: false,
+      code: 'INVALID_MAX_DETOUR',
+      error: `maxDetourMinutes must be a number between 0 and ${MAX_DETOUR_MINUTES_LIMIT}`,
+    };
+  }
+
+  let role: TripRole | null = null;
+  let seatsOffered: number | null = null;
+  if (DETOUR_MODES.includes(transportMode.toLowerCase() as TransportMode)) {
+    if (!TRIP_ROLES.includes(body.role)) {
+      return {
+        ok: false,
+        code: 'INVALID_ROLE',
+        error: `role is required for car trips and must be one of: ${TRIP_ROLES.join(', ')}`,
+      };
+    }
+    role = body.role;
+
+    if (role === 'driver') {
+      seatsOffered = parseInt(body.seatsOffered);
+      if (isNaN(seatsOffered) || seatsOffered < 1 || seatsOffered > MAX_SEATS_OFFERED) {
+        return {
+          ok: false,
+          code: 'INVALID_SEATS',
+          error: `seatsOffered must be a number between 1 and ${MAX_SEATS_OFFERED}`,
+        };
+      }
+    }
+  }
+
+  return { ok: true, options: { matchRadius, flexibilityMinutes, maxDetourMinutes, role, seatsOffered } };
+}
+
+export type EndpointCoordinatesResult =
+  | { ok: true; sourceCoords: LatLon | null; destCoords: LatLon | null }
+  | { ok: false; code: string; error: string };
+
+// Optional sourceCoordinates / destinationCoordinates ([lat, lon]) in a request body
+export function parseEndpointCoordinates(body: Record<string, any>): EndpointCoordinatesResult {
+  const sourceCoords = body.sourceCoordinates != null ? toLatLon(body.sourceCoordinates) : null;
+  const destCoords = body.destinationCoordinates != null ? toLatLon(body.destinationCoordinates) : null;
+
+  if ((body.sourceCoordinates != null && !sourceCoords) || (body.destinationCoordinates != null && !destCoords)) {
+    return {
+      ok: false,
+      code: 'INVALID_COORDINATES',
+      error: 'sourceCoordinates and destinationCoordinates must be [lat, lon]',
+    };
+  }
+  return { ok: true, sourceCoords, destCoords };
+}
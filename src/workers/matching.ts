@@ -0,0 +1,82 @@
+import os from 'node:os';
+import { runNextJob, type JobHandlers } from '@/lib/jobs';
+import { rematchTrip } from '@/lib/matching';
+import { expireMatchRequests } from '@/lib/matchConsent';
+import { extendSchedules } from '@/lib/schedules';
+import { closePoll } from '@/lib/chatContent';
+import { getGroupMessage } from '@/lib/messages';
+import { publishGroupEvent } from '@/lib/realtime';
+import { expireLocationShares } from '@/lib/liveLocation';
+
+// Runs queued matching jobs: trips are (re)scored when they are created,
+// edited or cancelled. It also closes group chat polls when they are due
+// (close_poll jobs are delayed until then). While idle it also lapses expired
+// match requests, generates upcoming trips of recurring schedules and ends
+// expired live location shares.
+// Usage: npm run worker [-- --once]
+// --once drains the queue and exits instead of polling.
+
+const POLL_INTERVAL_MS = parseInt(process.env.WORKER_POLL_INTERVAL_MS || '') || 2000;
+const workerId = `${os.hostname()}:${process.pid}`;
+
+const handlers: JobHandlers = {
+  async match_trip({ tripId }) {
+    const { matched, invalidated } = await rematchTrip(tripId);
+    console.log(`Trip ${tripId}: ${matched} matches, ${invalidated} invalidated`);
+  },
+  async close_poll({ messageId }) {
+    const groupId = await closePoll(messageId);
+    if (groupId === null) return;
+    await publishGroupEvent(groupId, 'message.updated', messageId, await getGroupMessage(messageId));
+    console.log(`Poll ${messageId} closed`);
+  },
+};
+
+// Idle-time upkeep, each step reporting how many rows it changed
+const MAINTENANCE: [string, () => Promise<number>, string][] = [
+  ['expiring match requests', () => expireMatchRequests(), 'match requests expired'],
+  ['extending schedules', () => extendSchedules(), 'recurring trips generated'],
+  ['expiring location shares', () => expireLocationShares(), 'location shares expired'],
+];
+
+let stopping = false;
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function main() {
+  const once = process.argv.includes('--once');
+  console.log(`✅ Matching worker ${workerId} started${once ? ' (draining queue)' : ''}`);
+
+  while (!stopping) {
+    const ranJob = await runNextJob(workerId, handlers);
+    if (!ranJob) {
+      for (const [step, task, done] of MAINTENANCE) {
+        try {
+          const count = await task();
+          if (count > 0) console.log(`${count} ${done}`);
+        } catch (error) {
+          // Tried again on the next idle pass
+          console.error(`Failed ${step}:`, error);
+        }
+      }
+      if (once) break;
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  console.log('Matching worker stopped');
+}
+
+// Finish the current job before exiting
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    stopping = true;
+  });
+}
+
+main().catch((error) => {
+  console.error('❌ Matching worker failed:', error);
+  process.exit(1);
+});